@@ -1,5 +1,6 @@
 // analytics.ts - Sistema de análisis de trading tipo Tradezella
 import type { Redis as RedisClient } from 'ioredis';
+import { resolveTokenMetadata, tokenLinks } from './tokenMetadata.js';
 
 // --- INTERFACES DE DATOS ---
 
@@ -28,6 +29,10 @@ export interface Trade {
   entrySource?: string;       // 'SNIPER' | 'COPY' | 'MANUAL' | ...
   dex?: string;               // 'PUMPFUN' | 'PUMPSWAP' | 'JUPITER' | ...
   strategyTag?: string;       // 'ADAPTIVE' | 'LEGACY' | ...
+
+  // Metadata del token (tokenMetadata.ts)
+  mint?: string;
+  tokenName?: string;
 }
 
 /**
@@ -120,6 +125,90 @@ interface HoldTimeData {
 type HoldTimeBucket = '0-5min' | '5-10min' | '10-20min' | '20-30min' | '30min+';
 
 
+/**
+ * Estadísticas generales a partir de una lista de trades ya cargada.
+ * La usa getOverallStats y también el backtester (trades simulados).
+ */
+export function computeOverallStats(trades: Trade[]): OverallStats {
+  if (trades.length === 0) {
+    return {
+      totalTrades: 0,
+      wins: 0,
+      losses: 0,
+      winRate: '0%',
+      avgReturn: '0%',
+      totalPnL: '0 SOL',
+      profitFactor: 'N/A',
+      bestTrade: null,
+      worstTrade: null,
+    };
+  }
+
+  let wins = 0;
+  let losses = 0;
+  let totalPnL = 0;
+  let totalReturnPercent = 0;
+  let bestTrade: Trade | null = null;
+  let worstTrade: Trade | null = null;
+
+  for (const trade of trades) {
+    const pnl = parseFloat(trade.pnlSOL || '0');
+    const returnPercent = parseFloat(trade.pnlPercent || '0');
+
+    totalPnL += pnl;
+    totalReturnPercent += returnPercent;
+
+    if (pnl > 0) wins++;
+    else if (pnl < 0) losses++;
+
+    if (!bestTrade || pnl > parseFloat(bestTrade.pnlSOL || '0')) {
+      bestTrade = trade;
+    }
+    if (!worstTrade || pnl < parseFloat(worstTrade.pnlSOL || '0')) {
+      worstTrade = trade;
+    }
+  }
+
+  const winRate = ((wins / trades.length) * 100).toFixed(1);
+  const avgReturn = (totalReturnPercent / trades.length).toFixed(2);
+
+  const totalWins = trades
+    .filter((t) => parseFloat(t.pnlSOL || '0') > 0)
+    .reduce((sum, t) => sum + parseFloat(t.pnlSOL || '0'), 0);
+  const totalLosses = Math.abs(
+    trades
+      .filter((t) => parseFloat(t.pnlSOL || '0') < 0)
+      .reduce((sum, t) => sum + parseFloat(t.pnlSOL || '0'), 0),
+  );
+  const profitFactor = totalLosses > 0 ? (totalWins / totalLosses).toFixed(2) : 'N/A';
+
+  return {
+    totalTrades: trades.length,
+    wins,
+    losses,
+    winRate: `${winRate}%`,
+    avgReturn: `${avgReturn}%`,
+    totalPnL: `${totalPnL >= 0 ? '+' : ''}${totalPnL.toFixed(4)} SOL`,
+    profitFactor,
+    bestTrade: bestTrade
+      ? {
+          symbol: bestTrade.symbol,
+          pnl: parseFloat(bestTrade.pnlSOL || '0').toFixed(4),
+          return: `${parseFloat(bestTrade.pnlPercent || '0').toFixed(2)}%`,
+          reason: bestTrade.reason,
+        }
+      : null,
+    worstTrade: worstTrade
+      ? {
+          symbol: worstTrade.symbol,
+          pnl: parseFloat(worstTrade.pnlSOL || '0').toFixed(4),
+          return: `${parseFloat(worstTrade.pnlPercent || '0').toFixed(2)}%`,
+          reason: worstTrade.reason,
+        }
+      : null,
+  };
+}
+
 // --- CLASE DE ANALÍTICAS ---
 
 export class TradingAnalytics {
@@ -170,83 +259,7 @@ export class TradingAnalytics {
 
     const trades = await this.getTrades(startDate.toISOString());
 
-    if (trades.length === 0) {
-      return {
-        totalTrades: 0,
-        wins: 0,
-        losses: 0,
-        winRate: '0%',
-        avgReturn: '0%',
-        totalPnL: '0 SOL',
-        profitFactor: 'N/A',
-        bestTrade: null,
-        worstTrade: null,
-      };
-    }
-
-    let wins = 0;
-    let losses = 0;
-    let totalPnL = 0;
-    let totalReturnPercent = 0;
-    let bestTrade: Trade | null = null;
-    let worstTrade: Trade | null = null;
-
-    for (const trade of trades) {
-      const pnl = parseFloat(trade.pnlSOL || '0');
-      const returnPercent = parseFloat(trade.pnlPercent || '0');
-
-      totalPnL += pnl;
-      totalReturnPercent += returnPercent;
-
-      if (pnl > 0) wins++;
-      else if (pnl < 0) losses++;
-
-      if (!bestTrade || pnl > parseFloat(bestTrade.pnlSOL || '0')) {
-        bestTrade = trade;
-      }
-      if (!worstTrade || pnl < parseFloat(worstTrade.pnlSOL || '0')) {
-        worstTrade = trade;
-      }
-    }
-
-    const winRate = ((wins / trades.length) * 100).toFixed(1);
-    const avgReturn = (totalReturnPercent / trades.length).toFixed(2);
-
-    const totalWins = trades
-      .filter((t) => parseFloat(t.pnlSOL || '0') > 0)
-      .reduce((sum, t) => sum + parseFloat(t.pnlSOL || '0'), 0);
-    const totalLosses = Math.abs(
-      trades
-        .filter((t) => parseFloat(t.pnlSOL || '0') < 0)
-        .reduce((sum, t) => sum + parseFloat(t.pnlSOL || '0'), 0),
-    );
-    const profitFactor = totalLosses > 0 ? (totalWins / totalLosses).toFixed(2) : 'N/A';
-
-    return {
-      totalTrades: trades.length,
-      wins,
-      losses,
-      winRate: `${winRate}%`,
-      avgReturn: `${avgReturn}%`,
-      totalPnL: `${totalPnL >= 0 ? '+' : ''}${totalPnL.toFixed(4)} SOL`,
-      profitFactor,
-      bestTrade: bestTrade
-        ? {
-            symbol: bestTrade.symbol,
-            pnl: parseFloat(bestTrade.pnlSOL || '0').toFixed(4),
-            return: `${parseFloat(bestTrade.pnlPercent || '0').toFixed(2)}%`,
-            reason: bestTrade.reason,
-          }
-        : null,
-      worstTrade: worstTrade
-        ? {
-            symbol: worstTrade.symbol,
-            pnl: parseFloat(worstTrade.pnlSOL || '0').toFixed(4),
-            return: `${parseFloat(worstTrade.pnlPercent || '0').toFixed(2)}%`,
-            reason: worstTrade.reason,
-          }
-        : null,
-    };
+    return computeOverallStats(trades);
   }
 
   /**
@@ -477,10 +490,18 @@ export class TradingAnalytics {
     const trades = await this.getTrades(startDate.toISOString());
 
     // Ampliamos el CSV para incluir modo, entrySource, dex, strategyTag
+    // y la metadata del token (nombre, mint, link)
     let csv =
-      'Symbol,Entry Time,Exit Time,Entry Price,Exit Price,SOL Amount,PnL SOL,PnL %,Exit Reason,Duration (min),Mode,Entry Source,DEX,Strategy\n';
+      'Symbol,Entry Time,Exit Time,Entry Price,Exit Price,SOL Amount,PnL SOL,PnL %,Exit Reason,Duration (min),Mode,Entry Source,DEX,Strategy,Name,Mint,Link\n';
 
     for (const trade of trades) {
+      // Trades antiguos guardaban el mint como símbolo
+      if (trade.mint && (!trade.symbol || trade.symbol === trade.mint)) {
+        const meta = await resolveTokenMetadata(trade.mint);
+        if (meta?.symbol) trade.symbol = meta.symbol;
+        if (meta?.name && !trade.tokenName) trade.tokenName = meta.name;
+      }
+
       const entryTimeIso = new Date(parseInt(trade.entryTime)).toISOString();
       const exitTimeIso = trade.exitTime
         ? new Date(parseInt(trade.exitTime)).toISOString()
@@ -493,7 +514,7 @@ export class TradingAnalytics {
             ).toFixed(1)
           : 'N/A';
 
-      csv += `${trade.symbol || 'UNKNOWN'},`;
+      csv += `${csvCell(trade.symbol || 'UNKNOWN')},`;
       csv += `${entryTimeIso},`;
       csv += `${exitTimeIso},`;
       csv += `${parseFloat(trade.entryPrice).toFixed(8)},`;
@@ -508,9 +529,17 @@ export class TradingAnalytics {
       csv += `${trade.mode ?? ''},`;
       csv += `${trade.entrySource ?? ''},`;
       csv += `${trade.dex ?? ''},`;
-      csv += `${trade.strategyTag ?? ''}\n`;
+      csv += `${trade.strategyTag ?? ''},`;
+      csv += `${csvCell(trade.tokenName ?? '')},`;
+      csv += `${trade.mint ?? ''},`;
+      csv += `${trade.mint ? tokenLinks(trade.mint).pumpFun : ''}\n`;
     }
 
     return csv;
   }
 }
+
+// Nombres / símbolos de tokens pueden llevar comas o comillas
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
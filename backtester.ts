@@ -0,0 +1,721 @@
+// backtester.ts - Backtesting offline de las salidas COPY (TypeScript)
+//
+// Reproduce un JSONL grabado (ticks de precio + compras/ventas de wallets)
+// a través del MISMO código que usa copyMonitor:
+//   - CopyStrategy.shouldCopy / shouldExit / evaluateTrailingStop
+//   - HybridExitEngine (hybrid, volume exit, partial TP)
+//   - calculateCopySize
+// con reloj, feed de precios y ejecutor simulados. Sin Redis ni RPC.
+//
+// Formato del JSONL (una línea por evento; se ordena por ts):
+//   {"type":"tick","ts":1717000000000,"mint":"...","price":0.00000123}
+//   {"type":"buy","ts":...,"mint":"...","wallet":"...","walletName":"...","solAmount":0.5,"price":0.0000012}
+//   {"type":"sell","ts":...,"mint":"...","wallet":"..."}
+//
+// Uso: npm run backtest -- events.jsonl [--out results.json] [--slippage 1] [--fee 0.000005]
+
+import 'dotenv/config';
+import { readFile, writeFile } from 'fs/promises';
+import { pathToFileURL } from 'url';
+import type { Redis as RedisClient } from 'ioredis';
+import { CopyStrategy, type CopyExitOverrides } from './copyStrategy.js';
+import {
+  HybridExitEngine,
+  type Clock,
+  type HybridExitConfig,
+} from './hybridExitEngine.js';
+import { calculateCopySize } from './copySizing.js';
+import {
+  computeOverallStats,
+  type OverallStats,
+  type Trade,
+} from './analytics.js';
+import {
+  CONSENSUS_WINDOW_SECONDS,
+  PARTIAL_TP_ENABLED,
+} from './environment.js';
+
+// --- Eventos ---
+
+export interface TickEvent {
+  type: 'tick';
+  ts: number;
+  mint: string;
+  price: number;
+}
+
+export interface WalletTradeEvent {
+  type: 'buy' | 'sell';
+  ts: number;
+  mint: string;
+  wallet: string;
+  walletName?: string;
+  symbol?: string;
+  solAmount?: number;
+  leaderBalanceSol?: number;
+  price?: number;
+}
+
+export type BacktestEvent = TickEvent | WalletTradeEvent;
+
+// --- Reloj, precios y ejecutor inyectables ---
+
+export class SimulatedClock {
+  private current = 0;
+
+  readonly now: Clock = () => this.current;
+
+  set(ts: number): void {
+    // Nunca hacia atrás: eventos con el mismo ts se procesan en orden de archivo
+    if (ts > this.current) this.current = ts;
+  }
+}
+
+export interface BacktestPriceFeed {
+  update(mint: string, price: number): void;
+  getPrice(mint: string): number | null;
+}
+
+export class ReplayPriceFeed implements BacktestPriceFeed {
+  private readonly prices: Map<string, number> = new Map();
+
+  update(mint: string, price: number): void {
+    if (Number.isFinite(price) && price > 0) {
+      this.prices.set(mint, price);
+    }
+  }
+
+  getPrice(mint: string): number | null {
+    return this.prices.get(mint) ?? null;
+  }
+}
+
+export interface SimulatedFill {
+  success: boolean;
+  price: number;
+  solAmount: number;
+  tokensAmount: number;
+  error?: string;
+}
+
+export interface BacktestExecutor {
+  buy(mint: string, solAmount: number, price: number): Promise<SimulatedFill>;
+  sell(mint: string, tokensAmount: number, price: number): Promise<SimulatedFill>;
+}
+
+export interface SimulatedExecutorOptions {
+  slippagePercent?: number; // se aplica en contra en compra y venta
+  feeSol?: number; // fee fijo por transacción
+}
+
+export class SimulatedExecutor implements BacktestExecutor {
+  private readonly slippage: number;
+  private readonly feeSol: number;
+
+  constructor(options: SimulatedExecutorOptions = {}) {
+    this.slippage = Math.max(options.slippagePercent ?? 1, 0) / 100;
+    this.feeSol = Math.max(options.feeSol ?? 0.000005, 0);
+  }
+
+  async buy(_mint: string, solAmount: number, price: number): Promise<SimulatedFill> {
+    if (!(price > 0) || !(solAmount > 0)) {
+      return { success: false, price, solAmount: 0, tokensAmount: 0, error: 'invalid_fill' };
+    }
+    const fillPrice = price * (1 + this.slippage);
+    return {
+      success: true,
+      price: fillPrice,
+      solAmount: solAmount + this.feeSol,
+      tokensAmount: solAmount / fillPrice,
+    };
+  }
+
+  async sell(_mint: string, tokensAmount: number, price: number): Promise<SimulatedFill> {
+    if (!(price > 0) || !(tokensAmount > 0)) {
+      return { success: false, price, solAmount: 0, tokensAmount: 0, error: 'invalid_fill' };
+    }
+    const fillPrice = price * (1 - this.slippage);
+    return {
+      success: true,
+      price: fillPrice,
+      solAmount: Math.max(tokensAmount * fillPrice - this.feeSol, 0),
+      tokensAmount,
+    };
+  }
+}
+
+// --- Store en memoria (solo lo que CopyStrategy lee de Redis) ---
+
+class InMemoryStore {
+  private readonly strings: Map<string, string> = new Map();
+  private readonly sets: Map<string, Set<string>> = new Map();
+  private readonly hashes: Map<string, Record<string, string>> = new Map();
+  private readonly lists: Map<string, string[]> = new Map();
+
+  async get(key: string): Promise<string | null> {
+    return this.strings.get(key) ?? null;
+  }
+
+  async sadd(key: string, member: string): Promise<number> {
+    const set = this.sets.get(key) ?? new Set<string>();
+    const added = set.has(member) ? 0 : 1;
+    set.add(member);
+    this.sets.set(key, set);
+    return added;
+  }
+
+  async srem(key: string, member: string): Promise<number> {
+    return this.sets.get(key)?.delete(member) ? 1 : 0;
+  }
+
+  async sismember(key: string, member: string): Promise<number> {
+    return this.sets.get(key)?.has(member) ? 1 : 0;
+  }
+
+  async scard(key: string): Promise<number> {
+    return this.sets.get(key)?.size ?? 0;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return [...(this.sets.get(key) ?? [])];
+  }
+
+  async hset(key: string, values: Record<string, string>): Promise<number> {
+    this.hashes.set(key, { ...(this.hashes.get(key) ?? {}), ...values });
+    return Object.keys(values).length;
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.hashes.get(key)?.[field] ?? null;
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return { ...(this.hashes.get(key) ?? {}) };
+  }
+
+  async lpush(key: string, value: string): Promise<number> {
+    const list = this.lists.get(key) ?? [];
+    list.unshift(value);
+    this.lists.set(key, list);
+    return list.length;
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    const list = this.lists.get(key) ?? [];
+    return list.slice(start, stop < 0 ? list.length + stop + 1 : stop + 1);
+  }
+
+  async del(key: string): Promise<number> {
+    const existed =
+      this.strings.delete(key) ||
+      this.sets.delete(key) ||
+      this.hashes.delete(key) ||
+      this.lists.delete(key);
+    return existed ? 1 : 0;
+  }
+}
+
+// --- Resultados ---
+
+export interface BacktestTrade extends Trade {
+  mint: string;
+  walletSource: string;
+  walletName?: string;
+  tokensAmount: string;
+  solReceived: string;
+  partialSells: number;
+  holdTimeSeconds: string;
+}
+
+export interface BacktestRejection {
+  ts: number;
+  mint: string;
+  wallet: string;
+  reason: string;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  stats: OverallStats;
+  rejections: BacktestRejection[];
+  eventsProcessed: number;
+  startTs: number | null;
+  endTs: number | null;
+}
+
+interface SimPosition {
+  mint: string;
+  symbol: string;
+  walletSource: string;
+  walletName?: string;
+  entryPrice: string;
+  entryTime: string;
+  maxPrice: string;
+  solAmount: string;
+  tokensAmount: string;
+  originalSolAmount: number;
+  originalTokens: number;
+  realizedSol: number;
+  partialStage: number;
+  partialSells: number;
+}
+
+export interface BacktesterOptions {
+  clock?: SimulatedClock;
+  priceFeed?: BacktestPriceFeed;
+  executor?: BacktestExecutor;
+  exitConfig?: Partial<HybridExitConfig>;
+  strategyOverrides?: CopyExitOverrides;
+  sizingMode?: string;
+  consensusWindowSeconds?: number; // default CONSENSUS_WINDOW_SECONDS
+  partialTakeProfits?: boolean;
+  closeOpenAtEnd?: boolean;
+}
+
+// --- Clase principal ---
+
+export class Backtester {
+  private readonly clock: SimulatedClock;
+  private readonly priceFeed: BacktestPriceFeed;
+  private readonly executor: BacktestExecutor;
+  private readonly store = new InMemoryStore();
+  private readonly copyStrategy: CopyStrategy;
+  private readonly exitEngine: HybridExitEngine;
+  private readonly sizingMode?: string;
+  private readonly consensusWindowSeconds: number;
+  private readonly partialTakeProfits: boolean;
+  private readonly closeOpenAtEnd: boolean;
+
+  private readonly positions: Map<string, SimPosition> = new Map();
+  private readonly trades: BacktestTrade[] = [];
+  private readonly rejections: BacktestRejection[] = [];
+
+  constructor(options: BacktesterOptions = {}) {
+    this.clock = options.clock ?? new SimulatedClock();
+    this.priceFeed = options.priceFeed ?? new ReplayPriceFeed();
+    this.executor = options.executor ?? new SimulatedExecutor();
+    this.sizingMode = options.sizingMode;
+    // Igual que WalletTracker: ventana <= 0 → 600s
+    const windowSeconds =
+      options.consensusWindowSeconds ?? CONSENSUS_WINDOW_SECONDS;
+    this.consensusWindowSeconds = windowSeconds > 0 ? windowSeconds : 600;
+    this.partialTakeProfits = options.partialTakeProfits ?? PARTIAL_TP_ENABLED;
+    this.closeOpenAtEnd = options.closeOpenAtEnd ?? true;
+
+    this.copyStrategy = new CopyStrategy({
+      redis: this.store as unknown as RedisClient,
+      clock: this.clock.now,
+      exitOverrides: options.strategyOverrides,
+      consensusWindowSeconds: this.consensusWindowSeconds,
+    });
+    this.exitEngine = new HybridExitEngine({
+      copyStrategy: this.copyStrategy,
+      clock: this.clock.now,
+      config: options.exitConfig,
+    });
+  }
+
+  async run(events: BacktestEvent[]): Promise<BacktestResult> {
+    const ordered = [...events].sort((a, b) => a.ts - b.ts);
+
+    for (const event of ordered) {
+      this.clock.set(event.ts);
+
+      if (event.type === 'tick') {
+        this.priceFeed.update(event.mint, event.price);
+        await this.evaluatePosition(event.mint);
+      } else if (event.type === 'buy') {
+        if (event.price) this.priceFeed.update(event.mint, event.price);
+        await this.handleBuy(event);
+      } else if (event.type === 'sell') {
+        if (event.price) this.priceFeed.update(event.mint, event.price);
+        await this.handleSell(event);
+      }
+    }
+
+    if (this.closeOpenAtEnd) {
+      for (const position of [...this.positions.values()]) {
+        const price = this.priceFeed.getPrice(position.mint);
+        if (price) await this.closePosition(position, price, 'end_of_data');
+      }
+    }
+
+    return {
+      trades: this.trades,
+      stats: computeOverallStats(this.trades),
+      rejections: this.rejections,
+      eventsProcessed: ordered.length,
+      startTs: ordered.length > 0 ? ordered[0].ts : null,
+      endTs: ordered.length > 0 ? ordered[ordered.length - 1].ts : null,
+    };
+  }
+
+  // --- Entradas (mismo filtro que copyMonitor: shouldCopy + sizing) ---
+
+  private async handleBuy(event: WalletTradeEvent): Promise<void> {
+    await this.store.sadd(`upvotes:${event.mint}:buyers`, event.wallet);
+    // Mismo detalle que WalletTracker: lo usa el consenso ponderado
+    await this.store.hset(`upvotes:${event.mint}:buy:${event.wallet}`, {
+      walletName: event.walletName ?? '',
+      solAmount: String(event.solAmount ?? 0),
+      timestamp: String(event.ts),
+    });
+    await this.pruneStaleBuyers(event.mint);
+    const upvotes = await this.store.scard(`upvotes:${event.mint}:buyers`);
+    const buyers = await this.store.smembers(`upvotes:${event.mint}:buyers`);
+
+    const price = this.priceFeed.getPrice(event.mint);
+    if (!price) {
+      this.reject(event, 'no_price');
+      return;
+    }
+
+    const size = calculateCopySize({
+      mode: this.sizingMode,
+      leaderSolAmount: event.solAmount ?? 0,
+      leaderBalanceSol: event.leaderBalanceSol,
+      upvotes,
+      copyPercentage: 100,
+      minAmount: 0,
+      maxAmount: 0,
+    });
+
+    const decision = await this.copyStrategy.shouldCopy({
+      mint: event.mint,
+      copyAmount: size.amount,
+      upvotes,
+      buyers,
+      walletAddress: event.wallet,
+    });
+
+    if (!decision.copy) {
+      this.reject(event, decision.reason ?? 'strategy_reject');
+      return;
+    }
+
+    const fill = await this.executor.buy(event.mint, size.amount, price);
+    if (!fill.success) {
+      this.reject(event, fill.error ?? 'buy_failed');
+      return;
+    }
+
+    const now = this.clock.now();
+    const position: SimPosition = {
+      mint: event.mint,
+      symbol: event.symbol ?? event.mint.slice(0, 8),
+      walletSource: event.wallet,
+      walletName: event.walletName,
+      entryPrice: fill.price.toString(),
+      entryTime: now.toString(),
+      maxPrice: fill.price.toString(),
+      solAmount: fill.solAmount.toString(),
+      tokensAmount: fill.tokensAmount.toString(),
+      originalSolAmount: fill.solAmount,
+      originalTokens: fill.tokensAmount,
+      realizedSol: 0,
+      partialStage: 0,
+      partialSells: 0,
+    };
+
+    this.positions.set(event.mint, position);
+    await this.store.sadd('open_positions', event.mint);
+    await this.store.hset(`position:${event.mint}`, {
+      walletSource: event.wallet,
+      entryTime: position.entryTime,
+    });
+  }
+
+  // El store en memoria no tiene TTL: quitamos los compradores cuya compra
+  // quedó fuera de la ventana de consenso (en vivo lo hace el EXPIRE de
+  // upvotes:<mint>:* en WalletTracker)
+  private async pruneStaleBuyers(mint: string): Promise<void> {
+    const cutoff = this.clock.now() - this.consensusWindowSeconds * 1000;
+    const buyers = await this.store.smembers(`upvotes:${mint}:buyers`);
+
+    for (const wallet of buyers) {
+      const buyKey = `upvotes:${mint}:buy:${wallet}`;
+      const timestamp = Number(await this.store.hget(buyKey, 'timestamp'));
+      if (Number.isFinite(timestamp) && timestamp >= cutoff) continue;
+
+      await this.store.srem(`upvotes:${mint}:buyers`, wallet);
+      await this.store.del(buyKey);
+    }
+  }
+
+  private async handleSell(event: WalletTradeEvent): Promise<void> {
+    await this.store.sadd(`upvotes:${event.mint}:sellers`, event.wallet);
+
+    // Igual que handleSellSignalMessage: solo cuenta si tenemos posición
+    if (this.positions.has(event.mint)) {
+      this.exitEngine.markWalletSold(event.mint, event.wallet);
+      await this.evaluatePosition(event.mint);
+    }
+  }
+
+  // --- Salidas (mismo orden que monitorOpenPositions) ---
+
+  private async evaluatePosition(mint: string): Promise<void> {
+    const position = this.positions.get(mint);
+    if (!position) return;
+
+    const currentPrice = this.priceFeed.getPrice(mint);
+    if (!currentPrice) return;
+
+    const entryPrice = Number(position.entryPrice);
+    if (currentPrice > Number(position.maxPrice)) {
+      position.maxPrice = currentPrice.toString();
+    }
+
+    const pnlPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
+    const holdTime = this.clock.now() - Number(position.entryTime);
+
+    const hybridExit = await this.exitEngine.evaluateHybridExit(
+      position,
+      currentPrice,
+      pnlPercent,
+    );
+    if (hybridExit.shouldExit) {
+      await this.closePosition(position, currentPrice, hybridExit.reason ?? 'hybrid_exit');
+      return;
+    }
+
+    const volumeExit = this.exitEngine.updateVolumeAndCheckExit(
+      mint,
+      currentPrice,
+      holdTime,
+    );
+    if (volumeExit.shouldExit) {
+      await this.closePosition(position, currentPrice, volumeExit.reason ?? 'volume_exit');
+      return;
+    }
+
+    if (this.partialTakeProfits) {
+      const partialDone = await this.sellPartial(position, currentPrice, pnlPercent);
+      if (partialDone) return;
+    }
+
+    const exitDecision = await this.copyStrategy.shouldExit(
+      position,
+      currentPrice,
+      pnlPercent,
+    );
+    if (exitDecision.shouldExit) {
+      await this.closePosition(position, currentPrice, exitDecision.reason ?? 'strategy_exit');
+    }
+  }
+
+  private async sellPartial(
+    position: SimPosition,
+    currentPrice: number,
+    pnlPercent: number,
+  ): Promise<boolean> {
+    const totalTokens = Number(position.tokensAmount);
+    const partial = this.exitEngine.nextPartialTakeProfit(
+      position.partialStage,
+      pnlPercent,
+      totalTokens,
+    );
+    if (!partial) return false;
+
+    const fill = await this.executor.sell(position.mint, partial.tokensToSell, currentPrice);
+    if (!fill.success) return false;
+
+    const remainingTokens = totalTokens - partial.tokensToSell;
+    const remainingSol =
+      (Number(position.solAmount) * remainingTokens) / totalTokens;
+
+    position.tokensAmount = remainingTokens.toString();
+    position.solAmount = remainingSol.toFixed(9);
+    position.realizedSol += fill.solAmount;
+    position.partialStage = partial.level.level;
+    position.partialSells++;
+
+    return true;
+  }
+
+  private async closePosition(
+    position: SimPosition,
+    currentPrice: number,
+    reason: string,
+  ): Promise<void> {
+    const fill = await this.executor.sell(
+      position.mint,
+      Number(position.tokensAmount),
+      currentPrice,
+    );
+    if (!fill.success) return;
+
+    const now = this.clock.now();
+    const solReceived = position.realizedSol + fill.solAmount;
+    const pnlSol = solReceived - position.originalSolAmount;
+    const pnlPercent =
+      position.originalSolAmount > 0
+        ? (pnlSol / position.originalSolAmount) * 100
+        : 0;
+
+    const trade: BacktestTrade = {
+      symbol: position.symbol,
+      mint: position.mint,
+      walletSource: position.walletSource,
+      walletName: position.walletName,
+      entryTime: position.entryTime,
+      exitTime: now.toString(),
+      entryPrice: position.entryPrice,
+      exitPrice: fill.price.toString(),
+      solAmount: position.originalSolAmount.toFixed(9),
+      tokensAmount: position.originalTokens.toString(),
+      solReceived: solReceived.toFixed(9),
+      pnlSOL: pnlSol.toFixed(9),
+      pnlPercent: pnlPercent.toFixed(2),
+      reason,
+      mode: 'DRY',
+      entrySource: 'COPY',
+      strategyTag: 'BACKTEST',
+      partialSells: position.partialSells,
+      holdTimeSeconds: ((now - Number(position.entryTime)) / 1000).toFixed(0),
+    };
+
+    this.trades.push(trade);
+    this.positions.delete(position.mint);
+    this.exitEngine.forget(position.mint);
+
+    // Para que el anti-recompra de CopyStrategy vea el trade cerrado
+    await this.store.srem('open_positions', position.mint);
+    await this.store.del(`position:${position.mint}`);
+    await this.store.del(`upvotes:${position.mint}:sellers`);
+    await this.store.lpush(
+      `trades:${new Date(now).toISOString().split('T')[0]}`,
+      JSON.stringify({
+        mint: position.mint,
+        walletSource: position.walletSource,
+        closedAt: now.toString(),
+        pnlSOL: trade.pnlSOL,
+      }),
+    );
+  }
+
+  private reject(event: WalletTradeEvent, reason: string): void {
+    this.rejections.push({
+      ts: event.ts,
+      mint: event.mint,
+      wallet: event.wallet,
+      reason,
+    });
+  }
+}
+
+// --- Carga de eventos ---
+
+export async function loadBacktestEvents(path: string): Promise<BacktestEvent[]> {
+  const content = await readFile(path, 'utf8');
+  const events: BacktestEvent[] = [];
+  let skipped = 0;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    try {
+      const raw = JSON.parse(trimmed);
+      const ts = Number(raw.ts);
+      if (!raw.mint || !Number.isFinite(ts)) {
+        skipped++;
+        continue;
+      }
+
+      if (raw.type === 'tick' && Number(raw.price) > 0) {
+        events.push({ type: 'tick', ts, mint: raw.mint, price: Number(raw.price) });
+      } else if ((raw.type === 'buy' || raw.type === 'sell') && raw.wallet) {
+        events.push({
+          type: raw.type,
+          ts,
+          mint: raw.mint,
+          wallet: raw.wallet,
+          walletName: raw.walletName,
+          symbol: raw.symbol,
+          solAmount: raw.solAmount !== undefined ? Number(raw.solAmount) : undefined,
+          leaderBalanceSol:
+            raw.leaderBalanceSol !== undefined ? Number(raw.leaderBalanceSol) : undefined,
+          price: raw.price !== undefined ? Number(raw.price) : undefined,
+        });
+      } else {
+        skipped++;
+      }
+    } catch {
+      skipped++;
+    }
+  }
+
+  if (skipped > 0) {
+    console.log(`⚠️ Skipped ${skipped} malformed backtest event(s)`);
+  }
+
+  return events;
+}
+
+// --- CLI ---
+
+function readFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const file = args[0];
+  if (!file) {
+    console.log(
+      'Usage: npm run backtest -- <events.jsonl> [--out results.json] [--slippage 1] [--fee 0.000005] [--sizing fixed]',
+    );
+    process.exit(1);
+  }
+
+  // El backtest aplica los filtros de LIVE (umbral de upvotes)
+  process.env.DRY_RUN = 'false';
+
+  const slippage = readFlag(args, '--slippage');
+  const fee = readFlag(args, '--fee');
+
+  const events = await loadBacktestEvents(file);
+  const backtester = new Backtester({
+    executor: new SimulatedExecutor({
+      slippagePercent: slippage !== undefined ? Number(slippage) : undefined,
+      feeSol: fee !== undefined ? Number(fee) : undefined,
+    }),
+    sizingMode: readFlag(args, '--sizing'),
+  });
+
+  const result = await backtester.run(events);
+
+  console.log('\n📊 ========== BACKTEST RESULTS ==========\n');
+  console.log(`Events: ${result.eventsProcessed}`);
+  console.log(`Rejected signals: ${result.rejections.length}\n`);
+  for (const trade of result.trades) {
+    console.log(
+      `${trade.symbol.padEnd(10)} ${trade.reason?.padEnd(22)} ` +
+        `${Number(trade.pnlPercent) >= 0 ? '+' : ''}${trade.pnlPercent}% ` +
+        `(${Number(trade.pnlSOL).toFixed(4)} SOL, ${trade.holdTimeSeconds}s)`,
+    );
+  }
+
+  const { stats } = result;
+  console.log('\n--- Overall ---');
+  console.log(`Trades: ${stats.totalTrades} (W ${stats.wins} / L ${stats.losses})`);
+  console.log(`Win rate: ${stats.winRate}`);
+  console.log(`Avg return: ${stats.avgReturn}`);
+  console.log(`Total PnL: ${stats.totalPnL}`);
+  console.log(`Profit factor: ${stats.profitFactor}\n`);
+
+  const out = readFlag(args, '--out');
+  if (out) {
+    await writeFile(out, JSON.stringify(result, null, 2));
+    console.log(`💾 Results written to ${out}`);
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error: any) => {
+    console.error('❌ Backtest failed:', error?.message ?? String(error));
+    process.exit(1);
+  });
+}
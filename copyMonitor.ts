@@ -1,8 +1,17 @@
 // copyMonitor.ts - HYBRID smart copy trading monitor (TypeScript, aligned with MultiDexExecutor)
 
-import { Redis as RedisClass } from 'ioredis';
 import type { Redis as RedisClient } from 'ioredis';
 import { CopyStrategy } from './copyStrategy.js';
+import { SniperExitStrategy } from './sniperStrategy.js';
+import {
+  HybridExitEngine,
+  type HybridExitDecision,
+} from './hybridExitEngine.js';
+import { getRiskGovernor } from './riskGovernor.js';
+import { screenToken } from './tokenSafety.js';
+import { resolveTokenMetadata, formatTokenAlert } from './tokenMetadata.js';
+import { exitUrgency } from './priorityFees.js';
+import { submissionFor } from './jitoBundles.js';
 import { sendTelegramAlert } from './telegram.js';
 import {
   Connection,
@@ -10,28 +19,21 @@ import {
   ParsedTransactionWithMeta,
 } from '@solana/web3.js';
 import { getPriceService, type PriceService } from './priceService.js';
+import { getRateLimiter } from './rpcRateLimiter.js';
+import { PUMP_PROGRAM_ID } from './pumpFunExecutor.js';
+import { decodeBondingCurveAccount } from './pumpIdl.js';
 import {
-  isDryRunEnabled,
-  ENABLE_AUTO_TRADING,
   TELEGRAM_LIVE_UPDATES_ENABLED,
   TELEGRAM_OWNER_CHAT_ID,
-  POSITION_SIZE_SOL,
-  COPY_MIN_WALLETS_TO_SELL,
-  COPY_PROFIT_TARGET_PERCENT,
-  TRAILING_STOP_PERCENT,
-  COPY_STOP_LOSS_PERCENT,
-  VOLUME_EXIT_ENABLED,
-  VOLUME_DROP_PERCENT,
-  VOLUME_WINDOW_SECONDS,
-  VOLUME_MIN_HOLD_SECONDS,
+  COPY_SIGNAL_TTL_SECONDS,
   PARTIAL_TP_ENABLED,
-  PARTIAL_TP1_PCT,
-  PARTIAL_TP1_SELL_PCT,
-  PARTIAL_TP2_PCT,
-  PARTIAL_TP2_SELL_PCT,
-  PARTIAL_TP3_PCT,
-  PARTIAL_TP3_SELL_PCT,
 } from './environment.js';
+import {
+  getDefaultProfile,
+  getProfileRedis,
+  profileTag,
+  type TradingProfile,
+} from './profiles.js';
 
 // En vez de usar PumpFunExecutor directo, usamos MultiDexExecutor que ya maneja:
 // - Pump.fun 14 cuentas
@@ -44,7 +46,17 @@ import {
 } from './multiDexExecutor.js';
 
 import { PositionManager, type Position } from './riskManager.js';
+import { serializeConsensus, type ConsensusResult } from './upvoteConsensus.js';
 import { createRedisClient, type RedisClient as RedisWrapper } from './redisClient.js';
+import type {
+  CopySignalPayload,
+  SellSignalPayload,
+} from './walletTracker.js';
+import {
+  getForceExit,
+  clearForceExit,
+  recordForceExit,
+} from './forceExit.js';
 
 type DexPreference = 'auto' | 'Pump.fun' | 'Jupiter' | 'Raydium' | 'Orca';
 
@@ -79,795 +91,1217 @@ interface CopySignal {
   isCreator?: boolean;
   copyPercentage?: number;
   upvotes?: number;
+  buyers?: string[];
+  dex?: string;
+  sizingMode?: string;
+  consensus?: ConsensusResult;
 }
 
-interface WalletSellInfo {
-  walletsSelling: Set<string>;
-  lastSellAt: number;
-  minEntryAt: number;
-}
-
-interface ExitContext {
+interface SignalRejection {
   mint: string;
-  entryPrice: number;
-  currentPrice: number;
-  pnlPercent: number;
-  pnlSOL: number;
-  holdTimeMs: number;
-  solValue: number;
+  wallet: string;
+  walletName?: string;
+  txType: 'buy' | 'sell';
+  upvotes?: number;
+  signature: string;
+  reason: string;
+  rejectedAt: number;
 }
 
-// HYBRID exit reasons
-type HybridExitPhase =
-  | 'none'
-  | 'copy_wallets'
-  | 'loss_protection'
-  | 'independent_time'
-  | 'volume_exit';
-
-interface HybridExitDecision {
-  shouldExit: boolean;
-  phase: HybridExitPhase;
-  reason?: string;
-  description?: string;
-  priority?: number;
-  walletsSelling?: number;
-  totalWalletsTracked?: number;
-  stopType?: 'take_profit' | 'stop_loss' | 'trailing_stop';
-}
+const LIVE_UPDATES = TELEGRAM_LIVE_UPDATES_ENABLED;
 
-// --- Estado global ligero ---
+// 📥 SIGNAL QUEUES (producidas por WalletTracker)
+const COPY_SIGNALS_QUEUE = 'copy_signals';
+const SELL_SIGNALS_QUEUE = 'sell_signals';
+const SIGNAL_REJECTIONS_KEY = 'signal_rejections';
+const SIGNAL_REJECTIONS_MAX = 500;
+const SIGNAL_POP_TIMEOUT_SECONDS = 5;
+const SIGNAL_MAX_ATTEMPTS = 3;
+const SIGNAL_DEAD_LETTER_MAX = 500;
+// Claim por firma antes de comprar: reintentos / recuperación no recompran
+const SIGNAL_DONE_TTL_SECONDS = 24 * 3600;
+const ORPHAN_BUYS_KEY = 'copy_orphan_buys';
+const ORPHAN_BUYS_MAX = 200;
+const SIGNAL_MAX_AGE_MS = COPY_SIGNAL_TTL_SECONDS * 1000;
+
+// 📊 PARTIAL TAKE PROFIT (niveles en hybridExitEngine.ts)
+const PARTIAL_TP = PARTIAL_TP_ENABLED;
 
-let redisClient: RedisClient | null = null;
-let redisWrapper: RedisWrapper | null = null;
-let connection: Connection | null = null;
-let priceService: PriceService | null = null;
-let copyStrategy: CopyStrategy;
-let positionManager: PositionManager;
-let tradeExecutor: MultiDexExecutor | null = null;
+function toBuySignal(
+  payload: CopySignalPayload,
+  fallbackSol: number,
+): CopySignal {
+  return {
+    signature: payload.signature,
+    wallet: payload.walletAddress,
+    walletName: payload.walletName,
+    mint: payload.mint,
+    amountSol: Number(payload.copyAmount) || fallbackSol,
+    txType: 'buy',
+    timestamp: Number(payload.timestamp) || Date.now(),
+    upvotes: Number(payload.upvotes) || 1,
+    buyers: Array.isArray(payload.buyers) ? payload.buyers : [],
+    dex: payload.dex,
+    sizingMode: payload.sizingMode,
+  };
+}
 
-let isMonitoring = false;
-let isInitialized = false;
+function toSellSignal(payload: SellSignalPayload): CopySignal {
+  return {
+    signature: payload.signature,
+    wallet: payload.walletAddress,
+    mint: payload.mint,
+    amountSol: 0,
+    txType: 'sell',
+    timestamp: Number(payload.timestamp) || Date.now(),
+    upvotes: Number(payload.sellCount) || 1,
+    dex: payload.dex,
+  };
+}
 
-// Map mint -> WalletSellInfo (para HYBRID exits)
-const walletSellState: Map<string, WalletSellInfo> = new Map();
+function isStaleSignal(signal: CopySignal): boolean {
+  if (SIGNAL_MAX_AGE_MS <= 0) return false;
+  return Date.now() - signal.timestamp > SIGNAL_MAX_AGE_MS;
+}
 
-// Estadísticas sencillas
-let processedSignals = 0;
-let ignoredSignals = 0;
+// --- Monitor por perfil ---
+//
+// Todo el estado (Redis, executor, estrategias) vive en la instancia para
+// poder correr varios perfiles (profiles.ts) en el mismo proceso.
+
+export class CopyMonitor {
+  readonly profile: TradingProfile;
+  private readonly tag: string;
+
+  private redisClient: RedisClient | null = null;
+  private redisWrapper: RedisWrapper | null = null;
+  private connection: Connection | null = null;
+  private priceService: PriceService | null = null;
+  private copyStrategy: CopyStrategy;
+  private sniperStrategy: SniperExitStrategy;
+  private hybridExitEngine: HybridExitEngine;
+  private positionManager: PositionManager;
+  private tradeExecutor: MultiDexExecutor | null = null;
+
+  private isMonitoring = false;
+  private isConsumingSignals = false;
+  private isInitialized = false;
+
+  // Estadísticas sencillas
+  private processedSignals = 0;
+  private ignoredSignals = 0;
+
+  constructor(profile: TradingProfile = getDefaultProfile()) {
+    this.profile = profile;
+    this.tag = profileTag(profile);
+  }
 
-const DRY_RUN = isDryRunEnabled();
-const LIVE_UPDATES = TELEGRAM_LIVE_UPDATES_ENABLED;
+  async start(): Promise<void> {
+    await this.initCore();
+    this.monitorOpenPositions().catch(err => {
+      console.error(`❌ ${this.tag}monitorOpenPositions crashed:`, err);
+    });
+    await this.startSignalConsumers();
+  }
 
-// 🎯 HYBRID STRATEGY CONFIG
-const WALLET_EXIT_WINDOW = 180000; // 3 minutes
-const LOSS_PROTECTION_WINDOW = 600000; // 10 minutes
-const INDEPENDENT_MODE_TIME = 600000; // After 10 min
+  // --- Inicialización (por perfil) ---
 
-// 💧 VOLUME EXIT CONFIG
-const VOLUME_EXIT = VOLUME_EXIT_ENABLED;
-const VOLUME_DROP = VOLUME_DROP_PERCENT; // e.g. 70 => 70% drop vs. peak activity
-const VOLUME_WINDOW_MS = VOLUME_WINDOW_SECONDS * 1000;
-const VOLUME_MIN_HOLD_MS = VOLUME_MIN_HOLD_SECONDS * 1000;
+  private async initCore() {
+    if (this.isInitialized) return;
+    const profile = this.profile;
 
-// 📊 PARTIAL TAKE PROFIT CONFIG
-const PARTIAL_TP = PARTIAL_TP_ENABLED;
-const PARTIAL_LEVELS = [
-  { level: 1, tp: PARTIAL_TP1_PCT, sellPct: PARTIAL_TP1_SELL_PCT },
-  { level: 2, tp: PARTIAL_TP2_PCT, sellPct: PARTIAL_TP2_SELL_PCT },
-  { level: 3, tp: PARTIAL_TP3_PCT, sellPct: PARTIAL_TP3_SELL_PCT },
-].filter((l) => l.tp > 0 && l.sellPct > 0);
-
-// --- Seguimiento simple de "volumen" basado en actividad de precio ---
-// No usamos volumen on-chain real; usamos la velocidad de cambio de precio
-// como proxy de actividad. Si la "velocidad" cae X% vs el máximo reciente,
-// durante una ventana de tiempo, disparamos señal de salida.
-interface VolumeState {
-  lastPrice: number;
-  lastTs: number;
-  peakVelocity: number;
-  lastPeakTs: number;
-}
+    if (!this.redisClient) {
+      // keyPrefix del perfil: posiciones, colas y risk:* quedan aislados
+      this.redisClient = getProfileRedis(profile);
+    }
+    this.redisWrapper = createRedisClient();
+    this.connection = new Connection(process.env.RPC_URL as string, 'confirmed');
+    this.priceService = getPriceService();
 
-const volumeState: Record<string, VolumeState> = {};
+    const key = profile.privateKey;
+    const rpcUrl = process.env.RPC_URL;
 
-function updateVolumeAndCheckExit(
-  mint: string,
-  currentPrice: number,
-  holdTimeMs: number,
-): HybridExitDecision {
-  if (!VOLUME_EXIT || currentPrice <= 0) {
-    return { shouldExit: false, phase: 'none' };
-  }
+    if (!key || !rpcUrl) {
+      console.log(
+        `⚠️ ${this.tag}PRIVATE_KEY or RPC_URL not set, disabling trading`,
+      );
+      this.tradeExecutor = null;
+    } else {
+      this.tradeExecutor = new MultiDexExecutor(
+        key,
+        rpcUrl,
+        profile.dryRun,
+        this.redisClient,
+      );
+    }
 
-  const now = Date.now();
-  const state: VolumeState = volumeState[mint] ?? {
-    lastPrice: currentPrice,
-    lastTs: now,
-    peakVelocity: 0,
-    lastPeakTs: now,
-  };
+    this.positionManager = new PositionManager(
+      { dryRun: profile.dryRun },
+      this.redisClient,
+    );
+    this.copyStrategy = new CopyStrategy({
+      positionManager: this.positionManager,
+      priceService: this.priceService,
+      redis: this.redisClient,
+      dryRun: profile.dryRun,
+      minWalletsToBuy: profile.minWalletsToBuy,
+      minWalletsToSell: profile.minWalletsToSell,
+      consensusWindowSeconds: profile.consensusWindowSeconds,
+      minConsensusScore: profile.minConsensusScore,
+      exitOverrides: {
+        takeProfitPercent: profile.takeProfitPercent,
+        stopLossPercent: profile.stopLossPercent,
+        trailingStopPercent: profile.trailingStopPercent,
+        maxHoldSeconds: profile.maxHoldSeconds,
+      },
+    });
+    this.sniperStrategy = new SniperExitStrategy(this.redisClient);
+    this.hybridExitEngine = new HybridExitEngine({
+      copyStrategy: this.copyStrategy,
+      config: {
+        minWalletsToSell: profile.minWalletsToSell,
+        stopLossPercent: profile.stopLossPercent,
+        takeProfitPercent: profile.takeProfitPercent,
+        trailingStopPercent: profile.trailingStopPercent,
+      },
+    });
 
-  const dtMs = now - state.lastTs;
-  if (dtMs <= 0) {
-    volumeState[mint] = state;
-    return { shouldExit: false, phase: 'none' };
+    this.isInitialized = true;
   }
 
-  const dtSec = dtMs / 1000;
-  const priceDelta = Math.abs(currentPrice - state.lastPrice);
-  const velocity =
-    (priceDelta / Math.max(currentPrice, 1e-9)) / Math.max(dtSec, 1e-3);
+  // --- Procesador de señales de compra ---
 
-  if (velocity > state.peakVelocity) {
-    state.peakVelocity = velocity;
-    state.lastPeakTs = now;
-  }
+  private async processCopySignal(signal: CopySignal): Promise<void> {
+    await this.initCore();
+    if (!this.redisClient || !this.priceService) return;
 
-  state.lastPrice = currentPrice;
-  state.lastTs = now;
-  volumeState[mint] = state;
+    this.processedSignals++;
 
-  if (holdTimeMs < VOLUME_MIN_HOLD_MS) {
-    return { shouldExit: false, phase: 'none' };
-  }
+    if (!this.profile.autoTrading) {
+      await this.recordSignalRejection(signal, 'auto_trading_disabled');
+      return;
+    }
 
-  if (state.peakVelocity <= 0) {
-    return { shouldExit: false, phase: 'none' };
-  }
+    if (signal.txType === 'sell') {
+      await this.markWalletSold(signal);
+      return;
+    }
 
-  const dropRatio = velocity / state.peakVelocity;
-  const threshold = 1 - VOLUME_DROP / 100;
-  const timeSincePeak = now - state.lastPeakTs;
+    if (!this.tradeExecutor) {
+      await this.recordSignalRejection(signal, 'no_trade_executor');
+      return;
+    }
 
-  if (dropRatio <= threshold && timeSincePeak >= VOLUME_WINDOW_MS) {
-    const dropPct = (1 - dropRatio) * 100;
+    const existingPosition = await this.positionManager.getPosition(signal.mint);
+    if (existingPosition) {
+      await this.recordSignalRejection(signal, 'duplicate_position');
+      return;
+    }
 
-    return {
-      shouldExit: true,
-      phase: 'volume_exit',
-      reason: 'volume_dry_up',
-      description: `Price activity dropped ${dropPct.toFixed(
-        1,
-      )}% vs peak`,
-      priority: 3,
-    };
-  }
+    const priceData = await this.priceService.getPrice(signal.mint, true);
+    if (!priceData || priceData.price === null) {
+      await this.recordSignalRejection(signal, 'no_price');
+      return;
+    }
 
-  return { shouldExit: false, phase: 'none' };
-}
+    const solAmount =
+      signal.amountSol > 0 ? signal.amountSol : this.profile.positionSizeSol;
 
-// --- Inicialización compartida ---
+    // Creador de la bonding curve: límite RISK_MAX_SOL_PER_CREATOR + posición
+    const creator = await this.resolveCreator(signal.mint);
 
-async function initCore() {
-  if (isInitialized) return;
-  if (!redisClient) {
-    redisClient = new RedisClass(process.env.REDIS_URL as string, {
-      maxRetriesPerRequest: null,
+    const risk = await getRiskGovernor(this.redisClient as RedisClient).checkBuy({
+      mint: signal.mint,
+      solAmount,
+      strategy: 'copy',
+      walletSource: signal.wallet,
+      creator: creator ?? undefined,
     });
-  }
-  redisWrapper = createRedisClient();
-  connection = new Connection(process.env.RPC_URL as string, 'confirmed');
-  priceService = getPriceService();
-
-  const key = process.env.PRIVATE_KEY;
-  const rpcUrl = process.env.RPC_URL;
-
-  if (!key || !rpcUrl) {
-    console.log('⚠️ PRIVATE_KEY or RPC_URL not set, disabling trading');
-    tradeExecutor = null;
-  } else {
-    tradeExecutor = new MultiDexExecutor(key, rpcUrl, DRY_RUN);
-  }
-
-  positionManager = new PositionManager(redisClient as RedisClient);
-  copyStrategy = new CopyStrategy({
-    positionManager,
-    priceService,
-    redis: redisClient as RedisClient,
-  });
+    if (!risk.allowed) {
+      await this.recordSignalRejection(signal, `risk: ${risk.reason}`);
+      return;
+    }
 
-  isInitialized = true;
-}
+    // 🧪 Screening del token (authorities, Token-2022, holders, creador, curva)
+    try {
+      const safety = await screenToken({ mint: signal.mint, creator });
+      if (safety && !safety.safe) {
+        await this.recordSignalRejection(
+          signal,
+          `safety: ${safety.reason ?? 'unsafe'} (score ${safety.score})`,
+        );
+        return;
+      }
+    } catch (err: any) {
+      await this.recordSignalRejection(
+        signal,
+        `safety: check_error: ${err?.message ?? String(err)}`,
+      );
+      return;
+    }
+    // Claim idempotente de la señal: si el handler falla después de comprar,
+    // el reintento (o la recuperación de :processing) no vuelve a comprar
+    const claimed = await this.redisClient.set(
+      `copy_signal_done:${signal.signature}`,
+      String(Date.now()),
+      'EX',
+      SIGNAL_DONE_TTL_SECONDS,
+      'NX',
+    );
+    if (!claimed) {
+      await this.recordSignalRejection(signal, 'duplicate_signal');
+      return;
+    }
 
-// --- HYBRID EXIT LOGIC (ya tenías esto) ---
+    const buyResult: BuyResult = await this.tradeExecutor.buyToken(
+      signal.mint,
+      solAmount,
+      'Pump.fun',
+      undefined,
+      'normal',
+      submissionFor('copy'),
+    );
 
-async function evaluateHybridExit(
-  position: Position,
-  currentPrice: number,
-  pnlPercent: number,
-  solValue: number,
-): Promise<HybridExitDecision> {
-  if (!priceService) {
-    return { shouldExit: false, phase: 'none' };
-  }
+    // Compra ya enviada: a partir de aquí nada relanza (se ackea siempre)
+    const entryPrice = buyResult.effectivePrice ?? priceData.price;
+    try {
+      if (!buyResult.success) {
+        // 'pending': timeout sin que caducara el blockhash, puede entrar aún
+        const pending = buyResult.landingStatus === 'pending';
+        await this.recordSignalRejection(
+          signal,
+          `${pending ? 'buy_pending' : 'buy_failed'}: ${buyResult.error ?? 'unknown'}`,
+        );
+        if (pending && TELEGRAM_OWNER_CHAT_ID) {
+          await sendTelegramAlert(
+            TELEGRAM_OWNER_CHAT_ID,
+            `${this.tag}⏳ BUY PENDING (not confirmed, may still land)\n` +
+              `${formatTokenAlert(signal.mint)}\n` +
+              `Signature: ${buyResult.signature ?? 'unknown'}\n` +
+              `Check the wallet: the position is not tracked`,
+            true,
+          );
+        }
+        return;
+      }
 
-  const now = Date.now();
-  const holdTimeMs = now - Number(position.entryTime ?? now);
-  const holdTimeMinutes = holdTimeMs / 60000;
-
-  const mint = position.mint;
-  const ws = walletSellState.get(mint);
-
-  const exitContext: ExitContext = {
-    mint,
-    entryPrice: Number(position.entryPrice),
-    currentPrice,
-    pnlPercent,
-    pnlSOL:
-      ((currentPrice - Number(position.entryPrice)) /
-        Number(position.entryPrice)) *
-      Number(position.solAmount ?? '0'),
-    holdTimeMs,
-    solValue,
-  };
+      await this.positionManager.registerOpenPosition({
+        mint: signal.mint,
+        entryPrice,
+        // Coste real (incluye fees en paper/live), no solo lo solicitado
+        solAmount: buyResult.solSpent ?? solAmount,
+        tokensAmount: buyResult.tokensAmount ?? 0,
+        walletName: signal.walletName ?? 'Copy wallet',
+        walletSource: signal.wallet,
+        strategy: 'copy',
+        creator: creator ?? undefined,
+        originalSignature: signal.signature,
+        originalDex: signal.dex,
+        executedDex: buyResult.executedDex ?? 'Pump.fun',
+        entryTime: Date.now(),
+        upvotes: signal.upvotes ?? 1,
+        buyers: signal.buyers,
+        sizingMode: signal.sizingMode ?? 'fixed',
+        // Desglose del consenso ponderado (upvoteConsensus.ts)
+        consensusScore: signal.consensus?.score,
+        consensus: signal.consensus
+          ? serializeConsensus(signal.consensus)
+          : undefined,
+        jitoTipSol: buyResult.tipLamports ? buyResult.tipLamports / 1e9 : undefined,
+      });
+    } catch (err: any) {
+      await this.recordOrphanBuy(signal, buyResult, err);
+      return;
+    }
 
-  // HYBRID exit: copy wallets conditions
-  if (ws && ws.walletsSelling.size >= COPY_MIN_WALLETS_TO_SELL) {
-    const timeSinceFirstSell = now - ws.minEntryAt;
-    if (timeSinceFirstSell <= WALLET_EXIT_WINDOW) {
-      return {
-        shouldExit: true,
-        phase: 'copy_wallets',
-        reason: 'copy_sell',
-        description: `Copy wallets selling: ${ws.walletsSelling.size} wallets in ${Math.round(
-          timeSinceFirstSell / 1000,
-        )}s`,
-        priority: 1,
-        walletsSelling: ws.walletsSelling.size,
-      };
+    if (LIVE_UPDATES && TELEGRAM_OWNER_CHAT_ID) {
+      try {
+        const meta = await resolveTokenMetadata(signal.mint);
+        await sendTelegramAlert(
+          TELEGRAM_OWNER_CHAT_ID,
+          `${this.tag}🟢 COPY BUY\nWallet: ${signal.walletName ?? signal.wallet}\n` +
+            `${formatTokenAlert(signal.mint, meta)}\n` +
+            `Amount: ${solAmount} SOL\nEntry: ${entryPrice.toFixed(8)}`,
+          true,
+        );
+      } catch (err: any) {
+        console.log('⚠️ Copy buy alert failed:', err?.message ?? String(err));
+      }
     }
   }
 
-  // Protección contra pérdidas directas (stop-loss o trailing)
-  if (holdTimeMs <= LOSS_PROTECTION_WINDOW) {
-    if (pnlPercent <= -Math.abs(COPY_STOP_LOSS_PERCENT)) {
-      return {
-        shouldExit: true,
-        phase: 'loss_protection',
-        reason: 'hybrid_stop_loss',
-        description: `PnL below hard SL (${COPY_STOP_LOSS_PERCENT}%) during protection window`,
-        priority: 2,
-        stopType: 'stop_loss',
-      };
+  // Compra enviada sin posición registrada (Redis caído, etc.): se guarda en
+  // copy_orphan_buys y se avisa para revisarla a mano. Nunca relanza.
+  private async recordOrphanBuy(
+    signal: CopySignal,
+    buyResult: BuyResult,
+    err: any,
+  ): Promise<void> {
+    const error = err?.message ?? String(err);
+    console.error(
+      `🚨 ${this.tag}Copy buy sent but not tracked (${signal.mint}): ${error}`,
+    );
+
+    try {
+      await this.redisClient
+        ?.multi()
+        .lpush(
+          ORPHAN_BUYS_KEY,
+          JSON.stringify({
+            mint: signal.mint,
+            wallet: signal.wallet,
+            signalSignature: signal.signature,
+            buySignature: buyResult.signature,
+            success: buyResult.success,
+            landingStatus: buyResult.landingStatus,
+            solSpent: buyResult.solSpent,
+            tokensAmount: buyResult.tokensAmount,
+            error,
+            failedAt: Date.now(),
+          }),
+        )
+        .ltrim(ORPHAN_BUYS_KEY, 0, ORPHAN_BUYS_MAX - 1)
+        .exec();
+    } catch (recordErr: any) {
+      console.error(
+        '⚠️ Could not record orphan buy:',
+        recordErr?.message ?? String(recordErr),
+      );
     }
 
-    if (pnlPercent >= COPY_PROFIT_TARGET_PERCENT) {
-      return {
-        shouldExit: true,
-        phase: 'loss_protection',
-        reason: 'hybrid_take_profit',
-        description: `PnL hit hybrid TP (${COPY_PROFIT_TARGET_PERCENT}%) during protection window`,
-        priority: 2,
-        stopType: 'take_profit',
-      };
+    if (!TELEGRAM_OWNER_CHAT_ID) return;
+    try {
+      await sendTelegramAlert(
+        TELEGRAM_OWNER_CHAT_ID,
+        `${this.tag}🚨 COPY BUY NOT TRACKED\n` +
+          `${formatTokenAlert(signal.mint)}\n` +
+          `Signature: ${buyResult.signature ?? 'unknown'}\n` +
+          `Error: ${error}\n` +
+          `Check the wallet: the position is not tracked`,
+        true,
+      );
+    } catch {
+      // ya quedó en logs / copy_orphan_buys
     }
   }
 
-  // Después de cierto tiempo, permitir que el trailing domine
-  if (holdTimeMs >= INDEPENDENT_MODE_TIME && TRAILING_STOP_PERCENT > 0) {
-    const trailingDecision = await copyStrategy.evaluateTrailingStop(
-      position,
-      currentPrice,
-      pnlPercent,
-    );
+  // Creator desde la bonding curve de Pump.fun (null si no es un token
+  // de Pump.fun o la cuenta no se puede leer)
+  private async resolveCreator(mint: string): Promise<string | null> {
+    if (!this.connection) return null;
 
-    if (trailingDecision.shouldExit) {
-      return {
-        shouldExit: true,
-        phase: 'independent_time',
-        reason: 'hybrid_trailing_stop',
-        description: trailingDecision.description,
-        priority: 2,
-        stopType: 'trailing_stop',
-      };
+    try {
+      const [bondingCurve] = PublicKey.findProgramAddressSync(
+        [Buffer.from('bonding-curve'), new PublicKey(mint).toBuffer()],
+        PUMP_PROGRAM_ID,
+      );
+      const account = await getRateLimiter().request(
+        () => (this.connection as Connection).getAccountInfo(bondingCurve),
+        'high',
+        `pump:creator:${mint}`,
+      );
+      if (!account) return null;
+      return decodeBondingCurveAccount(account.data)?.creator?.toBase58() ?? null;
+    } catch (err: any) {
+      console.log(
+        `   ⚠️ Could not resolve creator for ${mint.slice(0, 8)}...: ${
+          err?.message ?? String(err)
+        }`,
+      );
+      return null;
     }
   }
 
-  return { shouldExit: false, phase: 'none' };
-}
+  // --- Historial de señales rechazadas ---
+  //
+  // Guardamos las últimas N señales descartadas (con motivo) para poder
+  // auditar por qué no se copió un trade.
+  private async recordSignalRejection(
+    signal: CopySignal,
+    reason: string,
+  ): Promise<void> {
+    this.ignoredSignals++;
 
-// --- Procesador de señales de compra ---
+    console.log(
+      `   🚫 Signal rejected (${signal.txType.toUpperCase()} ${signal.mint.slice(
+        0,
+        8,
+      )}...): ${reason}`,
+    );
 
-async function processCopySignal(signal: CopySignal): Promise<void> {
-  await initCore();
-  if (!redisClient || !priceService) return;
+    if (!this.redisClient) return;
 
-  processedSignals++;
+    const rejection: SignalRejection = {
+      mint: signal.mint,
+      wallet: signal.wallet,
+      walletName: signal.walletName,
+      txType: signal.txType,
+      upvotes: signal.upvotes,
+      signature: signal.signature,
+      reason,
+      rejectedAt: Date.now(),
+    };
 
-  if (!ENABLE_AUTO_TRADING) {
-    ignoredSignals++;
-    return;
+    try {
+      await this.redisClient.lpush(SIGNAL_REJECTIONS_KEY, JSON.stringify(rejection));
+      await this.redisClient.ltrim(SIGNAL_REJECTIONS_KEY, 0, SIGNAL_REJECTIONS_MAX - 1);
+    } catch (err: any) {
+      console.log(
+        '⚠️ Could not store signal rejection:',
+        err?.message ?? String(err),
+      );
+    }
   }
 
-  if (signal.txType === 'sell') {
-    await markWalletSold(signal);
-    return;
-  }
+  // --- Marcado de ventas de wallets para HYBRID exit ---
 
-  if (!tradeExecutor) {
-    ignoredSignals++;
-    return;
+  private async markWalletSold(signal: CopySignal): Promise<void> {
+    await this.initCore();
+    this.hybridExitEngine.markWalletSold(signal.mint, signal.wallet);
   }
 
-  const existingPosition = await positionManager.getPosition(signal.mint);
-  if (existingPosition) {
-    ignoredSignals++;
-    return;
-  }
+  // --- Consumidor de colas copy_signals / sell_signals ---
+  //
+  // WalletTracker hace LPUSH de CopySignalPayload / SellSignalPayload.
+  // Aquí los leemos con BRPOPLPUSH hacia una lista `<queue>:processing`
+  // y hacemos LREM (ack) solo cuando el handler termina bien; si el worker
+  // muere a mitad de una señal, al arrancar se devuelve a la cola principal.
+  // Si el handler lanza (Redis / RPC caído) la señal vuelve a la cola hasta
+  // SIGNAL_MAX_ATTEMPTS veces; después (o si el JSON no se puede parsear)
+  // va a `<queue>:dead` para revisarla a mano.
+
+  private async handleCopySignalMessage(raw: string): Promise<void> {
+    const payload = JSON.parse(raw) as CopySignalPayload;
+    if (!payload?.mint || !payload?.walletAddress) {
+      console.log('⚠️ Malformed copy signal dropped');
+      return;
+    }
 
-  const priceData = await priceService.getPrice(signal.mint, true);
-  if (!priceData || priceData.price === null) {
-    ignoredSignals++;
-    return;
-  }
+    const signal = toBuySignal(payload, this.profile.positionSizeSol);
+
+    if (isStaleSignal(signal)) {
+      await this.recordSignalRejection(signal, 'stale_signal');
+      return;
+    }
+
+    const decision = await this.copyStrategy.shouldCopy({
+      mint: signal.mint,
+      copyAmount: signal.amountSol,
+      upvotes: signal.upvotes ?? 1,
+      buyers: signal.buyers,
+      walletAddress: signal.wallet,
+    });
 
-  const solAmount = POSITION_SIZE_SOL;
-  const buyResult: BuyResult = await tradeExecutor.buyToken(
-    signal.mint,
-    solAmount,
-    'Pump.fun',
-  );
+    if (!decision.copy) {
+      await this.recordSignalRejection(signal, decision.reason ?? 'strategy_rejected');
+      return;
+    }
 
-  if (!buyResult.success) {
-    ignoredSignals++;
-    return;
+    await this.processCopySignal({
+      ...signal,
+      amountSol: decision.amount ?? signal.amountSol,
+      upvotes: decision.upvotes ?? signal.upvotes,
+      consensus: decision.consensus,
+    });
   }
 
-  const entryPrice = buyResult.effectivePrice ?? priceData.price;
-  await positionManager.registerOpenPosition({
-    mint: signal.mint,
-    entryPrice,
-    solAmount,
-    tokensAmount: buyResult.tokensAmount ?? 0,
-    walletName: signal.walletName ?? 'Copy wallet',
-    walletSource: signal.wallet,
-    strategy: 'copy',
-    originalSignature: signal.signature,
-    executedDex: buyResult.executedDex ?? 'Pump.fun',
-    entryTime: Date.now(),
-    upvotes: signal.upvotes ?? 1,
-  });
-
-  if (LIVE_UPDATES && TELEGRAM_OWNER_CHAT_ID) {
-    await sendTelegramAlert(
-      TELEGRAM_OWNER_CHAT_ID,
-      `🟢 COPY BUY\nWallet: ${signal.walletName ?? signal.wallet}\nMint: ${signal.mint.slice(
+  private async handleSellSignalMessage(raw: string): Promise<void> {
+    const payload = JSON.parse(raw) as SellSignalPayload;
+    if (!payload?.mint || !payload?.walletAddress) {
+      console.log('⚠️ Malformed sell signal dropped');
+      return;
+    }
+
+    const signal = toSellSignal(payload);
+
+    // Solo nos interesan ventas de tokens donde tenemos posición abierta
+    const position = await this.positionManager.getPosition(signal.mint);
+    if (!position) {
+      return;
+    }
+
+    await this.markWalletSold(signal);
+    console.log(
+      `📉 Sell signal from ${signal.wallet.slice(0, 8)}... on ${signal.mint.slice(
         0,
-        12,
-      )}...\nAmount: ${solAmount} SOL\nEntry: ${entryPrice.toFixed(8)}`,
-      true,
+        8,
+      )}... (sellers: ${signal.upvotes})`,
     );
   }
-}
 
-// --- Marcado de ventas de wallets para HYBRID exit ---
+  private async consumeSignalQueue(
+    queue: string,
+    handler: (raw: string) => Promise<void>,
+  ): Promise<void> {
+    if (!this.redisClient) return;
 
-async function markWalletSold(signal: CopySignal): Promise<void> {
-  const mint = signal.mint;
-  const now = Date.now();
+    const processingQueue = `${queue}:processing`;
+    // BRPOPLPUSH bloquea la conexión: usamos una dedicada por cola
+    const blocking = this.redisClient.duplicate();
 
-  let ws = walletSellState.get(mint);
-  if (!ws) {
-    ws = {
-      walletsSelling: new Set<string>(),
-      lastSellAt: now,
-      minEntryAt: now,
-    };
-    walletSellState.set(mint, ws);
+    let recovered = 0;
+    while (await blocking.rpoplpush(processingQueue, queue)) {
+      recovered++;
+    }
+    if (recovered > 0) {
+      console.log(
+        `♻️ Recovered ${recovered} unacked message(s) from ${processingQueue}`,
+      );
+    }
+
+    console.log(`📥 ${this.tag}copyMonitor: consuming ${queue}...`);
+
+    while (true) {
+      let raw: string | null = null;
+      let handled = false;
+
+      try {
+        raw = await blocking.brpoplpush(
+          queue,
+          processingQueue,
+          SIGNAL_POP_TIMEOUT_SECONDS,
+        );
+        if (!raw) continue;
+
+        await handler(raw);
+        handled = true;
+        await blocking
+          .multi()
+          .lrem(processingQueue, 1, raw)
+          .hdel(`${queue}:attempts`, raw)
+          .exec();
+      } catch (err: any) {
+        console.error(
+          `⚠️ Error consuming ${queue}:`,
+          err?.message ?? String(err),
+        );
+        // Si falló el ack (no el handler) no se reintenta la señal
+        if (raw && !handled) {
+          await this.retryOrDeadLetter(blocking, queue, raw, err).catch(
+            (retryErr: any) => {
+              // Queda en :processing → se recupera en el próximo arranque
+              console.error(
+                `⚠️ Could not requeue message from ${processingQueue}:`,
+                retryErr?.message ?? String(retryErr),
+              );
+            },
+          );
+        }
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
   }
 
-  ws.walletsSelling.add(signal.wallet);
-  ws.lastSellAt = now;
-}
+  // Saca el mensaje de :processing y lo reencola (al final de la cola) o,
+  // si es un error permanente / agotó intentos, lo mueve a :dead
+  private async retryOrDeadLetter(
+    client: RedisClient,
+    queue: string,
+    raw: string,
+    err: any,
+  ): Promise<void> {
+    const processingQueue = `${queue}:processing`;
+    const attemptsKey = `${queue}:attempts`;
+    const deadQueue = `${queue}:dead`;
+
+    const attempts = await client.hincrby(attemptsKey, raw, 1);
+    const permanent = err instanceof SyntaxError;
+
+    if (!permanent && attempts < SIGNAL_MAX_ATTEMPTS) {
+      await client
+        .multi()
+        .lrem(processingQueue, 1, raw)
+        .lpush(queue, raw)
+        .exec();
+      console.log(
+        `   ↩️ Requeued message on ${queue} (attempt ${attempts}/${SIGNAL_MAX_ATTEMPTS})`,
+      );
+      return;
+    }
+
+    await client
+      .multi()
+      .lrem(processingQueue, 1, raw)
+      .lpush(
+        deadQueue,
+        JSON.stringify({
+          raw,
+          attempts,
+          error: err?.message ?? String(err),
+          failedAt: Date.now(),
+        }),
+      )
+      .ltrim(deadQueue, 0, SIGNAL_DEAD_LETTER_MAX - 1)
+      .hdel(attemptsKey, raw)
+      .exec();
+    console.log(`   🪦 Moved message to ${deadQueue} after ${attempts} attempt(s)`);
+  }
+
+  async startSignalConsumers(): Promise<void> {
+    await this.initCore();
+    if (!this.redisClient) return;
 
-// --- MONITOR de posiciones abiertas ---
+    if (this.isConsumingSignals) {
+      return;
+    }
+    this.isConsumingSignals = true;
 
-async function calculateCurrentValue(
-  position: Position,
-): Promise<{ currentPrice: number; currentSolValue: number }> {
-  if (!priceService) {
-    throw new Error('priceService not initialized');
+    this.consumeSignalQueue(COPY_SIGNALS_QUEUE, raw =>
+      this.handleCopySignalMessage(raw),
+    ).catch(err => {
+      console.error('❌ copy_signals consumer crashed:', err);
+    });
+    this.consumeSignalQueue(SELL_SIGNALS_QUEUE, raw =>
+      this.handleSellSignalMessage(raw),
+    ).catch(err => {
+      console.error('❌ sell_signals consumer crashed:', err);
+    });
   }
 
-  const mint = position.mint;
-  const tokensAmount = Number(position.tokensAmount ?? '0');
+  // --- MONITOR de posiciones abiertas ---
 
-  const valueData = await priceService.calculateCurrentValue(
-    mint,
-    tokensAmount,
-  );
+  private async calculateCurrentValue(
+    position: Position,
+  ): Promise<{ currentPrice: number; currentSolValue: number }> {
+    if (!this.priceService) {
+      throw new Error('this.priceService not initialized');
+    }
+
+    const mint = position.mint;
+    const tokensAmount = Number(position.tokensAmount ?? '0');
+
+    const valueData = await this.priceService.calculateCurrentValue(
+      mint,
+      tokensAmount,
+    );
+
+    if (!valueData || valueData.marketPrice === null) {
+      return {
+        currentPrice: Number(position.entryPrice),
+        currentSolValue:
+          (Number(position.entryPrice) || 0) * tokensAmount,
+      };
+    }
 
-  if (!valueData || valueData.marketPrice === null) {
     return {
-      currentPrice: Number(position.entryPrice),
-      currentSolValue:
-        (Number(position.entryPrice) || 0) * tokensAmount,
+      currentPrice: valueData.marketPrice,
+      currentSolValue: valueData.solValue,
     };
   }
 
-  return {
-    currentPrice: valueData.marketPrice,
-    currentSolValue: valueData.solValue,
-  };
-}
+  async monitorOpenPositions() {
+    await this.initCore();
+    if (!this.redisClient || !this.priceService) return;
 
-async function monitorOpenPositions() {
-  await initCore();
-  if (!redisClient || !priceService) return;
+    if (this.isMonitoring) {
+      return;
+    }
+    this.isMonitoring = true;
 
-  if (isMonitoring) {
-    return;
-  }
-  isMonitoring = true;
+    console.log(`📡 ${this.tag}copyMonitor: monitoring open positions...`);
 
-  console.log('📡 copyMonitor: monitoring open positions...');
+    while (true) {
+      try {
+        const positions = await this.positionManager.getOpenPositions();
+        for (const position of positions) {
+          // 🚨 Salidas forzadas (graduation, Telegram, API) para cualquier estrategia
+          const forced = await this.handleForceExit(position);
+          if (forced) continue;
 
-  while (true) {
-    try {
-      const positions = await positionManager.getOpenPositions();
-      for (const position of positions) {
-        if (position.strategy !== 'copy') continue;
-
-        const { currentPrice, currentSolValue } =
-          await calculateCurrentValue(position);
-
-        const entryPrice = Number(position.entryPrice);
-        const pnlPercent =
-          ((currentPrice - entryPrice) / entryPrice) * 100;
-        const pnlSOL =
-          ((currentPrice - entryPrice) / entryPrice) *
-          Number(position.solAmount ?? '0');
-        const holdTime = Date.now() - Number(position.entryTime ?? 0);
-
-        // HYBRID exit
-        const hybridExit: HybridExitDecision =
-          position.strategy === 'copy'
-            ? await evaluateHybridExit(
-                position,
-                currentPrice,
-                pnlPercent,
-                currentSolValue,
-              )
-            : { shouldExit: false, phase: 'none' };
-
-        if (hybridExit.shouldExit) {
-          console.log(
-            `\n🎯 HYBRID EXIT: ${
-              hybridExit.reason?.toUpperCase() ?? 'UNKNOWN'
-            }`,
-          );
-          console.log(`   ${hybridExit.description ?? ''}`);
-          console.log(`   Phase: ${hybridExit.phase}`);
-          console.log(
-            `   PnL: ${
-              pnlPercent >= 0 ? '+' : ''
-            }${pnlPercent.toFixed(2)}% (${
-              pnlSOL >= 0 ? '+' : ''
-            }${pnlSOL.toFixed(4)} SOL)`,
-          );
-          console.log(
-            `   Priority: ${
-              hybridExit.priority !== undefined
-                ? hybridExit.priority
-                : 'N/A'
-            }\n`,
-          );
+          if (position.strategy === 'sniper') {
+            await this.evaluateSniperPosition(position);
+            continue;
+          }
 
-          await executeSell(
-            position,
+          if (position.strategy !== 'copy') continue;
+
+          const { currentPrice, currentSolValue } =
+            await this.calculateCurrentValue(position);
+
+          const entryPrice = Number(position.entryPrice);
+          const pnlPercent =
+            ((currentPrice - entryPrice) / entryPrice) * 100;
+          const pnlSOL =
+            ((currentPrice - entryPrice) / entryPrice) *
+            Number(position.solAmount ?? '0');
+          const holdTime = Date.now() - Number(position.entryTime ?? 0);
+
+          // HYBRID exit
+          const hybridExit: HybridExitDecision =
+            await this.hybridExitEngine.evaluateHybridExit(
+              position,
+              currentPrice,
+              pnlPercent,
+            );
+
+          if (hybridExit.shouldExit) {
+            console.log(
+              `\n🎯 HYBRID EXIT: ${
+                hybridExit.reason?.toUpperCase() ?? 'UNKNOWN'
+              }`,
+            );
+            console.log(`   ${hybridExit.description ?? ''}`);
+            console.log(`   Phase: ${hybridExit.phase}`);
+            console.log(
+              `   PnL: ${
+                pnlPercent >= 0 ? '+' : ''
+              }${pnlPercent.toFixed(2)}% (${
+                pnlSOL >= 0 ? '+' : ''
+              }${pnlSOL.toFixed(4)} SOL)`,
+            );
+            console.log(
+              `   Priority: ${
+                hybridExit.priority !== undefined
+                  ? hybridExit.priority
+                  : 'N/A'
+              }\n`,
+            );
+
+            await this.executeSell(
+              position,
+              currentPrice,
+              currentSolValue,
+              hybridExit.reason ?? 'hybrid_exit',
+            );
+            continue;
+          }
+
+          // 💧 Volume-based exit (price activity drying up)
+          const volumeExit = this.hybridExitEngine.updateVolumeAndCheckExit(
+            position.mint,
             currentPrice,
-            currentSolValue,
-            hybridExit.reason ?? 'hybrid_exit',
+            holdTime,
           );
-          continue;
-        }
 
-        // 💧 Volume-based exit (price activity drying up)
-        const volumeExit = updateVolumeAndCheckExit(
-          position.mint,
-          currentPrice,
-          holdTime,
-        );
+          if (volumeExit.shouldExit) {
+            console.log(
+              `\n💧 VOLUME EXIT: ${
+                volumeExit.reason?.toUpperCase() ?? 'VOLUME_EXIT'
+              }`,
+            );
+            if (volumeExit.description) {
+              console.log(`   ${volumeExit.description}`);
+            }
+            console.log(
+              `   PnL: ${
+                pnlPercent >= 0 ? '+' : ''
+              }${pnlPercent.toFixed(2)}% (${
+                pnlSOL >= 0 ? '+' : ''
+              }${pnlSOL.toFixed(4)} SOL)\n`,
+            );
+
+            await this.executeSell(
+              position,
+              currentPrice,
+              currentSolValue,
+              volumeExit.reason ?? 'volume_exit',
+            );
+            continue;
+          }
 
-        if (volumeExit.shouldExit) {
-          console.log(
-            `\n💧 VOLUME EXIT: ${
-              volumeExit.reason?.toUpperCase() ?? 'VOLUME_EXIT'
-            }`,
-          );
-          if (volumeExit.description) {
-            console.log(`   ${volumeExit.description}`);
+          // 🎯 Partial take-profits BEFORE generic exits
+          if (PARTIAL_TP && !this.profile.dryRun && this.profile.autoTrading && this.tradeExecutor) {
+            const partialDone = await this.handlePartialTakeProfits(
+              position,
+              currentPrice,
+              pnlPercent,
+            );
+            if (partialDone) {
+              // Vendimos una parte; esperamos al siguiente ciclo para re-evaluar
+              continue;
+            }
           }
-          console.log(
-            `   PnL: ${
-              pnlPercent >= 0 ? '+' : ''
-            }${pnlPercent.toFixed(2)}% (${
-              pnlSOL >= 0 ? '+' : ''
-            }${pnlSOL.toFixed(4)} SOL)\n`,
-          );
 
-          await executeSell(
+          const exitDecision = await this.copyStrategy.shouldExit(
             position,
             currentPrice,
+            pnlPercent,
             currentSolValue,
-            volumeExit.reason ?? 'volume_exit',
           );
-          continue;
-        }
 
-        // 🎯 Partial take-profits BEFORE generic exits
-        if (PARTIAL_TP && !DRY_RUN && ENABLE_AUTO_TRADING && tradeExecutor) {
-          const partialDone = await handlePartialTakeProfits(
-            position,
-            currentPrice,
-            pnlPercent,
-          );
-          if (partialDone) {
-            // Vendimos una parte; esperamos al siguiente ciclo para re-evaluar
+          if (exitDecision.shouldExit) {
+            await this.executeSell(
+              position,
+              currentPrice,
+              currentSolValue,
+              exitDecision.reason,
+            );
             continue;
           }
         }
 
-        const exitDecision = await copyStrategy.shouldExit(
-          position,
-          currentPrice,
-          pnlPercent,
-          currentSolValue,
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      } catch (err: any) {
+        console.error(
+          '⚠️ Error in monitorOpenPositions:',
+          err?.message ?? String(err),
         );
-
-        if (exitDecision.shouldExit) {
-          await executeSell(
-            position,
-            currentPrice,
-            currentSolValue,
-            exitDecision.reason,
-          );
-          continue;
-        }
+        await new Promise(resolve => setTimeout(resolve, 3000));
       }
-
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    } catch (err: any) {
-      console.error(
-        '⚠️ Error in monitorOpenPositions:',
-        err?.message ?? String(err),
-      );
-      await new Promise(resolve => setTimeout(resolve, 3000));
     }
   }
-}
 
-// --- Ventas parciales escalonadas ---
-//
-// Usamos niveles configurables de TP para vender una fracción de la posición
-// sin cerrar completamente la posición en Redis. Solo aplicamos en LIVE mode.
-async function handlePartialTakeProfits(
-  position: Position,
-  currentPrice: number,
-  pnlPercent: number,
-): Promise<boolean> {
-  try {
-    if (!PARTIAL_TP || DRY_RUN || !ENABLE_AUTO_TRADING) {
-      return false;
-    }
-    if (!tradeExecutor) {
-      return false;
-    }
-    if (!redisClient) {
-      return false;
-    }
+  // --- Salidas del SNIPER (TP/SL/trailing/max-hold/dev sold propios) ---
 
-    if (!position.tokensAmount || !position.solAmount) {
-      return false;
+  private async evaluateSniperPosition(position: Position): Promise<void> {
+    const { currentPrice, currentSolValue } =
+      await this.calculateCurrentValue(position);
+
+    const entryPrice = Number(position.entryPrice);
+    if (!Number.isFinite(entryPrice) || entryPrice <= 0) return;
+
+    const pnlPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
+
+    // Guardamos el máximo para que el trailing tenga referencia
+    const maxPrice = Number(position.maxPrice ?? position.entryPrice);
+    if (currentPrice > maxPrice) {
+      await this.positionManager.updateMaxPrice(position.mint, currentPrice);
     }
+    await this.positionManager.updatePositionOnPrice(
+      position.mint,
+      currentPrice,
+      pnlPercent,
+    );
 
-    const totalTokens = Number(position.tokensAmount);
-    if (!Number.isFinite(totalTokens) || totalTokens <= 0) {
-      return false;
+    const decision = await this.sniperStrategy.shouldExit(
+      { ...position, maxPrice: String(Math.max(maxPrice, currentPrice)) },
+      currentPrice,
+      pnlPercent,
+    );
+
+    if (!decision.shouldExit) return;
+
+    console.log(
+      `\n🎯 SNIPER EXIT: ${decision.reason?.toUpperCase() ?? 'UNKNOWN'} for ${position.mint.slice(
+        0,
+        8,
+      )}...`,
+    );
+    if (decision.description) {
+      console.log(`   ${decision.description}`);
     }
 
-    const redis = redisClient;
+    await this.executeSell(
+      position,
+      currentPrice,
+      currentSolValue,
+      decision.reason ?? 'sniper_exit',
+    );
+  }
+
+  // --- Salidas forzadas (force_exit:<mint>) ---
+  //
+  // Devuelve true si había una petición pendiente (se haya podido vender o no),
+  // para no evaluar el resto de salidas en este ciclo.
+  private async handleForceExit(position: Position): Promise<boolean> {
+    if (!this.redisClient) return false;
 
-    const stageKey = `tp_stage:${position.mint}`;
-    const rawStage = await redis.get(stageKey);
-    const currentStage = rawStage ? parseInt(rawStage, 10) || 0 : 0;
+    const request = await getForceExit(this.redisClient, position.mint);
+    if (!request) return false;
 
-    // Busca el siguiente nivel aplicable
-    const nextLevel = PARTIAL_LEVELS.find(
-      (l) => l.level > currentStage && pnlPercent >= l.tp,
+    console.log(
+      `\n🚨 FORCE EXIT: ${request.reason.toUpperCase()} for ${position.mint.slice(
+        0,
+        8,
+      )}... (requested by ${request.requestedBy})`,
     );
 
-    if (!nextLevel) {
-      return false;
+    try {
+      const { currentPrice, currentSolValue } =
+        await this.calculateCurrentValue(position);
+
+      await this.redisClient.hset(`position:${position.mint}`, {
+        exitRequestedBy: request.requestedBy,
+      });
+
+      const sold = await this.executeSell(
+        position,
+        currentPrice,
+        currentSolValue,
+        request.reason,
+      );
+
+      if (sold) {
+        await clearForceExit(this.redisClient, position.mint);
+        await recordForceExit(this.redisClient, request, true);
+      } else {
+        // Dejamos la key: se reintenta en el siguiente ciclo hasta que expire
+        await recordForceExit(this.redisClient, request, false, 'sell_failed');
+      }
+    } catch (err: any) {
+      const message = err?.message ?? String(err);
+      console.log('⚠️ Force exit failed:', message);
+      await recordForceExit(this.redisClient, request, false, message);
     }
 
-    const fraction = Math.min(Math.max(nextLevel.sellPct / 100, 0), 1);
-    const tokensToSell = Math.floor(totalTokens * fraction);
+    return true;
+  }
+
+  // --- Ventas parciales escalonadas ---
+  //
+  // Usamos niveles configurables de TP para vender una fracción de la posición
+  // sin cerrar completamente la posición en Redis. Solo aplicamos en LIVE mode.
+  private async handlePartialTakeProfits(
+    position: Position,
+    currentPrice: number,
+    pnlPercent: number,
+  ): Promise<boolean> {
+    try {
+      if (!PARTIAL_TP || this.profile.dryRun || !this.profile.autoTrading) {
+        return false;
+      }
+      if (!this.tradeExecutor) {
+        return false;
+      }
+      if (!this.redisClient) {
+        return false;
+      }
+
+      if (!position.tokensAmount || !position.solAmount) {
+        return false;
+      }
+
+      const totalTokens = Number(position.tokensAmount);
+      if (!Number.isFinite(totalTokens) || totalTokens <= 0) {
+        return false;
+      }
+
+      const redis = this.redisClient;
+
+      const stageKey = `tp_stage:${position.mint}`;
+      const rawStage = await redis.get(stageKey);
+      const currentStage = rawStage ? parseInt(rawStage, 10) || 0 : 0;
+
+      // Busca el siguiente nivel aplicable (null si el redondeo vaciaría la posición)
+      const partial = this.hybridExitEngine.nextPartialTakeProfit(
+        currentStage,
+        pnlPercent,
+        totalTokens,
+      );
+
+      if (!partial) {
+        return false;
+      }
+
+      const { level: nextLevel, tokensToSell } = partial;
+
+      console.log(
+        `\n🎯 PARTIAL TP L${nextLevel.level}: selling ${(
+          (tokensToSell / totalTokens) * 100
+        ).toFixed(1)}% (${tokensToSell} tokens) at PnL ${pnlPercent.toFixed(
+          2,
+        )}%`,
+      );
+
+      const dexHint = normalizeDexPreference(position.executedDex);
+
+      // Partial TP: sin prisa, fee baja (priorityFees.ts)
+      const sellResult = await this.tradeExecutor.sellToken(
+        position.mint,
+        tokensToSell,
+        dexHint,
+        undefined,
+        'low',
+        submissionFor('exit'),
+      );
+
+      if (!sellResult.success) {
+        console.log(
+          `⚠️ Partial TP L${nextLevel.level} failed: ${
+            sellResult.error ?? 'Unknown error'
+          }`,
+        );
+        return false;
+      }
+
+      // Actualizamos Redis con la nueva cantidad restante
+      const remainingTokens = totalTokens - tokensToSell;
+      const originalSolAmount = Number(position.solAmount ?? '0');
+
+      let remainingSolAmount = originalSolAmount;
+      if (originalSolAmount > 0 && totalTokens > 0) {
+        remainingSolAmount =
+          (originalSolAmount * remainingTokens) / totalTokens;
+      }
 
-    if (tokensToSell <= 0 || tokensToSell >= totalTokens) {
-      // Si por redondeo nos quedaríamos sin tokens, dejamos que el flujo normal haga la venta total.
+      await redis.hset(`position:${position.mint}`, {
+        tokensAmount: String(remainingTokens),
+        solAmount: remainingSolAmount.toFixed(9),
+      });
+      await redis.set(stageKey, String(nextLevel.level), 'EX', 24 * 3600);
+      if (sellResult.tipLamports) {
+        await this.positionManager.addJitoTip(
+          position.mint,
+          sellResult.tipLamports / 1e9,
+        );
+      }
+
+      const realizedSol =
+        sellResult.solReceived ?? currentPrice * tokensToSell;
+
+      if (TELEGRAM_OWNER_CHAT_ID) {
+        const dir = pnlPercent >= 0 ? '🟢' : '🔴';
+        const meta = await resolveTokenMetadata(position.mint);
+        await sendTelegramAlert(
+          TELEGRAM_OWNER_CHAT_ID,
+          `${this.tag}${dir} PARTIAL TP L${nextLevel.level}\n` +
+            `Wallet: ${position.walletName ?? 'Copy wallet'}\n` +
+            `${formatTokenAlert(position.mint, meta)}\n` +
+            `Sold: ${tokensToSell} tokens (~${(
+              (tokensToSell / totalTokens) *
+              100
+            ).toFixed(1)}%)\n` +
+            `Realized: ${realizedSol.toFixed(4)} SOL\n` +
+            `PnL: ${pnlPercent.toFixed(2)}%`,
+          true,
+        );
+      }
+
+      return true;
+    } catch (err: any) {
+      console.log(
+        '⚠️ Error in handlePartialTakeProfits:',
+        err?.message ?? String(err),
+      );
       return false;
     }
+  }
+
+  // --- Ejecución de venta ---
+
+  async executeSell(
+    position: Position,
+    currentPrice: number,
+    currentSolValue: number,
+    reason: string,
+  ): Promise<boolean> {
+    await this.initCore();
+    if (!this.redisClient || !this.priceService) return false;
+
+    const dryRun = this.profile.dryRun;
+    const mint = position.mint;
+    const tokensAmount = Number(position.tokensAmount ?? '0');
+
+    const reasonMap: Record<string, string> = {
+      copy_sell: 'Copy wallets exit',
+      hybrid_exit: 'Hybrid strategy exit',
+      hybrid_stop_loss: 'Hybrid stop-loss',
+      hybrid_take_profit: 'Hybrid take-profit',
+      hybrid_trailing_stop: 'Hybrid trailing stop',
+      stop_loss: 'Stop-loss',
+      take_profit: 'Take-profit',
+      trailing_stop: 'Trailing stop',
+      max_hold_time: '⏱️ Max Hold Time',
+      volume_dry_up: '💧 Volume dried up',
+      graduation: '🎓 Graduation',
+      manual_sell: '✋ Manual sell',
+      manual_sell_all: '✋ Manual sell (all)',
+      api_force_exit: '🛰️ API force exit',
+      dev_sold: '👤 Dev sold',
+      rug_detected: '🚨 Rug detected',
+    };
+
+    const reasonText =
+      reasonMap[reason] ?? reason.replace(/_/g, ' ').toUpperCase();
 
     console.log(
-      `\n🎯 PARTIAL TP L${nextLevel.level}: selling ${(
-        fraction * 100
-      ).toFixed(1)}% (${tokensToSell} tokens) at PnL ${pnlPercent.toFixed(
-        2,
-      )}%`,
+      `\n💰 EXECUTE SELL [${dryRun ? 'PAPER' : 'LIVE'}] for mint ${mint}`,
     );
 
+    if (!this.tradeExecutor) {
+      await this.positionManager.closePosition(
+        mint,
+        currentPrice,
+        tokensAmount,
+        currentSolValue,
+        reason,
+        undefined,
+      );
+      return true;
+    }
+
     const dexHint = normalizeDexPreference(position.executedDex);
+    const urgency = exitUrgency(reason);
 
-    const sellResult = await tradeExecutor.sellToken(
-      position.mint,
-      tokensToSell,
+    // Salidas de pánico (urgent) pueden ir por bundle Jito (JITO_STRATEGIES).
+    // En paper el executor simula la venta (slippage, fees, fallos) igual
+    // que en las compras: un fallo simulado cuenta como venta fallida.
+    const sellResult: SellResult = await this.tradeExecutor.sellToken(
+      mint,
+      tokensAmount,
       dexHint,
+      undefined,
+      urgency,
+      submissionFor(urgency === 'urgent' ? 'panic_exit' : 'exit'),
     );
 
     if (!sellResult.success) {
       console.log(
-        `⚠️ Partial TP L${nextLevel.level} failed: ${
+        `❌ Sell failed for mint ${mint}: ${
           sellResult.error ?? 'Unknown error'
         }`,
       );
       return false;
     }
 
-    // Actualizamos Redis con la nueva cantidad restante
-    const remainingTokens = totalTokens - tokensToSell;
-    const originalSolAmount = Number(position.solAmount ?? '0');
-
-    let remainingSolAmount = originalSolAmount;
-    if (originalSolAmount > 0 && totalTokens > 0) {
-      remainingSolAmount =
-        (originalSolAmount * remainingTokens) / totalTokens;
-    }
-
-    await redis.hset(`position:${position.mint}`, {
-      tokensAmount: String(remainingTokens),
-      solAmount: remainingSolAmount.toFixed(9),
-    });
-    await redis.set(stageKey, String(nextLevel.level), 'EX', 24 * 3600);
-
+    // Sin curva, la simulación cotiza contra una curva nueva: usamos el valor actual
     const realizedSol =
-      sellResult.solReceived ?? currentPrice * tokensToSell;
+      dryRun && sellResult.fallback
+        ? currentSolValue
+        : sellResult.solReceived ?? currentPrice * tokensAmount;
+
+    await this.positionManager.closePosition(
+      mint,
+      currentPrice,
+      tokensAmount,
+      realizedSol,
+      reason,
+      sellResult.signature,
+      sellResult.tipLamports ? sellResult.tipLamports / 1e9 : undefined,
+    );
 
     if (TELEGRAM_OWNER_CHAT_ID) {
+      const entryPrice = Number(position.entryPrice);
+      const pnlPercent =
+        ((currentPrice - entryPrice) / entryPrice) * 100;
+      const pnlSOL =
+        ((currentPrice - entryPrice) / entryPrice) *
+        Number(position.solAmount ?? '0');
+
       const dir = pnlPercent >= 0 ? '🟢' : '🔴';
+      const meta = await resolveTokenMetadata(mint);
+
       await sendTelegramAlert(
         TELEGRAM_OWNER_CHAT_ID,
-        `${dir} PARTIAL TP L${nextLevel.level}\n` +
+        `${this.tag}${dir} EXIT (${reasonText})\n` +
           `Wallet: ${position.walletName ?? 'Copy wallet'}\n` +
-          `Mint: ${position.mint.slice(0, 12)}...\n` +
-          `Sold: ${tokensToSell} tokens (~${(
-            (tokensToSell / totalTokens) *
-            100
-          ).toFixed(1)}%)\n` +
-          `Realized: ${realizedSol.toFixed(4)} SOL\n` +
-          `PnL: ${pnlPercent.toFixed(2)}%`,
+          `${formatTokenAlert(mint, meta)}\n` +
+          `Entry: ${entryPrice.toFixed(8)}\n` +
+          `Exit: ${currentPrice.toFixed(8)}\n` +
+          `PnL: ${pnlPercent.toFixed(2)}% | ${pnlSOL.toFixed(4)} SOL\n` +
+          (sellResult.signature
+            ? `Signature: ${sellResult.signature.slice(0, 12)}...`
+            : ''),
         true,
       );
     }
 
     return true;
-  } catch (err: any) {
-    console.log(
-      '⚠️ Error in handlePartialTakeProfits:',
-      err?.message ?? String(err),
-    );
-    return false;
   }
 }
 
-// --- Ejecución de venta ---
-
-async function executeSell(
-  position: Position,
-  currentPrice: number,
-  currentSolValue: number,
-  reason: string,
-): Promise<void> {
-  await initCore();
-  if (!redisClient || !priceService) return;
-
-  const dryRun = DRY_RUN;
-  const mint = position.mint;
-  const tokensAmount = Number(position.tokensAmount ?? '0');
-
-  const reasonMap: Record<string, string> = {
-    copy_sell: 'Copy wallets exit',
-    hybrid_exit: 'Hybrid strategy exit',
-    hybrid_stop_loss: 'Hybrid stop-loss',
-    hybrid_take_profit: 'Hybrid take-profit',
-    hybrid_trailing_stop: 'Hybrid trailing stop',
-    stop_loss: 'Stop-loss',
-    take_profit: 'Take-profit',
-    trailing_stop: 'Trailing stop',
-    max_hold_time: '⏱️ Max Hold Time',
-    volume_dry_up: '💧 Volume dried up',
-  };
-
-  const reasonText =
-    reasonMap[reason] ?? reason.replace(/_/g, ' ').toUpperCase();
-
-  console.log(
-    `\n💰 EXECUTE SELL [${dryRun ? 'PAPER' : 'LIVE'}] for mint ${mint}`,
-  );
-
-  if (!tradeExecutor || dryRun) {
-    await positionManager.closePosition(
-      mint,
-      currentPrice,
-      tokensAmount,
-      currentSolValue,
-      reason,
-      undefined,
-    );
-    return;
-  }
-
-  const dexHint = normalizeDexPreference(position.executedDex);
-
-  const sellResult: SellResult = await tradeExecutor.sellToken(
-    mint,
-    tokensAmount,
-    dexHint,
-  );
-
-  if (!sellResult.success) {
-    console.log(
-      `❌ Sell failed for mint ${mint}: ${
-        sellResult.error ?? 'Unknown error'
-      }`,
-    );
-    return;
-  }
-
-  const realizedSol =
-    sellResult.solReceived ?? currentPrice * tokensAmount;
+// --- LOOP PÚBLICO ---
 
-  await positionManager.closePosition(
-    mint,
-    currentPrice,
-    tokensAmount,
-    realizedSol,
-    reason,
-    sellResult.signature,
-  );
+const monitors = new Map<string, CopyMonitor>();
 
-  if (TELEGRAM_OWNER_CHAT_ID) {
-    const entryPrice = Number(position.entryPrice);
-    const pnlPercent =
-      ((currentPrice - entryPrice) / entryPrice) * 100;
-    const pnlSOL =
-      ((currentPrice - entryPrice) / entryPrice) *
-      Number(position.solAmount ?? '0');
-
-    const dir = pnlPercent >= 0 ? '🟢' : '🔴';
-
-    await sendTelegramAlert(
-      TELEGRAM_OWNER_CHAT_ID,
-      `${dir} EXIT (${reasonText})\n` +
-        `Wallet: ${position.walletName ?? 'Copy wallet'}\n` +
-        `Mint: ${mint.slice(0, 12)}...\n` +
-        `Entry: ${entryPrice.toFixed(8)}\n` +
-        `Exit: ${currentPrice.toFixed(8)}\n` +
-        `PnL: ${pnlPercent.toFixed(2)}% | ${pnlSOL.toFixed(4)} SOL\n` +
-        (sellResult.signature
-          ? `Signature: ${sellResult.signature.slice(0, 12)}...`
-          : ''),
-      true,
-    );
+export async function startCopyMonitor(
+  profile: TradingProfile = getDefaultProfile(),
+): Promise<CopyMonitor> {
+  let monitor = monitors.get(profile.id);
+  if (!monitor) {
+    monitor = new CopyMonitor(profile);
+    monitors.set(profile.id, monitor);
   }
-}
-
-// --- LOOP PÚBLICO ---
-
-export async function startCopyMonitor(): Promise<void> {
-  await initCore();
-  monitorOpenPositions().catch(err => {
-    console.error('❌ monitorOpenPositions crashed:', err);
-  });
+  await monitor.start();
+  return monitor;
 }
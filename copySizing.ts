@@ -0,0 +1,146 @@
+// copySizing.ts - Tamaño de cada copy trade (por wallet + tope global)
+//
+// Modos:
+//   fixed             → POSITION_SIZE_SOL
+//   percent_of_leader → copyPercentage% de lo que gastó el líder
+//   leader_balance    → misma fracción de bankroll que el líder arriesgó
+//                       de su balance (COPY_BANKROLL_SOL como referencia)
+//   confidence        → POSITION_SIZE_SOL escalado por upvotes
+//
+// El resultado siempre se recorta a [minAmount, maxAmount] de la wallet
+// y luego al tope global: COPY_MAX_POSITION_SOL si está definido, si no
+// COPY_MAX_POSITION_MULTIPLIER × tamaño base del perfil. Wallets sin
+// límites propios usan DEFAULT_WALLET_MIN_SOL / DEFAULT_WALLET_MAX_SOL
+// (maxAmount 0 = sin tope propio, solo el global).
+
+import {
+  POSITION_SIZE_SOL,
+  COPY_SIZING_MODE,
+  COPY_MAX_POSITION_SOL,
+  COPY_MAX_POSITION_MULTIPLIER,
+  COPY_BANKROLL_SOL,
+} from './environment.js';
+
+export type SizingMode =
+  | 'fixed'
+  | 'percent_of_leader'
+  | 'leader_balance'
+  | 'confidence';
+
+export const SIZING_MODES: SizingMode[] = [
+  'fixed',
+  'percent_of_leader',
+  'leader_balance',
+  'confidence',
+];
+
+// Sin límites por wallet; manda el tope global (relativo al perfil)
+export const DEFAULT_WALLET_MIN_SOL = 0;
+export const DEFAULT_WALLET_MAX_SOL = 0;
+
+export interface SizingInput {
+  mode?: string;
+  leaderSolAmount: number;
+  leaderBalanceSol?: number; // balance del líder ANTES del trade
+  upvotes: number;
+  copyPercentage: number;
+  minAmount: number;
+  maxAmount: number;
+  baseSizeSol?: number; // tamaño base del perfil (default POSITION_SIZE_SOL)
+  maxPositionSol?: number; // tope global (default: maxPositionFor(baseSizeSol))
+}
+
+export interface SizingResult {
+  amount: number;
+  mode: SizingMode;
+  rawAmount: number;
+  clampedBy?: 'wallet_min' | 'wallet_max' | 'global_cap';
+}
+
+export function normalizeSizingMode(mode?: string | null): SizingMode {
+  const normalized = (mode ?? '').trim().toLowerCase() as SizingMode;
+  if (SIZING_MODES.includes(normalized)) {
+    return normalized;
+  }
+  const fallback = COPY_SIZING_MODE as SizingMode;
+  return SIZING_MODES.includes(fallback) ? fallback : 'fixed';
+}
+
+// Tope global por trade para un tamaño base (0 = sin tope)
+export function maxPositionFor(baseSizeSol: number = POSITION_SIZE_SOL): number {
+  if (COPY_MAX_POSITION_SOL > 0) return COPY_MAX_POSITION_SOL;
+  const cap = baseSizeSol * COPY_MAX_POSITION_MULTIPLIER;
+  return Number.isFinite(cap) && cap > 0 ? cap : 0;
+}
+
+// 1 upvote → 0.5x, 2 → 1x, 3+ → 1.5x
+function confidenceMultiplier(upvotes: number): number {
+  const votes = Math.max(1, Math.min(Math.trunc(upvotes) || 1, 3));
+  return 0.5 * votes;
+}
+
+function rawSize(mode: SizingMode, input: SizingInput): number {
+  const base = input.baseSizeSol ?? POSITION_SIZE_SOL;
+  const pct = Number.isFinite(input.copyPercentage)
+    ? input.copyPercentage / 100
+    : 1;
+
+  switch (mode) {
+    case 'percent_of_leader':
+      return input.leaderSolAmount * pct;
+
+    case 'leader_balance': {
+      const balance = input.leaderBalanceSol ?? 0;
+      if (!Number.isFinite(balance) || balance <= 0) {
+        return base;
+      }
+      const fraction = Math.min(input.leaderSolAmount / balance, 1);
+      return COPY_BANKROLL_SOL * fraction * pct;
+    }
+
+    case 'confidence':
+      return base * confidenceMultiplier(input.upvotes);
+
+    case 'fixed':
+    default:
+      return base;
+  }
+}
+
+export function calculateCopySize(input: SizingInput): SizingResult {
+  const mode = normalizeSizingMode(input.mode);
+  const raw = rawSize(mode, input);
+
+  let amount =
+    Number.isFinite(raw) && raw > 0
+      ? raw
+      : input.baseSizeSol ?? POSITION_SIZE_SOL;
+  let clampedBy: SizingResult['clampedBy'];
+
+  const min = Number.isFinite(input.minAmount) ? input.minAmount : 0;
+  const max = Number.isFinite(input.maxAmount) && input.maxAmount > 0
+    ? input.maxAmount
+    : Infinity;
+
+  if (amount < min) {
+    amount = min;
+    clampedBy = 'wallet_min';
+  }
+  if (amount > max) {
+    amount = max;
+    clampedBy = 'wallet_max';
+  }
+  const cap =
+    input.maxPositionSol ?? maxPositionFor(input.baseSizeSol ?? POSITION_SIZE_SOL);
+  if (cap > 0 && amount > cap) {
+    amount = cap;
+    clampedBy = 'global_cap';
+  }
+
+  return {
+    amount: Number(amount.toFixed(9)),
+    mode,
+    rawAmount: raw,
+    clampedBy,
+  };
+}
@@ -17,7 +17,11 @@ import {
   COPY_COOLDOWN_SECONDS,
   BLOCK_REBUYS_ENABLED,
   REBUY_WINDOW_SECONDS,
+  WALLET_WEIGHTED_UPVOTES_ENABLED,
+  CONSENSUS_ENABLED,
 } from './environment.js';
+import { getWeightedUpvotes } from './walletScoring.js';
+import { ConsensusEngine, type ConsensusResult } from './upvoteConsensus.js';
 
 // --- Tipos auxiliares ---
 
@@ -52,6 +56,7 @@ interface CopyDecision {
   confidence?: number;
   upvotes?: number;
   buyers?: unknown;
+  consensus?: ConsensusResult;
   mode?: 'paper' | 'live';
 }
 
@@ -70,10 +75,27 @@ interface ExitDecision {
   [key: string]: unknown;
 }
 
+// Overrides de las salidas (optimizador); por defecto se usa environment.ts
+export interface CopyExitOverrides {
+  takeProfitPercent?: number;
+  stopLossPercent?: number;
+  trailingStopPercent?: number;
+  maxHoldEnabled?: boolean;
+  maxHoldSeconds?: number;
+}
+
 interface CopyStrategyDependencies {
   redis?: RedisClient;
   positionManager?: unknown;
   priceService?: unknown;
+  clock?: () => number; // inyectable para el backtester
+  exitOverrides?: CopyExitOverrides;
+  // Perfiles (profiles.ts): por defecto, config global
+  dryRun?: boolean;
+  minWalletsToBuy?: number;
+  minWalletsToSell?: number;
+  consensusWindowSeconds?: number;
+  minConsensusScore?: number;
 }
 
 function isRedisInstance(candidate: unknown): candidate is RedisClient {
@@ -96,14 +118,25 @@ function createRedisClient(): RedisClient {
   });
 }
 
-const sharedRedis: RedisClient = createRedisClient();
+// Se crea al primer uso: el backtester instancia CopyStrategy sin REDIS_URL
+let sharedRedis: RedisClient | null = null;
+
+function getSharedRedis(): RedisClient {
+  if (!sharedRedis) {
+    sharedRedis = createRedisClient();
+  }
+  return sharedRedis;
+}
 
 // --- Clase principal ---
 
 export class CopyStrategy {
   private readonly redis: RedisClient;
+  private readonly now: () => number;
+  private readonly dryRun: boolean;
   private readonly minWalletsToBuy: number;
   private readonly minWalletsToSell: number;
+  private readonly consensus: ConsensusEngine | null;
 
   private readonly takeProfitEnabled: boolean;
   private readonly takeProfitPercent: number;
@@ -123,29 +156,49 @@ export class CopyStrategy {
   private readonly blockRebuys: boolean;
   private readonly rebuyWindow: number;
 
-  constructor(redisOrDeps: RedisClient | CopyStrategyDependencies = sharedRedis) {
+  constructor(redisOrDeps?: RedisClient | CopyStrategyDependencies) {
+    let overrides: CopyExitOverrides = {};
+    let deps: CopyStrategyDependencies = {};
     if (isRedisInstance(redisOrDeps)) {
       this.redis = redisOrDeps;
+      this.now = Date.now;
     } else if (redisOrDeps && typeof redisOrDeps === 'object') {
-      this.redis = redisOrDeps.redis ?? sharedRedis;
+      deps = redisOrDeps;
+      this.redis = redisOrDeps.redis ?? getSharedRedis();
+      this.now = redisOrDeps.clock ?? Date.now;
+      overrides = redisOrDeps.exitOverrides ?? {};
     } else {
-      this.redis = sharedRedis;
+      this.redis = getSharedRedis();
+      this.now = Date.now;
     }
 
-    this.minWalletsToBuy = COPY_MIN_WALLETS_TO_BUY;
-    this.minWalletsToSell = COPY_MIN_WALLETS_TO_SELL;
+    this.dryRun = deps.dryRun ?? isDryRunEnabled();
+    this.minWalletsToBuy = deps.minWalletsToBuy ?? COPY_MIN_WALLETS_TO_BUY;
+    this.minWalletsToSell = deps.minWalletsToSell ?? COPY_MIN_WALLETS_TO_SELL;
+    this.consensus = CONSENSUS_ENABLED
+      ? new ConsensusEngine({
+          redis: this.redis,
+          clock: this.now,
+          config: {
+            windowSeconds: deps.consensusWindowSeconds,
+            threshold: deps.minConsensusScore,
+          },
+        })
+      : null;
 
     this.takeProfitEnabled = COPY_PROFIT_TARGET_ENABLED;
-    this.takeProfitPercent = COPY_PROFIT_TARGET_PERCENT;
+    this.takeProfitPercent =
+      overrides.takeProfitPercent ?? COPY_PROFIT_TARGET_PERCENT;
 
     this.trailingStopEnabled = TRAILING_STOP_ENABLED;
-    this.trailingStopPercent = TRAILING_STOP_PERCENT;
+    this.trailingStopPercent =
+      overrides.trailingStopPercent ?? TRAILING_STOP_PERCENT;
 
     this.stopLossEnabled = COPY_STOP_LOSS_ENABLED;
-    this.stopLoss = COPY_STOP_LOSS_PERCENT;
+    this.stopLoss = overrides.stopLossPercent ?? COPY_STOP_LOSS_PERCENT;
 
-    this.maxHoldEnabled = COPY_MAX_HOLD_ENABLED;
-    this.maxHoldSeconds = COPY_MAX_HOLD_SECONDS;
+    this.maxHoldEnabled = overrides.maxHoldEnabled ?? COPY_MAX_HOLD_ENABLED;
+    this.maxHoldSeconds = overrides.maxHoldSeconds ?? COPY_MAX_HOLD_SECONDS;
 
     this.cooldownSeconds = COPY_COOLDOWN_SECONDS;
 
@@ -154,7 +207,11 @@ export class CopyStrategy {
     this.rebuyWindow = REBUY_WINDOW_SECONDS; // 5 min
 
     console.log('🎯 Copy Strategy ANTI-RECOMPRA initialized');
-    console.log(`   Min wallets to BUY: ${this.minWalletsToBuy}`);
+    console.log(
+      this.consensus
+        ? `   Consensus score to BUY: ${this.consensus.config.threshold} (window ${this.consensus.config.windowSeconds}s)`
+        : `   Min wallets to BUY: ${this.minWalletsToBuy}`,
+    );
     console.log(`   Min wallets to SELL: ${this.minWalletsToSell}`);
     console.log(
       `   🚫 Block rebuys: ${this.blockRebuys ? 'YES' : 'NO'}`,
@@ -195,7 +252,7 @@ export class CopyStrategy {
     try {
       const { mint, copyAmount, upvotes, buyers, walletAddress } =
         copySignal;
-      const dryRun = isDryRunEnabled();
+      const dryRun = this.dryRun;
 
       console.log(
         `\n🔍 Evaluating copy signal for ${mint.slice(0, 8)}...`,
@@ -212,13 +269,46 @@ export class CopyStrategy {
       }
 
       // 2. Live: verificar upvotes PRIMERO
-      if (!dryRun && upvotes < this.minWalletsToBuy) {
+      // - CONSENSUS_ENABLED: score ponderado (upvoteConsensus.ts)
+      // - WALLET_WEIGHTED_UPVOTES: cada buyer vale su peso (walletScoring.ts)
+      let effectiveUpvotes = upvotes;
+      let threshold = this.minWalletsToBuy;
+      let consensus: ConsensusResult | undefined;
+
+      if (this.consensus) {
+        consensus = await this.consensus.evaluate(
+          mint,
+          Array.isArray(buyers) ? buyers.map(String) : [walletAddress],
+        );
+        effectiveUpvotes = consensus.score;
+        threshold = consensus.threshold;
+        console.log(
+          `   Consensus: ${consensus.score.toFixed(2)}/${threshold} (${consensus.buyers} buyers)`,
+        );
+      } else if (
+        WALLET_WEIGHTED_UPVOTES_ENABLED &&
+        Array.isArray(buyers) &&
+        buyers.length > 0
+      ) {
+        effectiveUpvotes = await getWeightedUpvotes(
+          this.redis,
+          buyers.map(String),
+        );
+        console.log(
+          `   Weighted upvotes: ${effectiveUpvotes.toFixed(2)} (${buyers.length} buyers)`,
+        );
+      }
+
+      if (!dryRun && effectiveUpvotes < threshold) {
         console.log(
-          `   ❌ Not enough upvotes for LIVE (need ${this.minWalletsToBuy})`,
+          `   ❌ Not enough upvotes for LIVE (need ${threshold})`,
         );
         return {
           copy: false,
-          reason: `low_upvotes (${upvotes}/${this.minWalletsToBuy})`,
+          reason: `${consensus ? 'low_consensus' : 'low_upvotes'} (${Number(
+            effectiveUpvotes.toFixed(2),
+          )}/${threshold})`,
+          consensus,
         };
       }
 
@@ -271,7 +361,9 @@ export class CopyStrategy {
 
       // ✅ COPIAR APROBADO
       const mode: 'paper' | 'live' = dryRun ? 'paper' : 'live';
-      const confidence = this.calculateConfidence(upvotes);
+      const confidence = consensus
+        ? this.consensus.confidence(consensus)
+        : this.calculateConfidence(upvotes);
 
       console.log(`   ✅ Copy approved for ${mode.toUpperCase()}`);
       console.log(`   Amount: ${copyAmount.toFixed(4)} SOL`);
@@ -283,6 +375,7 @@ export class CopyStrategy {
         confidence,
         upvotes,
         buyers,
+        consensus,
         mode,
       };
     } catch (error: any) {
@@ -319,7 +412,7 @@ export class CopyStrategy {
       }
 
       // MÉTODO 2: ¿Ya compraste y cerraste este token de este wallet HOY?
-      const today = new Date().toISOString().split('T')[0];
+      const today = new Date(this.now()).toISOString().split('T')[0];
       const todayTrades = await this.redis.lrange(
         `trades:${today}`,
         0,
@@ -332,7 +425,7 @@ export class CopyStrategy {
 
           if (trade.mint === mint && trade.walletSource === walletAddress) {
             const closedAt = parseInt(trade.closedAt ?? '0', 10) || 0;
-            const timeSinceClosed = Date.now() - closedAt;
+            const timeSinceClosed = this.now() - closedAt;
             const windowMs = this.rebuyWindow * 1000;
             const minutesAgo = timeSinceClosed / 60000;
 
@@ -359,7 +452,7 @@ export class CopyStrategy {
       // MÉTODO 3: Verificar en historial extendido (últimos 7 días)
       const keys: string[] = [];
       for (let i = 0; i < 7; i++) {
-        const date = new Date();
+        const date = new Date(this.now());
         date.setDate(date.getDate() - i);
         const dateKey = date.toISOString().split('T')[0];
         keys.push(`trades:${dateKey}`);
@@ -378,7 +471,7 @@ export class CopyStrategy {
                 trade.walletSource === walletAddress
               ) {
                 const closedAt = parseInt(trade.closedAt ?? '0', 10) || 0;
-                const timeSinceClosed = Date.now() - closedAt;
+                const timeSinceClosed = this.now() - closedAt;
                 const windowMs = this.rebuyWindow * 1000;
 
                 if (timeSinceClosed < windowMs) {
@@ -426,7 +519,7 @@ export class CopyStrategy {
           : ((currentPrice - entryPrice) / entryPrice) * 100;
       const maxPnlPercent =
         ((maxPrice - entryPrice) / entryPrice) * 100;
-      const holdTime = (Date.now() - entryTime) / 1000;
+      const holdTime = (this.now() - entryTime) / 1000;
 
       // PRIORIDAD 1: 💰 TAKE PROFIT (con lógica ligeramente dinámica)
       if (this.takeProfitEnabled && pnlPercent >= this.takeProfitPercent) {
@@ -1,4 +1,5 @@
 import dns from 'node:dns';
+import { DEFAULT_PUMP_FEES } from './pumpCurve.js';
 
 const TRUTHY_VALUES = new Set(['1', 'true', 'yes', 'y', 'on', 'paper']);
 const FALSY_VALUES = new Set(['0', 'false', 'no', 'n', 'off']);
@@ -122,6 +123,57 @@ export const MAX_POSITIONS = parseIntegerEnv(
   2,
 );
 
+// Risk governor (0 = desactivado)
+export const RISK_DAILY_LOSS_LIMIT_SOL = parseNumberEnv(
+  process.env.RISK_DAILY_LOSS_LIMIT_SOL,
+  0,
+);
+export const RISK_MAX_TOTAL_SOL = parseNumberEnv(
+  process.env.RISK_MAX_TOTAL_SOL,
+  0,
+);
+export const RISK_MAX_SOL_PER_WALLET = parseNumberEnv(
+  process.env.RISK_MAX_SOL_PER_WALLET,
+  0,
+);
+export const RISK_MAX_SOL_PER_CREATOR = parseNumberEnv(
+  process.env.RISK_MAX_SOL_PER_CREATOR,
+  0,
+);
+export const RISK_MAX_CONSECUTIVE_LOSSES = parseIntegerEnv(
+  process.env.RISK_MAX_CONSECUTIVE_LOSSES,
+  0,
+);
+export const RISK_BREAKER_COOLDOWN_MINUTES = parseIntegerEnv(
+  process.env.RISK_BREAKER_COOLDOWN_MINUTES,
+  60,
+);
+
+// Copy sizing: fixed | percent_of_leader | leader_balance | confidence
+export const COPY_SIZING_MODE = (
+  process.env.COPY_SIZING_MODE ?? 'fixed'
+).trim().toLowerCase();
+
+// Tope global por trade (aplica después del min/max de cada wallet):
+// N veces el tamaño base del perfil, para que percent_of_leader /
+// leader_balance / confidence puedan pasar del tamaño fijo sin dispararse.
+export const COPY_MAX_POSITION_MULTIPLIER = parseNumberEnv(
+  process.env.COPY_MAX_POSITION_MULTIPLIER,
+  3,
+);
+
+// Tope absoluto en SOL; si se define (> 0) sustituye al múltiplo
+export const COPY_MAX_POSITION_SOL = parseNumberEnv(
+  process.env.COPY_MAX_POSITION_SOL,
+  0,
+);
+
+// Bankroll de referencia para el modo leader_balance
+export const COPY_BANKROLL_SOL = parseNumberEnv(
+  process.env.COPY_BANKROLL_SOL,
+  1,
+);
+
 //
 // Profit targets & stops (copy strategy clásica)
 //
@@ -249,6 +301,44 @@ export const MAX_TOKENS_PER_HOUR = parseIntegerEnv(
   30,
 );
 
+// Sniper exits (independientes de los COPY_*)
+export const SNIPER_TAKE_PROFIT_ENABLED = parseBooleanEnv(
+  process.env.SNIPER_TAKE_PROFIT_ENABLED,
+  true,
+);
+export const SNIPER_TAKE_PROFIT_PERCENT = parseNumberEnv(
+  process.env.SNIPER_TAKE_PROFIT_PERCENT,
+  100,
+);
+export const SNIPER_STOP_LOSS_ENABLED = parseBooleanEnv(
+  process.env.SNIPER_STOP_LOSS_ENABLED,
+  true,
+);
+export const SNIPER_STOP_LOSS_PERCENT = parseNumberEnv(
+  process.env.SNIPER_STOP_LOSS_PERCENT,
+  30,
+);
+export const SNIPER_TRAILING_STOP_ENABLED = parseBooleanEnv(
+  process.env.SNIPER_TRAILING_STOP_ENABLED,
+  true,
+);
+export const SNIPER_TRAILING_STOP_PERCENT = parseNumberEnv(
+  process.env.SNIPER_TRAILING_STOP_PERCENT,
+  20,
+);
+export const SNIPER_MAX_HOLD_ENABLED = parseBooleanEnv(
+  process.env.SNIPER_MAX_HOLD_ENABLED,
+  true,
+);
+export const SNIPER_MAX_HOLD_SECONDS = parseIntegerEnv(
+  process.env.SNIPER_MAX_HOLD_SECONDS,
+  900,
+);
+export const SNIPER_EXIT_ON_DEV_SELL = parseBooleanEnv(
+  process.env.SNIPER_EXIT_ON_DEV_SELL,
+  true,
+);
+
 //
 // PUMP.FUN / JUPITER / RPC
 //
@@ -295,6 +385,514 @@ export const PRIORITY_FEE_MICROLAMPORTS = parseIntegerEnv(
   500_000,
 );
 
+//
+// PAPER TRADING (simulación realista de fills en DRY_RUN)
+//
+export const PAPER_SIM_ENABLED = parseBooleanEnv(
+  process.env.PAPER_SIM_ENABLED,
+  true,
+);
+
+// Fees de Pump.fun por defecto: las mismas que usa el executor (pumpCurve.ts)
+export const PAPER_PUMP_PROTOCOL_FEE_PERCENT = parseNumberEnv(
+  process.env.PAPER_PUMP_PROTOCOL_FEE_PERCENT,
+  Number(DEFAULT_PUMP_FEES.feeBasisPoints) / 100,
+);
+
+export const PAPER_PUMP_CREATOR_FEE_PERCENT = parseNumberEnv(
+  process.env.PAPER_PUMP_CREATOR_FEE_PERCENT,
+  Number(DEFAULT_PUMP_FEES.creatorFeeBasisPoints) / 100,
+);
+
+export const PAPER_COMPUTE_UNITS = parseIntegerEnv(
+  process.env.PAPER_COMPUTE_UNITS,
+  300_000,
+);
+
+export const PAPER_BASE_FEE_LAMPORTS = parseIntegerEnv(
+  process.env.PAPER_BASE_FEE_LAMPORTS,
+  5_000,
+);
+
+export const PAPER_LATENCY_MS = parseIntegerEnv(
+  process.env.PAPER_LATENCY_MS,
+  800,
+);
+
+// Deriva adversa esperada del precio por segundo de latencia
+export const PAPER_DRIFT_PERCENT_PER_SEC = parseNumberEnv(
+  process.env.PAPER_DRIFT_PERCENT_PER_SEC,
+  1,
+);
+
+// Ruido (desviación estándar) del precio por √segundo de latencia
+export const PAPER_DRIFT_VOLATILITY_PERCENT = parseNumberEnv(
+  process.env.PAPER_DRIFT_VOLATILITY_PERCENT,
+  2,
+);
+
+export const PAPER_FAILED_TX_PROBABILITY = parseNumberEnv(
+  process.env.PAPER_FAILED_TX_PROBABILITY,
+  0.05,
+);
+
+// Slippage medio realizado en rutas Jupiter (se muestrea en [0, 2x])
+export const PAPER_JUPITER_ROUTE_SLIPPAGE_PERCENT = parseNumberEnv(
+  process.env.PAPER_JUPITER_ROUTE_SLIPPAGE_PERCENT,
+  1,
+);
+
+// Wallet virtual persistente (saldo SOL + ledger de tokens en Redis)
+export const PAPER_WALLET_ENABLED = parseBooleanEnv(
+  process.env.PAPER_WALLET_ENABLED,
+  true,
+);
+
+export const PAPER_STARTING_SOL = parseNumberEnv(
+  process.env.PAPER_STARTING_SOL,
+  10,
+);
+
+// Varias cuentas paper en paralelo: cada proceso usa la suya
+export const PAPER_ACCOUNT = (process.env.PAPER_ACCOUNT ?? 'default')
+  .trim()
+  .toLowerCase() || 'default';
+
+export const PAPER_EQUITY_HISTORY_MAX = parseIntegerEnv(
+  process.env.PAPER_EQUITY_HISTORY_MAX,
+  2_000,
+);
+
+//
+// WALLET SCORING (calidad de cada wallet copiada, ver walletScoring.ts)
+//
+// Ventana móvil: últimos N trades cerrados atribuidos a la wallet
+export const WALLET_SCORE_WINDOW = parseIntegerEnv(
+  process.env.WALLET_SCORE_WINDOW,
+  50,
+);
+
+export const WALLET_SCORE_HISTORY_MAX = parseIntegerEnv(
+  process.env.WALLET_SCORE_HISTORY_MAX,
+  500,
+);
+
+// Por debajo de este nº de trades la wallet no se evalúa (peso 1)
+export const WALLET_SCORE_MIN_TRADES = parseIntegerEnv(
+  process.env.WALLET_SCORE_MIN_TRADES,
+  10,
+);
+
+// Desactivar (enabled=false) wallets por debajo de los umbrales
+export const WALLET_AUTO_DISABLE_ENABLED = parseBooleanEnv(
+  process.env.WALLET_AUTO_DISABLE_ENABLED,
+  false,
+);
+
+export const WALLET_MIN_WIN_RATE = parseNumberEnv(
+  process.env.WALLET_MIN_WIN_RATE,
+  30,
+);
+
+export const WALLET_MIN_EXPECTANCY_SOL = parseNumberEnv(
+  process.env.WALLET_MIN_EXPECTANCY_SOL,
+  0,
+);
+
+// Drawdown máximo (SOL) sobre la ventana (0 = desactivado)
+export const WALLET_MAX_DRAWDOWN_SOL = parseNumberEnv(
+  process.env.WALLET_MAX_DRAWDOWN_SOL,
+  0,
+);
+
+// Upvotes ponderados por calidad en CopyStrategy.shouldCopy
+export const WALLET_WEIGHTED_UPVOTES_ENABLED = parseBooleanEnv(
+  process.env.WALLET_WEIGHTED_UPVOTES_ENABLED,
+  false,
+);
+
+export const WALLET_WEIGHT_MIN = parseNumberEnv(
+  process.env.WALLET_WEIGHT_MIN,
+  0.25,
+);
+
+export const WALLET_WEIGHT_MAX = parseNumberEnv(
+  process.env.WALLET_WEIGHT_MAX,
+  2,
+);
+
+//
+// BACKFILL DE HISTORIAL DE WALLETS (ver walletBackfill.ts)
+//
+// Al añadir una wallet se reconstruye su historial on-chain en background
+export const WALLET_BACKFILL_ON_ADD = parseBooleanEnv(
+  process.env.WALLET_BACKFILL_ON_ADD,
+  true,
+);
+
+// Firmas más recientes que se revisan por wallet
+export const WALLET_BACKFILL_MAX_SIGNATURES = parseIntegerEnv(
+  process.env.WALLET_BACKFILL_MAX_SIGNATURES,
+  300,
+);
+
+// No ir más atrás de N días (0 = sin límite)
+export const WALLET_BACKFILL_MAX_AGE_DAYS = parseNumberEnv(
+  process.env.WALLET_BACKFILL_MAX_AGE_DAYS,
+  14,
+);
+
+// Swaps guardados en wallet_trades:<address> (live + backfill)
+export const WALLET_TRADES_HISTORY_MAX = parseIntegerEnv(
+  process.env.WALLET_TRADES_HISTORY_MAX,
+  1000,
+);
+
+//
+// RUG GUARD: vigilancia de creador + bonding curve de posiciones abiertas
+// (ver rugGuard.ts). Las salidas van por force_exit:<mint>.
+//
+export const RUG_GUARD_ENABLED = parseBooleanEnv(
+  process.env.RUG_GUARD_ENABLED,
+  true,
+);
+
+// Cada cuánto se sincronizan las suscripciones con open_positions
+export const RUG_GUARD_SYNC_INTERVAL_SECONDS = parseIntegerEnv(
+  process.env.RUG_GUARD_SYNC_INTERVAL_SECONDS,
+  5,
+);
+
+// Salir si el creador vende (cualquier cantidad)
+export const RUG_EXIT_ON_DEV_SELL = parseBooleanEnv(
+  process.env.RUG_EXIT_ON_DEV_SELL,
+  true,
+);
+
+// Caída de SOL real en la curva desde el máximo visto (retirada de liquidez)
+export const RUG_LIQUIDITY_DROP_PERCENT = parseNumberEnv(
+  process.env.RUG_LIQUIDITY_DROP_PERCENT,
+  50,
+);
+
+// Caída de SOL real en una sola actualización (dump de un holder grande)
+export const RUG_HOLDER_DUMP_PERCENT = parseNumberEnv(
+  process.env.RUG_HOLDER_DUMP_PERCENT,
+  25,
+);
+
+// Por debajo de esta liquidez (SOL real) no se evalúan caídas (ruido)
+export const RUG_MIN_REAL_SOL = parseNumberEnv(
+  process.env.RUG_MIN_REAL_SOL,
+  1,
+);
+
+//
+// TOKEN SAFETY: screening previo a la compra (sniper + copy, ver tokenSafety.ts)
+//
+export const TOKEN_SAFETY_ENABLED = parseBooleanEnv(
+  process.env.TOKEN_SAFETY_ENABLED,
+  true,
+);
+
+// Score global mínimo (0-100) además de no fallar ningún check
+export const TOKEN_SAFETY_MIN_SCORE = parseNumberEnv(
+  process.env.TOKEN_SAFETY_MIN_SCORE,
+  50,
+);
+
+// % del supply en el mayor holder (sin contar la bonding curve)
+export const TOKEN_SAFETY_MAX_TOP_HOLDER_PERCENT = parseNumberEnv(
+  process.env.TOKEN_SAFETY_MAX_TOP_HOLDER_PERCENT,
+  20,
+);
+
+// % del supply en los 10 mayores holders (sin contar la bonding curve)
+export const TOKEN_SAFETY_MAX_TOP10_PERCENT = parseNumberEnv(
+  process.env.TOKEN_SAFETY_MAX_TOP10_PERCENT,
+  50,
+);
+
+// Lanzamientos del mismo creador en 24h antes de considerarlo serial
+export const TOKEN_SAFETY_MAX_CREATOR_LAUNCHES_24H = parseIntegerEnv(
+  process.env.TOKEN_SAFETY_MAX_CREATOR_LAUNCHES_24H,
+  3,
+);
+
+// Progreso de la bonding curve a partir del cual ya es tarde para entrar
+export const TOKEN_SAFETY_MAX_CURVE_PROGRESS_PERCENT = parseNumberEnv(
+  process.env.TOKEN_SAFETY_MAX_CURVE_PROGRESS_PERCENT,
+  90,
+);
+
+// Cache del veredicto por mint
+export const TOKEN_SAFETY_CACHE_SECONDS = parseIntegerEnv(
+  process.env.TOKEN_SAFETY_CACHE_SECONDS,
+  60,
+);
+
+//
+// TOKEN METADATA: nombre / símbolo / links (Metaplex + uri, ver tokenMetadata.ts)
+//
+export const TOKEN_METADATA_ENABLED = parseBooleanEnv(
+  process.env.TOKEN_METADATA_ENABLED,
+  true,
+);
+
+// Cache en Redis (cross-process) de la metadata resuelta
+export const TOKEN_METADATA_CACHE_HOURS = parseNumberEnv(
+  process.env.TOKEN_METADATA_CACHE_HOURS,
+  24,
+);
+
+// Timeout del JSON off-chain (uri): IPFS suele ir lento
+export const TOKEN_METADATA_URI_TIMEOUT_MS = parseIntegerEnv(
+  process.env.TOKEN_METADATA_URI_TIMEOUT_MS,
+  4000,
+);
+
+//
+// TX LANDING: envío, rebroadcast y confirmación (ver txLanding.ts)
+//
+// Blockhashes distintos a probar antes de dar la tx por perdida
+export const TX_LANDING_MAX_ATTEMPTS = parseIntegerEnv(
+  process.env.TX_LANDING_MAX_ATTEMPTS,
+  3,
+);
+
+// Cada cuánto se reenvía la misma tx firmada mientras no confirma
+export const TX_REBROADCAST_INTERVAL_MS = parseIntegerEnv(
+  process.env.TX_REBROADCAST_INTERVAL_MS,
+  2000,
+);
+
+// Polling de getSignatureStatuses
+export const TX_CONFIRM_POLL_MS = parseIntegerEnv(
+  process.env.TX_CONFIRM_POLL_MS,
+  750,
+);
+
+// Tope total (todas las tentativas) antes de rendirse
+export const TX_LANDING_TIMEOUT_SECONDS = parseIntegerEnv(
+  process.env.TX_LANDING_TIMEOUT_SECONDS,
+  90,
+);
+
+//
+// PRIORITY FEES dinámicas + CU sizing (ver priorityFees.ts)
+//
+// false = siempre PRIORITY_FEE_MICROLAMPORTS y CU fijo (comportamiento antiguo)
+export const PRIORITY_FEE_DYNAMIC = parseBooleanEnv(
+  process.env.PRIORITY_FEE_DYNAMIC,
+  true,
+);
+
+export const PRIORITY_FEE_MIN_MICROLAMPORTS = parseIntegerEnv(
+  process.env.PRIORITY_FEE_MIN_MICROLAMPORTS,
+  10_000,
+);
+
+export const PRIORITY_FEE_MAX_MICROLAMPORTS = parseIntegerEnv(
+  process.env.PRIORITY_FEE_MAX_MICROLAMPORTS,
+  5_000_000,
+);
+
+// Percentil de getRecentPrioritizationFees por urgencia
+// low = partial TP, normal = copy buy / salidas normales,
+// high = sniper buy, urgent = stop-loss / rug / force exit
+export const PRIORITY_FEE_PERCENTILE_LOW = parseNumberEnv(
+  process.env.PRIORITY_FEE_PERCENTILE_LOW,
+  50,
+);
+
+export const PRIORITY_FEE_PERCENTILE_NORMAL = parseNumberEnv(
+  process.env.PRIORITY_FEE_PERCENTILE_NORMAL,
+  75,
+);
+
+export const PRIORITY_FEE_PERCENTILE_HIGH = parseNumberEnv(
+  process.env.PRIORITY_FEE_PERCENTILE_HIGH,
+  90,
+);
+
+export const PRIORITY_FEE_PERCENTILE_URGENT = parseNumberEnv(
+  process.env.PRIORITY_FEE_PERCENTILE_URGENT,
+  95,
+);
+
+// Simular la tx para ajustar el CU limit (+ margen) en vez de 300k/400k fijos
+export const COMPUTE_UNIT_SIMULATE = parseBooleanEnv(
+  process.env.COMPUTE_UNIT_SIMULATE,
+  true,
+);
+
+export const COMPUTE_UNIT_MARGIN_PERCENT = parseNumberEnv(
+  process.env.COMPUTE_UNIT_MARGIN_PERCENT,
+  15,
+);
+
+// Tope de priority fee (no incluye la fee base) por trade y por día
+// (el diario no se aplica a salidas urgentes: stop-loss, rug, dev sold)
+export const PRIORITY_FEE_MAX_SOL_PER_TRADE = parseNumberEnv(
+  process.env.PRIORITY_FEE_MAX_SOL_PER_TRADE,
+  0.005,
+);
+
+export const PRIORITY_FEE_MAX_SOL_PER_DAY = parseNumberEnv(
+  process.env.PRIORITY_FEE_MAX_SOL_PER_DAY,
+  0.1,
+);
+
+//
+// JITO BUNDLES: envío por block engine (ver jitoBundles.ts)
+//
+// Apagado = todo va por sendRawTransaction al RPC (comportamiento antiguo)
+export const JITO_ENABLED = parseBooleanEnv(process.env.JITO_ENABLED, false);
+
+// Block engine (o el stub local de jitoStubEngine.ts para pruebas)
+export const JITO_BLOCK_ENGINE_URL = (
+  process.env.JITO_BLOCK_ENGINE_URL ?? 'https://mainnet.block-engine.jito.wtf'
+)
+  .trim()
+  .replace(/\/+$/, '');
+
+// Propina al validador (tx aparte dentro del bundle)
+export const JITO_TIP_LAMPORTS = parseIntegerEnv(
+  process.env.JITO_TIP_LAMPORTS,
+  100_000,
+);
+
+// Vacío = una de las tip accounts oficiales al azar
+export const JITO_TIP_ACCOUNT = (process.env.JITO_TIP_ACCOUNT ?? '').trim();
+
+// Sin "Landed" en este tiempo → se reenvía por RPC normal (txLanding.ts)
+export const JITO_BUNDLE_TIMEOUT_MS = parseIntegerEnv(
+  process.env.JITO_BUNDLE_TIMEOUT_MS,
+  8000,
+);
+
+export const JITO_STATUS_POLL_MS = parseIntegerEnv(
+  process.env.JITO_STATUS_POLL_MS,
+  1000,
+);
+
+// Qué operaciones van por bundle: sniper, copy, exit, panic_exit
+// (exit = todas las ventas, panic_exit = solo stop-loss / rug / force exit)
+export const JITO_STRATEGIES = (
+  process.env.JITO_STRATEGIES ?? 'sniper,panic_exit'
+)
+  .split(',')
+  .map(entry => entry.trim().toLowerCase())
+  .filter(entry => entry.length > 0);
+
+//
+// CONSENSO PONDERADO DE UPVOTES (ver upvoteConsensus.ts)
+//
+// Desactivado = se compara el nº de wallets con COPY_MIN_WALLETS_TO_BUY
+export const CONSENSUS_ENABLED = parseBooleanEnv(
+  process.env.CONSENSUS_ENABLED,
+  false,
+);
+
+// Ventana de compras que cuentan (también TTL de upvotes:<mint>:*)
+export const CONSENSUS_WINDOW_SECONDS = parseIntegerEnv(
+  process.env.CONSENSUS_WINDOW_SECONDS,
+  600,
+);
+
+// Score ponderado mínimo para copiar
+export const CONSENSUS_MIN_SCORE = parseNumberEnv(
+  process.env.CONSENSUS_MIN_SCORE,
+  COPY_MIN_WALLETS_TO_BUY,
+);
+
+// Vida media del peso de una compra (0 = sin decay)
+export const CONSENSUS_HALF_LIFE_SECONDS = parseNumberEnv(
+  process.env.CONSENSUS_HALF_LIFE_SECONDS,
+  180,
+);
+
+// Compra de este tamaño = factor 1 (0 = no escalar por tamaño)
+export const CONSENSUS_SIZE_REFERENCE_SOL = parseNumberEnv(
+  process.env.CONSENSUS_SIZE_REFERENCE_SOL,
+  1,
+);
+
+export const CONSENSUS_SIZE_FACTOR_MIN = parseNumberEnv(
+  process.env.CONSENSUS_SIZE_FACTOR_MIN,
+  0.5,
+);
+
+export const CONSENSUS_SIZE_FACTOR_MAX = parseNumberEnv(
+  process.env.CONSENSUS_SIZE_FACTOR_MAX,
+  2,
+);
+
+// Peso por tier de wallet: CONSENSUS_TIER_WEIGHTS=s:2,a:1.5,b:1,c:0.5
+export const CONSENSUS_TIER_WEIGHTS: Record<string, number> = (
+  process.env.CONSENSUS_TIER_WEIGHTS ?? 's:2,a:1.5,b:1,c:0.5'
+)
+  .split(',')
+  .map(entry => entry.split(':').map(part => part.trim().toLowerCase()))
+  .filter(([tier, weight]) => tier && Number.isFinite(Number(weight)))
+  .reduce<Record<string, number>>((acc, [tier, weight]) => {
+    acc[tier] = Number(weight);
+    return acc;
+  }, {});
+
+//
+// DESCUBRIMIENTO DE WALLETS (ver walletDiscovery.ts)
+//
+// Compradores tempranos por token que se analizan (sin contar al creador)
+export const DISCOVERY_EARLY_BUYERS = parseIntegerEnv(
+  process.env.DISCOVERY_EARLY_BUYERS,
+  30,
+);
+
+// Txs más antiguas de cada token que se descargan (buys + sells del inicio)
+export const DISCOVERY_SCAN_TXS = parseIntegerEnv(
+  process.env.DISCOVERY_SCAN_TXS,
+  150,
+);
+
+// Páginas de 1000 firmas para llegar al origen del token (tokens con más
+// historial se descartan: no se puede saber quién entró primero)
+export const DISCOVERY_MAX_SIGNATURE_PAGES = parseIntegerEnv(
+  process.env.DISCOVERY_MAX_SIGNATURE_PAGES,
+  10,
+);
+
+// Tokens distintos en los que una wallet tiene que haber entrado temprano
+export const DISCOVERY_MIN_TOKENS = parseIntegerEnv(
+  process.env.DISCOVERY_MIN_TOKENS,
+  2,
+);
+
+// Más txs que esto en un mismo token dentro del escaneo = bot
+export const DISCOVERY_BOT_MAX_TXS_PER_TOKEN = parseIntegerEnv(
+  process.env.DISCOVERY_BOT_MAX_TXS_PER_TOKEN,
+  6,
+);
+
+export const DISCOVERY_MAX_CANDIDATES = parseIntegerEnv(
+  process.env.DISCOVERY_MAX_CANDIDATES,
+  20,
+);
+
+//
+// PERFILES DE TRADING (varios setups aislados en un mismo proceso)
+//
+// TRADING_PROFILES=aggressive,conservative → cada perfil lee
+// PROFILE_<ID>_* (ver profiles.ts). Vacío = un único perfil "default".
+export const TRADING_PROFILES = (process.env.TRADING_PROFILES ?? '')
+  .split(',')
+  .map(id => id.trim().toLowerCase())
+  .filter(id => id.length > 0);
+
+export const DEFAULT_PROFILE = (process.env.DEFAULT_PROFILE ?? '')
+  .trim()
+  .toLowerCase();
+
 //
 // REDIS
 //
@@ -338,6 +936,10 @@ export const ENVIRONMENT_CONFIG = {
     minWalletsBuy: COPY_MIN_WALLETS_TO_BUY,
     minWalletsSell: COPY_MIN_WALLETS_TO_SELL,
     positionSize: POSITION_SIZE_SOL,
+    sizingMode: COPY_SIZING_MODE,
+    maxPositionSol: COPY_MAX_POSITION_SOL,
+    maxPositionMultiplier: COPY_MAX_POSITION_MULTIPLIER,
+    bankrollSol: COPY_BANKROLL_SOL,
     profitTargetPercent: COPY_PROFIT_TARGET_PERCENT,
     stopLossEnabled: COPY_STOP_LOSS_ENABLED,
     stopLossPercent: COPY_STOP_LOSS_PERCENT,
@@ -346,6 +948,14 @@ export const ENVIRONMENT_CONFIG = {
     maxHoldEnabled: COPY_MAX_HOLD_ENABLED,
     maxHoldSeconds: COPY_MAX_HOLD_SECONDS,
   },
+  risk: {
+    dailyLossLimitSol: RISK_DAILY_LOSS_LIMIT_SOL,
+    maxTotalSol: RISK_MAX_TOTAL_SOL,
+    maxSolPerWallet: RISK_MAX_SOL_PER_WALLET,
+    maxSolPerCreator: RISK_MAX_SOL_PER_CREATOR,
+    maxConsecutiveLosses: RISK_MAX_CONSECUTIVE_LOSSES,
+    breakerCooldownMinutes: RISK_BREAKER_COOLDOWN_MINUTES,
+  },
   volumeExit: {
     enabled: VOLUME_EXIT_ENABLED,
     dropPercent: VOLUME_DROP_PERCENT,
@@ -365,6 +975,125 @@ export const ENVIRONMENT_CONFIG = {
     tokenAgeLimitSeconds: TOKEN_AGE_LIMIT_SECONDS,
     minBuyVolumeSol: MIN_BUY_VOLUME_SOL,
     maxTokensPerHour: MAX_TOKENS_PER_HOUR,
+    exits: {
+      takeProfitEnabled: SNIPER_TAKE_PROFIT_ENABLED,
+      takeProfitPercent: SNIPER_TAKE_PROFIT_PERCENT,
+      stopLossEnabled: SNIPER_STOP_LOSS_ENABLED,
+      stopLossPercent: SNIPER_STOP_LOSS_PERCENT,
+      trailingStopEnabled: SNIPER_TRAILING_STOP_ENABLED,
+      trailingStopPercent: SNIPER_TRAILING_STOP_PERCENT,
+      maxHoldEnabled: SNIPER_MAX_HOLD_ENABLED,
+      maxHoldSeconds: SNIPER_MAX_HOLD_SECONDS,
+      exitOnDevSell: SNIPER_EXIT_ON_DEV_SELL,
+    },
+  },
+  paper: {
+    simEnabled: PAPER_SIM_ENABLED,
+    pumpProtocolFeePercent: PAPER_PUMP_PROTOCOL_FEE_PERCENT,
+    pumpCreatorFeePercent: PAPER_PUMP_CREATOR_FEE_PERCENT,
+    computeUnits: PAPER_COMPUTE_UNITS,
+    baseFeeLamports: PAPER_BASE_FEE_LAMPORTS,
+    latencyMs: PAPER_LATENCY_MS,
+    driftPercentPerSec: PAPER_DRIFT_PERCENT_PER_SEC,
+    driftVolatilityPercent: PAPER_DRIFT_VOLATILITY_PERCENT,
+    failedTxProbability: PAPER_FAILED_TX_PROBABILITY,
+    jupiterRouteSlippagePercent: PAPER_JUPITER_ROUTE_SLIPPAGE_PERCENT,
+    walletEnabled: PAPER_WALLET_ENABLED,
+    startingSol: PAPER_STARTING_SOL,
+    account: PAPER_ACCOUNT,
+    equityHistoryMax: PAPER_EQUITY_HISTORY_MAX,
+  },
+  walletScoring: {
+    window: WALLET_SCORE_WINDOW,
+    historyMax: WALLET_SCORE_HISTORY_MAX,
+    minTrades: WALLET_SCORE_MIN_TRADES,
+    autoDisableEnabled: WALLET_AUTO_DISABLE_ENABLED,
+    minWinRate: WALLET_MIN_WIN_RATE,
+    minExpectancySol: WALLET_MIN_EXPECTANCY_SOL,
+    maxDrawdownSol: WALLET_MAX_DRAWDOWN_SOL,
+    weightedUpvotesEnabled: WALLET_WEIGHTED_UPVOTES_ENABLED,
+    weightMin: WALLET_WEIGHT_MIN,
+    weightMax: WALLET_WEIGHT_MAX,
+  },
+  priorityFees: {
+    dynamic: PRIORITY_FEE_DYNAMIC,
+    minMicrolamports: PRIORITY_FEE_MIN_MICROLAMPORTS,
+    maxMicrolamports: PRIORITY_FEE_MAX_MICROLAMPORTS,
+    percentiles: {
+      low: PRIORITY_FEE_PERCENTILE_LOW,
+      normal: PRIORITY_FEE_PERCENTILE_NORMAL,
+      high: PRIORITY_FEE_PERCENTILE_HIGH,
+      urgent: PRIORITY_FEE_PERCENTILE_URGENT,
+    },
+    simulateComputeUnits: COMPUTE_UNIT_SIMULATE,
+    computeUnitMarginPercent: COMPUTE_UNIT_MARGIN_PERCENT,
+    maxSolPerTrade: PRIORITY_FEE_MAX_SOL_PER_TRADE,
+    maxSolPerDay: PRIORITY_FEE_MAX_SOL_PER_DAY,
+  },
+  jito: {
+    enabled: JITO_ENABLED,
+    blockEngineUrl: JITO_BLOCK_ENGINE_URL,
+    tipLamports: JITO_TIP_LAMPORTS,
+    tipAccount: JITO_TIP_ACCOUNT || 'random',
+    bundleTimeoutMs: JITO_BUNDLE_TIMEOUT_MS,
+    statusPollMs: JITO_STATUS_POLL_MS,
+    strategies: JITO_STRATEGIES,
+  },
+  txLanding: {
+    maxAttempts: TX_LANDING_MAX_ATTEMPTS,
+    rebroadcastIntervalMs: TX_REBROADCAST_INTERVAL_MS,
+    confirmPollMs: TX_CONFIRM_POLL_MS,
+    timeoutSeconds: TX_LANDING_TIMEOUT_SECONDS,
+  },
+  tokenMetadata: {
+    enabled: TOKEN_METADATA_ENABLED,
+    cacheHours: TOKEN_METADATA_CACHE_HOURS,
+    uriTimeoutMs: TOKEN_METADATA_URI_TIMEOUT_MS,
+  },
+  tokenSafety: {
+    enabled: TOKEN_SAFETY_ENABLED,
+    minScore: TOKEN_SAFETY_MIN_SCORE,
+    maxTopHolderPercent: TOKEN_SAFETY_MAX_TOP_HOLDER_PERCENT,
+    maxTop10Percent: TOKEN_SAFETY_MAX_TOP10_PERCENT,
+    maxCreatorLaunches24h: TOKEN_SAFETY_MAX_CREATOR_LAUNCHES_24H,
+    maxCurveProgressPercent: TOKEN_SAFETY_MAX_CURVE_PROGRESS_PERCENT,
+    cacheSeconds: TOKEN_SAFETY_CACHE_SECONDS,
+  },
+  rugGuard: {
+    enabled: RUG_GUARD_ENABLED,
+    syncIntervalSeconds: RUG_GUARD_SYNC_INTERVAL_SECONDS,
+    exitOnDevSell: RUG_EXIT_ON_DEV_SELL,
+    liquidityDropPercent: RUG_LIQUIDITY_DROP_PERCENT,
+    holderDumpPercent: RUG_HOLDER_DUMP_PERCENT,
+    minRealSol: RUG_MIN_REAL_SOL,
+  },
+  walletBackfill: {
+    onAdd: WALLET_BACKFILL_ON_ADD,
+    maxSignatures: WALLET_BACKFILL_MAX_SIGNATURES,
+    maxAgeDays: WALLET_BACKFILL_MAX_AGE_DAYS,
+    tradesHistoryMax: WALLET_TRADES_HISTORY_MAX,
+  },
+  consensus: {
+    enabled: CONSENSUS_ENABLED,
+    windowSeconds: CONSENSUS_WINDOW_SECONDS,
+    minScore: CONSENSUS_MIN_SCORE,
+    halfLifeSeconds: CONSENSUS_HALF_LIFE_SECONDS,
+    sizeReferenceSol: CONSENSUS_SIZE_REFERENCE_SOL,
+    sizeFactorMin: CONSENSUS_SIZE_FACTOR_MIN,
+    sizeFactorMax: CONSENSUS_SIZE_FACTOR_MAX,
+    tierWeights: CONSENSUS_TIER_WEIGHTS,
+  },
+  discovery: {
+    earlyBuyers: DISCOVERY_EARLY_BUYERS,
+    scanTxs: DISCOVERY_SCAN_TXS,
+    maxSignaturePages: DISCOVERY_MAX_SIGNATURE_PAGES,
+    minTokens: DISCOVERY_MIN_TOKENS,
+    botMaxTxsPerToken: DISCOVERY_BOT_MAX_TXS_PER_TOKEN,
+    maxCandidates: DISCOVERY_MAX_CANDIDATES,
+  },
+  profiles: {
+    ids: TRADING_PROFILES,
+    defaultProfile: DEFAULT_PROFILE,
   },
   rpc: {
     url: RPC_URL,
@@ -0,0 +1,127 @@
+// forceExit.ts - Canal genérico de salidas forzadas (force_exit:<mint>)
+//
+// Cualquier módulo (GraduationHandler, Telegram, API HTTP...) puede pedir
+// que se cierre una posición. copyMonitor revisa la key en cada ciclo y
+// vende usando el mismo executeSell que las salidas automáticas.
+
+import type { Redis as RedisClient } from 'ioredis';
+
+export interface ForceExitRequest {
+  mint: string;
+  reason: string;
+  requestedBy: string;
+  requestedAt: number;
+}
+
+export interface ForceExitRecord extends ForceExitRequest {
+  success: boolean;
+  executedAt: number;
+  error?: string;
+}
+
+export const DEFAULT_FORCE_EXIT_TTL_SECONDS = 300;
+
+const FORCE_EXIT_HISTORY_KEY = 'force_exit_history';
+const FORCE_EXIT_HISTORY_MAX = 200;
+
+function forceExitKey(mint: string): string {
+  return `force_exit:${mint}`;
+}
+
+/**
+ * Marca una posición para salida forzada.
+ * La key expira sola si nadie la procesa (p.ej. worker caído).
+ */
+export async function requestForceExit(
+  redis: RedisClient,
+  mint: string,
+  reason: string,
+  requestedBy: string,
+  ttlSeconds = DEFAULT_FORCE_EXIT_TTL_SECONDS,
+): Promise<ForceExitRequest> {
+  const request: ForceExitRequest = {
+    mint,
+    reason,
+    requestedBy,
+    requestedAt: Date.now(),
+  };
+
+  await redis.setex(forceExitKey(mint), ttlSeconds, JSON.stringify(request));
+  return request;
+}
+
+/**
+ * Lee la petición pendiente. Acepta también el formato antiguo
+ * (valor plano con solo el motivo, p.ej. 'graduation').
+ */
+export async function getForceExit(
+  redis: RedisClient,
+  mint: string,
+): Promise<ForceExitRequest | null> {
+  const raw = await redis.get(forceExitKey(mint));
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<ForceExitRequest>;
+    if (parsed && typeof parsed === 'object' && parsed.reason) {
+      return {
+        mint,
+        reason: String(parsed.reason),
+        requestedBy: parsed.requestedBy ?? 'unknown',
+        requestedAt: Number(parsed.requestedAt) || Date.now(),
+      };
+    }
+  } catch {
+    // formato antiguo: string plano
+  }
+
+  return {
+    mint,
+    reason: raw,
+    requestedBy: 'unknown',
+    requestedAt: Date.now(),
+  };
+}
+
+export async function clearForceExit(
+  redis: RedisClient,
+  mint: string,
+): Promise<void> {
+  await redis.del(forceExitKey(mint));
+}
+
+/**
+ * Guarda el resultado de la salida forzada (quién la pidió y qué pasó).
+ */
+export async function recordForceExit(
+  redis: RedisClient,
+  request: ForceExitRequest,
+  success: boolean,
+  error?: string,
+): Promise<void> {
+  const record: ForceExitRecord = {
+    ...request,
+    success,
+    executedAt: Date.now(),
+    ...(error ? { error } : {}),
+  };
+
+  await redis.lpush(FORCE_EXIT_HISTORY_KEY, JSON.stringify(record));
+  await redis.ltrim(FORCE_EXIT_HISTORY_KEY, 0, FORCE_EXIT_HISTORY_MAX - 1);
+}
+
+export async function getForceExitHistory(
+  redis: RedisClient,
+  limit = 20,
+): Promise<ForceExitRecord[]> {
+  const rows = await redis.lrange(FORCE_EXIT_HISTORY_KEY, 0, limit - 1);
+  const records: ForceExitRecord[] = [];
+  for (const row of rows) {
+    try {
+      records.push(JSON.parse(row) as ForceExitRecord);
+    } catch {
+      // ignoramos entradas corruptas
+    }
+  }
+  return records;
+}
@@ -13,6 +13,7 @@ import {
 } from './priceService.js';
 import { safeParseNumber } from './safeNumberUtils.js';
 import { GRADUATION_MIN_PROFIT_PERCENT } from './environment.js';
+import { requestForceExit } from './forceExit.js';
 
 // Estructura mínima de la posición guardada en Redis
 interface PositionData {
@@ -249,7 +250,13 @@ export class GraduationHandler {
         console.log(
           '   ⚠️ AUTO_SELL_ON_GRADUATION=true → setting force_exit flag',
         );
-        await this.redis.setex(`force_exit:${mint}`, 120, 'graduation');
+        await requestForceExit(
+          this.redis,
+          mint,
+          'graduation',
+          'graduationHandler',
+          120,
+        );
       } else if (this.AUTO_SELL_ON_GRADUATION && !meetsMinProfit) {
         console.log(
           `   ℹ️ Auto-sell skipped (needs +${this.MIN_PROFIT_PERCENT}% PnL)`,
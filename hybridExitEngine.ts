@@ -0,0 +1,342 @@
+// hybridExitEngine.ts - Lógica de salida HYBRID + volume exit + partial TP
+//
+// Extraído de copyMonitor.ts para poder ejecutarlo igual en vivo y en el
+// backtester: el reloj es inyectable y el estado (wallets vendiendo,
+// "velocidad" de precio) vive en la instancia, no en el módulo.
+
+import type { CopyStrategy } from './copyStrategy.js';
+import {
+  COPY_MIN_WALLETS_TO_SELL,
+  COPY_PROFIT_TARGET_PERCENT,
+  TRAILING_STOP_PERCENT,
+  COPY_STOP_LOSS_PERCENT,
+  VOLUME_EXIT_ENABLED,
+  VOLUME_DROP_PERCENT,
+  VOLUME_WINDOW_SECONDS,
+  VOLUME_MIN_HOLD_SECONDS,
+  PARTIAL_TP1_PCT,
+  PARTIAL_TP1_SELL_PCT,
+  PARTIAL_TP2_PCT,
+  PARTIAL_TP2_SELL_PCT,
+  PARTIAL_TP3_PCT,
+  PARTIAL_TP3_SELL_PCT,
+} from './environment.js';
+
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+// --- Tipos ---
+
+export interface HybridExitPosition {
+  mint: string;
+  entryPrice: string;
+  solAmount?: string;
+  entryTime: string;
+  maxPrice?: string;
+}
+
+// HYBRID exit reasons
+export type HybridExitPhase =
+  | 'none'
+  | 'copy_wallets'
+  | 'loss_protection'
+  | 'independent_time'
+  | 'volume_exit';
+
+export interface HybridExitDecision {
+  shouldExit: boolean;
+  phase: HybridExitPhase;
+  reason?: string;
+  description?: string;
+  priority?: number;
+  walletsSelling?: number;
+  totalWalletsTracked?: number;
+  stopType?: 'take_profit' | 'stop_loss' | 'trailing_stop';
+}
+
+interface WalletSellInfo {
+  walletsSelling: Set<string>;
+  lastSellAt: number;
+  minEntryAt: number;
+}
+
+// --- Seguimiento simple de "volumen" basado en actividad de precio ---
+// No usamos volumen on-chain real; usamos la velocidad de cambio de precio
+// como proxy de actividad. Si la "velocidad" cae X% vs el máximo reciente,
+// durante una ventana de tiempo, disparamos señal de salida.
+interface VolumeState {
+  lastPrice: number;
+  lastTs: number;
+  peakVelocity: number;
+  lastPeakTs: number;
+}
+
+export interface PartialTakeProfitLevel {
+  level: number;
+  tp: number;
+  sellPct: number;
+}
+
+// --- Config ---
+
+export interface HybridExitConfig {
+  walletExitWindowMs: number;
+  lossProtectionWindowMs: number;
+  independentModeMs: number;
+  minWalletsToSell: number;
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  trailingStopPercent: number;
+  volumeExitEnabled: boolean;
+  volumeDropPercent: number;
+  volumeWindowMs: number;
+  volumeMinHoldMs: number;
+  partialLevels: PartialTakeProfitLevel[];
+}
+
+// 🎯 HYBRID STRATEGY CONFIG (desde env)
+export const DEFAULT_HYBRID_EXIT_CONFIG: HybridExitConfig = {
+  walletExitWindowMs: 180000, // 3 minutes
+  lossProtectionWindowMs: 600000, // 10 minutes
+  independentModeMs: 600000, // After 10 min
+  minWalletsToSell: COPY_MIN_WALLETS_TO_SELL,
+  stopLossPercent: COPY_STOP_LOSS_PERCENT,
+  takeProfitPercent: COPY_PROFIT_TARGET_PERCENT,
+  trailingStopPercent: TRAILING_STOP_PERCENT,
+  volumeExitEnabled: VOLUME_EXIT_ENABLED,
+  volumeDropPercent: VOLUME_DROP_PERCENT, // e.g. 70 => 70% drop vs. peak activity
+  volumeWindowMs: VOLUME_WINDOW_SECONDS * 1000,
+  volumeMinHoldMs: VOLUME_MIN_HOLD_SECONDS * 1000,
+  partialLevels: [
+    { level: 1, tp: PARTIAL_TP1_PCT, sellPct: PARTIAL_TP1_SELL_PCT },
+    { level: 2, tp: PARTIAL_TP2_PCT, sellPct: PARTIAL_TP2_SELL_PCT },
+    { level: 3, tp: PARTIAL_TP3_PCT, sellPct: PARTIAL_TP3_SELL_PCT },
+  ].filter((l) => l.tp > 0 && l.sellPct > 0),
+};
+
+interface HybridExitEngineDependencies {
+  copyStrategy: CopyStrategy;
+  clock?: Clock;
+  config?: Partial<HybridExitConfig>;
+}
+
+// --- Clase principal ---
+
+export class HybridExitEngine {
+  private readonly copyStrategy: CopyStrategy;
+  private readonly now: Clock;
+  readonly config: HybridExitConfig;
+
+  // Map mint -> WalletSellInfo (para HYBRID exits)
+  private readonly walletSellState: Map<string, WalletSellInfo> = new Map();
+  private readonly volumeState: Record<string, VolumeState> = {};
+
+  constructor(deps: HybridExitEngineDependencies) {
+    this.copyStrategy = deps.copyStrategy;
+    this.now = deps.clock ?? systemClock;
+    // Solo pisamos lo definido: un override undefined mantiene el default
+    const overrides = Object.fromEntries(
+      Object.entries(deps.config ?? {}).filter(([, v]) => v !== undefined),
+    ) as Partial<HybridExitConfig>;
+    this.config = { ...DEFAULT_HYBRID_EXIT_CONFIG, ...overrides };
+  }
+
+  // --- Marcado de ventas de wallets ---
+
+  markWalletSold(mint: string, wallet: string): void {
+    const now = this.now();
+
+    let ws = this.walletSellState.get(mint);
+    if (!ws) {
+      ws = {
+        walletsSelling: new Set<string>(),
+        lastSellAt: now,
+        minEntryAt: now,
+      };
+      this.walletSellState.set(mint, ws);
+    }
+
+    ws.walletsSelling.add(wallet);
+    ws.lastSellAt = now;
+  }
+
+  forget(mint: string): void {
+    this.walletSellState.delete(mint);
+    delete this.volumeState[mint];
+  }
+
+  // --- HYBRID EXIT LOGIC ---
+
+  async evaluateHybridExit(
+    position: HybridExitPosition,
+    currentPrice: number,
+    pnlPercent: number,
+  ): Promise<HybridExitDecision> {
+    const cfg = this.config;
+    const now = this.now();
+    const holdTimeMs = now - Number(position.entryTime ?? now);
+
+    const ws = this.walletSellState.get(position.mint);
+
+    // HYBRID exit: copy wallets conditions
+    if (ws && ws.walletsSelling.size >= cfg.minWalletsToSell) {
+      const timeSinceFirstSell = now - ws.minEntryAt;
+      if (timeSinceFirstSell <= cfg.walletExitWindowMs) {
+        return {
+          shouldExit: true,
+          phase: 'copy_wallets',
+          reason: 'copy_sell',
+          description: `Copy wallets selling: ${ws.walletsSelling.size} wallets in ${Math.round(
+            timeSinceFirstSell / 1000,
+          )}s`,
+          priority: 1,
+          walletsSelling: ws.walletsSelling.size,
+        };
+      }
+    }
+
+    // Protección contra pérdidas directas (stop-loss o trailing)
+    if (holdTimeMs <= cfg.lossProtectionWindowMs) {
+      if (pnlPercent <= -Math.abs(cfg.stopLossPercent)) {
+        return {
+          shouldExit: true,
+          phase: 'loss_protection',
+          reason: 'hybrid_stop_loss',
+          description: `PnL below hard SL (${cfg.stopLossPercent}%) during protection window`,
+          priority: 2,
+          stopType: 'stop_loss',
+        };
+      }
+
+      if (pnlPercent >= cfg.takeProfitPercent) {
+        return {
+          shouldExit: true,
+          phase: 'loss_protection',
+          reason: 'hybrid_take_profit',
+          description: `PnL hit hybrid TP (${cfg.takeProfitPercent}%) during protection window`,
+          priority: 2,
+          stopType: 'take_profit',
+        };
+      }
+    }
+
+    // Después de cierto tiempo, permitir que el trailing domine
+    if (holdTimeMs >= cfg.independentModeMs && cfg.trailingStopPercent > 0) {
+      const trailingDecision = this.copyStrategy.evaluateTrailingStop(
+        position,
+        currentPrice,
+        pnlPercent,
+      );
+
+      if (trailingDecision.shouldExit) {
+        return {
+          shouldExit: true,
+          phase: 'independent_time',
+          reason: 'hybrid_trailing_stop',
+          description: trailingDecision.description,
+          priority: 2,
+          stopType: 'trailing_stop',
+        };
+      }
+    }
+
+    return { shouldExit: false, phase: 'none' };
+  }
+
+  // --- Volume exit ---
+
+  updateVolumeAndCheckExit(
+    mint: string,
+    currentPrice: number,
+    holdTimeMs: number,
+  ): HybridExitDecision {
+    const cfg = this.config;
+    if (!cfg.volumeExitEnabled || currentPrice <= 0) {
+      return { shouldExit: false, phase: 'none' };
+    }
+
+    const now = this.now();
+    const state: VolumeState = this.volumeState[mint] ?? {
+      lastPrice: currentPrice,
+      lastTs: now,
+      peakVelocity: 0,
+      lastPeakTs: now,
+    };
+
+    const dtMs = now - state.lastTs;
+    if (dtMs <= 0) {
+      this.volumeState[mint] = state;
+      return { shouldExit: false, phase: 'none' };
+    }
+
+    const dtSec = dtMs / 1000;
+    const priceDelta = Math.abs(currentPrice - state.lastPrice);
+    const velocity =
+      (priceDelta / Math.max(currentPrice, 1e-9)) / Math.max(dtSec, 1e-3);
+
+    if (velocity > state.peakVelocity) {
+      state.peakVelocity = velocity;
+      state.lastPeakTs = now;
+    }
+
+    state.lastPrice = currentPrice;
+    state.lastTs = now;
+    this.volumeState[mint] = state;
+
+    if (holdTimeMs < cfg.volumeMinHoldMs) {
+      return { shouldExit: false, phase: 'none' };
+    }
+
+    if (state.peakVelocity <= 0) {
+      return { shouldExit: false, phase: 'none' };
+    }
+
+    const dropRatio = velocity / state.peakVelocity;
+    const threshold = 1 - cfg.volumeDropPercent / 100;
+    const timeSincePeak = now - state.lastPeakTs;
+
+    if (dropRatio <= threshold && timeSincePeak >= cfg.volumeWindowMs) {
+      const dropPct = (1 - dropRatio) * 100;
+
+      return {
+        shouldExit: true,
+        phase: 'volume_exit',
+        reason: 'volume_dry_up',
+        description: `Price activity dropped ${dropPct.toFixed(
+          1,
+        )}% vs peak`,
+        priority: 3,
+      };
+    }
+
+    return { shouldExit: false, phase: 'none' };
+  }
+
+  // --- Partial take-profits ---
+
+  /**
+   * Siguiente nivel de TP parcial aplicable y cuántos tokens vender.
+   * Devuelve null si no toca vender (o si el redondeo vaciaría la posición,
+   * en cuyo caso dejamos que el flujo normal haga la venta total).
+   */
+  nextPartialTakeProfit(
+    currentStage: number,
+    pnlPercent: number,
+    totalTokens: number,
+  ): { level: PartialTakeProfitLevel; tokensToSell: number } | null {
+    const level = this.config.partialLevels.find(
+      (l) => l.level > currentStage && pnlPercent >= l.tp,
+    );
+    if (!level) return null;
+
+    const fraction = Math.min(Math.max(level.sellPct / 100, 0), 1);
+    const tokensToSell = Math.floor(totalTokens * fraction);
+
+    if (tokensToSell <= 0 || tokensToSell >= totalTokens) {
+      return null;
+    }
+
+    return { level, tokensToSell };
+  }
+}
@@ -0,0 +1,298 @@
+// jitoBundles.ts - Envío por bundle de Jito (sniper / salidas de pánico)
+//
+// landWithJito() mete la tx ya construida + una tx de propina en un bundle y
+// lo manda al block engine (JITO_BLOCK_ENGINE_URL). El bundle es atómico: la
+// propina solo se paga si la tx entra. Se sigue con getInflightBundleStatuses:
+//   - Landed                 → confirmación por firma vía txLanding (slot / fee / logs)
+//   - Failed / Invalid / sin respuesta en JITO_BUNDLE_TIMEOUT_MS
+//                            → fallback a landTransaction() por el RPC normal
+//
+// El fallback firma con el MISMO blockhash → misma firma: si el bundle entra
+// tarde, txLanding lo detecta y no hay doble compra.
+//
+// JITO_STRATEGIES decide qué operaciones van por bundle (submissionFor()).
+// Para pruebas locales: jitoStubEngine.ts.
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import fetch from 'node-fetch';
+import {
+  JITO_ENABLED,
+  JITO_BLOCK_ENGINE_URL,
+  JITO_TIP_LAMPORTS,
+  JITO_TIP_ACCOUNT,
+  JITO_BUNDLE_TIMEOUT_MS,
+  JITO_STATUS_POLL_MS,
+  JITO_STRATEGIES,
+} from './environment.js';
+import {
+  landTransaction,
+  firstSignature,
+  signWithBlockhash,
+  type LandingOptions,
+  type LandingResult,
+} from './txLanding.js';
+import { getRateLimiter } from './rpcRateLimiter.js';
+
+// --- Tipos públicos ---
+
+export type SubmissionMode = 'rpc' | 'jito';
+
+// sniper = compras del sniper, copy = compras copy,
+// exit = cualquier venta, panic_exit = stop-loss / rug / force exit
+export type JitoRoute = 'sniper' | 'copy' | 'exit' | 'panic_exit';
+
+export type BundleStatus = 'Pending' | 'Landed' | 'Failed' | 'Invalid' | 'Unknown';
+
+export interface InflightBundleStatus {
+  bundleId: string;
+  status: BundleStatus;
+  landedSlot?: number;
+}
+
+export interface JitoLandingOptions extends LandingOptions {
+  tipLamports?: number;
+  tipAccount?: string;
+  bundleTimeoutMs?: number;
+  blockEngineUrl?: string;
+}
+
+// Tip accounts oficiales del block engine (mainnet)
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+];
+
+// Fee base de la tx de propina (1 firma): también es coste del bundle
+const TIP_TX_FEE_LAMPORTS = 5_000;
+const REQUEST_TIMEOUT_MS = 5_000;
+
+type AnyTransaction = Transaction | VersionedTransaction;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * ¿Esta operación va por bundle? Con JITO_ENABLED=false siempre 'rpc'.
+ * 'exit' en JITO_STRATEGIES cubre también las salidas de pánico.
+ */
+export function submissionFor(route: JitoRoute): SubmissionMode {
+  if (!JITO_ENABLED) return 'rpc';
+  if (JITO_STRATEGIES.includes(route)) return 'jito';
+  if (route === 'panic_exit' && JITO_STRATEGIES.includes('exit')) return 'jito';
+  return 'rpc';
+}
+
+export function pickTipAccount(preferred = JITO_TIP_ACCOUNT): PublicKey {
+  if (preferred) return new PublicKey(preferred);
+  const index = Math.floor(Math.random() * JITO_TIP_ACCOUNTS.length);
+  return new PublicKey(JITO_TIP_ACCOUNTS[index]);
+}
+
+// --- Cliente JSON-RPC del block engine ---
+
+export class JitoBlockEngine {
+  private requestId = 0;
+
+  constructor(private readonly baseUrl: string = JITO_BLOCK_ENGINE_URL) {}
+
+  // Devuelve el bundle id
+  async sendBundle(transactions: string[]): Promise<string> {
+    return this.call<string>('bundles', 'sendBundle', [
+      transactions,
+      { encoding: 'base64' },
+    ]);
+  }
+
+  async getInflightStatus(bundleId: string): Promise<InflightBundleStatus> {
+    const result = await this.call<{
+      value?: Array<{ bundle_id: string; status: string; landed_slot?: number | null }>;
+    } | null>('getInflightBundleStatuses', 'getInflightBundleStatuses', [[bundleId]]);
+
+    const entry = result?.value?.find(v => v.bundle_id === bundleId);
+    if (!entry) return { bundleId, status: 'Unknown' };
+
+    const known: BundleStatus[] = ['Pending', 'Landed', 'Failed', 'Invalid'];
+    return {
+      bundleId,
+      status: known.includes(entry.status as BundleStatus)
+        ? (entry.status as BundleStatus)
+        : 'Unknown',
+      landedSlot: entry.landed_slot ?? undefined,
+    };
+  }
+
+  private async call<T>(path: string, method: string, params: unknown[]): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const resp = await fetch(`${this.baseUrl}/api/v1/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+        signal: controller.signal,
+      });
+
+      const json = (await resp.json().catch(() => null)) as {
+        result?: T;
+        error?: { message?: string };
+      } | null;
+
+      if (!resp.ok || !json || json.error) {
+        throw new Error(
+          `${method}: ${json?.error?.message ?? `HTTP ${resp.status}`}`,
+        );
+      }
+      return json.result as T;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function serializeBase64(tx: AnyTransaction): string {
+  return Buffer.from(tx.serialize()).toString('base64');
+}
+
+/**
+ * Igual que landTransaction() pero intentando primero por bundle de Jito.
+ * Nunca lanza; el resultado indica por dónde entró (submittedVia) y la
+ * propina pagada (tipLamports, solo si el bundle aterrizó).
+ */
+export async function landWithJito(
+  connection: Connection,
+  tx: AnyTransaction,
+  signers: Keypair[],
+  options: JitoLandingOptions = {},
+): Promise<LandingResult> {
+  const limiter = getRateLimiter();
+  const label = options.label ?? 'tx';
+  const commitment = options.commitment ?? 'confirmed';
+  const tipLamports = Math.max(options.tipLamports ?? JITO_TIP_LAMPORTS, 0);
+  const bundleTimeoutMs = options.bundleTimeoutMs ?? JITO_BUNDLE_TIMEOUT_MS;
+  const pollMs = Math.max(JITO_STATUS_POLL_MS, 200);
+  const engine = new JitoBlockEngine(options.blockEngineUrl);
+  const payer = signers[0];
+
+  const startedAt = Date.now();
+  let blockhash = options.blockhash;
+  let bundleId: string | undefined;
+  let tipSignature: string | null = null;
+  let bundleStatus: BundleStatus = 'Unknown';
+
+  try {
+    blockhash =
+      blockhash ??
+      (await limiter.request(
+        () => connection.getLatestBlockhash(commitment),
+        'high',
+      ));
+
+    signWithBlockhash(tx, signers, blockhash);
+
+    const tipTx = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: pickTipAccount(options.tipAccount),
+        lamports: tipLamports,
+      }),
+    );
+    signWithBlockhash(tipTx, [payer], blockhash);
+    tipSignature = firstSignature(tipTx);
+
+    // Orden: primero la operación, la propina al final
+    bundleId = await engine.sendBundle([serializeBase64(tx), serializeBase64(tipTx)]);
+    console.log(
+      `   🎁 ${label}: bundle ${bundleId.slice(0, 12)}... sent (tip ${(
+        tipLamports / 1e9
+      ).toFixed(6)} SOL)`,
+    );
+
+    while (Date.now() - startedAt < bundleTimeoutMs) {
+      await sleep(pollMs);
+      try {
+        bundleStatus = (await engine.getInflightStatus(bundleId)).status;
+      } catch {
+        // el block engine no responde: seguimos hasta el timeout
+      }
+      if (bundleStatus !== 'Pending' && bundleStatus !== 'Unknown') break;
+    }
+  } catch (error: any) {
+    console.log(
+      `   ⚠️ ${label}: Jito bundle error: ${error?.message ?? String(error)}`,
+    );
+  }
+
+  if (bundleStatus !== 'Landed') {
+    console.log(
+      `   ↩️ ${label}: bundle ${bundleStatus.toLowerCase()}, falling back to RPC`,
+    );
+  }
+
+  // Landed → solo confirmamos (fee / logs); si no, envío normal.
+  // Mismo blockhash = misma firma: no puede entrar dos veces.
+  const remainingMs =
+    options.timeoutMs !== undefined
+      ? Math.max(options.timeoutMs - (Date.now() - startedAt), 1_000)
+      : undefined;
+  const landing = await landTransaction(connection, tx, signers, {
+    ...options,
+    blockhash,
+    skipPreflight: bundleStatus === 'Landed' ? true : options.skipPreflight,
+    timeoutMs: remainingMs,
+  });
+
+  // ¿La propina entró? (mismo bloque que la tx si el bundle aterrizó)
+  let tipPaid = false;
+  if (tipSignature && landing.slot !== undefined) {
+    try {
+      const { value } = await limiter.request(
+        () => connection.getSignatureStatuses([tipSignature as string]),
+        'high',
+      );
+      tipPaid = Boolean(value[0] && !value[0].err);
+    } catch {
+      tipPaid = bundleStatus === 'Landed';
+    }
+  }
+
+  return {
+    ...landing,
+    latencyMs: Date.now() - startedAt,
+    submittedVia: tipPaid ? 'jito' : 'rpc',
+    bundleId,
+    tipLamports: tipPaid ? tipLamports + TIP_TX_FEE_LAMPORTS : undefined,
+  };
+}
+
+/**
+ * Punto único de envío para los executors: bundle si submission === 'jito'
+ * (y Jito activo), si no landTransaction() normal.
+ */
+export async function submitTransaction(
+  connection: Connection,
+  tx: AnyTransaction,
+  signers: Keypair[],
+  submission: SubmissionMode,
+  options: JitoLandingOptions = {},
+): Promise<LandingResult> {
+  if (submission === 'jito' && JITO_ENABLED) {
+    return landWithJito(connection, tx, signers, options);
+  }
+  const landing = await landTransaction(connection, tx, signers, options);
+  return { ...landing, submittedVia: 'rpc' };
+}
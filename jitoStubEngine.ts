@@ -0,0 +1,203 @@
+// jitoStubEngine.ts - Block engine de Jito falso para pruebas locales
+//
+// Habla el mismo JSON-RPC que el block engine (sendBundle,
+// getInflightBundleStatuses, getTipAccounts) así que basta con apuntar
+// JITO_BLOCK_ENGINE_URL a él. Modos:
+//   forward → reenvía las txs del bundle a un RPC (p. ej. solana-test-validator)
+//             y responde Landed cuando todas confirman (NO es atómico)
+//   land    → no envía nada y responde Landed (solo prueba el flujo)
+//   drop    → Pending para siempre (fuerza el fallback por RPC)
+//   fail    → Failed
+//
+// Uso: RPC_URL=http://127.0.0.1:8899 JITO_STUB_PORT=8787 npm run jito:stub
+//      JITO_BLOCK_ENGINE_URL=http://127.0.0.1:8787 JITO_ENABLED=true ...
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import { randomUUID } from 'crypto';
+import { Connection, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { JITO_TIP_ACCOUNTS } from './jitoBundles.js';
+
+export type StubEngineMode = 'forward' | 'land' | 'drop' | 'fail';
+
+export interface StubBundle {
+  bundleId: string;
+  transactions: string[]; // base64
+  signatures: string[];
+  receivedAt: number;
+  status: 'Pending' | 'Landed' | 'Failed';
+  landedSlot?: number;
+  error?: string;
+}
+
+export interface JitoStubEngine {
+  url: string;
+  bundles: Map<string, StubBundle>;
+  setMode(mode: StubEngineMode): void;
+  close(): Promise<void>;
+}
+
+interface StubEngineOptions {
+  port?: number; // 0 = puerto libre
+  mode?: StubEngineMode;
+  rpcUrl?: string; // obligatorio en modo forward
+}
+
+// Firma de cada tx (base64 legacy o v0 deserializan igual como Versioned)
+function signatureOf(base64: string): string {
+  try {
+    const tx = VersionedTransaction.deserialize(Buffer.from(base64, 'base64'));
+    return bs58.encode(tx.signatures[0]);
+  } catch {
+    return '';
+  }
+}
+
+export async function startJitoStubEngine(
+  options: StubEngineOptions = {},
+): Promise<JitoStubEngine> {
+  let mode: StubEngineMode = options.mode ?? 'forward';
+  const bundles = new Map<string, StubBundle>();
+  const connection = options.rpcUrl
+    ? new Connection(options.rpcUrl, 'confirmed')
+    : null;
+
+  const refresh = async (bundle: StubBundle): Promise<void> => {
+    if (bundle.status !== 'Pending' || mode !== 'forward' || !connection) return;
+
+    const { value } = await connection.getSignatureStatuses(bundle.signatures);
+    const failed = value.find(s => s?.err);
+    if (failed) {
+      bundle.status = 'Failed';
+      bundle.error = JSON.stringify(failed.err);
+      return;
+    }
+    if (value.every(s => s && s.confirmationStatus !== 'processed')) {
+      bundle.status = 'Landed';
+      bundle.landedSlot = Math.max(...value.map(s => s?.slot ?? 0));
+    }
+  };
+
+  const handle = async (method: string, params: any[]): Promise<unknown> => {
+    switch (method) {
+      case 'sendBundle': {
+        const transactions: string[] = Array.isArray(params?.[0]) ? params[0] : [];
+        if (transactions.length === 0 || transactions.length > 5) {
+          throw new Error('bundle must contain 1-5 transactions');
+        }
+
+        const bundle: StubBundle = {
+          bundleId: randomUUID().replace(/-/g, ''),
+          transactions,
+          signatures: transactions.map(signatureOf),
+          receivedAt: Date.now(),
+          status: mode === 'land' ? 'Landed' : mode === 'fail' ? 'Failed' : 'Pending',
+        };
+        bundles.set(bundle.bundleId, bundle);
+
+        if (mode === 'forward') {
+          if (!connection) throw new Error('forward mode needs rpcUrl');
+          for (const raw of transactions) {
+            await connection
+              .sendRawTransaction(Buffer.from(raw, 'base64'), {
+                skipPreflight: true,
+              })
+              .catch((error: any) => {
+                bundle.status = 'Failed';
+                bundle.error = error?.message ?? String(error);
+              });
+          }
+        }
+
+        console.log(
+          `🧪 [JitoStub] bundle ${bundle.bundleId.slice(0, 12)}... (${transactions.length} txs, ${mode})`,
+        );
+        return bundle.bundleId;
+      }
+
+      case 'getInflightBundleStatuses': {
+        const ids: string[] = Array.isArray(params?.[0]) ? params[0] : [];
+        const value = [];
+        for (const id of ids) {
+          const bundle = bundles.get(id);
+          if (!bundle) continue;
+          await refresh(bundle).catch(() => undefined);
+          value.push({
+            bundle_id: id,
+            status: bundle.status,
+            landed_slot: bundle.landedSlot ?? null,
+          });
+        }
+        return { context: { slot: 0 }, value };
+      }
+
+      case 'getTipAccounts':
+        return JITO_TIP_ACCOUNTS;
+
+      default:
+        throw new Error(`method not supported by stub: ${method}`);
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', async () => {
+      let id: unknown = null;
+      try {
+        const payload = JSON.parse(body || '{}');
+        id = payload.id ?? null;
+        const result = await handle(String(payload.method), payload.params ?? []);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+      } catch (error: any) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id,
+            error: { code: -32000, message: error?.message ?? String(error) },
+          }),
+        );
+      }
+    });
+  });
+
+  await new Promise<void>(resolve =>
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve()),
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    bundles,
+    setMode(next: StubEngineMode) {
+      mode = next;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close(error => (error ? reject(error) : resolve())),
+      ),
+  };
+}
+
+async function main(): Promise<void> {
+  const mode = (process.env.JITO_STUB_MODE ?? 'forward') as StubEngineMode;
+  const engine = await startJitoStubEngine({
+    port: Number(process.env.JITO_STUB_PORT ?? 8787),
+    mode,
+    rpcUrl: process.env.RPC_URL || undefined,
+  });
+  console.log(`🧪 Jito stub block engine on ${engine.url} (mode: ${mode})`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error: any) => {
+    console.error('❌ Jito stub failed:', error?.message ?? String(error));
+    process.exit(1);
+  });
+}
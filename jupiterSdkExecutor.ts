@@ -18,6 +18,18 @@ import {
   validateSlippage,
 } from './safeNumberUtils.js';
 import { JUPITER_SLIPPAGE_PCT } from './environment.js';
+import {
+  formatLanding,
+  landingFields,
+  type LandingResult,
+  type LandingStatus,
+} from './txLanding.js';
+import {
+  getPriorityFeeOracle,
+  formatFeePlan,
+  type FeeUrgency,
+} from './priorityFees.js';
+import { submitTransaction, type SubmissionMode } from './jitoBundles.js';
 
 export interface BuyResult {
   success: boolean;
@@ -27,6 +39,13 @@ export interface BuyResult {
   dex: string; // 'Jupiter'
   error?: string;
   simulated?: boolean;
+  // Landing (txLanding.ts)
+  slot?: number;
+  feeLamports?: number;
+  latencyMs?: number;
+  landingStatus?: LandingStatus;
+  submittedVia?: SubmissionMode;
+  tipLamports?: number; // propina Jito pagada (entra en el PnL)
   executedDex?: string;
   tokensAmount?: number;
   effectivePrice?: number;
@@ -40,10 +59,19 @@ export interface SellResult {
   dex: string; // 'Jupiter'
   error?: string;
   simulated?: boolean;
+  // Landing (txLanding.ts)
+  slot?: number;
+  feeLamports?: number;
+  latencyMs?: number;
+  landingStatus?: LandingStatus;
+  submittedVia?: SubmissionMode;
+  tipLamports?: number; // propina Jito pagada (entra en el PnL)
 }
 
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
-const MIN_PRIORITY_FEE = 250_000;
+// CU de referencia para convertir µlamports/CU → lamports totales
+// (Jupiter ajusta el CU limit real con dynamicComputeUnitLimit)
+const JUPITER_ESTIMATED_COMPUTE_UNITS = 300_000;
 
 const DEFAULT_JUPITER_SLIPPAGE = validateSlippage(
   JUPITER_SLIPPAGE_PCT,
@@ -75,7 +103,7 @@ export class JupiterSdkExecutor {
   private readonly wallet: Keypair;
   private readonly dryRun: boolean;
   private readonly httpsAgent: https.Agent;
-  private readonly priorityFee: number;
+  private readonly feeOracle = getPriorityFeeOracle();
 
   constructor(privateKey: string, rpcUrl: string, dryRun = true) {
     this.dryRun = dryRun;
@@ -95,14 +123,6 @@ export class JupiterSdkExecutor {
     }
     this.wallet = Keypair.fromSecretKey(secretKey);
 
-    this.priorityFee = Math.max(
-      parseInt(
-        process.env.PRIORITY_FEE_MICROLAMPORTS ?? `${MIN_PRIORITY_FEE}`,
-        10,
-      ) || MIN_PRIORITY_FEE,
-      MIN_PRIORITY_FEE,
-    );
-
     this.httpsAgent = new https.Agent({
       keepAlive: true,
       keepAliveMsecs: 30_000,
@@ -112,7 +132,7 @@ export class JupiterSdkExecutor {
 
     console.log(`💼 Jupiter SDK wallet: ${this.wallet.publicKey.toBase58()}`);
     console.log(`🎮 Mode: ${this.dryRun ? '📄 PAPER' : '💰 LIVE'}`);
-    console.log(`⚡ Priority fee: ${this.priorityFee} µlamports`);
+    console.log('⚡ Priority fee: oracle (priorityFees.ts) + dynamic CU limit');
   }
 
   // 🔹 COMPRA usando Jupiter Ultra
@@ -120,6 +140,8 @@ export class JupiterSdkExecutor {
     mint: string,
     solAmount: number,
     slippage: number = DEFAULT_JUPITER_SLIPPAGE,
+    urgency: FeeUrgency = 'normal',
+    submission: SubmissionMode = 'rpc',
   ): Promise<BuyResult> {
     const safeSolAmount = safeParseNumber(solAmount, NaN);
     if (Number.isNaN(safeSolAmount) || safeSolAmount <= 0) {
@@ -141,7 +163,11 @@ export class JupiterSdkExecutor {
       }
 
       const outputDecimals = await this.getTokenDecimals(new PublicKey(mint));
-      const { signature } = await this.executeSwap(quote, mint, 'buy');
+      const landing = await this.executeSwap(quote, mint, 'buy', urgency, submission);
+      if (!landing.success) {
+        return this.landingFailure(landing);
+      }
+      const { signature } = landing;
       const tokensReceived =
         Number(quote.outAmount) / 10 ** (quote.outDecimals ?? outputDecimals);
 
@@ -152,6 +178,7 @@ export class JupiterSdkExecutor {
       return {
         success: true,
         signature,
+        ...landingFields(landing),
         solSpent: safeSolAmount,
         tokensReceived,
         dex: 'Jupiter',
@@ -177,6 +204,8 @@ export class JupiterSdkExecutor {
     mint: string,
     tokenAmount: number,
     slippage: number = DEFAULT_JUPITER_SLIPPAGE,
+    urgency: FeeUrgency = 'normal',
+    submission: SubmissionMode = 'rpc',
   ): Promise<SellResult> {
     const safeTokenAmount = safeParseNumber(tokenAmount, NaN);
     if (Number.isNaN(safeTokenAmount) || safeTokenAmount <= 0) {
@@ -196,7 +225,11 @@ export class JupiterSdkExecutor {
         return { success: false, error: 'No route found', dex: 'Jupiter' };
       }
 
-      const { signature } = await this.executeSwap(quote, mint, 'sell');
+      const landing = await this.executeSwap(quote, mint, 'sell', urgency, submission);
+      if (!landing.success) {
+        return this.landingFailure(landing);
+      }
+      const { signature } = landing;
       const solReceived = Number(quote.outAmount) / 1e9;
 
       console.log(
@@ -208,6 +241,7 @@ export class JupiterSdkExecutor {
       return {
         success: true,
         signature,
+        ...landingFields(landing),
         tokensSold: safeTokenAmount,
         solReceived,
         dex: 'Jupiter',
@@ -318,12 +352,38 @@ export class JupiterSdkExecutor {
     }
   }
 
+  // Tx que no aterrizó (o aterrizó con error)
+  private landingFailure(landing: LandingResult): BuyResult & SellResult {
+    return {
+      success: false,
+      error: `${landing.status}: ${landing.error ?? 'unknown'}`,
+      dex: 'Jupiter',
+      // Si aterrizó con error la fee se pagó igual; 'pending' aún puede entrar
+      signature:
+        landing.status === 'failed' || landing.status === 'pending'
+          ? landing.signature
+          : undefined,
+      ...landingFields(landing),
+    };
+  }
+
   // 🔁 Ejecutar el swap (común a buy/sell) contra Ultra Swap API v1 (Lite)
   private async executeSwap(
     quote: QuoteResponse,
-    _mint: string,
+    mint: string,
     side: 'buy' | 'sell',
-  ) {
+    urgency: FeeUrgency,
+    submission: SubmissionMode,
+  ): Promise<LandingResult> {
+    // ⛽ Fee total en lamports según urgencia (priorityFees.ts)
+    const feePlan = await this.feeOracle.plan({
+      urgency,
+      writableAccounts: [new PublicKey(mint)],
+      defaultComputeUnits: JUPITER_ESTIMATED_COMPUTE_UNITS,
+      connection: this.connection,
+    });
+    console.log(`⛽ [Jupiter SDK] ${formatFeePlan(feePlan)}`);
+
     const response = await this.postJson<SwapResponse>(
       'https://lite-api.jup.ag/swap/v1/swap',
       {
@@ -331,7 +391,8 @@ export class JupiterSdkExecutor {
         userPublicKey: this.wallet.publicKey.toBase58(),
         wrapAndUnwrapSol: true,
         dynamicSlippage: false,
-        prioritizationFeeLamports: this.priorityFee,
+        dynamicComputeUnitLimit: true,
+        prioritizationFeeLamports: feePlan.priorityFeeLamports,
       },
     );
 
@@ -342,28 +403,29 @@ export class JupiterSdkExecutor {
     const transactionBuffer = Buffer.from(response.swapTransaction, 'base64');
     const transaction = VersionedTransaction.deserialize(transactionBuffer);
 
-    transaction.sign([this.wallet]);
-
-    const signature = await this.connection.sendRawTransaction(
-      transaction.serialize(),
+    // Primer intento con el blockhash con el que Jupiter construyó la tx;
+    // si expira, txLanding la vuelve a firmar con uno nuevo
+    const landing = await submitTransaction(
+      this.connection,
+      transaction,
+      [this.wallet],
+      submission,
       {
-        skipPreflight: false,
-        maxRetries: 3,
+        label: `jupiter ${side} ${mint.slice(0, 8)}`,
+        blockhash: {
+          blockhash: transaction.message.recentBlockhash,
+          lastValidBlockHeight: response.lastValidBlockHeight,
+        },
       },
     );
+    console.log(`🪐 [Jupiter SDK] ${side.toUpperCase()} ${formatLanding(landing)}`);
+    void this.feeOracle.recordSpend(feePlan, landing);
 
-    const latestBlockhash = await this.connection.getLatestBlockhash(
-      'finalized',
-    );
-    await this.connection.confirmTransaction({
-      signature,
-      blockhash: latestBlockhash.blockhash,
-      lastValidBlockHeight: response.lastValidBlockHeight,
-    });
-
-    console.log(`🪐 [Jupiter SDK] ${side.toUpperCase()} executed: ${signature}`);
+    if (landing.success) {
+      console.log(`🪐 [Jupiter SDK] ${side.toUpperCase()} executed: ${landing.signature}`);
+    }
 
-    return { signature };
+    return landing;
   }
 
   // 🧮 Obtener quote de Jupiter Ultra Swap API v1
@@ -22,7 +22,19 @@ import {
   JUPITER_SLIPPAGE_PCT,
   PUMP_BUY_SLIPPAGE_PCT,
   PUMP_SELL_SLIPPAGE_PCT,
+  PAPER_SIM_ENABLED,
+  PAPER_WALLET_ENABLED,
+  JITO_ENABLED,
+  JITO_STRATEGIES,
 } from './environment.js';
+import { getPaperSimulator, type PaperMarketState } from './paperSimulator.js';
+import { getPaperWallet } from './paperWallet.js';
+import {
+  curveFromReserves,
+  quoteBuy,
+  quoteSell,
+  INITIAL_BONDING_CURVE,
+} from './pumpCurve.js';
 
 // Pump.fun executor (14 cuentas + creator fee)
 import {
@@ -32,6 +44,10 @@ import {
   type SellResult as PumpSellResult,
 } from './pumpFunExecutor.js';
 
+import type { LandingStatus } from './txLanding.js';
+import type { FeeUrgency } from './priorityFees.js';
+import type { SubmissionMode } from './jitoBundles.js';
+
 // Jupiter executor basado en Ultra Swap API (Lite API) / SDK
 import {
   JupiterSdkExecutor,
@@ -51,6 +67,13 @@ export interface BuyResult {
   error?: string;
   simulated?: boolean;
   fallback?: boolean;
+  // Landing (txLanding.ts): solo en LIVE
+  slot?: number;
+  feeLamports?: number;
+  latencyMs?: number;
+  landingStatus?: LandingStatus;
+  submittedVia?: SubmissionMode;
+  tipLamports?: number; // propina Jito pagada (entra en el PnL)
   effectivePrice?: number;
   tokensAmount?: number;
   executedDex?: string;
@@ -66,6 +89,13 @@ export interface SellResult {
   error?: string;
   simulated?: boolean;
   fallback?: boolean;
+  // Landing (txLanding.ts): solo en LIVE
+  slot?: number;
+  feeLamports?: number;
+  latencyMs?: number;
+  landingStatus?: LandingStatus;
+  submittedVia?: SubmissionMode;
+  tipLamports?: number; // propina Jito pagada (entra en el PnL)
 }
 
 // Compromiso por defecto
@@ -89,11 +119,15 @@ export class MultiDexExecutor {
   private readonly dryRun: boolean;
   private readonly pumpExecutor: PumpFunExecutor;
   private readonly jupiterExecutor: JupiterSdkExecutor;
-  private readonly priorityFee: number;
   private readonly PUMP_PROGRAM_ID: PublicKey;
   private readonly redis: RedisClient;
 
-  constructor(privateKey: string, rpcUrl: string, dryRun = true) {
+  constructor(
+    privateKey: string,
+    rpcUrl: string,
+    dryRun = true,
+    redis?: RedisClient,
+  ) {
     this.dryRun = dryRun;
 
     this.connection = new Connection(rpcUrl, {
@@ -139,17 +173,17 @@ export class MultiDexExecutor {
     );
 
     // Redis para leer estado de posiciones (graduated, executedDex, etc.)
-    if (!process.env.REDIS_URL) {
-      throw new Error('Missing REDIS_URL for MultiDexExecutor');
+    // Con perfiles se pasa el cliente del perfil (keys con su namespace)
+    if (redis) {
+      this.redis = redis;
+    } else {
+      if (!process.env.REDIS_URL) {
+        throw new Error('Missing REDIS_URL for MultiDexExecutor');
+      }
+      this.redis = new RedisClass(process.env.REDIS_URL as string, {
+        maxRetriesPerRequest: null,
+      });
     }
-    this.redis = new RedisClass(process.env.REDIS_URL as string, {
-      maxRetriesPerRequest: null,
-    });
-
-    this.priorityFee = parseInt(
-      process.env.PRIORITY_FEE_MICROLAMPORTS || '50000',
-      10,
-    );
 
     console.log(`💼 Wallet: ${this.wallet.publicKey.toString()}`);
     console.log(
@@ -157,7 +191,12 @@ export class MultiDexExecutor {
         dryRun ? 'DRY RUN (Paper Trading)' : '⚠️ LIVE TRADING'
       }`,
     );
-    console.log(`⚡ Priority Fee: ${this.priorityFee} µlamports\n`);
+    console.log('⚡ Priority Fee: per-trade oracle (priorityFees.ts)');
+    console.log(
+      `🎁 Jito bundles: ${
+        JITO_ENABLED ? `ON for ${JITO_STRATEGIES.join(', ') || 'none'}` : 'OFF'
+      }\n`,
+    );
   }
 
   // -------- Utilidades básicas --------
@@ -229,6 +268,8 @@ export class MultiDexExecutor {
     mint: string,
     solAmount: number,
     slippage: number,
+    urgency: FeeUrgency,
+    submission: SubmissionMode,
   ): Promise<BuyResult> {
     try {
       const balance = await this.getBalance();
@@ -252,6 +293,8 @@ export class MultiDexExecutor {
         mint,
         solAmount,
         slippage,
+        urgency,
+        submission,
       );
 
       return {
@@ -281,12 +324,16 @@ export class MultiDexExecutor {
     mint: string,
     tokenAmount: number,
     slippage: number,
+    urgency: FeeUrgency,
+    submission: SubmissionMode,
   ): Promise<SellResult> {
     try {
       const result: PumpSellResult = await this.pumpExecutor.sellToken(
         mint,
         tokenAmount,
         slippage,
+        urgency,
+        submission,
       );
 
       return {
@@ -311,6 +358,8 @@ export class MultiDexExecutor {
     mint: string,
     solAmount: number,
     slippage: number,
+    urgency: FeeUrgency,
+    submission: SubmissionMode,
   ): Promise<BuyResult> {
     try {
       // JupiterSdkExecutor.buyToken espera (mint, amount, slippage?)
@@ -318,6 +367,8 @@ export class MultiDexExecutor {
         mint,
         solAmount,
         slippage,
+        urgency,
+        submission,
       );
       return {
         ...res,
@@ -346,6 +397,8 @@ export class MultiDexExecutor {
     mint: string,
     tokenAmount: number,
     slippage: number,
+    urgency: FeeUrgency,
+    submission: SubmissionMode,
   ): Promise<SellResult> {
     try {
       // JupiterSdkExecutor.sellToken espera (mint, amount, slippage?)
@@ -353,6 +406,8 @@ export class MultiDexExecutor {
         mint,
         tokenAmount,
         slippage,
+        urgency,
+        submission,
       );
       return res;
     } catch (error: any) {
@@ -400,9 +455,12 @@ export class MultiDexExecutor {
     solAmount: number,
     dex: 'auto' | 'Pump.fun' | 'Jupiter' | 'Raydium' | 'Orca' = 'auto',
     slippage?: number,
+    urgency: FeeUrgency = 'normal',
+    submission: SubmissionMode = 'rpc',
   ): Promise<BuyResult> {
     if (this.dryRun) {
-      return this.simulateBuy(mint, solAmount, dex);
+      const simulated = await this.simulateBuy(mint, solAmount, dex);
+      return this.settlePaperBuy(mint, solAmount, simulated);
     }
 
     try {
@@ -426,13 +484,25 @@ export class MultiDexExecutor {
 
       switch (chosenDex) {
         case 'Pump.fun':
-          return await this.buyOnPump(mint, solAmount, checkedSlippage);
+          return await this.buyOnPump(
+            mint,
+            solAmount,
+            checkedSlippage,
+            urgency,
+            submission,
+          );
 
         case 'Jupiter':
         case 'Raydium':
         case 'Orca':
         default:
-          return await this.buyOnJupiter(mint, solAmount, checkedSlippage);
+          return await this.buyOnJupiter(
+            mint,
+            solAmount,
+            checkedSlippage,
+            urgency,
+            submission,
+          );
       }
     } catch (error: any) {
       console.error(
@@ -450,6 +520,8 @@ export class MultiDexExecutor {
     tokenAmount: number,
     dex: 'auto' | 'Pump.fun' | 'Jupiter' | 'Raydium' | 'Orca' = 'auto',
     slippage?: number,
+    urgency: FeeUrgency = 'normal',
+    submission: SubmissionMode = 'rpc',
   ): Promise<SellResult> {
     if (this.dryRun) {
       return this.simulateSell(mint, tokenAmount, dex);
@@ -501,7 +573,13 @@ export class MultiDexExecutor {
 
       switch (chosenDex) {
         case 'Pump.fun':
-          return await this.sellOnPump(mint, tokenAmount, checkedSlippage);
+          return await this.sellOnPump(
+            mint,
+            tokenAmount,
+            checkedSlippage,
+            urgency,
+            submission,
+          );
 
         case 'Jupiter':
         case 'Raydium':
@@ -511,6 +589,8 @@ export class MultiDexExecutor {
             mint,
             tokenAmount,
             checkedSlippage,
+            urgency,
+            submission,
           );
       }
     } catch (error: any) {
@@ -545,26 +625,33 @@ export class MultiDexExecutor {
         ) => Promise<{
           virtualSolReserves?: number;
           virtualTokenReserves?: number;
+          price?: number;
+          graduated?: boolean;
         } | null>;
       };
 
       const priceData = await getPriceFromBondingCurve(mint, true);
 
-      if (!priceData || !priceData.virtualSolReserves) {
-        return this.fallbackSimulateBuy(mint, solAmount, dex);
+      // 🎲 Fill realista (curva + fees + latencia + fallos)
+      if (PAPER_SIM_ENABLED && priceData) {
+        const simulated = this.simulateRealisticBuy(priceData, solAmount, dex);
+        if (simulated) return simulated;
       }
 
-      const FEE_PERCENT = 0.01;
-      const solAfterFee = solAmount * (1 - FEE_PERCENT);
-      const solInLamports = solAfterFee * 1e9;
-
-      const virtualSolReserves = priceData.virtualSolReserves * 1e9;
-      const virtualTokenReserves = priceData.virtualTokenReserves ?? 0;
+      const curve = priceData
+        ? curveFromReserves(
+            priceData.virtualSolReserves ?? 0,
+            priceData.virtualTokenReserves ?? 0,
+          )
+        : null;
+      if (!curve) {
+        return this.fallbackSimulateBuy(mint, solAmount, dex);
+      }
 
-      const tokensOut = Math.floor(
-        (virtualTokenReserves * solInLamports) /
-          (virtualSolReserves + solInLamports),
-      );
+      // Quote exacto con fees de protocolo + creador (pumpCurve.ts)
+      const quote = quoteBuy(curve, BigInt(Math.floor(solAmount * 1e9)));
+      const tokensOut = Number(quote.tokensOut);
+      const fee = Number(quote.protocolFee + quote.creatorFee) / 1e9;
 
       console.log('\n📄 PAPER TRADE:');
       console.log(`   Spent: ${solAmount.toFixed(4)} SOL`);
@@ -577,7 +664,7 @@ export class MultiDexExecutor {
         signature: `simulated_buy_${Date.now()}`,
         tokensReceived: tokensOut,
         solSpent: solAmount,
-        fee: solAmount * FEE_PERCENT,
+        fee,
         dex: dex || 'auto',
         simulated: true,
         executedDex: dex || 'auto',
@@ -612,26 +699,34 @@ export class MultiDexExecutor {
         ) => Promise<{
           virtualSolReserves?: number;
           virtualTokenReserves?: number;
+          price?: number;
+          graduated?: boolean;
         } | null>;
       };
 
       const priceData = await getPriceFromBondingCurve(mint, true);
 
-      if (!priceData || !priceData.virtualSolReserves) {
-        return this.fallbackSimulateSell(mint, tokenAmount, dex);
+      if (PAPER_SIM_ENABLED && priceData) {
+        const simulated = this.simulateRealisticSell(
+          priceData,
+          tokenAmount,
+          dex,
+        );
+        if (simulated) return simulated;
       }
 
-      const virtualSolReserves = priceData.virtualSolReserves * 1e9;
-      const virtualTokenReserves = priceData.virtualTokenReserves ?? 0;
-
-      const solOutLamports = Math.floor(
-        (virtualSolReserves * tokenAmount) /
-          (virtualTokenReserves + tokenAmount),
-      );
+      const curve = priceData
+        ? curveFromReserves(
+            priceData.virtualSolReserves ?? 0,
+            priceData.virtualTokenReserves ?? 0,
+          )
+        : null;
+      if (!curve) {
+        return this.fallbackSimulateSell(mint, tokenAmount, dex);
+      }
 
-      const solBeforeFee = solOutLamports / 1e9;
-      const FEE_PERCENT = 0.01;
-      const solAfterFee = solBeforeFee * (1 - FEE_PERCENT);
+      const quote = quoteSell(curve, BigInt(Math.floor(tokenAmount)));
+      const solAfterFee = Number(quote.netSol) / 1e9;
 
       console.log('\n📄 PAPER TRADE:');
       console.log(
@@ -646,7 +741,7 @@ export class MultiDexExecutor {
         signature: `simulated_sell_${Date.now()}`,
         solReceived: solAfterFee,
         tokensSold: tokenAmount,
-        fee: solBeforeFee * FEE_PERCENT,
+        fee: Number(quote.protocolFee + quote.creatorFee) / 1e9,
         dex: dex || 'auto',
         simulated: true,
       };
@@ -655,22 +750,139 @@ export class MultiDexExecutor {
     }
   }
 
+  // 📄 Paper wallet: descuenta el coste (o las fees si la tx falló)
+  private async settlePaperBuy(
+    mint: string,
+    solAmount: number,
+    result: BuyResult,
+  ): Promise<BuyResult> {
+    if (!PAPER_WALLET_ENABLED) return result;
+
+    try {
+      const wallet = getPaperWallet(this.redis);
+
+      if (!result.success) {
+        if (result.fee && result.fee > 0) {
+          await wallet.chargeFees(result.fee);
+        }
+        return result;
+      }
+
+      const debit = await wallet.debitBuy(
+        mint,
+        result.solSpent ?? solAmount,
+        result.tokensAmount ?? result.tokensReceived ?? 0,
+      );
+
+      if (!debit.success) {
+        console.log(`   ❌ ${debit.error}`);
+        return {
+          success: false,
+          error: debit.error,
+          dex: result.dex,
+          simulated: true,
+        };
+      }
+
+      console.log(
+        `   📄 Paper balance: ${debit.balanceSol.toFixed(4)} SOL`,
+      );
+      return result;
+    } catch (error: any) {
+      console.log(
+        `   ⚠️ Paper wallet unavailable: ${error?.message ?? String(error)}`,
+      );
+      return result;
+    }
+  }
+
+  private simulateRealisticBuy(
+    market: PaperMarketState,
+    solAmount: number,
+    dex: string,
+  ): BuyResult | null {
+    const simulator = getPaperSimulator();
+    const fill = simulator.simulateBuy(market, solAmount, {
+      preferJupiter: dex !== 'auto' && dex !== 'Pump.fun',
+    });
+    if (!fill) return null;
+
+    console.log(`   📄 ${simulator.describe(fill)}`);
+
+    if (!fill.success) {
+      return {
+        success: false,
+        error: fill.error,
+        fee: fill.fees.total,
+        solSpent: fill.solAmount,
+        dex: fill.venue,
+        simulated: true,
+      };
+    }
+
+    return {
+      success: true,
+      signature: `simulated_buy_${Date.now()}`,
+      tokensReceived: fill.tokensAmount,
+      solSpent: fill.solAmount,
+      fee: fill.fees.total,
+      dex: fill.venue,
+      simulated: true,
+      executedDex: fill.venue,
+      tokensAmount: fill.tokensAmount,
+      effectivePrice: fill.effectivePrice,
+    };
+  }
+
+  private simulateRealisticSell(
+    market: PaperMarketState,
+    tokenAmount: number,
+    dex: string,
+  ): SellResult | null {
+    const simulator = getPaperSimulator();
+    const fill = simulator.simulateSell(market, tokenAmount, {
+      preferJupiter: dex !== 'auto' && dex !== 'Pump.fun',
+    });
+    if (!fill) return null;
+
+    console.log(`   📄 ${simulator.describe(fill)}`);
+
+    if (!fill.success) {
+      return {
+        success: false,
+        error: fill.error,
+        fee: fill.fees.total,
+        dex: fill.venue,
+        simulated: true,
+      };
+    }
+
+    return {
+      success: true,
+      signature: `simulated_sell_${Date.now()}`,
+      solReceived: fill.solAmount,
+      tokensSold: fill.tokensAmount,
+      fee: fill.fees.total,
+      dex: fill.venue,
+      simulated: true,
+    };
+  }
+
   private fallbackSimulateBuy(
     mint: string,
     solAmount: number,
     dex: string = 'auto',
   ): BuyResult {
-    const FEE_PERCENT = 0.02;
-    const estimatedTokens = Math.floor(
-      (solAmount / 0.00000001) * (1 - FEE_PERCENT),
-    );
+    // Sin datos de la curva: asumimos curva recién creada
+    const quote = quoteBuy(INITIAL_BONDING_CURVE, BigInt(Math.floor(solAmount * 1e9)));
+    const estimatedTokens = Number(quote.tokensOut);
 
     return {
       success: true,
       signature: `simulated_buy_${Date.now()}`,
       tokensReceived: estimatedTokens,
       solSpent: solAmount,
-      fee: solAmount * FEE_PERCENT,
+      fee: Number(quote.protocolFee + quote.creatorFee) / 1e9,
       dex: dex || 'auto',
       simulated: true,
       fallback: true,
@@ -686,16 +898,15 @@ export class MultiDexExecutor {
     tokenAmount: number,
     dex: string = 'auto',
   ): SellResult {
-    const FEE_PERCENT = 0.02;
-    const estimatedSol =
-      tokenAmount * 0.00000001 * (1 - FEE_PERCENT);
+    const quote = quoteSell(INITIAL_BONDING_CURVE, BigInt(Math.floor(tokenAmount)));
+    const estimatedSol = Number(quote.netSol) / 1e9;
 
     return {
       success: true,
       signature: `simulated_sell_${Date.now()}`,
       solReceived: estimatedSol,
       tokensSold: tokenAmount,
-      fee: estimatedSol * FEE_PERCENT,
+      fee: Number(quote.protocolFee + quote.creatorFee) / 1e9,
       dex: dex || 'auto',
       simulated: true,
       fallback: true,
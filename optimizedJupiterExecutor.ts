@@ -18,6 +18,13 @@ import {
   validateSlippage,
 } from './safeNumberUtils.js';
 import { JUPITER_SLIPPAGE_PCT } from './environment.js';
+import {
+  landTransaction,
+  formatLanding,
+  landingFields,
+  type LandingResult,
+  type LandingStatus,
+} from './txLanding.js';
 
 export interface BuyResult {
   success: boolean;
@@ -27,6 +34,11 @@ export interface BuyResult {
   dex: string;          // 'Jupiter'
   error?: string;
   simulated?: boolean;
+  // Landing (txLanding.ts)
+  slot?: number;
+  feeLamports?: number;
+  latencyMs?: number;
+  landingStatus?: LandingStatus;
 }
 
 export interface SellResult {
@@ -37,6 +49,11 @@ export interface SellResult {
   dex: string;          // 'Jupiter'
   error?: string;
   simulated?: boolean;
+  // Landing (txLanding.ts)
+  slot?: number;
+  feeLamports?: number;
+  latencyMs?: number;
+  landingStatus?: LandingStatus;
 }
 
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
@@ -137,7 +154,11 @@ export class OptimizedJupiterExecutor {
       }
 
       const outputDecimals = await this.getTokenDecimals(new PublicKey(mint));
-      const { signature } = await this.executeSwap(quote, mint, 'buy');
+      const landing = await this.executeSwap(quote, mint, 'buy');
+      if (!landing.success) {
+        return this.landingFailure(landing);
+      }
+      const { signature } = landing;
       const tokensReceived =
         Number(quote.outAmount) / 10 ** (quote.outDecimals ?? outputDecimals);
 
@@ -148,6 +169,7 @@ export class OptimizedJupiterExecutor {
       return {
         success: true,
         signature,
+        ...landingFields(landing),
         solSpent: safeSolAmount,
         tokensReceived,
         dex: 'Jupiter',
@@ -188,7 +210,11 @@ export class OptimizedJupiterExecutor {
         return { success: false, error: 'No route found', dex: 'Jupiter' };
       }
 
-      const { signature } = await this.executeSwap(quote, mint, 'sell');
+      const landing = await this.executeSwap(quote, mint, 'sell');
+      if (!landing.success) {
+        return this.landingFailure(landing);
+      }
+      const { signature } = landing;
       const solReceived = Number(quote.outAmount) / 1e9;
 
       console.log(
@@ -200,6 +226,7 @@ export class OptimizedJupiterExecutor {
       return {
         success: true,
         signature,
+        ...landingFields(landing),
         tokensSold: safeTokenAmount,
         solReceived,
         dex: 'Jupiter',
@@ -307,12 +334,27 @@ export class OptimizedJupiterExecutor {
     }
   }
 
+  // Tx que no aterrizó (o aterrizó con error)
+  private landingFailure(landing: LandingResult): BuyResult & SellResult {
+    return {
+      success: false,
+      error: `${landing.status}: ${landing.error ?? 'unknown'}`,
+      dex: 'Jupiter',
+      // Si aterrizó con error la fee se pagó igual; 'pending' aún puede entrar
+      signature:
+        landing.status === 'failed' || landing.status === 'pending'
+          ? landing.signature
+          : undefined,
+      ...landingFields(landing),
+    };
+  }
+
   // 🔁 Ejecutar el swap (común a buy/sell)
   private async executeSwap(
     quote: QuoteResponse,
-    _mint: string,
+    mint: string,
     side: 'buy' | 'sell',
-  ) {
+  ): Promise<LandingResult> {
     const response = await this.postJson<SwapResponse>(
       // 🔄 API nueva: Legacy Swap v1 (Lite)
       'https://lite-api.jup.ag/swap/v1/swap',
@@ -332,28 +374,27 @@ export class OptimizedJupiterExecutor {
     const transactionBuffer = Buffer.from(response.swapTransaction, 'base64');
     const transaction = VersionedTransaction.deserialize(transactionBuffer);
 
-    transaction.sign([this.wallet]);
-
-    const signature = await this.connection.sendRawTransaction(
-      transaction.serialize(),
+    // Primer intento con el blockhash con el que Jupiter construyó la tx;
+    // si expira, txLanding la vuelve a firmar con uno nuevo
+    const landing = await landTransaction(
+      this.connection,
+      transaction,
+      [this.wallet],
       {
-        skipPreflight: false,
-        maxRetries: 3,
+        label: `jupiter ${side} ${mint.slice(0, 8)}`,
+        blockhash: {
+          blockhash: transaction.message.recentBlockhash,
+          lastValidBlockHeight: response.lastValidBlockHeight,
+        },
       },
     );
+    console.log(`🪐 Jupiter ${side.toUpperCase()} ${formatLanding(landing)}`);
 
-    const latestBlockhash = await this.connection.getLatestBlockhash(
-      'finalized',
-    );
-    await this.connection.confirmTransaction({
-      signature,
-      blockhash: latestBlockhash.blockhash,
-      lastValidBlockHeight: response.lastValidBlockHeight,
-    });
-
-    console.log(`🪐 Jupiter ${side.toUpperCase()} executed: ${signature}`);
+    if (landing.success) {
+      console.log(`🪐 Jupiter ${side.toUpperCase()} executed: ${landing.signature}`);
+    }
 
-    return { signature };
+    return landing;
   }
 
   // 🧮 Obtener quote de Jupiter
@@ -0,0 +1,603 @@
+// optimizer.ts - Búsqueda de parámetros de salida sobre el backtester (TypeScript)
+//
+// Grid o random search de los knobs de salida de environment.ts sobre un JSONL
+// de eventos (mismo formato que backtester.ts). Cada configuración se ordena por
+// PnL total → profit factor → max drawdown.
+//
+// Walk-forward para no sobreajustar a un solo día de memecoins:
+//   eventos → folds por día UTC (o N bloques iguales con --folds)
+//   el ÚLTIMO fold es holdout: no entra en ningún ranking ni entrenamiento
+//   paso i: optimizar en folds[0..i-1], evaluar el ganador en folds[i]
+//           (solo folds de desarrollo)
+// La config recomendada es el ganador de walk-forward con mejor PnL de test
+// sumado, y su métrica fuera de muestra se mide una sola vez en el holdout.
+//
+// Uso: npm run optimize -- events.jsonl [--mode grid|random] [--samples 100]
+//        [--space space.json] [--folds 4] [--min-trades 3] [--seed 42] [--out report.json]
+
+import 'dotenv/config';
+import { readFile, writeFile } from 'fs/promises';
+import { pathToFileURL } from 'url';
+import {
+  Backtester,
+  SimulatedExecutor,
+  loadBacktestEvents,
+  type BacktestEvent,
+  type BacktestResult,
+} from './backtester.js';
+import { DEFAULT_HYBRID_EXIT_CONFIG } from './hybridExitEngine.js';
+import {
+  COPY_PROFIT_TARGET_PERCENT,
+  COPY_STOP_LOSS_PERCENT,
+  TRAILING_STOP_PERCENT,
+  VOLUME_DROP_PERCENT,
+  COPY_MAX_HOLD_SECONDS,
+  PARTIAL_TP_ENABLED,
+  PARTIAL_TP1_PCT,
+  PARTIAL_TP1_SELL_PCT,
+  PARTIAL_TP2_PCT,
+  PARTIAL_TP2_SELL_PCT,
+  PARTIAL_TP3_PCT,
+  PARTIAL_TP3_SELL_PCT,
+} from './environment.js';
+
+// --- Knobs ---
+
+export const EXIT_KNOBS = [
+  'COPY_PROFIT_TARGET_PERCENT',
+  'COPY_STOP_LOSS_PERCENT',
+  'TRAILING_STOP_PERCENT',
+  'VOLUME_DROP_PERCENT',
+  'COPY_MAX_HOLD_SECONDS',
+  'PARTIAL_TP1_PCT',
+  'PARTIAL_TP1_SELL_PCT',
+  'PARTIAL_TP2_PCT',
+  'PARTIAL_TP2_SELL_PCT',
+  'PARTIAL_TP3_PCT',
+  'PARTIAL_TP3_SELL_PCT',
+] as const;
+
+export type ExitKnob = (typeof EXIT_KNOBS)[number];
+
+export type ExitParams = Partial<Record<ExitKnob, number>>;
+
+export type ParameterSpace = Partial<Record<ExitKnob, number[]>>;
+
+const CURRENT_VALUES: Record<ExitKnob, number> = {
+  COPY_PROFIT_TARGET_PERCENT,
+  COPY_STOP_LOSS_PERCENT,
+  TRAILING_STOP_PERCENT,
+  VOLUME_DROP_PERCENT,
+  COPY_MAX_HOLD_SECONDS,
+  PARTIAL_TP1_PCT,
+  PARTIAL_TP1_SELL_PCT,
+  PARTIAL_TP2_PCT,
+  PARTIAL_TP2_SELL_PCT,
+  PARTIAL_TP3_PCT,
+  PARTIAL_TP3_SELL_PCT,
+};
+
+// Espacio por defecto (PARTIAL_TP1_PCT = 0 desactiva el primer nivel parcial)
+export const DEFAULT_PARAMETER_SPACE: ParameterSpace = {
+  COPY_PROFIT_TARGET_PERCENT: [50, 100, 200, 300],
+  COPY_STOP_LOSS_PERCENT: [8, 13, 20, 30],
+  TRAILING_STOP_PERCENT: [10, 15, 25],
+  VOLUME_DROP_PERCENT: [50, 70, 90],
+  COPY_MAX_HOLD_SECONDS: [300, 900, 1800],
+  PARTIAL_TP1_PCT: [0, 50, 100],
+};
+
+// --- Métricas ---
+
+export interface RunMetrics {
+  trades: number;
+  wins: number;
+  losses: number;
+  totalPnl: number;
+  profitFactor: number; // Infinity si no hay pérdidas
+  maxDrawdown: number; // SOL, sobre la curva de PnL acumulado
+  winRate: number;
+}
+
+export interface RankedConfig {
+  params: ExitParams;
+  metrics: RunMetrics;
+}
+
+export interface WalkForwardStep {
+  step: number;
+  trainRange: [number, number];
+  testRange: [number, number];
+  best: ExitParams;
+  train: RunMetrics;
+  test: RunMetrics;
+}
+
+export interface OptimizerReport {
+  mode: 'grid' | 'random';
+  configsEvaluated: number;
+  folds: number;
+  rankings: RankedConfig[];
+  walkForward: WalkForwardStep[];
+  recommended: {
+    params: ExitParams;
+    selectedBy: 'walk_forward' | 'in_sample';
+    outOfSample: RunMetrics | null; // solo el fold holdout
+    holdoutRange: [number, number] | null;
+  } | null;
+  envBlock: string;
+  warnings: string[];
+}
+
+export interface OptimizerOptions {
+  mode?: 'grid' | 'random';
+  space?: ParameterSpace;
+  samples?: number;
+  maxCombos?: number;
+  folds?: number;
+  minTrades?: number;
+  seed?: number;
+  slippagePercent?: number;
+  feeSol?: number;
+}
+
+export function computeRunMetrics(result: BacktestResult): RunMetrics {
+  // Curva en orden de cierre
+  const ordered = [...result.trades].sort(
+    (a, b) => Number(a.exitTime ?? 0) - Number(b.exitTime ?? 0),
+  );
+
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let grossWin = 0;
+  let grossLoss = 0;
+  let wins = 0;
+  let losses = 0;
+
+  for (const trade of ordered) {
+    const pnl = parseFloat(trade.pnlSOL ?? '0') || 0;
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+
+    if (pnl > 0) {
+      wins++;
+      grossWin += pnl;
+    } else if (pnl < 0) {
+      losses++;
+      grossLoss += Math.abs(pnl);
+    }
+  }
+
+  return {
+    trades: ordered.length,
+    wins,
+    losses,
+    totalPnl: equity,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : grossWin > 0 ? Infinity : 0,
+    maxDrawdown,
+    winRate: ordered.length > 0 ? (wins / ordered.length) * 100 : 0,
+  };
+}
+
+// PnL total desc → profit factor desc → drawdown asc; pocas operaciones al final
+function compareMetrics(a: RunMetrics, b: RunMetrics, minTrades: number): number {
+  const aValid = a.trades >= minTrades ? 1 : 0;
+  const bValid = b.trades >= minTrades ? 1 : 0;
+  if (aValid !== bValid) return bValid - aValid;
+  if (a.totalPnl !== b.totalPnl) return b.totalPnl - a.totalPnl;
+  if (a.profitFactor !== b.profitFactor) return b.profitFactor - a.profitFactor;
+  return a.maxDrawdown - b.maxDrawdown;
+}
+
+// --- Generación de configuraciones ---
+
+// PRNG determinista (mulberry32) para que --seed sea reproducible
+function createRandom(seed: number): () => number {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gridConfigs(space: ParameterSpace): ExitParams[] {
+  let configs: ExitParams[] = [{}];
+  for (const knob of EXIT_KNOBS) {
+    const values = space[knob];
+    if (!values || values.length === 0) continue;
+    const next: ExitParams[] = [];
+    for (const config of configs) {
+      for (const value of values) {
+        next.push({ ...config, [knob]: value });
+      }
+    }
+    configs = next;
+  }
+  return configs;
+}
+
+function randomConfigs(
+  space: ParameterSpace,
+  samples: number,
+  random: () => number,
+): ExitParams[] {
+  const seen = new Set<string>();
+  const configs: ExitParams[] = [];
+  const maxAttempts = samples * 20;
+
+  for (let attempt = 0; attempt < maxAttempts && configs.length < samples; attempt++) {
+    const config: ExitParams = {};
+    for (const knob of EXIT_KNOBS) {
+      const values = space[knob];
+      if (!values || values.length === 0) continue;
+      config[knob] = values[Math.floor(random() * values.length)];
+    }
+    const key = JSON.stringify(config);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    configs.push(config);
+  }
+
+  return configs;
+}
+
+// --- Ejecución ---
+
+function hasPartialKnob(params: ExitParams): boolean {
+  return EXIT_KNOBS.some(k => k.startsWith('PARTIAL_') && params[k] !== undefined);
+}
+
+function buildPartialLevels(params: ExitParams) {
+  const value = (knob: ExitKnob) => params[knob] ?? CURRENT_VALUES[knob];
+  return [
+    { level: 1, tp: value('PARTIAL_TP1_PCT'), sellPct: value('PARTIAL_TP1_SELL_PCT') },
+    { level: 2, tp: value('PARTIAL_TP2_PCT'), sellPct: value('PARTIAL_TP2_SELL_PCT') },
+    { level: 3, tp: value('PARTIAL_TP3_PCT'), sellPct: value('PARTIAL_TP3_SELL_PCT') },
+  ].filter(l => l.tp > 0 && l.sellPct > 0);
+}
+
+async function runConfig(
+  events: BacktestEvent[],
+  params: ExitParams,
+  options: OptimizerOptions,
+): Promise<RunMetrics> {
+  const partialLevels = hasPartialKnob(params)
+    ? buildPartialLevels(params)
+    : DEFAULT_HYBRID_EXIT_CONFIG.partialLevels;
+
+  const backtester = new Backtester({
+    executor: new SimulatedExecutor({
+      slippagePercent: options.slippagePercent,
+      feeSol: options.feeSol,
+    }),
+    exitConfig: {
+      takeProfitPercent: params.COPY_PROFIT_TARGET_PERCENT,
+      stopLossPercent: params.COPY_STOP_LOSS_PERCENT,
+      trailingStopPercent: params.TRAILING_STOP_PERCENT,
+      volumeDropPercent: params.VOLUME_DROP_PERCENT,
+      partialLevels,
+    },
+    strategyOverrides: {
+      takeProfitPercent: params.COPY_PROFIT_TARGET_PERCENT,
+      stopLossPercent: params.COPY_STOP_LOSS_PERCENT,
+      trailingStopPercent: params.TRAILING_STOP_PERCENT,
+      maxHoldEnabled:
+        params.COPY_MAX_HOLD_SECONDS !== undefined ? true : undefined,
+      maxHoldSeconds: params.COPY_MAX_HOLD_SECONDS,
+    },
+    partialTakeProfits: hasPartialKnob(params)
+      ? partialLevels.length > 0
+      : PARTIAL_TP_ENABLED,
+  });
+
+  const result = await muted(() => backtester.run(events));
+  return computeRunMetrics(result);
+}
+
+// CopyStrategy loguea cada decisión; en un sweep eso son miles de líneas
+async function muted<T>(fn: () => Promise<T>): Promise<T> {
+  const original = console.log;
+  console.log = () => undefined;
+  try {
+    return await fn();
+  } finally {
+    console.log = original;
+  }
+}
+
+// --- Folds ---
+
+export function splitIntoFolds(
+  events: BacktestEvent[],
+  folds?: number,
+): BacktestEvent[][] {
+  const ordered = [...events].sort((a, b) => a.ts - b.ts);
+  if (ordered.length === 0) return [];
+
+  if (!folds || folds <= 0) {
+    // Por día UTC
+    const byDay = new Map<string, BacktestEvent[]>();
+    for (const event of ordered) {
+      const day = new Date(event.ts).toISOString().slice(0, 10);
+      const bucket = byDay.get(day) ?? [];
+      bucket.push(event);
+      byDay.set(day, bucket);
+    }
+    return [...byDay.values()];
+  }
+
+  // N bloques de duración igual
+  const start = ordered[0].ts;
+  const span = Math.max(ordered[ordered.length - 1].ts - start, 1);
+  const chunks: BacktestEvent[][] = Array.from({ length: folds }, () => []);
+  for (const event of ordered) {
+    const idx = Math.min(Math.floor(((event.ts - start) / span) * folds), folds - 1);
+    chunks[idx].push(event);
+  }
+  return chunks.filter(c => c.length > 0);
+}
+
+function rangeOf(events: BacktestEvent[]): [number, number] {
+  return [events[0]?.ts ?? 0, events[events.length - 1]?.ts ?? 0];
+}
+
+// --- Env block ---
+
+export function buildEnvBlock(params: ExitParams): string {
+  const lines = ['# Exit config (optimizer.ts)'];
+  for (const knob of EXIT_KNOBS) {
+    if (params[knob] !== undefined) {
+      lines.push(`${knob}=${params[knob]}`);
+    }
+  }
+  if (params.COPY_MAX_HOLD_SECONDS !== undefined) {
+    lines.push('COPY_MAX_HOLD_ENABLED=true');
+  }
+  if (hasPartialKnob(params)) {
+    lines.push(`PARTIAL_TP_ENABLED=${buildPartialLevels(params).length > 0}`);
+  }
+  return lines.join('\n');
+}
+
+// --- Optimizador ---
+
+export async function optimizeExitParameters(
+  events: BacktestEvent[],
+  options: OptimizerOptions = {},
+): Promise<OptimizerReport> {
+  const mode = options.mode ?? 'random';
+  const space = options.space ?? DEFAULT_PARAMETER_SPACE;
+  const minTrades = options.minTrades ?? 3;
+  const maxCombos = options.maxCombos ?? 500;
+  const warnings: string[] = [];
+  const random = createRandom(options.seed ?? 42);
+
+  let configs =
+    mode === 'grid'
+      ? gridConfigs(space)
+      : randomConfigs(space, options.samples ?? 100, random);
+
+  if (configs.length > maxCombos) {
+    warnings.push(
+      `Grid has ${configs.length} combinations; truncated to ${maxCombos} (use --mode random or a smaller space)`,
+    );
+    configs = configs.slice(0, maxCombos);
+  }
+
+  // 0. Folds: el último queda fuera de todo (holdout)
+  const folds = splitIntoFolds(events, options.folds);
+  const holdout = folds.length >= 2 ? folds[folds.length - 1] : null;
+  const devFolds = holdout ? folds.slice(0, -1) : folds;
+  const devEvents = devFolds.reduce<BacktestEvent[]>((acc, f) => acc.concat(f), []);
+
+  if (!holdout) {
+    warnings.push(
+      'Only one fold available (single day of data?) - no holdout, recommendation is in-sample only',
+    );
+  } else if (devFolds.length < 2) {
+    warnings.push(
+      'Only two folds available - walk-forward skipped, recommendation chosen in-sample on the first fold',
+    );
+  }
+
+  // 1. Ranking in-sample sobre los folds de desarrollo
+  const rankings: RankedConfig[] = [];
+  for (const params of configs) {
+    rankings.push({ params, metrics: await runConfig(devEvents, params, options) });
+  }
+  rankings.sort((a, b) => compareMetrics(a.metrics, b.metrics, minTrades));
+
+  // 2. Walk-forward sobre los folds de desarrollo (ventana creciente)
+  const walkForward: WalkForwardStep[] = [];
+
+  for (let i = 1; i < devFolds.length; i++) {
+    const train = devFolds.slice(0, i).reduce<BacktestEvent[]>((acc, f) => acc.concat(f), []);
+    const test = devFolds[i];
+
+    let best: RankedConfig | null = null;
+    for (const params of configs) {
+      const metrics = await runConfig(train, params, options);
+      if (!best || compareMetrics(metrics, best.metrics, minTrades) < 0) {
+        best = { params, metrics };
+      }
+    }
+    if (!best) continue;
+
+    walkForward.push({
+      step: i,
+      trainRange: rangeOf(train),
+      testRange: rangeOf(test),
+      best: best.params,
+      train: best.metrics,
+      test: await runConfig(test, best.params, options),
+    });
+  }
+
+  // 3. Recomendación: el ganador de walk-forward con mejor PnL de test
+  //    sumado (o el mejor in-sample si no hubo pasos), medido en el holdout
+  let recommended: OptimizerReport['recommended'] = null;
+  let selected: { params: ExitParams; selectedBy: 'walk_forward' | 'in_sample' } | null =
+    null;
+
+  if (walkForward.length > 0) {
+    const wf = new Map<string, { params: ExitParams; pnl: number }>();
+    for (const step of walkForward) {
+      const key = JSON.stringify(step.best);
+      const entry = wf.get(key) ?? { params: step.best, pnl: 0 };
+      entry.pnl += step.test.totalPnl;
+      wf.set(key, entry);
+    }
+    const winner = [...wf.values()].sort((a, b) => b.pnl - a.pnl)[0];
+    selected = { params: winner.params, selectedBy: 'walk_forward' };
+  } else if (rankings.length > 0) {
+    selected = { params: rankings[0].params, selectedBy: 'in_sample' };
+  }
+
+  if (selected) {
+    recommended = {
+      ...selected,
+      outOfSample: holdout ? await runConfig(holdout, selected.params, options) : null,
+      holdoutRange: holdout ? rangeOf(holdout) : null,
+    };
+  }
+
+  if (recommended && rankings.length > 0) {
+    const top = rankings.find(
+      r => JSON.stringify(r.params) === JSON.stringify(recommended.params),
+    );
+    if (top && top.metrics.trades < minTrades) {
+      warnings.push(
+        `Recommended config only has ${top.metrics.trades} trade(s) (min ${minTrades})`,
+      );
+    }
+  }
+
+  return {
+    mode,
+    configsEvaluated: configs.length,
+    folds: folds.length,
+    rankings,
+    walkForward,
+    recommended,
+    envBlock: recommended ? buildEnvBlock(recommended.params) : '',
+    warnings,
+  };
+}
+
+// --- CLI ---
+
+function readFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function numberFlag(args: string[], name: string): number | undefined {
+  const raw = readFlag(args, name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function formatParams(params: ExitParams): string {
+  return EXIT_KNOBS.filter(k => params[k] !== undefined)
+    .map(k => `${k.replace('COPY_', '').replace('_PERCENT', '%').replace('_SECONDS', 's')}=${params[k]}`)
+    .join(' ');
+}
+
+function formatMetrics(m: RunMetrics): string {
+  const pf = Number.isFinite(m.profitFactor) ? m.profitFactor.toFixed(2) : '∞';
+  return (
+    `PnL ${m.totalPnl >= 0 ? '+' : ''}${m.totalPnl.toFixed(4)} SOL | ` +
+    `PF ${pf} | DD ${m.maxDrawdown.toFixed(4)} | ` +
+    `${m.trades} trades (${m.winRate.toFixed(1)}% win)`
+  );
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const file = args[0];
+  if (!file) {
+    console.log(
+      'Usage: npm run optimize -- <events.jsonl> [--mode grid|random] [--samples 100] [--space space.json] [--folds N] [--min-trades 3] [--seed 42] [--out report.json]',
+    );
+    process.exit(1);
+  }
+
+  // Igual que backtester.ts: filtros de LIVE
+  process.env.DRY_RUN = 'false';
+
+  const spacePath = readFlag(args, '--space');
+  const space = spacePath
+    ? (JSON.parse(await readFile(spacePath, 'utf8')) as ParameterSpace)
+    : undefined;
+
+  const events = await loadBacktestEvents(file);
+  console.log(`📂 Loaded ${events.length} events from ${file}`);
+
+  const report = await optimizeExitParameters(events, {
+    mode: readFlag(args, '--mode') === 'grid' ? 'grid' : 'random',
+    space,
+    samples: numberFlag(args, '--samples'),
+    maxCombos: numberFlag(args, '--max-combos'),
+    folds: numberFlag(args, '--folds'),
+    minTrades: numberFlag(args, '--min-trades'),
+    seed: numberFlag(args, '--seed'),
+    slippagePercent: numberFlag(args, '--slippage'),
+    feeSol: numberFlag(args, '--fee'),
+  });
+
+  console.log('\n🧪 ========== EXIT PARAMETER SWEEP ==========\n');
+  console.log(`Mode: ${report.mode} | Configs: ${report.configsEvaluated} | Folds: ${report.folds}\n`);
+
+  console.log('--- Top 10 (in-sample, holdout excluded) ---');
+  report.rankings.slice(0, 10).forEach((r, idx) => {
+    console.log(`${String(idx + 1).padStart(2)}. ${formatMetrics(r.metrics)}`);
+    console.log(`    ${formatParams(r.params)}`);
+  });
+
+  if (report.walkForward.length > 0) {
+    console.log('\n--- Walk-forward ---');
+    for (const step of report.walkForward) {
+      console.log(
+        `Step ${step.step}: train ${new Date(step.trainRange[0]).toISOString().slice(0, 10)}→` +
+          `${new Date(step.trainRange[1]).toISOString().slice(0, 10)} | ` +
+          `test ${new Date(step.testRange[0]).toISOString().slice(0, 10)}`,
+      );
+      console.log(`   best:  ${formatParams(step.best)}`);
+      console.log(`   train: ${formatMetrics(step.train)}`);
+      console.log(`   test:  ${formatMetrics(step.test)}`);
+    }
+  }
+
+  for (const warning of report.warnings) {
+    console.log(`\n⚠️ ${warning}`);
+  }
+
+  if (report.recommended) {
+    const { outOfSample, holdoutRange, selectedBy } = report.recommended;
+    if (outOfSample && holdoutRange) {
+      console.log(
+        `\n✅ Recommended (${selectedBy.replace('_', '-')}), holdout ` +
+          `${new Date(holdoutRange[0]).toISOString().slice(0, 10)}: ${formatMetrics(outOfSample)}`,
+      );
+    }
+    console.log('\n' + report.envBlock + '\n');
+  }
+
+  const out = readFlag(args, '--out');
+  if (out) {
+    await writeFile(out, JSON.stringify(report, null, 2));
+    console.log(`💾 Report written to ${out}`);
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error: any) => {
+    console.error('❌ Optimizer failed:', error?.message ?? String(error));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,481 @@
+// paperSimulator.ts - Fills realistas para paper trading (TypeScript)
+//
+// En DRY_RUN los executors llenaban al precio cotizado y sin fees. Aquí
+// simulamos lo que pasaría on-chain:
+//   - Curva de Pump.fun exacta (pumpCurve.ts) con price impact
+//   - Fee de protocolo (0.95%) + fee de creador (0.05%), las de pumpCurve.ts
+//   - Priority fee (µlamports × compute units) + fee base de firma en compras
+//   - Latencia: deriva del precio entre la señal y el fill (adversa + ruido)
+//   - Probabilidad de tx fallida (se pierden las fees igualmente)
+//   - Slippage de ruta Jupiter para tokens graduados
+//
+// La fee base de la VENTA la sigue descontando PositionManager.closePosition
+// (ESTIMATED_NETWORK_FEE_SOL), igual que en LIVE.
+
+import { validateSlippage } from './safeNumberUtils.js';
+import {
+  curveFromReserves,
+  quoteBuy,
+  quoteBuyExactTokens,
+  quoteSell,
+  slippageToBps,
+  spotPrice,
+  type BondingCurveState,
+  type PumpFeeConfig,
+} from './pumpCurve.js';
+import {
+  PRIORITY_FEE_MICROLAMPORTS,
+  PUMP_BUY_SLIPPAGE_PCT,
+  PUMP_SELL_SLIPPAGE_PCT,
+  JUPITER_SLIPPAGE_PCT,
+  PAPER_PUMP_PROTOCOL_FEE_PERCENT,
+  PAPER_PUMP_CREATOR_FEE_PERCENT,
+  PAPER_COMPUTE_UNITS,
+  PAPER_BASE_FEE_LAMPORTS,
+  PAPER_LATENCY_MS,
+  PAPER_DRIFT_PERCENT_PER_SEC,
+  PAPER_DRIFT_VOLATILITY_PERCENT,
+  PAPER_FAILED_TX_PROBABILITY,
+  PAPER_JUPITER_ROUTE_SLIPPAGE_PERCENT,
+} from './environment.js';
+
+// --- Tipos públicos ---
+
+export interface PaperMarketState {
+  price?: number | null; // SOL por token
+  virtualSolReserves?: number | null; // en SOL
+  virtualTokenReserves?: number | null;
+  graduated?: boolean;
+}
+
+export interface PaperFees {
+  protocol: number;
+  creator: number;
+  priority: number;
+  network: number;
+  total: number;
+}
+
+export interface PaperFill {
+  success: boolean;
+  venue: 'Pump.fun' | 'Jupiter';
+  side: 'buy' | 'sell';
+  solAmount: number; // buy: SOL debitado (incl. fees) · sell: SOL neto recibido
+  tokensAmount: number;
+  quotedPrice: number;
+  effectivePrice: number;
+  priceImpactPct: number;
+  driftPct: number;
+  routeSlippagePct: number;
+  latencyMs: number;
+  fees: PaperFees;
+  error?: string;
+}
+
+export interface PaperFillOptions {
+  preferJupiter?: boolean; // dex pedido explícitamente ≠ Pump.fun
+  slippage?: number; // tolerancia (fracción); por defecto la del venue en env
+}
+
+export interface PaperSimConfig {
+  protocolFeePercent: number;
+  creatorFeePercent: number;
+  priorityFeeMicroLamports: number;
+  computeUnits: number;
+  baseFeeLamports: number;
+  latencyMs: number;
+  driftPercentPerSec: number;
+  driftVolatilityPercent: number;
+  failedTxProbability: number;
+  jupiterRouteSlippagePercent: number;
+}
+
+export const PAPER_SIM_CONFIG: PaperSimConfig = {
+  protocolFeePercent: PAPER_PUMP_PROTOCOL_FEE_PERCENT,
+  creatorFeePercent: PAPER_PUMP_CREATOR_FEE_PERCENT,
+  priorityFeeMicroLamports: PRIORITY_FEE_MICROLAMPORTS,
+  computeUnits: PAPER_COMPUTE_UNITS,
+  baseFeeLamports: PAPER_BASE_FEE_LAMPORTS,
+  latencyMs: PAPER_LATENCY_MS,
+  driftPercentPerSec: PAPER_DRIFT_PERCENT_PER_SEC,
+  driftVolatilityPercent: PAPER_DRIFT_VOLATILITY_PERCENT,
+  failedTxProbability: PAPER_FAILED_TX_PROBABILITY,
+  jupiterRouteSlippagePercent: PAPER_JUPITER_ROUTE_SLIPPAGE_PERCENT,
+};
+
+// --- Clase principal ---
+
+export class PaperTradeSimulator {
+  private readonly config: PaperSimConfig;
+  private readonly random: () => number;
+
+  constructor(config: Partial<PaperSimConfig> = {}, random: () => number = Math.random) {
+    this.config = { ...PAPER_SIM_CONFIG, ...config };
+    this.random = random;
+  }
+
+  // 🟢 COMPRA: Pump.fun si hay curva activa, si no ruta Jupiter con el precio
+  simulateBuy(
+    market: PaperMarketState,
+    solAmount: number,
+    options: PaperFillOptions = {},
+  ): PaperFill | null {
+    if (!options.preferJupiter && this.hasCurve(market)) {
+      return this.simulatePumpBuy(
+        market,
+        solAmount,
+        validateSlippage(options.slippage ?? PUMP_BUY_SLIPPAGE_PCT),
+      );
+    }
+    if (market.price && market.price > 0) {
+      return this.simulateRouteBuy(
+        market.price,
+        solAmount,
+        validateSlippage(options.slippage ?? JUPITER_SLIPPAGE_PCT),
+      );
+    }
+    return null;
+  }
+
+  // 🔴 VENTA
+  simulateSell(
+    market: PaperMarketState,
+    tokenAmount: number,
+    options: PaperFillOptions = {},
+  ): PaperFill | null {
+    if (!options.preferJupiter && this.hasCurve(market)) {
+      return this.simulatePumpSell(
+        market,
+        tokenAmount,
+        validateSlippage(options.slippage ?? PUMP_SELL_SLIPPAGE_PCT),
+      );
+    }
+    if (market.price && market.price > 0) {
+      return this.simulateRouteSell(
+        market.price,
+        tokenAmount,
+        validateSlippage(options.slippage ?? JUPITER_SLIPPAGE_PCT),
+      );
+    }
+    return null;
+  }
+
+  // Línea de log común para los executors
+  describe(fill: PaperFill): string {
+    const status = fill.success ? '✅' : `❌ ${fill.error}`;
+    return (
+      `${status} ${fill.venue} ${fill.side.toUpperCase()} | ` +
+      `impact ${fill.priceImpactPct.toFixed(2)}% | drift ${fill.driftPct.toFixed(2)}% ` +
+      `(${fill.latencyMs}ms) | fees ${fill.fees.total.toFixed(6)} SOL`
+    );
+  }
+
+  // --- Pump.fun bonding curve ---
+
+  simulatePumpBuy(
+    market: PaperMarketState,
+    solAmount: number,
+    slippageTolerance: number,
+  ): PaperFill {
+    const curve = this.curveOf(market);
+    const quotedPrice = curve ? spotPrice(curve) : 0;
+    const txFees = this.txFees(true);
+
+    const base = this.emptyFill('Pump.fun', 'buy', quotedPrice, txFees);
+    if (!curve) {
+      return { ...base, error: 'no_curve' };
+    }
+    if (this.rollFailure()) {
+      return { ...base, error: 'simulated_tx_failed' };
+    }
+
+    // Igual que el executor: amount = tokens del quote, max_sol_cost con slippage
+    const quote = quoteBuy(
+      curve,
+      BigInt(Math.floor(solAmount * 1e9)),
+      slippageToBps(slippageTolerance),
+      this.pumpFees(),
+    );
+
+    // Precio se mueve EN CONTRA (sube) durante la latencia
+    const { latencyMs, driftPct } = this.sampleDrift();
+    const drifted = this.driftCurve(curve, Math.max(1 + driftPct / 100, 0.01));
+    const fill = drifted
+      ? quoteBuyExactTokens(drifted, quote.tokensOut, 0n, this.pumpFees())
+      : null;
+
+    if (
+      !fill ||
+      fill.tokensOut <= 0n ||
+      fill.tokensOut < quote.tokensOut ||
+      fill.totalCost > quote.maxSolCost
+    ) {
+      return { ...base, latencyMs, driftPct, error: 'slippage_exceeded' };
+    }
+
+    const tokensOut = Number(fill.tokensOut);
+    const totalSpent = Number(fill.totalCost) / 1e9 + txFees.priority + txFees.network;
+    const fees = this.buildFees(
+      Number(fill.protocolFee) / 1e9,
+      Number(fill.creatorFee) / 1e9,
+      txFees,
+    );
+
+    return {
+      success: true,
+      venue: 'Pump.fun',
+      side: 'buy',
+      solAmount: totalSpent,
+      tokensAmount: tokensOut,
+      quotedPrice,
+      effectivePrice: totalSpent / tokensOut,
+      priceImpactPct: fill.priceImpactPct,
+      driftPct,
+      routeSlippagePct: 0,
+      latencyMs,
+      fees,
+    };
+  }
+
+  simulatePumpSell(
+    market: PaperMarketState,
+    tokenAmount: number,
+    slippageTolerance: number,
+  ): PaperFill {
+    const curve = this.curveOf(market);
+    const quotedPrice = curve ? spotPrice(curve) : 0;
+    const txFees = this.txFees(false);
+
+    const base = this.emptyFill('Pump.fun', 'sell', quotedPrice, txFees);
+    if (!curve) {
+      return { ...base, error: 'no_curve' };
+    }
+    if (this.rollFailure()) {
+      return { ...base, error: 'simulated_tx_failed' };
+    }
+
+    const tokensIn = BigInt(Math.floor(tokenAmount));
+    const quote = quoteSell(
+      curve,
+      tokensIn,
+      slippageToBps(slippageTolerance),
+      this.pumpFees(),
+    );
+
+    // En venta la deriva adversa es a la baja
+    const { latencyMs, driftPct } = this.sampleDrift();
+    const drifted = this.driftCurve(curve, Math.max(1 - driftPct / 100, 0.01));
+    const fill = drifted ? quoteSell(drifted, tokensIn, 0n, this.pumpFees()) : null;
+
+    if (!fill || fill.netSol <= 0n || fill.netSol < quote.minSolOutput) {
+      return { ...base, tokensAmount: 0, latencyMs, driftPct, error: 'slippage_exceeded' };
+    }
+
+    const net = Math.max(Number(fill.netSol) / 1e9 - txFees.priority, 0);
+    const fees = this.buildFees(
+      Number(fill.protocolFee) / 1e9,
+      Number(fill.creatorFee) / 1e9,
+      txFees,
+    );
+
+    return {
+      success: true,
+      venue: 'Pump.fun',
+      side: 'sell',
+      solAmount: net,
+      tokensAmount: tokenAmount,
+      quotedPrice,
+      effectivePrice: tokenAmount > 0 ? net / tokenAmount : 0,
+      priceImpactPct: fill.priceImpactPct,
+      driftPct,
+      routeSlippagePct: 0,
+      latencyMs,
+      fees,
+    };
+  }
+
+  // --- Jupiter (tokens graduados) ---
+
+  simulateRouteBuy(price: number, solAmount: number, slippageTolerance: number): PaperFill {
+    const txFees = this.txFees(true);
+    const base = this.emptyFill('Jupiter', 'buy', price, txFees);
+    if (this.rollFailure()) {
+      return { ...base, error: 'simulated_tx_failed' };
+    }
+
+    const { latencyMs, driftPct } = this.sampleDrift();
+    const routeSlippagePct = this.sampleRouteSlippage();
+    const fillPrice = price * Math.max(1 + driftPct / 100, 0.01) * (1 + routeSlippagePct / 100);
+
+    if (fillPrice > price * (1 + slippageTolerance)) {
+      return { ...base, latencyMs, driftPct, routeSlippagePct, error: 'slippage_exceeded' };
+    }
+
+    const tokensOut = Math.floor(solAmount / fillPrice);
+    const totalSpent = solAmount + txFees.priority + txFees.network;
+
+    return {
+      success: tokensOut > 0,
+      venue: 'Jupiter',
+      side: 'buy',
+      solAmount: totalSpent,
+      tokensAmount: tokensOut,
+      quotedPrice: price,
+      effectivePrice: tokensOut > 0 ? totalSpent / tokensOut : 0,
+      priceImpactPct: routeSlippagePct,
+      driftPct,
+      routeSlippagePct,
+      latencyMs,
+      fees: this.buildFees(0, 0, txFees),
+      error: tokensOut > 0 ? undefined : 'zero_output',
+    };
+  }
+
+  simulateRouteSell(price: number, tokenAmount: number, slippageTolerance: number): PaperFill {
+    const txFees = this.txFees(false);
+    const base = this.emptyFill('Jupiter', 'sell', price, txFees);
+    if (this.rollFailure()) {
+      return { ...base, error: 'simulated_tx_failed' };
+    }
+
+    const { latencyMs, driftPct } = this.sampleDrift();
+    const routeSlippagePct = this.sampleRouteSlippage();
+    const fillPrice = price * Math.max(1 - driftPct / 100, 0.01) * (1 - routeSlippagePct / 100);
+
+    if (fillPrice < price * (1 - slippageTolerance)) {
+      return { ...base, latencyMs, driftPct, routeSlippagePct, error: 'slippage_exceeded' };
+    }
+
+    const net = Math.max(tokenAmount * fillPrice - txFees.priority, 0);
+
+    return {
+      success: true,
+      venue: 'Jupiter',
+      side: 'sell',
+      solAmount: net,
+      tokensAmount: tokenAmount,
+      quotedPrice: price,
+      effectivePrice: tokenAmount > 0 ? net / tokenAmount : 0,
+      priceImpactPct: routeSlippagePct,
+      driftPct,
+      routeSlippagePct,
+      latencyMs,
+      fees: this.buildFees(0, 0, txFees),
+    };
+  }
+
+  // --- Helpers ---
+
+  private curveOf(market: PaperMarketState): BondingCurveState | null {
+    return curveFromReserves(
+      Number(market.virtualSolReserves),
+      Number(market.virtualTokenReserves),
+    );
+  }
+
+  // Precio × factor manteniendo k (vSol·vTok) constante
+  private driftCurve(curve: BondingCurveState, factor: number): BondingCurveState | null {
+    const root = Math.sqrt(factor);
+    return curveFromReserves(
+      (Number(curve.virtualSolReserves) / 1e9) * root,
+      Number(curve.virtualTokenReserves) / root,
+    );
+  }
+
+  private pumpFees(): PumpFeeConfig {
+    return {
+      feeBasisPoints: BigInt(Math.round(this.config.protocolFeePercent * 100)),
+      creatorFeeBasisPoints: BigInt(Math.round(this.config.creatorFeePercent * 100)),
+    };
+  }
+
+  private hasCurve(market: PaperMarketState): boolean {
+    return (
+      !market.graduated &&
+      Number(market.virtualSolReserves) > 0 &&
+      Number(market.virtualTokenReserves) > 0
+    );
+  }
+
+  private txFees(includeBaseFee: boolean): { priority: number; network: number } {
+    const priorityLamports =
+      (this.config.priorityFeeMicroLamports * this.config.computeUnits) / 1_000_000;
+    return {
+      priority: priorityLamports / 1e9,
+      network: includeBaseFee ? this.config.baseFeeLamports / 1e9 : 0,
+    };
+  }
+
+  private buildFees(
+    protocol: number,
+    creator: number,
+    txFees: { priority: number; network: number },
+  ): PaperFees {
+    return {
+      protocol,
+      creator,
+      priority: txFees.priority,
+      network: txFees.network,
+      total: protocol + creator + txFees.priority + txFees.network,
+    };
+  }
+
+  // Fill fallido: las fees de la tx se pierden igual que on-chain
+  private emptyFill(
+    venue: PaperFill['venue'],
+    side: PaperFill['side'],
+    quotedPrice: number,
+    txFees: { priority: number; network: number },
+  ): PaperFill {
+    return {
+      success: false,
+      venue,
+      side,
+      solAmount: side === 'buy' ? txFees.priority + txFees.network : 0,
+      tokensAmount: 0,
+      quotedPrice,
+      effectivePrice: 0,
+      priceImpactPct: 0,
+      driftPct: 0,
+      routeSlippagePct: 0,
+      latencyMs: 0,
+      fees: this.buildFees(0, 0, txFees),
+    };
+  }
+
+  private rollFailure(): boolean {
+    return this.random() < this.config.failedTxProbability;
+  }
+
+  // Latencia con jitter (0.5x–1.5x) y deriva adversa + ruido gaussiano
+  private sampleDrift(): { latencyMs: number; driftPct: number } {
+    const latencyMs = Math.round(this.config.latencyMs * (0.5 + this.random()));
+    const seconds = latencyMs / 1000;
+    const driftPct =
+      this.config.driftPercentPerSec * seconds +
+      this.config.driftVolatilityPercent * Math.sqrt(seconds) * this.gaussian();
+    return { latencyMs, driftPct };
+  }
+
+  private sampleRouteSlippage(): number {
+    return this.random() * 2 * this.config.jupiterRouteSlippagePercent;
+  }
+
+  // Box-Muller
+  private gaussian(): number {
+    const u = Math.max(this.random(), 1e-12);
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+// --- SINGLETON ---
+
+let singleton: PaperTradeSimulator | null = null;
+
+export function getPaperSimulator(): PaperTradeSimulator {
+  if (!singleton) {
+    singleton = new PaperTradeSimulator();
+  }
+  return singleton;
+}
@@ -0,0 +1,409 @@
+// paperWallet.ts - Wallet virtual persistente para DRY_RUN (TypeScript)
+//
+// En modo paper no hay saldo real: sin esto las compras simuladas pueden
+// abrir exposición ilimitada. Este módulo guarda en Redis:
+//   - saldo SOL (arranca en PAPER_STARTING_SOL)
+//   - ledger de tokens por mint + coste en SOL
+//   - curva de equity (un snapshot por cada movimiento)
+//
+// Cada cuenta vive bajo paper:<account>:* para poder correr varias
+// configuraciones en paralelo (PAPER_ACCOUNT distinto por proceso).
+
+import { Redis as RedisClass } from 'ioredis';
+import type { Redis as RedisClient } from 'ioredis';
+import {
+  PAPER_ACCOUNT,
+  PAPER_STARTING_SOL,
+  PAPER_EQUITY_HISTORY_MAX,
+} from './environment.js';
+import { redisNamespace } from './profiles.js';
+
+// --- Tipos públicos ---
+
+export interface PaperDebitResult {
+  success: boolean;
+  balanceSol: number;
+  error?: string;
+}
+
+export interface PaperHolding {
+  mint: string;
+  tokens: number;
+  costSol: number;
+  price?: number | null;
+  valueSol?: number;
+}
+
+export interface PaperEquityPoint {
+  ts: number;
+  event: 'init' | 'buy' | 'sell' | 'fees' | 'reset';
+  mint?: string;
+  solBalance: number;
+  investedSol: number;
+  equitySol: number;
+}
+
+export interface PaperWalletSummary {
+  account: string;
+  startingSol: number;
+  solBalance: number;
+  investedSol: number;
+  holdingsValueSol: number;
+  equitySol: number;
+  pnlSol: number;
+  pnlPercent: number;
+  holdings: PaperHolding[];
+  createdAt?: number;
+}
+
+export type PaperPriceLookup = (mint: string) => Promise<number | null>;
+
+// --- Keys Redis ---
+
+const ACCOUNTS_KEY = 'paper:accounts';
+
+function walletKey(account: string): string {
+  return `paper:${account}:wallet`;
+}
+
+function tokensKey(account: string): string {
+  return `paper:${account}:tokens`;
+}
+
+function costKey(account: string): string {
+  return `paper:${account}:cost`;
+}
+
+function equityKey(account: string): string {
+  return `paper:${account}:equity`;
+}
+
+// --- Scripts Lua (check + movimiento atómico) ---
+
+// Crea la wallet si no existe (idempotente)
+const INIT_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  redis.call('HSET', KEYS[1], 'sol', ARGV[1], 'startingSol', ARGV[1], 'createdAt', ARGV[2])
+end
+return redis.call('HGET', KEYS[1], 'sol')
+`;
+
+// KEYS: wallet, tokens, cost | ARGV: costSol, mint, tokens
+const DEBIT_SCRIPT = `
+local sol = tonumber(redis.call('HGET', KEYS[1], 'sol') or '0')
+local cost = tonumber(ARGV[1])
+if sol < cost then
+  return {0, tostring(sol)}
+end
+local newSol = redis.call('HINCRBYFLOAT', KEYS[1], 'sol', -cost)
+if ARGV[2] ~= '' then
+  redis.call('HINCRBYFLOAT', KEYS[2], ARGV[2], ARGV[3])
+  redis.call('HINCRBYFLOAT', KEYS[3], ARGV[2], ARGV[1])
+end
+return {1, newSol}
+`;
+
+// KEYS: wallet, tokens, cost | ARGV: solReceived, mint, tokensSold
+// El coste se libera en proporción a los tokens vendidos.
+const CREDIT_SCRIPT = `
+local newSol = redis.call('HINCRBYFLOAT', KEYS[1], 'sol', ARGV[1])
+local held = tonumber(redis.call('HGET', KEYS[2], ARGV[2]) or '0')
+if held > 0 then
+  local sold = tonumber(ARGV[3])
+  local cost = tonumber(redis.call('HGET', KEYS[3], ARGV[2]) or '0')
+  if sold >= held then
+    redis.call('HDEL', KEYS[2], ARGV[2])
+    redis.call('HDEL', KEYS[3], ARGV[2])
+  else
+    redis.call('HINCRBYFLOAT', KEYS[2], ARGV[2], -sold)
+    redis.call('HINCRBYFLOAT', KEYS[3], ARGV[2], -(cost * sold / held))
+  end
+end
+return newSol
+`;
+
+// --- Clase principal ---
+
+export class PaperWallet {
+  private readonly redis: RedisClient;
+  readonly account: string;
+
+  constructor(redis?: RedisClient, account: string = PAPER_ACCOUNT) {
+    this.redis =
+      redis ??
+      new RedisClass(process.env.REDIS_URL as string, {
+        maxRetriesPerRequest: null,
+      });
+    this.account = account;
+  }
+
+  // 💰 SALDO
+
+  async ensureInitialized(
+    startingSol: number = PAPER_STARTING_SOL,
+  ): Promise<number> {
+    const existed = await this.redis.exists(walletKey(this.account));
+    const sol = (await this.redis.eval(
+      INIT_SCRIPT,
+      1,
+      walletKey(this.account),
+      String(startingSol),
+      String(Date.now()),
+    )) as string;
+
+    if (!existed) {
+      await this.redis.sadd(ACCOUNTS_KEY, this.account);
+      await this.recordEquity('init');
+      console.log(
+        `📄 Paper wallet "${this.account}" created with ${startingSol} SOL`,
+      );
+    }
+
+    return Number(sol);
+  }
+
+  async getBalance(): Promise<number> {
+    return this.ensureInitialized();
+  }
+
+  // 🟢 COMPRA: descuenta SOL (con fees) y suma tokens al ledger
+
+  async debitBuy(
+    mint: string,
+    costSol: number,
+    tokens: number,
+  ): Promise<PaperDebitResult> {
+    return this.debit(costSol, mint, tokens, 'buy');
+  }
+
+  // Tx fallida: se pagan las fees igualmente, sin tokens
+  async chargeFees(feesSol: number): Promise<PaperDebitResult> {
+    return this.debit(feesSol, '', 0, 'fees');
+  }
+
+  // 🔴 VENTA: suma SOL recibido y libera tokens del ledger
+
+  async creditSell(
+    mint: string,
+    solReceived: number,
+    tokensSold: number,
+  ): Promise<number> {
+    await this.ensureInitialized();
+
+    const newSol = (await this.redis.eval(
+      CREDIT_SCRIPT,
+      3,
+      walletKey(this.account),
+      tokensKey(this.account),
+      costKey(this.account),
+      String(Math.max(solReceived, 0)),
+      mint,
+      String(Math.max(tokensSold, 0)),
+    )) as string;
+
+    await this.recordEquity('sell', mint);
+    return Number(newSol);
+  }
+
+  // 📊 ESTADO
+
+  async getHoldings(): Promise<PaperHolding[]> {
+    const [tokens, costs] = await Promise.all([
+      this.redis.hgetall(tokensKey(this.account)),
+      this.redis.hgetall(costKey(this.account)),
+    ]);
+
+    return Object.entries(tokens ?? {})
+      .map(([mint, amount]) => ({
+        mint,
+        tokens: Number(amount),
+        costSol: Number(costs?.[mint] ?? '0'),
+      }))
+      .filter(h => h.tokens > 0);
+  }
+
+  /**
+   * Resumen de la cuenta. Con priceLookup valora los tokens a mercado;
+   * sin él (o si no hay precio) se usan a coste.
+   */
+  async getSummary(priceLookup?: PaperPriceLookup): Promise<PaperWalletSummary> {
+    const solBalance = await this.ensureInitialized();
+    const raw = (await this.redis.hgetall(walletKey(this.account))) as Record<
+      string,
+      string
+    >;
+    const startingSol = Number(raw.startingSol ?? PAPER_STARTING_SOL);
+
+    const holdings = await this.getHoldings();
+    let investedSol = 0;
+    let holdingsValueSol = 0;
+
+    for (const holding of holdings) {
+      investedSol += holding.costSol;
+
+      let price: number | null = null;
+      if (priceLookup) {
+        try {
+          price = await priceLookup(holding.mint);
+        } catch {
+          price = null;
+        }
+      }
+
+      holding.price = price;
+      holding.valueSol =
+        price && price > 0 ? price * holding.tokens : holding.costSol;
+      holdingsValueSol += holding.valueSol;
+    }
+
+    const equitySol = solBalance + holdingsValueSol;
+    const pnlSol = equitySol - startingSol;
+
+    return {
+      account: this.account,
+      startingSol,
+      solBalance,
+      investedSol,
+      holdingsValueSol,
+      equitySol,
+      pnlSol,
+      pnlPercent: startingSol > 0 ? (pnlSol / startingSol) * 100 : 0,
+      holdings,
+      createdAt: raw.createdAt ? Number(raw.createdAt) : undefined,
+    };
+  }
+
+  async getEquityHistory(limit = 100): Promise<PaperEquityPoint[]> {
+    const count = Math.max(1, Math.trunc(limit));
+    const rows = await this.redis.lrange(equityKey(this.account), -count, -1);
+    return rows
+      .map(row => {
+        try {
+          return JSON.parse(row) as PaperEquityPoint;
+        } catch {
+          return null;
+        }
+      })
+      .filter((p): p is PaperEquityPoint => p !== null);
+  }
+
+  // ♻️ RESET (borra ledger y curva)
+
+  async reset(startingSol: number = PAPER_STARTING_SOL): Promise<number> {
+    await this.redis.del(
+      walletKey(this.account),
+      tokensKey(this.account),
+      costKey(this.account),
+      equityKey(this.account),
+    );
+    await this.redis.eval(
+      INIT_SCRIPT,
+      1,
+      walletKey(this.account),
+      String(startingSol),
+      String(Date.now()),
+    );
+    await this.redis.sadd(ACCOUNTS_KEY, this.account);
+    await this.recordEquity('reset');
+    return startingSol;
+  }
+
+  // --- Internos ---
+
+  private async debit(
+    costSol: number,
+    mint: string,
+    tokens: number,
+    event: 'buy' | 'fees',
+  ): Promise<PaperDebitResult> {
+    await this.ensureInitialized();
+
+    const cost = Math.max(costSol, 0);
+    const [ok, balance] = (await this.redis.eval(
+      DEBIT_SCRIPT,
+      3,
+      walletKey(this.account),
+      tokensKey(this.account),
+      costKey(this.account),
+      String(cost),
+      mint,
+      String(Math.max(tokens, 0)),
+    )) as [number, string];
+
+    const balanceSol = Number(balance);
+
+    if (ok !== 1) {
+      return {
+        success: false,
+        balanceSol,
+        error: `Insufficient paper balance: ${balanceSol.toFixed(
+          4,
+        )} SOL (need ${cost.toFixed(4)} SOL)`,
+      };
+    }
+
+    await this.recordEquity(event, mint || undefined);
+    return { success: true, balanceSol };
+  }
+
+  // Snapshot a coste (sin precios): saldo + SOL invertido en tokens
+  private async recordEquity(
+    event: PaperEquityPoint['event'],
+    mint?: string,
+  ): Promise<void> {
+    try {
+      const [sol, costs] = await Promise.all([
+        this.redis.hget(walletKey(this.account), 'sol'),
+        this.redis.hvals(costKey(this.account)),
+      ]);
+      const solBalance = Number(sol ?? '0');
+      const investedSol = (costs ?? []).reduce(
+        (acc, v) => acc + (Number(v) || 0),
+        0,
+      );
+
+      const point: PaperEquityPoint = {
+        ts: Date.now(),
+        event,
+        mint,
+        solBalance,
+        investedSol,
+        equitySol: solBalance + investedSol,
+      };
+
+      const key = equityKey(this.account);
+      await this.redis.rpush(key, JSON.stringify(point));
+      await this.redis.ltrim(key, -Math.max(PAPER_EQUITY_HISTORY_MAX, 1), -1);
+    } catch (error: any) {
+      console.log(
+        '⚠️ Paper equity snapshot failed:',
+        error?.message ?? String(error),
+      );
+    }
+  }
+}
+
+export async function listPaperAccounts(
+  redis: RedisClient,
+): Promise<string[]> {
+  const accounts = await redis.smembers(ACCOUNTS_KEY);
+  return accounts.sort();
+}
+
+// --- SINGLETON (uno por cuenta y namespace Redis / perfil) ---
+
+const wallets = new Map<string, PaperWallet>();
+
+export function getPaperWallet(
+  redis?: RedisClient,
+  account: string = PAPER_ACCOUNT,
+): PaperWallet {
+  const id = (account ?? '').trim().toLowerCase() || PAPER_ACCOUNT;
+  const cacheKey = `${redisNamespace(redis)}${id}`;
+  let wallet = wallets.get(cacheKey);
+  if (!wallet) {
+    wallet = new PaperWallet(redis, id);
+    wallets.set(cacheKey, wallet);
+  }
+  return wallet;
+}
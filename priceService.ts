@@ -6,9 +6,13 @@ import fetch, { Response } from 'node-fetch';
 import {
   safeParseNumber,
   validateBondingCurveData,
-  safeDivide,
 } from './safeNumberUtils.js';
 import { getRateLimiter } from './rpcRateLimiter.js';
+import {
+  decodeBondingCurve,
+  spotPrice,
+  curveProgressPercent,
+} from './pumpCurve.js';
 
 // --- TIPOS PÚBLICOS ---
 
@@ -18,6 +22,7 @@ export interface PriceData {
   virtualTokenReserves?: number | null;
   realSolReserves?: number | null;      // en SOL
   realTokenReserves?: number | null;
+  curveProgressPercent?: number | null; // 0-100 hacia la graduación
   graduated: boolean;
   timestamp: number;
   source: string;
@@ -57,6 +62,7 @@ interface PumpPriceResult {
   virtualTokenReserves?: number;
   realSolReserves?: number;
   realTokenReserves?: number;
+  curveProgressPercent?: number;
   graduated: boolean;
   timestamp?: number;
   source?: string;
@@ -173,39 +179,30 @@ export class PriceService {
         };
       }
 
-      const data = accountInfo.data;
-      if (data.length < 49) {
+      // Layout de la curva en pumpCurve.ts (misma matemática que los executors)
+      const curve = decodeBondingCurve(accountInfo.data);
+      if (!curve) {
         return {
           graduated: false,
           reason: 'INVALID_DATA_LENGTH',
         };
       }
 
-      // Layout conocido de Pump.fun
-      const virtualTokenReserves = data.readBigUInt64LE(8);   // u64
-      const virtualSolReserves = data.readBigUInt64LE(16);    // u64
-      const realTokenReserves = data.readBigUInt64LE(24);     // u64
-      const realSolReserves = data.readBigUInt64LE(32);       // u64
-      const complete = data.readUInt8(48) === 1;              // u8 bool
-
-      if (!validateBondingCurveData(virtualSolReserves, virtualTokenReserves)) {
+      if (!validateBondingCurveData(curve.virtualSolReserves, curve.virtualTokenReserves)) {
         return {
-          graduated: complete,
+          graduated: curve.complete,
           reason: 'INVALID_RESERVES',
         };
       }
 
-      if (complete) {
+      if (curve.complete) {
         return {
           graduated: true,
           reason: 'BONDING_COMPLETE',
         };
       }
 
-      const vSol = Number(virtualSolReserves);
-      const vTok = Number(virtualTokenReserves);
-      const lamportsPerToken = safeDivide(vSol, vTok, 0);
-      const priceInSol = lamportsPerToken / 1e9; // SOL por token
+      const priceInSol = spotPrice(curve); // SOL por token
 
       if (priceInSol <= 0 || !Number.isFinite(priceInSol)) {
         return {
@@ -216,10 +213,11 @@ export class PriceService {
 
       return {
         price: priceInSol,
-        virtualSolReserves: vSol / 1e9,
-        virtualTokenReserves: vTok,
-        realSolReserves: Number(realSolReserves) / 1e9,
-        realTokenReserves: Number(realTokenReserves),
+        virtualSolReserves: Number(curve.virtualSolReserves) / 1e9,
+        virtualTokenReserves: Number(curve.virtualTokenReserves),
+        realSolReserves: Number(curve.realSolReserves) / 1e9,
+        realTokenReserves: Number(curve.realTokenReserves),
+        curveProgressPercent: curveProgressPercent(curve),
         graduated: false,
         timestamp: Date.now(),
         source: 'PUMP_FUN',
@@ -419,6 +417,7 @@ export class PriceService {
         virtualTokenReserves: pump.virtualTokenReserves ?? null,
         realSolReserves: pump.realSolReserves ?? null,
         realTokenReserves: pump.realTokenReserves ?? null,
+        curveProgressPercent: pump.curveProgressPercent ?? null,
         graduated: false,
         timestamp: pump.timestamp ?? now,
         source: pump.source ?? 'PUMP_FUN',
@@ -0,0 +1,410 @@
+// priorityFees.ts - Oracle de priority fees + ajuste de compute units
+//
+// En vez de PRIORITY_FEE_MICROLAMPORTS fijo y CU 300k/400k hard-coded:
+//   1. getRecentPrioritizationFees sobre las cuentas que escribe la tx
+//      (bonding curve, mint) → percentil según urgencia
+//   2. simulateTransaction con CU máximo → unitsConsumed + margen
+//   3. Topes: PRIORITY_FEE_MAX_SOL_PER_TRADE (baja el precio por CU) y
+//      PRIORITY_FEE_MAX_SOL_PER_DAY (pasado el tope, fee mínima salvo en
+//      'urgent': stop-loss / rug no se quedan sin aterrizar por el tope)
+//
+// El gasto diario vive en priority_fees:<YYYY-MM-DD> (namespace global: es la
+// factura de todo el bot, no de un perfil).
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { Redis as RedisClass } from 'ioredis';
+import type { Redis as RedisClient } from 'ioredis';
+import {
+  PRIORITY_FEE_MICROLAMPORTS,
+  PRIORITY_FEE_DYNAMIC,
+  PRIORITY_FEE_MIN_MICROLAMPORTS,
+  PRIORITY_FEE_MAX_MICROLAMPORTS,
+  PRIORITY_FEE_PERCENTILE_LOW,
+  PRIORITY_FEE_PERCENTILE_NORMAL,
+  PRIORITY_FEE_PERCENTILE_HIGH,
+  PRIORITY_FEE_PERCENTILE_URGENT,
+  COMPUTE_UNIT_SIMULATE,
+  COMPUTE_UNIT_MARGIN_PERCENT,
+  PRIORITY_FEE_MAX_SOL_PER_TRADE,
+  PRIORITY_FEE_MAX_SOL_PER_DAY,
+} from './environment.js';
+import { getRateLimiter } from './rpcRateLimiter.js';
+import type { LandingResult } from './txLanding.js';
+
+// --- Tipos públicos ---
+
+export type FeeUrgency = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface FeePlan {
+  urgency: FeeUrgency;
+  microLamports: number; // precio por CU
+  computeUnits: number; // CU limit
+  priorityFeeLamports: number; // microLamports * CU / 1e6
+  percentile: number;
+  samples: number; // slots con datos
+  simulated: boolean; // CU sacado de simulación
+  capped?: 'trade' | 'daily';
+  source: 'oracle' | 'static';
+}
+
+export interface FeePlanInput {
+  urgency?: FeeUrgency;
+  writableAccounts: PublicKey[];
+  // Para simular el CU (sin ComputeBudget, se añaden aquí)
+  instructions?: TransactionInstruction[];
+  payer?: PublicKey;
+  defaultComputeUnits: number;
+  connection?: Connection; // la del executor (si no, RPC_URL)
+}
+
+export interface PriorityFeeDailySpend {
+  date: string;
+  lamports: number;
+  sol: number;
+  trades: number;
+  capSol: number;
+  capReached: boolean;
+}
+
+// --- Constantes ---
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+const MIN_COMPUTE_UNITS = 20_000;
+const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5_000;
+const DAILY_KEY_TTL_SECONDS = 3 * 24 * 3600;
+
+// Cualquier blockhash vale: simulateTransaction lo reemplaza
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+const PERCENTILES: Record<FeeUrgency, number> = {
+  low: PRIORITY_FEE_PERCENTILE_LOW,
+  normal: PRIORITY_FEE_PERCENTILE_NORMAL,
+  high: PRIORITY_FEE_PERCENTILE_HIGH,
+  urgent: PRIORITY_FEE_PERCENTILE_URGENT,
+};
+
+// --- Helpers ---
+
+function dailyKey(date = new Date()): string {
+  return `priority_fees:${date.toISOString().slice(0, 10)}`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+export function percentileOf(values: number[], percentile: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (clamp(percentile, 0, 100) / 100) * (sorted.length - 1);
+  return sorted[Math.round(rank)];
+}
+
+export function priorityFeeLamports(
+  microLamports: number,
+  computeUnits: number,
+): number {
+  return Math.ceil((microLamports * computeUnits) / 1_000_000);
+}
+
+// Urgencia de una venta según el motivo de salida (copyMonitor reasonMap)
+export function exitUrgency(reason?: string | null): FeeUrgency {
+  const r = (reason ?? '').toLowerCase();
+  if (/stop_loss|rug|dev_sold|force_exit|kill/.test(r)) return 'urgent';
+  if (/partial/.test(r)) return 'low';
+  return 'normal';
+}
+
+export function computeBudgetInstructions(
+  plan: FeePlan,
+): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: plan.computeUnits }),
+    ComputeBudgetProgram.setComputeUnitPrice({
+      microLamports: plan.microLamports,
+    }),
+  ];
+}
+
+// --- Clase principal ---
+
+export class PriorityFeeOracle {
+  private readonly connection: Connection;
+  private readonly redis: RedisClient;
+  private readonly limiter = getRateLimiter();
+
+  constructor(redis?: RedisClient, connection?: Connection) {
+    this.redis =
+      redis ??
+      new RedisClass(process.env.REDIS_URL as string, {
+        maxRetriesPerRequest: null,
+      });
+    this.connection =
+      connection ?? new Connection(process.env.RPC_URL as string, 'confirmed');
+
+    console.log('⛽ Priority Fee Oracle initialized');
+    console.log(
+      `   ${PRIORITY_FEE_DYNAMIC ? 'Dynamic' : 'Static'} | ` +
+        `${PRIORITY_FEE_MIN_MICROLAMPORTS}-${PRIORITY_FEE_MAX_MICROLAMPORTS} µlamports | ` +
+        `Max ${PRIORITY_FEE_MAX_SOL_PER_TRADE} SOL/trade, ${PRIORITY_FEE_MAX_SOL_PER_DAY} SOL/day`,
+    );
+  }
+
+  /**
+   * Plan completo: precio por CU (percentil) + CU limit (simulado) + topes.
+   * Nunca lanza: ante cualquier fallo vuelve a la config estática.
+   */
+  async plan(input: FeePlanInput): Promise<FeePlan> {
+    const urgency = input.urgency ?? 'normal';
+    const percentile = PERCENTILES[urgency];
+
+    if (!PRIORITY_FEE_DYNAMIC) {
+      return this.finish({
+        urgency,
+        microLamports: PRIORITY_FEE_MICROLAMPORTS,
+        computeUnits: input.defaultComputeUnits,
+        percentile,
+        samples: 0,
+        simulated: false,
+        source: 'static',
+      });
+    }
+
+    const connection = input.connection ?? this.connection;
+    const [rate, units] = await Promise.all([
+      this.getFeeRate(input.writableAccounts, percentile, connection),
+      input.instructions && input.payer && COMPUTE_UNIT_SIMULATE
+        ? this.estimateComputeUnits(
+            input.instructions,
+            input.payer,
+            input.defaultComputeUnits,
+            connection,
+          )
+        : Promise.resolve({ units: input.defaultComputeUnits, simulated: false }),
+    ]);
+
+    return this.finish({
+      urgency,
+      microLamports: rate.microLamports,
+      computeUnits: units.units,
+      percentile,
+      samples: rate.samples,
+      simulated: units.simulated,
+      source: rate.samples > 0 ? 'oracle' : 'static',
+    });
+  }
+
+  // Percentil de las fees recientes que pagaron las txs sobre esas cuentas
+  async getFeeRate(
+    writableAccounts: PublicKey[],
+    percentile: number,
+    connection: Connection = this.connection,
+  ): Promise<{ microLamports: number; samples: number }> {
+    const fallback = {
+      microLamports: clamp(
+        PRIORITY_FEE_MICROLAMPORTS,
+        PRIORITY_FEE_MIN_MICROLAMPORTS,
+        PRIORITY_FEE_MAX_MICROLAMPORTS,
+      ),
+      samples: 0,
+    };
+
+    try {
+      const keys = writableAccounts.map(k => k.toBase58());
+      const recent = await this.limiter.request(
+        () =>
+          connection.getRecentPrioritizationFees({
+            lockedWritableAccounts: writableAccounts,
+          }),
+        'high',
+        `prio-fees:${keys.join(',')}`,
+      );
+
+      const fees = (recent ?? []).map(f => f.prioritizationFee);
+      if (fees.length === 0) return fallback;
+
+      return {
+        microLamports: clamp(
+          Math.ceil(percentileOf(fees, percentile)),
+          PRIORITY_FEE_MIN_MICROLAMPORTS,
+          PRIORITY_FEE_MAX_MICROLAMPORTS,
+        ),
+        samples: fees.length,
+      };
+    } catch (error: any) {
+      console.log(
+        '⚠️ Priority fee sampling failed:',
+        error?.message ?? String(error),
+      );
+      return fallback;
+    }
+  }
+
+  // CU consumido en simulación + margen (si la simulación falla, el default)
+  async estimateComputeUnits(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    defaultUnits: number,
+    connection: Connection = this.connection,
+  ): Promise<{ units: number; simulated: boolean }> {
+    try {
+      const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: PLACEHOLDER_BLOCKHASH,
+        instructions: [
+          ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+          ...instructions,
+        ],
+      }).compileToV0Message();
+
+      const simulation = await this.limiter.request(
+        () =>
+          connection.simulateTransaction(new VersionedTransaction(message), {
+            replaceRecentBlockhash: true,
+            sigVerify: false,
+          }),
+        'high',
+      );
+
+      const consumed = simulation.value.unitsConsumed;
+      if (simulation.value.err || !consumed) {
+        return { units: defaultUnits, simulated: false };
+      }
+
+      const withMargin = Math.ceil(
+        consumed * (1 + Math.max(COMPUTE_UNIT_MARGIN_PERCENT, 0) / 100),
+      );
+      return {
+        units: clamp(withMargin, MIN_COMPUTE_UNITS, MAX_COMPUTE_UNITS),
+        simulated: true,
+      };
+    } catch (error: any) {
+      console.log(
+        '⚠️ Compute unit simulation failed:',
+        error?.message ?? String(error),
+      );
+      return { units: defaultUnits, simulated: false };
+    }
+  }
+
+  // Gasto real de priority fee tras aterrizar (fee total - fee base)
+  async recordSpend(
+    plan: FeePlan,
+    landing?: Pick<LandingResult, 'status' | 'feeLamports'> | null,
+    signatures = 1,
+  ): Promise<void> {
+    // 'pending' cuenta: puede aterrizar después del timeout
+    if (
+      landing &&
+      landing.status !== 'confirmed' &&
+      landing.status !== 'failed' &&
+      landing.status !== 'pending'
+    ) {
+      return; // nunca aterrizó: no se pagó nada
+    }
+
+    const lamports =
+      typeof landing?.feeLamports === 'number'
+        ? Math.max(
+            landing.feeLamports - BASE_FEE_LAMPORTS_PER_SIGNATURE * signatures,
+            0,
+          )
+        : plan.priorityFeeLamports;
+
+    try {
+      const key = dailyKey();
+      await this.redis
+        .multi()
+        .hincrby(key, 'lamports', lamports)
+        .hincrby(key, 'trades', 1)
+        .expire(key, DAILY_KEY_TTL_SECONDS)
+        .exec();
+    } catch (error: any) {
+      console.log(
+        '⚠️ Could not record priority fee spend:',
+        error?.message ?? String(error),
+      );
+    }
+  }
+
+  async getDailySpend(): Promise<PriorityFeeDailySpend> {
+    const date = new Date().toISOString().slice(0, 10);
+    let lamports = 0;
+    let trades = 0;
+    try {
+      const raw = await this.redis.hgetall(dailyKey());
+      lamports = Number(raw?.lamports ?? 0) || 0;
+      trades = Number(raw?.trades ?? 0) || 0;
+    } catch {
+      // sin Redis no aplicamos tope diario
+    }
+
+    const sol = lamports / 1e9;
+    return {
+      date,
+      lamports,
+      sol,
+      trades,
+      capSol: PRIORITY_FEE_MAX_SOL_PER_DAY,
+      capReached:
+        PRIORITY_FEE_MAX_SOL_PER_DAY > 0 && sol >= PRIORITY_FEE_MAX_SOL_PER_DAY,
+    };
+  }
+
+  // Topes por trade y por día (las salidas 'urgent' solo con el de trade)
+  private async finish(
+    plan: Omit<FeePlan, 'priorityFeeLamports'>,
+  ): Promise<FeePlan> {
+    let { microLamports } = plan;
+    let capped: FeePlan['capped'];
+
+    const daily =
+      plan.urgency === 'urgent' ? null : await this.getDailySpend();
+    if (daily?.capReached) {
+      microLamports = Math.min(microLamports, PRIORITY_FEE_MIN_MICROLAMPORTS);
+      capped = 'daily';
+    } else if (PRIORITY_FEE_MAX_SOL_PER_TRADE > 0) {
+      const maxLamports = Math.floor(PRIORITY_FEE_MAX_SOL_PER_TRADE * 1e9);
+      const maxPrice = Math.floor((maxLamports * 1_000_000) / plan.computeUnits);
+      if (microLamports > maxPrice) {
+        microLamports = Math.max(maxPrice, 0);
+        capped = 'trade';
+      }
+    }
+
+    return {
+      ...plan,
+      microLamports,
+      capped,
+      priorityFeeLamports: priorityFeeLamports(microLamports, plan.computeUnits),
+    };
+  }
+}
+
+// Línea de log estándar para los executors
+export function formatFeePlan(plan: FeePlan): string {
+  return (
+    `${plan.microLamports} µlamports × ${plan.computeUnits.toLocaleString('en-US')} CU` +
+    ` = ${(plan.priorityFeeLamports / 1e9).toFixed(6)} SOL` +
+    ` (${plan.urgency} p${plan.percentile}` +
+    `${plan.simulated ? ', simulated' : ''}${plan.capped ? `, ${plan.capped} cap` : ''})`
+  );
+}
+
+// --- SINGLETON ---
+
+let singleton: PriorityFeeOracle | null = null;
+
+export function getPriorityFeeOracle(): PriorityFeeOracle {
+  if (!singleton) {
+    singleton = new PriorityFeeOracle();
+  }
+  return singleton;
+}
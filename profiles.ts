@@ -0,0 +1,234 @@
+// profiles.ts - Perfiles de trading aislados (TypeScript)
+//
+// Un perfil = keypair + lista de wallets + parámetros de estrategia +
+// namespace Redis propio. Permite correr, p. ej., un copy agresivo y uno
+// conservador (o paper y live) desde el mismo worker.
+//
+// Config por env:
+//   TRADING_PROFILES=aggressive,conservative
+//   DEFAULT_PROFILE=conservative            (si no, el primero de la lista)
+//   PROFILE_<ID>_PRIVATE_KEY, PROFILE_<ID>_DRY_RUN, PROFILE_<ID>_AUTO_TRADING,
+//   PROFILE_<ID>_POSITION_SIZE_SOL, PROFILE_<ID>_MIN_WALLETS_TO_BUY,
+//   PROFILE_<ID>_MIN_WALLETS_TO_SELL, PROFILE_<ID>_TAKE_PROFIT_PERCENT,
+//   PROFILE_<ID>_STOP_LOSS_PERCENT, PROFILE_<ID>_TRAILING_STOP_PERCENT,
+//   PROFILE_<ID>_MAX_HOLD_SECONDS, PROFILE_<ID>_CONSENSUS_WINDOW_SECONDS,
+//   PROFILE_<ID>_MIN_CONSENSUS_SCORE, PROFILE_<ID>_LABEL,
+//   PROFILE_<ID>_REDIS_PREFIX
+// Lo que no se define hereda la config global de environment.ts.
+//
+// El namespace usa keyPrefix de ioredis: todas las keys existentes
+// (open_positions, position:<mint>, copy_signals, tracked_wallets, risk:*...)
+// quedan aisladas sin tocar los módulos. El perfil "default" no lleva
+// prefijo, así que un despliegue sin TRADING_PROFILES sigue igual.
+//
+// El sniper (snipeNewTokens.ts) no es por perfil: usa la config global y el
+// namespace sin prefijo (el del perfil "default").
+
+import { Redis as RedisClass } from 'ioredis';
+import type { Redis as RedisClient } from 'ioredis';
+import {
+  parseBooleanEnv,
+  parseNumberEnv,
+  parseIntegerEnv,
+  isDryRunEnabled,
+  ENABLE_AUTO_TRADING,
+  POSITION_SIZE_SOL,
+  COPY_MIN_WALLETS_TO_BUY,
+  COPY_MIN_WALLETS_TO_SELL,
+  COPY_PROFIT_TARGET_PERCENT,
+  COPY_STOP_LOSS_PERCENT,
+  TRAILING_STOP_PERCENT,
+  COPY_MAX_HOLD_SECONDS,
+  CONSENSUS_WINDOW_SECONDS,
+  CONSENSUS_MIN_SCORE,
+  TRADING_PROFILES,
+  DEFAULT_PROFILE,
+} from './environment.js';
+
+// --- Tipos públicos ---
+
+export interface TradingProfile {
+  id: string;
+  label: string;
+  privateKey: string;
+  dryRun: boolean;
+  autoTrading: boolean;
+  redisPrefix: string;
+  positionSizeSol: number;
+  minWalletsToBuy: number;
+  minWalletsToSell: number;
+  takeProfitPercent: number;
+  stopLossPercent: number;
+  trailingStopPercent: number;
+  maxHoldSeconds: number;
+  consensusWindowSeconds: number;
+  minConsensusScore: number;
+}
+
+// Vista sin secretos (API / Telegram)
+export type PublicTradingProfile = Omit<TradingProfile, 'privateKey'> & {
+  isDefault: boolean;
+  hasPrivateKey: boolean;
+};
+
+const DEFAULT_PROFILE_ID = 'default';
+const PROFILE_ID_PATTERN = /^[a-z0-9_-]+$/;
+
+// --- Carga desde env ---
+
+function envKey(id: string, name: string): string {
+  return `PROFILE_${id.toUpperCase().replace(/-/g, '_')}_${name}`;
+}
+
+function buildProfile(id: string): TradingProfile {
+  const env = (name: string) => process.env[envKey(id, name)];
+
+  const prefixEnv = env('REDIS_PREFIX');
+  const redisPrefix =
+    prefixEnv !== undefined
+      ? prefixEnv.trim()
+      : id === DEFAULT_PROFILE_ID
+        ? ''
+        : `profile:${id}:`;
+
+  return {
+    id,
+    label: env('LABEL')?.trim() || id,
+    privateKey: env('PRIVATE_KEY')?.trim() || process.env.PRIVATE_KEY || '',
+    dryRun: parseBooleanEnv(env('DRY_RUN'), isDryRunEnabled()),
+    autoTrading: parseBooleanEnv(env('AUTO_TRADING'), ENABLE_AUTO_TRADING),
+    redisPrefix,
+    positionSizeSol: parseNumberEnv(
+      env('POSITION_SIZE_SOL'),
+      POSITION_SIZE_SOL,
+    ),
+    minWalletsToBuy: parseIntegerEnv(
+      env('MIN_WALLETS_TO_BUY'),
+      COPY_MIN_WALLETS_TO_BUY,
+    ),
+    minWalletsToSell: parseIntegerEnv(
+      env('MIN_WALLETS_TO_SELL'),
+      COPY_MIN_WALLETS_TO_SELL,
+    ),
+    takeProfitPercent: parseNumberEnv(
+      env('TAKE_PROFIT_PERCENT'),
+      COPY_PROFIT_TARGET_PERCENT,
+    ),
+    stopLossPercent: parseNumberEnv(
+      env('STOP_LOSS_PERCENT'),
+      COPY_STOP_LOSS_PERCENT,
+    ),
+    trailingStopPercent: parseNumberEnv(
+      env('TRAILING_STOP_PERCENT'),
+      TRAILING_STOP_PERCENT,
+    ),
+    maxHoldSeconds: parseIntegerEnv(
+      env('MAX_HOLD_SECONDS'),
+      COPY_MAX_HOLD_SECONDS,
+    ),
+    consensusWindowSeconds: parseIntegerEnv(
+      env('CONSENSUS_WINDOW_SECONDS'),
+      CONSENSUS_WINDOW_SECONDS,
+    ),
+    minConsensusScore: parseNumberEnv(
+      env('MIN_CONSENSUS_SCORE'),
+      CONSENSUS_MIN_SCORE,
+    ),
+  };
+}
+
+function loadProfiles(): TradingProfile[] {
+  const ids = TRADING_PROFILES.length > 0 ? TRADING_PROFILES : [DEFAULT_PROFILE_ID];
+  const profiles: TradingProfile[] = [];
+  const prefixes = new Set<string>();
+
+  for (const id of ids) {
+    if (!PROFILE_ID_PATTERN.test(id)) {
+      console.log(`⚠️ Invalid profile id "${id}" (use a-z, 0-9, _ or -), skipped`);
+      continue;
+    }
+    if (profiles.some(p => p.id === id)) continue;
+
+    const profile = buildProfile(id);
+    if (prefixes.has(profile.redisPrefix)) {
+      console.log(
+        `⚠️ Profile "${id}" shares Redis prefix "${profile.redisPrefix}" with another profile, skipped`,
+      );
+      continue;
+    }
+
+    prefixes.add(profile.redisPrefix);
+    profiles.push(profile);
+  }
+
+  if (profiles.length === 0) {
+    profiles.push(buildProfile(DEFAULT_PROFILE_ID));
+  }
+
+  return profiles;
+}
+
+// --- Registro (se carga una vez por proceso) ---
+
+let profiles: TradingProfile[] | null = null;
+
+export function getProfiles(): TradingProfile[] {
+  if (!profiles) {
+    profiles = loadProfiles();
+  }
+  return profiles;
+}
+
+export function getDefaultProfile(): TradingProfile {
+  const all = getProfiles();
+  return all.find(p => p.id === DEFAULT_PROFILE) ?? all[0];
+}
+
+/**
+ * Perfil por id. Sin id devuelve el default; con un id desconocido, null
+ * (para que la API / Telegram puedan responder con error).
+ */
+export function getProfile(id?: string | null): TradingProfile | null {
+  const normalized = (id ?? '').trim().toLowerCase();
+  if (!normalized) return getDefaultProfile();
+  return getProfiles().find(p => p.id === normalized) ?? null;
+}
+
+export function isMultiProfile(): boolean {
+  return getProfiles().length > 1;
+}
+
+// Prefijo para logs / alertas ("" si solo hay un perfil)
+export function profileTag(profile: TradingProfile): string {
+  return isMultiProfile() ? `[${profile.label}] ` : '';
+}
+
+export function toPublicProfile(profile: TradingProfile): PublicTradingProfile {
+  const { privateKey, ...rest } = profile;
+  return {
+    ...rest,
+    isDefault: profile.id === getDefaultProfile().id,
+    hasPrivateKey: privateKey.length > 0,
+  };
+}
+
+// --- Redis por perfil (keyPrefix = namespace) ---
+
+const profileRedis = new Map<string, RedisClient>();
+
+export function getProfileRedis(profile: TradingProfile): RedisClient {
+  let client = profileRedis.get(profile.id);
+  if (!client) {
+    client = new RedisClass(process.env.REDIS_URL as string, {
+      maxRetriesPerRequest: null,
+      keyPrefix: profile.redisPrefix || undefined,
+    });
+    profileRedis.set(profile.id, client);
+  }
+  return client;
+}
+
+// Namespace de un cliente (para cachear singletons por perfil)
+export function redisNamespace(redis?: RedisClient | null): string {
+  return String(redis?.options?.keyPrefix ?? '');
+}
@@ -0,0 +1,329 @@
+// pumpCurve.ts - Matemática exacta (bigint) de la bonding curve de Pump.fun
+//
+// Una sola implementación para executors, PriceService y simuladores (antes
+// cada uno tenía su aproximación en float). Réplica de lo que hace el
+// programa on-chain:
+//   - buy(amount, max_sol_cost): coste = amount·vSol / (vTok − amount) + 1,
+//     más fees (protocolo + creador) redondeadas hacia arriba
+//   - sell(amount, min_sol_output): bruto = amount·vSol / (vTok + amount),
+//     menos fees
+//   - nunca se compra más que realTokenReserves; al llegar a 0 la curva se
+//     completa (graduación)
+//
+// Unidades: lamports y unidades raw del token (6 decimales), como en las
+// posiciones. Slippage en basis points (0.15 → 1500n, ver slippageToBps).
+
+import { decodeBondingCurveAccount } from './pumpIdl.js';
+
+// --- Tipos públicos ---
+
+export interface BondingCurveState {
+  virtualTokenReserves: bigint;
+  virtualSolReserves: bigint; // lamports
+  realTokenReserves: bigint;
+  realSolReserves: bigint; // lamports
+  tokenTotalSupply: bigint;
+  complete: boolean;
+}
+
+export interface PumpFeeConfig {
+  feeBasisPoints: bigint; // protocolo
+  creatorFeeBasisPoints: bigint;
+}
+
+export interface BuyQuote {
+  solIn: bigint; // presupuesto (incluye fees)
+  tokensOut: bigint;
+  solCost: bigint; // a la curva
+  protocolFee: bigint;
+  creatorFee: bigint;
+  totalCost: bigint; // solCost + fees (≤ solIn salvo redondeo)
+  maxSolCost: bigint; // totalCost + slippage → arg max_sol_cost
+  priceImpactPct: number;
+  effectivePrice: number; // SOL por unidad raw (fees incluidas)
+  completesCurve: boolean; // se lleva todo lo que queda en la curva
+}
+
+export interface SellQuote {
+  tokensIn: bigint;
+  grossSol: bigint;
+  protocolFee: bigint;
+  creatorFee: bigint;
+  netSol: bigint;
+  minSolOutput: bigint; // netSol − slippage → arg min_sol_output
+  priceImpactPct: number;
+  effectivePrice: number; // SOL por unidad raw (neto)
+}
+
+// --- Constantes del programa ---
+
+// Estado de una curva recién creada (Global.initial_*)
+export const INITIAL_BONDING_CURVE: BondingCurveState = {
+  virtualTokenReserves: 1_073_000_000_000_000n,
+  virtualSolReserves: 30_000_000_000n,
+  realTokenReserves: 793_100_000_000_000n,
+  realSolReserves: 0n,
+  tokenTotalSupply: 1_000_000_000_000_000n,
+  complete: false,
+};
+
+// vTok − realTok es constante durante toda la vida de la curva
+const VIRTUAL_TOKEN_OFFSET =
+  INITIAL_BONDING_CURVE.virtualTokenReserves -
+  INITIAL_BONDING_CURVE.realTokenReserves;
+
+// 0.95% protocolo + 0.05% creador (actualización de mayo 2025). Solo es el
+// fallback: el executor usa los bps de la cuenta Global cuando la puede leer
+export const DEFAULT_PUMP_FEES: PumpFeeConfig = {
+  feeBasisPoints: 95n,
+  creatorFeeBasisPoints: 5n,
+};
+
+const BPS = 10_000n;
+
+// --- Helpers ---
+
+function minBig(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+// fee = ceil(amount · bps / 10000), igual que el programa
+export function computeFee(amount: bigint, bps: bigint): bigint {
+  if (amount <= 0n || bps <= 0n) return 0n;
+  return (amount * bps + BPS - 1n) / BPS;
+}
+
+export function slippageToBps(slippage: number): bigint {
+  if (!Number.isFinite(slippage) || slippage <= 0) return 0n;
+  return BigInt(Math.round(slippage * 10_000));
+}
+
+export function totalFeeBps(fees: PumpFeeConfig = DEFAULT_PUMP_FEES): bigint {
+  return fees.feeBasisPoints + fees.creatorFeeBasisPoints;
+}
+
+// Reparte la fee total entre protocolo y creador (cada una con su ceil)
+function splitFees(
+  amount: bigint,
+  fees: PumpFeeConfig,
+): { protocolFee: bigint; creatorFee: bigint } {
+  return {
+    protocolFee: computeFee(amount, fees.feeBasisPoints),
+    creatorFee: computeFee(amount, fees.creatorFeeBasisPoints),
+  };
+}
+
+/**
+ * Estado de la curva desde los datos de la cuenta BondingCurve. El layout
+ * sale del IDL (pumpIdl.ts); null si no es una BondingCurve válida.
+ */
+export function decodeBondingCurve(data: Buffer): BondingCurveState | null {
+  const account = decodeBondingCurveAccount(data);
+  if (!account) return null;
+  const { creator: _creator, ...state } = account;
+  return state;
+}
+
+/**
+ * Curva a partir de las reservas virtuales en number (PriceData /
+ * PaperMarketState: vSol en SOL, vTok en unidades raw). Las reales se
+ * deducen del offset virtual constante.
+ */
+export function curveFromReserves(
+  virtualSolReservesSol: number,
+  virtualTokenReserves: number,
+): BondingCurveState | null {
+  if (
+    !Number.isFinite(virtualSolReservesSol) ||
+    !Number.isFinite(virtualTokenReserves) ||
+    virtualSolReservesSol <= 0 ||
+    virtualTokenReserves <= 0
+  ) {
+    return null;
+  }
+
+  const virtualSol = BigInt(Math.round(virtualSolReservesSol * 1e9));
+  const virtualTok = BigInt(Math.round(virtualTokenReserves));
+  const realTok = virtualTok > VIRTUAL_TOKEN_OFFSET ? virtualTok - VIRTUAL_TOKEN_OFFSET : 0n;
+  const realSol =
+    virtualSol > INITIAL_BONDING_CURVE.virtualSolReserves
+      ? virtualSol - INITIAL_BONDING_CURVE.virtualSolReserves
+      : 0n;
+
+  return {
+    virtualTokenReserves: virtualTok,
+    virtualSolReserves: virtualSol,
+    realTokenReserves: realTok,
+    realSolReserves: realSol,
+    tokenTotalSupply: INITIAL_BONDING_CURVE.tokenTotalSupply,
+    complete: realTok === 0n,
+  };
+}
+
+// Precio spot en SOL por unidad raw (mismo criterio que PriceService)
+export function spotPrice(state: BondingCurveState): number {
+  if (state.virtualTokenReserves <= 0n) return 0;
+  return Number(state.virtualSolReserves) / Number(state.virtualTokenReserves) / 1e9;
+}
+
+// 0-100: parte de los tokens vendibles que ya salió de la curva
+export function curveProgressPercent(state: BondingCurveState): number {
+  if (state.complete) return 100;
+  const initial = INITIAL_BONDING_CURVE.realTokenReserves;
+  const sold = initial > state.realTokenReserves ? initial - state.realTokenReserves : 0n;
+  return Math.min(Number((sold * 10_000n) / initial) / 100, 100);
+}
+
+// --- Quotes ---
+
+/**
+ * Coste exacto (lamports, sin fees) de comprar `tokens` unidades raw.
+ * Capado a realTokenReserves como el programa.
+ */
+export function buyCostForTokens(state: BondingCurveState, tokens: bigint): bigint {
+  const amount = minBig(tokens, state.realTokenReserves);
+  if (amount <= 0n || state.virtualTokenReserves <= amount) return 0n;
+  return (amount * state.virtualSolReserves) / (state.virtualTokenReserves - amount) + 1n;
+}
+
+function emptyBuyQuote(solIn: bigint): BuyQuote {
+  return {
+    solIn,
+    tokensOut: 0n,
+    solCost: 0n,
+    protocolFee: 0n,
+    creatorFee: 0n,
+    totalCost: 0n,
+    maxSolCost: 0n,
+    priceImpactPct: 0,
+    effectivePrice: 0,
+    completesCurve: false,
+  };
+}
+
+/**
+ * Compra de exactamente `tokens` unidades raw (arg amount del programa):
+ * coste a la curva, fees y max_sol_cost con la tolerancia de slippage.
+ */
+export function quoteBuyExactTokens(
+  state: BondingCurveState,
+  tokens: bigint,
+  slippageBps = 0n,
+  fees: PumpFeeConfig = DEFAULT_PUMP_FEES,
+): BuyQuote {
+  const tokensOut = minBig(tokens, state.realTokenReserves);
+  if (state.complete || tokensOut <= 0n || state.virtualTokenReserves <= tokensOut) {
+    return emptyBuyQuote(0n);
+  }
+
+  const solCost = buyCostForTokens(state, tokensOut);
+  const { protocolFee, creatorFee } = splitFees(solCost, fees);
+  const totalCost = solCost + protocolFee + creatorFee;
+  const maxSolCost = totalCost + (totalCost * slippageBps) / BPS;
+
+  const spot = spotPrice(state);
+  const curvePrice = Number(solCost) / Number(tokensOut) / 1e9;
+
+  return {
+    solIn: totalCost,
+    tokensOut,
+    solCost,
+    protocolFee,
+    creatorFee,
+    totalCost,
+    maxSolCost,
+    priceImpactPct: spot > 0 ? (curvePrice / spot - 1) * 100 : 0,
+    effectivePrice: Number(totalCost) / Number(tokensOut) / 1e9,
+    completesCurve: tokensOut === state.realTokenReserves,
+  };
+}
+
+/**
+ * Compra con presupuesto `solIn` (fees incluidas): tokens que salen, coste
+ * real para el programa y max_sol_cost con la tolerancia de slippage.
+ */
+export function quoteBuy(
+  state: BondingCurveState,
+  solIn: bigint,
+  slippageBps = 0n,
+  fees: PumpFeeConfig = DEFAULT_PUMP_FEES,
+): BuyQuote {
+  if (state.complete || solIn <= 0n || state.virtualTokenReserves <= 0n) {
+    return emptyBuyQuote(solIn);
+  }
+
+  // Parte del presupuesto que llega a la curva (el resto son fees)
+  const intoCurve = (solIn * BPS) / (BPS + totalFeeBps(fees));
+  const tokensOut =
+    (intoCurve * state.virtualTokenReserves) / (state.virtualSolReserves + intoCurve);
+  if (tokensOut <= 0n) return emptyBuyQuote(solIn);
+
+  return { ...quoteBuyExactTokens(state, tokensOut, slippageBps, fees), solIn };
+}
+
+/**
+ * Venta de `tokensIn` unidades raw: SOL bruto de la curva, fees, neto y
+ * min_sol_output con la tolerancia de slippage.
+ */
+export function quoteSell(
+  state: BondingCurveState,
+  tokensIn: bigint,
+  slippageBps = 0n,
+  fees: PumpFeeConfig = DEFAULT_PUMP_FEES,
+): SellQuote {
+  if (state.complete || tokensIn <= 0n || state.virtualTokenReserves <= 0n) {
+    return {
+      tokensIn,
+      grossSol: 0n,
+      protocolFee: 0n,
+      creatorFee: 0n,
+      netSol: 0n,
+      minSolOutput: 0n,
+      priceImpactPct: 0,
+      effectivePrice: 0,
+    };
+  }
+
+  const grossSol =
+    (tokensIn * state.virtualSolReserves) / (state.virtualTokenReserves + tokensIn);
+  // Nunca más de lo que hay en la curva
+  const cappedGross =
+    state.realSolReserves > 0n ? minBig(grossSol, state.realSolReserves) : grossSol;
+  const { protocolFee, creatorFee } = splitFees(cappedGross, fees);
+  const netSol = cappedGross > protocolFee + creatorFee ? cappedGross - protocolFee - creatorFee : 0n;
+  const minSolOutput = netSol - (netSol * slippageBps) / BPS;
+
+  const spot = spotPrice(state);
+  const curvePrice = Number(cappedGross) / Number(tokensIn) / 1e9;
+
+  return {
+    tokensIn,
+    grossSol: cappedGross,
+    protocolFee,
+    creatorFee,
+    netSol,
+    minSolOutput,
+    priceImpactPct: spot > 0 ? (1 - curvePrice / spot) * 100 : 0,
+    effectivePrice: Number(netSol) / Number(tokensIn) / 1e9,
+  };
+}
+
+/**
+ * Compra máxima antes de completar la curva: todos los realTokenReserves.
+ * totalCost es lo que habría que gastar (fees incluidas) para graduarla.
+ */
+export function maxBuyBeforeCompletion(
+  state: BondingCurveState,
+  fees: PumpFeeConfig = DEFAULT_PUMP_FEES,
+): { tokens: bigint; solCost: bigint; totalCost: bigint } {
+  if (state.complete || state.realTokenReserves <= 0n) {
+    return { tokens: 0n, solCost: 0n, totalCost: 0n };
+  }
+  const quote = quoteBuyExactTokens(state, state.realTokenReserves, 0n, fees);
+  return {
+    tokens: quote.tokensOut,
+    solCost: quote.solCost,
+    totalCost: quote.totalCost,
+  };
+}
+
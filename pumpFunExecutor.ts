@@ -7,12 +7,9 @@ import {
   PublicKey,
   Transaction,
   TransactionInstruction,
-  ComputeBudgetProgram,
   SystemProgram,
   SYSVAR_RENT_PUBKEY,
   Commitment,
-  SendOptions,
-  ConfirmOptions,
 } from '@solana/web3.js';
 import {
   getAssociatedTokenAddress,
@@ -25,22 +22,56 @@ import { getRateLimiter } from './rpcRateLimiter.js';
 import {
   PUMP_BUY_SLIPPAGE_PCT,
   PUMP_SELL_SLIPPAGE_PCT,
+  PAPER_SIM_ENABLED,
+  PRIORITY_FEE_DYNAMIC,
+  PRIORITY_FEE_MICROLAMPORTS,
 } from './environment.js';
 import { validateSlippage } from './safeNumberUtils.js';
+import { getPaperSimulator, type PaperMarketState } from './paperSimulator.js';
+import {
+  formatLanding,
+  landingFields,
+  type LandingResult,
+  type LandingStatus,
+} from './txLanding.js';
+import {
+  getPriorityFeeOracle,
+  computeBudgetInstructions,
+  formatFeePlan,
+  type FeeUrgency,
+} from './priorityFees.js';
+import { submitTransaction, type SubmissionMode } from './jitoBundles.js';
+import {
+  decodeBondingCurve,
+  quoteBuy,
+  quoteSell,
+  slippageToBps,
+  INITIAL_BONDING_CURVE,
+  DEFAULT_PUMP_FEES,
+  type PumpFeeConfig,
+} from './pumpCurve.js';
+import {
+  decodeBondingCurveAccount,
+  decodeGlobalAccount,
+  encodeBuyData,
+  encodeSellData,
+  pumpGlobalPDA,
+  pumpEventAuthorityPDA,
+  tradeAccountMetas,
+  type PumpGlobalState,
+  type PumpTradeAccounts,
+} from './pumpIdl.js';
 
 // 🎯 PUMP.FUN OFFICIAL CONSTANTS (November 2024+)
 export const PUMP_PROGRAM_ID = new PublicKey(
   '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P',
 );
-export const PUMP_GLOBAL = new PublicKey(
-  '4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf',
-);
+export const PUMP_GLOBAL = pumpGlobalPDA(PUMP_PROGRAM_ID);
+export const PUMP_EVENT_AUTHORITY = pumpEventAuthorityPDA(PUMP_PROGRAM_ID);
+// Solo fallback: el fee recipient real se lee de la cuenta Global
 export const PUMP_FEE_RECIPIENT = new PublicKey(
   'CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM',
 );
-export const PUMP_EVENT_AUTHORITY = new PublicKey(
-  'Ce6TQqeHC9p8KetsN6JsjHK7UTZk7nasjjnr7XxXp9F1',
-);
 export const WSOL_MINT = new PublicKey(
   'So11111111111111111111111111111111111111112',
 );
@@ -58,6 +89,13 @@ export interface BuyResult {
   executedDex?: string;
   tokensAmount?: number;
   effectivePrice?: number;
+  // Landing (txLanding.ts)
+  slot?: number;
+  feeLamports?: number;
+  latencyMs?: number;
+  landingStatus?: LandingStatus;
+  submittedVia?: SubmissionMode;
+  tipLamports?: number; // propina Jito pagada (entra en el PnL)
 }
 
 export interface SellResult {
@@ -68,6 +106,12 @@ export interface SellResult {
   dex?: string;
   error?: string;
   simulated?: boolean;
+  slot?: number;
+  feeLamports?: number;
+  latencyMs?: number;
+  landingStatus?: LandingStatus;
+  submittedVia?: SubmissionMode;
+  tipLamports?: number; // propina Jito pagada (entra en el PnL)
 }
 
 // Opcional: puedes ajustar compromisos por si quieres usar otro en el futuro
@@ -82,12 +126,24 @@ const DEFAULT_PUMP_SELL_SLIPPAGE = validateSlippage(
   0.15,
 );
 
+// CU limit si no se puede simular (antes hard-coded en cada tx)
+const DEFAULT_BUY_COMPUTE_UNITS = 400_000;
+const DEFAULT_SELL_COMPUTE_UNITS = 300_000;
+// La cuenta Global casi nunca cambia (fee recipient / fees)
+const GLOBAL_CACHE_TTL_MS = 5 * 60_000;
+
+interface PumpTradeConfig {
+  feeRecipient: PublicKey;
+  fees: PumpFeeConfig;
+}
+
 export class PumpFunExecutor {
   private readonly connection: Connection;
   private readonly wallet: Keypair;
   private readonly dryRun: boolean;
-  private readonly priorityFee: number;
   private readonly rateLimiter = getRateLimiter();
+  private readonly feeOracle = getPriorityFeeOracle();
+  private globalCache: { state: PumpGlobalState; fetchedAt: number } | null = null;
 
   constructor(privateKey: string, rpcUrl: string, dryRun = true) {
     this.dryRun = dryRun;
@@ -115,13 +171,12 @@ export class PumpFunExecutor {
       throw error;
     }
 
-    this.priorityFee = parseInt(
-      process.env.PRIORITY_FEE_MICROLAMPORTS || '300000',
-      10,
-    );
-
     console.log(`🎮 Mode: ${dryRun ? '📄 PAPER' : '💰 LIVE'}`);
-    console.log(`⚡ Priority Fee: ${this.priorityFee} µlamports`);
+    console.log(
+      `⚡ Priority Fee: ${
+        PRIORITY_FEE_DYNAMIC ? 'dynamic (priorityFees.ts)' : `${PRIORITY_FEE_MICROLAMPORTS} µlamports`
+      }`,
+    );
     console.log('🛡️ RPC calls rate-limited via rpcRateLimiter\n');
   }
 
@@ -156,21 +211,15 @@ export class PumpFunExecutor {
         `pump:creator:${mint}`,
       );
 
-      if (
-        bondingCurveAccount &&
-        bondingCurveAccount.data.length >= 136 // nos aseguramos que hay espacio para el pubkey
-      ) {
-        // Creator is stored at offset 104 (32 bytes)
-        const creatorBytes = bondingCurveAccount.data.slice(104, 136);
-        const creator = new PublicKey(creatorBytes);
-
-        // Validate it's not zero address
-        if (!creator.equals(PublicKey.default)) {
-          console.log(
-            `   ✅ Creator found: ${creator.toString().slice(0, 8)}...`,
-          );
-          return creator;
-        }
+      // Creator field decoded via IDL (null if zero address / old curve)
+      const creator = bondingCurveAccount
+        ? decodeBondingCurveAccount(bondingCurveAccount.data)?.creator
+        : null;
+      if (creator) {
+        console.log(
+          `   ✅ Creator found: ${creator.toString().slice(0, 8)}...`,
+        );
+        return creator;
       }
 
       // Method 2: Fallback - derive from mint (for canonical pools)
@@ -194,11 +243,85 @@ export class PumpFunExecutor {
     }
   }
 
+  // 🌐 Global account (fee recipient + fee bps), cacheada
+  async getGlobalState(): Promise<PumpGlobalState | null> {
+    if (
+      this.globalCache &&
+      Date.now() - this.globalCache.fetchedAt < GLOBAL_CACHE_TTL_MS
+    ) {
+      return this.globalCache.state;
+    }
+
+    try {
+      const account = await this.rateLimiter.request(
+        () => this.connection.getAccountInfo(PUMP_GLOBAL),
+        'medium',
+        'pump:global',
+      );
+      const state = account ? decodeGlobalAccount(account.data) : null;
+      if (state) {
+        this.globalCache = { state, fetchedAt: Date.now() };
+      }
+      return state ?? this.globalCache?.state ?? null;
+    } catch (error: any) {
+      console.log(
+        `   ⚠️ Global account read failed: ${error?.message ?? String(error)}`,
+      );
+      return this.globalCache?.state ?? null;
+    }
+  }
+
+  // Fee recipient y fees a usar en buy / sell (constantes si Global falla)
+  private async getTradeConfig(): Promise<PumpTradeConfig> {
+    const global = await this.getGlobalState();
+    if (!global) {
+      return { feeRecipient: PUMP_FEE_RECIPIENT, fees: DEFAULT_PUMP_FEES };
+    }
+
+    return {
+      feeRecipient: global.feeRecipient.equals(PublicKey.default)
+        ? PUMP_FEE_RECIPIENT
+        : global.feeRecipient,
+      fees: {
+        feeBasisPoints: global.feeBasisPoints,
+        creatorFeeBasisPoints: global.creatorFeeBasisPoints,
+      },
+    };
+  }
+
+  // Resolver único por nombre de cuenta del IDL (buy y sell); las fijas aquí
+  private tradeAccounts(
+    accounts: Pick<
+      PumpTradeAccounts,
+      | 'feeRecipient'
+      | 'mint'
+      | 'bondingCurve'
+      | 'associatedBondingCurve'
+      | 'associatedUser'
+      | 'coinCreatorVaultAuthority'
+      | 'coinCreatorVaultAta'
+    >,
+  ): PumpTradeAccounts {
+    return {
+      global: PUMP_GLOBAL,
+      user: this.wallet.publicKey,
+      systemProgram: SystemProgram.programId,
+      tokenProgram: TOKEN_PROGRAM_ID,
+      associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+      rent: SYSVAR_RENT_PUBKEY,
+      eventAuthority: PUMP_EVENT_AUTHORITY,
+      program: PUMP_PROGRAM_ID,
+      ...accounts,
+    };
+  }
+
   // ✅ FIXED: BUY with 14 accounts (12 original + 2 creator fee)
   async buyToken(
     mint: string,
     solAmount: number,
     slippage = DEFAULT_PUMP_BUY_SLIPPAGE,
+    urgency: FeeUrgency = 'normal',
+    submission: SubmissionMode = 'rpc',
   ): Promise<BuyResult> {
     if (this.dryRun) {
       return this.simulateBuy(mint, solAmount);
@@ -241,24 +364,35 @@ export class PumpFunExecutor {
         `pump:bc:buy:${mint}`,
       );
 
-      if (!bondingCurveAccount) {
+      const curve = bondingCurveAccount
+        ? decodeBondingCurve(bondingCurveAccount.data)
+        : null;
+      if (!curve) {
         throw new Error('Bonding curve not found');
       }
+      if (curve.complete) {
+        throw new Error('Bonding curve complete (graduated)');
+      }
 
-      const data = bondingCurveAccount.data;
-      const virtualTokenReserves = data.readBigUInt64LE(8);
-      const virtualSolReserves = data.readBigUInt64LE(16);
-
-      // Calculate tokens out
-      const solInLamports = Math.floor(solAmount * 1e9);
-      const tokensOut = Math.floor(
-        (Number(virtualTokenReserves) * solInLamports) /
-          (Number(virtualSolReserves) + solInLamports),
+      // Quote exacto (bigint) con fees de protocolo + creador (pumpCurve.ts)
+      const { feeRecipient, fees } = await this.getTradeConfig();
+      const quote = quoteBuy(
+        curve,
+        BigInt(Math.floor(solAmount * 1e9)),
+        slippageToBps(slippage),
+        fees,
       );
-      const maxSolCost = Math.floor(solInLamports * (1 + slippage));
+      if (quote.tokensOut <= 0n) {
+        throw new Error('Buy quote returned zero tokens');
+      }
+      const tokensOut = Number(quote.tokensOut);
 
       console.log(
-        `   📊 Quote: ${tokensOut.toLocaleString('en-US')} tokens`,
+        `   📊 Quote: ${tokensOut.toLocaleString('en-US')} tokens | impact ${quote.priceImpactPct.toFixed(
+          2,
+        )}% | max cost ${(Number(quote.maxSolCost) / 1e9).toFixed(6)} SOL${
+          quote.completesCurve ? ' | completes curve' : ''
+        }`,
       );
 
       // STEP 4: Get ATAs
@@ -281,21 +415,13 @@ export class PumpFunExecutor {
       );
       const needsAta = !ataInfo;
 
-      // STEP 6: Build transaction
-      const tx = new Transaction();
-
-      // Priority fees
-      tx.add(
-        ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }),
-        ComputeBudgetProgram.setComputeUnitPrice({
-          microLamports: this.priorityFee,
-        }),
-      );
+      // STEP 6: Build instructions (ComputeBudget se añade con el fee plan)
+      const instructions: TransactionInstruction[] = [];
 
       // Create ATA if needed
       if (needsAta) {
         console.log('   🔧 Creating ATA...');
-        tx.add(
+        instructions.push(
           createAssociatedTokenAccountInstruction(
             this.wallet.publicKey,
             associatedUser,
@@ -305,117 +431,73 @@ export class PumpFunExecutor {
         );
       }
 
-      // ✅ 14 ACCOUNTS for BUY instruction
+      // ✅ 14 ACCOUNTS for BUY instruction (orden y flags del IDL)
       const buyInstruction = new TransactionInstruction({
-        keys: [
-          // 0. global
-          { pubkey: PUMP_GLOBAL, isSigner: false, isWritable: false },
-          // 1. feeRecipient
-          { pubkey: PUMP_FEE_RECIPIENT, isSigner: false, isWritable: true },
-          // 2. mint
-          { pubkey: mintPubkey, isSigner: false, isWritable: false },
-          // 3. bondingCurve
-          { pubkey: bondingCurve, isSigner: false, isWritable: true },
-          // 4. associatedBondingCurve
-          {
-            pubkey: associatedBondingCurve,
-            isSigner: false,
-            isWritable: true,
-          },
-          // 5. associatedUser
-          { pubkey: associatedUser, isSigner: false, isWritable: true },
-          // 6. user
-          {
-            pubkey: this.wallet.publicKey,
-            isSigner: true,
-            isWritable: true,
-          },
-          // 7. systemProgram
-          {
-            pubkey: SystemProgram.programId,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 8. tokenProgram
-          {
-            pubkey: TOKEN_PROGRAM_ID,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 9. rent
-          {
-            pubkey: SYSVAR_RENT_PUBKEY,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 10. eventAuthority
-          {
-            pubkey: PUMP_EVENT_AUTHORITY,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 11. program
-          {
-            pubkey: PUMP_PROGRAM_ID,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 🆕 12. coinCreatorVaultAuthority (NEW - May 2025)
-          {
-            pubkey: coinCreatorVaultAuthority,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 🆕 13. coinCreatorVaultAta (NEW - May 2025)
-          {
-            pubkey: coinCreatorVaultAta,
-            isSigner: false,
-            isWritable: true,
-          },
-        ],
+        keys: tradeAccountMetas(
+          'buy',
+          this.tradeAccounts({
+            feeRecipient,
+            mint: mintPubkey,
+            bondingCurve,
+            associatedBondingCurve,
+            associatedUser,
+            coinCreatorVaultAuthority,
+            coinCreatorVaultAta,
+          }),
+        ),
         programId: PUMP_PROGRAM_ID,
-        data: this.encodeBuyInstruction(tokensOut, maxSolCost),
+        data: encodeBuyData(quote.tokensOut, quote.maxSolCost),
       });
 
       console.log(
         `   ℹ️ Buy instruction: ${buyInstruction.keys.length} accounts (14 = FIXED)`,
       );
 
-      tx.add(buyInstruction);
+      instructions.push(buyInstruction);
 
-      // STEP 7: Send transaction
-      console.log('   ⚡ Sending transaction...');
-      const sendOpts: SendOptions = {
-        skipPreflight: false,
-        preflightCommitment: DEFAULT_COMMITMENT,
-        maxRetries: 3,
-      };
-      const sig = await this.connection.sendTransaction(
+      // ⛽ Priority fee (percentil por urgencia) + CU simulado (priorityFees.ts)
+      const feePlan = await this.feeOracle.plan({
+        urgency,
+        writableAccounts: [bondingCurve, mintPubkey],
+        instructions,
+        payer: this.wallet.publicKey,
+        defaultComputeUnits: DEFAULT_BUY_COMPUTE_UNITS,
+        connection: this.connection,
+      });
+      console.log(`   ⛽ ${formatFeePlan(feePlan)}`);
+
+      const tx = new Transaction().add(
+        ...computeBudgetInstructions(feePlan),
+        ...instructions,
+      );
+
+      // STEP 7: Send + confirm (bundle Jito si toca, si no RPC con rebroadcast)
+      console.log(`   ⚡ Sending transaction${submission === 'jito' ? ' (Jito bundle)' : ''}...`);
+      const landing = await submitTransaction(
+        this.connection,
         tx,
         [this.wallet],
-        sendOpts,
+        submission,
+        {
+          label: `pump buy ${mint.slice(0, 8)}`,
+          commitment: DEFAULT_COMMITMENT,
+        },
       );
+      console.log(`   📬 ${formatLanding(landing)}`);
+      void this.feeOracle.recordSpend(feePlan, landing);
 
-      console.log('   ⏳ Confirming...');
-      const confirmOpts: ConfirmOptions = {
-        commitment: DEFAULT_COMMITMENT,
-        maxRetries: 3,
-      };
-
-      await this.rateLimiter.request(
-        () => this.connection.confirmTransaction(sig, confirmOpts.commitment),
-        'medium',
-        `confirm:${sig}`,
-      );
+      if (!landing.success) {
+        return this.landingFailure(landing, 'Buy');
+      }
 
       console.log(
         `✅ BUY SUCCESS: ${solAmount} SOL → ${tokensOut} tokens`,
       );
-      console.log(`   Signature: ${sig}`);
+      console.log(`   Signature: ${landing.signature}`);
 
       return {
         success: true,
-        signature: sig,
+        signature: landing.signature,
         tokensReceived: tokensOut,
         solSpent: solAmount,
         dex: 'Pump.fun',
@@ -423,6 +505,7 @@ export class PumpFunExecutor {
         tokensAmount: tokensOut,
         effectivePrice:
           tokensOut > 0 ? solAmount / tokensOut : undefined,
+        ...landingFields(landing),
       };
     } catch (error: any) {
       console.error(`❌ Buy error: ${error?.message ?? String(error)}`);
@@ -447,6 +530,8 @@ export class PumpFunExecutor {
     mint: string,
     tokenAmount: number,
     slippage = DEFAULT_PUMP_SELL_SLIPPAGE,
+    urgency: FeeUrgency = 'normal',
+    submission: SubmissionMode = 'rpc',
   ): Promise<SellResult> {
     if (this.dryRun) {
       return this.simulateSell(mint, tokenAmount);
@@ -480,22 +565,34 @@ export class PumpFunExecutor {
         `pump:bc:sell:${mint}`,
       );
 
-      if (!bondingCurveAccount) {
+      const curve = bondingCurveAccount
+        ? decodeBondingCurve(bondingCurveAccount.data)
+        : null;
+      if (!curve) {
         throw new Error('Bonding curve not found');
       }
+      if (curve.complete) {
+        throw new Error('Bonding curve complete (graduated)');
+      }
 
-      const data = bondingCurveAccount.data;
-      const virtualTokenReserves = data.readBigUInt64LE(8);
-      const virtualSolReserves = data.readBigUInt64LE(16);
-
-      // Calculate SOL out
-      const solOut = Math.floor(
-        (Number(virtualSolReserves) * tokenAmount) /
-          (Number(virtualTokenReserves) + tokenAmount),
+      // Quote exacto (bigint): SOL neto tras fees de protocolo + creador
+      const { feeRecipient, fees } = await this.getTradeConfig();
+      const quote = quoteSell(
+        curve,
+        BigInt(Math.floor(tokenAmount)),
+        slippageToBps(slippage),
+        fees,
       );
-      const minSolOutput = Math.floor(solOut * (1 - slippage));
+      if (quote.netSol <= 0n) {
+        throw new Error('Sell quote returned zero SOL');
+      }
+      const solOut = Number(quote.netSol);
 
-      console.log(`   📊 Quote: ${(solOut / 1e9).toFixed(4)} SOL`);
+      console.log(
+        `   📊 Quote: ${(solOut / 1e9).toFixed(4)} SOL | impact ${quote.priceImpactPct.toFixed(
+          2,
+        )}% | min ${(Number(quote.minSolOutput) / 1e9).toFixed(4)} SOL`,
+      );
 
       // STEP 4: Get ATAs
       const associatedBondingCurve = await getAssociatedTokenAddress(
@@ -509,119 +606,63 @@ export class PumpFunExecutor {
         this.wallet.publicKey,
       );
 
-      // STEP 5: Build transaction
-      const tx = new Transaction();
-
-      tx.add(
-        ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 }),
-        ComputeBudgetProgram.setComputeUnitPrice({
-          microLamports: this.priorityFee,
-        }),
-      );
-
-      // ✅ 14 ACCOUNTS for SELL instruction
+      // STEP 5: Build instruction (ComputeBudget se añade con el fee plan)
+      // ✅ 14 ACCOUNTS for SELL instruction (orden y flags del IDL)
       const sellInstruction = new TransactionInstruction({
-        keys: [
-          // 0. global
-          { pubkey: PUMP_GLOBAL, isSigner: false, isWritable: false },
-          // 1. feeRecipient
-          { pubkey: PUMP_FEE_RECIPIENT, isSigner: false, isWritable: true },
-          // 2. mint
-          { pubkey: mintPubkey, isSigner: false, isWritable: false },
-          // 3. bondingCurve
-          { pubkey: bondingCurve, isSigner: false, isWritable: true },
-          // 4. associatedBondingCurve
-          {
-            pubkey: associatedBondingCurve,
-            isSigner: false,
-            isWritable: true,
-          },
-          // 5. associatedUser
-          { pubkey: associatedUser, isSigner: false, isWritable: true },
-          // 6. user
-          {
-            pubkey: this.wallet.publicKey,
-            isSigner: true,
-            isWritable: true,
-          },
-          // 7. systemProgram
-          {
-            pubkey: SystemProgram.programId,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 8. associatedTokenProgram
-          {
-            pubkey: ASSOCIATED_TOKEN_PROGRAM_ID,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 9. tokenProgram
-          {
-            pubkey: TOKEN_PROGRAM_ID,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 10. eventAuthority
-          {
-            pubkey: PUMP_EVENT_AUTHORITY,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 11. program
-          {
-            pubkey: PUMP_PROGRAM_ID,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 🆕 12. coinCreatorVaultAuthority (NEW - May 2025)
-          {
-            pubkey: coinCreatorVaultAuthority,
-            isSigner: false,
-            isWritable: false,
-          },
-          // 🆕 13. coinCreatorVaultAta (NEW - May 2025)
-          {
-            pubkey: coinCreatorVaultAta,
-            isSigner: false,
-            isWritable: true,
-          },
-        ],
+        keys: tradeAccountMetas(
+          'sell',
+          this.tradeAccounts({
+            feeRecipient,
+            mint: mintPubkey,
+            bondingCurve,
+            associatedBondingCurve,
+            associatedUser,
+            coinCreatorVaultAuthority,
+            coinCreatorVaultAta,
+          }),
+        ),
         programId: PUMP_PROGRAM_ID,
-        data: this.encodeSellInstruction(tokenAmount, minSolOutput),
+        data: encodeSellData(quote.tokensIn, quote.minSolOutput),
       });
 
       console.log(
         `   ℹ️ Sell instruction: ${sellInstruction.keys.length} accounts (14 = FIXED)`,
       );
 
-      tx.add(sellInstruction);
+      // ⛽ Priority fee (percentil por urgencia) + CU simulado (priorityFees.ts)
+      const feePlan = await this.feeOracle.plan({
+        urgency,
+        writableAccounts: [bondingCurve, mintPubkey],
+        instructions: [sellInstruction],
+        payer: this.wallet.publicKey,
+        defaultComputeUnits: DEFAULT_SELL_COMPUTE_UNITS,
+        connection: this.connection,
+      });
+      console.log(`   ⛽ ${formatFeePlan(feePlan)}`);
 
-      // STEP 6: Send transaction
-      console.log('   ⚡ Sending transaction...');
-      const sendOpts: SendOptions = {
-        skipPreflight: false,
-        preflightCommitment: DEFAULT_COMMITMENT,
-        maxRetries: 3,
-      };
+      const tx = new Transaction().add(
+        ...computeBudgetInstructions(feePlan),
+        sellInstruction,
+      );
 
-      const sig = await this.connection.sendTransaction(
+      // STEP 6: Send + confirm (bundle Jito si toca, si no RPC con rebroadcast)
+      console.log(`   ⚡ Sending transaction${submission === 'jito' ? ' (Jito bundle)' : ''}...`);
+      const landing = await submitTransaction(
+        this.connection,
         tx,
         [this.wallet],
-        sendOpts,
+        submission,
+        {
+          label: `pump sell ${mint.slice(0, 8)}`,
+          commitment: DEFAULT_COMMITMENT,
+        },
       );
+      console.log(`   📬 ${formatLanding(landing)}`);
+      void this.feeOracle.recordSpend(feePlan, landing);
 
-      console.log('   ⏳ Confirming...');
-      const confirmOpts: ConfirmOptions = {
-        commitment: DEFAULT_COMMITMENT,
-        maxRetries: 3,
-      };
-
-      await this.rateLimiter.request(
-        () => this.connection.confirmTransaction(sig, confirmOpts.commitment),
-        'medium',
-        `confirm:${sig}`,
-      );
+      if (!landing.success) {
+        return this.landingFailure(landing, 'Sell');
+      }
 
       const solReceived = solOut / 1e9;
 
@@ -630,14 +671,15 @@ export class PumpFunExecutor {
           4,
         )} SOL`,
       );
-      console.log(`   Signature: ${sig}`);
+      console.log(`   Signature: ${landing.signature}`);
 
       return {
         success: true,
-        signature: sig,
+        signature: landing.signature,
         solReceived,
         tokensSold: tokenAmount,
         dex: 'Pump.fun',
+        ...landingFields(landing),
       };
     } catch (error: any) {
       console.error(`❌ Sell error: ${error?.message ?? String(error)}`);
@@ -657,46 +699,94 @@ export class PumpFunExecutor {
     }
   }
 
-  // Instruction encoders
-  encodeBuyInstruction(amount: number, maxSolCost: number): Buffer {
-    // Pump.fun buy discriminator
-    const discriminator = Buffer.from([
-      0x66, 0x06, 0x3d, 0x12, 0x01, 0xda, 0xeb, 0xea,
-    ]);
-
-    const amountBuffer = Buffer.alloc(8);
-    amountBuffer.writeBigUInt64LE(BigInt(amount));
-
-    const maxSolCostBuffer = Buffer.alloc(8);
-    maxSolCostBuffer.writeBigUInt64LE(BigInt(maxSolCost));
+  // Tx que no aterrizó (o aterrizó con error): mismo formato que el catch
+  private landingFailure(
+    landing: LandingResult,
+    side: 'Buy' | 'Sell',
+  ): BuyResult & SellResult {
+    console.error(
+      `❌ ${side} ${landing.status}: ${landing.error ?? 'unknown'}`,
+    );
+    if (landing.logs?.length) {
+      console.error('   📋 Transaction logs:');
+      landing.logs
+        .slice(-10)
+        .forEach(log => console.error(`      ${log}`));
+    }
 
-    return Buffer.concat([discriminator, amountBuffer, maxSolCostBuffer]);
+    return {
+      success: false,
+      error: `${landing.status}: ${landing.error ?? 'unknown'}`,
+      dex: 'Pump.fun',
+      // Si aterrizó con error la fee se pagó igual; 'pending' aún puede entrar
+      signature:
+        landing.status === 'failed' || landing.status === 'pending'
+          ? landing.signature
+          : undefined,
+      ...landingFields(landing),
+    };
   }
 
-  encodeSellInstruction(amount: number, minSolOutput: number): Buffer {
-    // Pump.fun sell discriminator
-    const discriminator = Buffer.from([
-      0x33, 0xe6, 0x85, 0xa4, 0x01, 0x7f, 0x83, 0xad,
-    ]);
-
-    const amountBuffer = Buffer.alloc(8);
-    amountBuffer.writeBigUInt64LE(BigInt(amount));
-
-    const minSolOutputBuffer = Buffer.alloc(8);
-    minSolOutputBuffer.writeBigUInt64LE(BigInt(minSolOutput));
+  // Simulation methods
+  private async loadPaperMarket(
+    mint: string,
+  ): Promise<PaperMarketState | null> {
+    if (!PAPER_SIM_ENABLED) return null;
 
-    return Buffer.concat([discriminator, amountBuffer, minSolOutputBuffer]);
+    try {
+      const { getPriceFromBondingCurve } = (await import('./utils.js')) as {
+        getPriceFromBondingCurve: (
+          mint: string,
+          useCache?: boolean,
+        ) => Promise<PaperMarketState | null>;
+      };
+      return await getPriceFromBondingCurve(mint, true);
+    } catch (error: any) {
+      console.log(
+        `   ⚠️ Paper market load failed: ${error?.message ?? String(error)}`,
+      );
+      return null;
+    }
   }
 
-  // Simulation methods
   async simulateBuy(mint: string, solAmount: number): Promise<BuyResult> {
     console.log(
       `📄 [PAPER] BUY: ${mint.slice(0, 8)}... - ${solAmount} SOL`,
     );
 
-    const FEE_PERCENT = 0.01;
-    const estimatedTokens = Math.floor(
-      (solAmount / 0.00000001) * (1 - FEE_PERCENT),
+    const market = await this.loadPaperMarket(mint);
+    const simulator = getPaperSimulator();
+    const fill = market ? simulator.simulateBuy(market, solAmount) : null;
+
+    if (fill) {
+      console.log(`   📄 ${simulator.describe(fill)}`);
+
+      if (!fill.success) {
+        return {
+          success: false,
+          error: fill.error,
+          solSpent: fill.solAmount,
+          dex: fill.venue,
+          simulated: true,
+        };
+      }
+
+      return {
+        success: true,
+        signature: `simulated_buy_${Date.now()}`,
+        tokensReceived: fill.tokensAmount,
+        solSpent: fill.solAmount,
+        dex: fill.venue,
+        simulated: true,
+        executedDex: fill.venue,
+        tokensAmount: fill.tokensAmount,
+        effectivePrice: fill.effectivePrice,
+      };
+    }
+
+    // Fallback sin datos de la curva: asumimos curva recién creada
+    const estimatedTokens = Number(
+      quoteBuy(INITIAL_BONDING_CURVE, BigInt(Math.floor(solAmount * 1e9))).tokensOut,
     );
 
     return {
@@ -721,9 +811,36 @@ export class PumpFunExecutor {
       `📄 [PAPER] SELL: ${mint.slice(0, 8)}... - ${tokenAmount} tokens`,
     );
 
-    const FEE_PERCENT = 0.01;
+    const market = await this.loadPaperMarket(mint);
+    const simulator = getPaperSimulator();
+    const fill = market ? simulator.simulateSell(market, tokenAmount) : null;
+
+    if (fill) {
+      console.log(`   📄 ${simulator.describe(fill)}`);
+
+      if (!fill.success) {
+        return {
+          success: false,
+          error: fill.error,
+          dex: fill.venue,
+          simulated: true,
+        };
+      }
+
+      return {
+        success: true,
+        signature: `simulated_sell_${Date.now()}`,
+        solReceived: fill.solAmount,
+        tokensSold: fill.tokensAmount,
+        dex: fill.venue,
+        simulated: true,
+      };
+    }
+
     const estimatedSol =
-      tokenAmount * 0.00000001 * (1 - FEE_PERCENT);
+      Number(
+        quoteSell(INITIAL_BONDING_CURVE, BigInt(Math.floor(tokenAmount))).netSol,
+      ) / 1e9;
 
     return {
       success: true,
@@ -0,0 +1,287 @@
+// pumpIdl.ts - IDL de Pump.fun (formato Anchor 0.29) + coders tipados
+//
+// Las cuentas Global / BondingCurve y los args de buy / sell se (de)codifican
+// con los coders Borsh de @coral-xyz/anchor a partir de PUMP_IDL, en lugar de
+// leer offsets a mano en cada módulo. Si el programa cambia el layout, se
+// actualiza el IDL aquí y el resto del bot sigue igual.
+//
+// Cuentas antiguas más cortas que el IDL (p. ej. curvas previas al campo
+// creator) se rellenan con ceros hasta el tamaño completo: los campos que
+// faltan salen como 0 / false / null.
+
+import anchor, {
+  BorshAccountsCoder,
+  BorshInstructionCoder,
+  type Idl,
+} from '@coral-xyz/anchor';
+import { PublicKey, type AccountMeta } from '@solana/web3.js';
+import type { BondingCurveState } from './pumpCurve.js';
+
+// --- IDL ---
+
+const account = <N extends string>(name: N, isMut = false, isSigner = false) => ({
+  name,
+  isMut,
+  isSigner,
+});
+
+// Las 14 cuentas de buy / sell (con las 2 de creator fee, mayo 2025).
+// El orden es el de la instrucción on-chain: tradeAccountMetas() lo sigue.
+const BUY_ACCOUNTS = [
+  account('global'),
+  account('feeRecipient', true),
+  account('mint'),
+  account('bondingCurve', true),
+  account('associatedBondingCurve', true),
+  account('associatedUser', true),
+  account('user', true, true),
+  account('systemProgram'),
+  account('tokenProgram'),
+  account('rent'),
+  account('eventAuthority'),
+  account('program'),
+  account('coinCreatorVaultAuthority'),
+  account('coinCreatorVaultAta', true),
+];
+
+// sell: associatedTokenProgram en lugar de rent, antes de tokenProgram
+const SELL_ACCOUNTS = [
+  account('global'),
+  account('feeRecipient', true),
+  account('mint'),
+  account('bondingCurve', true),
+  account('associatedBondingCurve', true),
+  account('associatedUser', true),
+  account('user', true, true),
+  account('systemProgram'),
+  account('associatedTokenProgram'),
+  account('tokenProgram'),
+  account('eventAuthority'),
+  account('program'),
+  account('coinCreatorVaultAuthority'),
+  account('coinCreatorVaultAta', true),
+];
+
+export const PUMP_IDL = {
+  version: '0.1.0',
+  name: 'pump',
+  instructions: [
+    {
+      name: 'buy',
+      accounts: BUY_ACCOUNTS,
+      args: [
+        { name: 'amount', type: 'u64' },
+        { name: 'maxSolCost', type: 'u64' },
+      ],
+    },
+    {
+      name: 'sell',
+      accounts: SELL_ACCOUNTS,
+      args: [
+        { name: 'amount', type: 'u64' },
+        { name: 'minSolOutput', type: 'u64' },
+      ],
+    },
+  ],
+  accounts: [
+    {
+      name: 'Global',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'initialized', type: 'bool' },
+          { name: 'authority', type: 'publicKey' },
+          { name: 'feeRecipient', type: 'publicKey' },
+          { name: 'initialVirtualTokenReserves', type: 'u64' },
+          { name: 'initialVirtualSolReserves', type: 'u64' },
+          { name: 'initialRealTokenReserves', type: 'u64' },
+          { name: 'tokenTotalSupply', type: 'u64' },
+          { name: 'feeBasisPoints', type: 'u64' },
+          { name: 'withdrawAuthority', type: 'publicKey' },
+          { name: 'enableMigrate', type: 'bool' },
+          { name: 'poolMigrationFee', type: 'u64' },
+          { name: 'creatorFeeBasisPoints', type: 'u64' },
+          { name: 'feeRecipients', type: { array: ['publicKey', 7] } },
+          { name: 'setCreatorAuthority', type: 'publicKey' },
+        ],
+      },
+    },
+    {
+      name: 'BondingCurve',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'virtualTokenReserves', type: 'u64' },
+          { name: 'virtualSolReserves', type: 'u64' },
+          { name: 'realTokenReserves', type: 'u64' },
+          { name: 'realSolReserves', type: 'u64' },
+          { name: 'tokenTotalSupply', type: 'u64' },
+          { name: 'complete', type: 'bool' },
+          { name: 'creator', type: 'publicKey' },
+        ],
+      },
+    },
+  ],
+} as Idl;
+
+// --- Tipos públicos ---
+
+export interface PumpGlobalState {
+  initialized: boolean;
+  authority: PublicKey;
+  feeRecipient: PublicKey;
+  feeRecipients: PublicKey[]; // alternativos (sin los vacíos)
+  initialVirtualTokenReserves: bigint;
+  initialVirtualSolReserves: bigint;
+  initialRealTokenReserves: bigint;
+  tokenTotalSupply: bigint;
+  feeBasisPoints: bigint;
+  creatorFeeBasisPoints: bigint;
+}
+
+export interface PumpBondingCurveAccount extends BondingCurveState {
+  creator: PublicKey | null; // null = curva antigua sin creator
+}
+
+export type PumpTradeInstruction = 'buy' | 'sell';
+
+// Cuenta por nombre del IDL (la unión de buy y sell)
+export type PumpTradeAccounts = Record<
+  (typeof BUY_ACCOUNTS | typeof SELL_ACCOUNTS)[number]['name'],
+  PublicKey
+>;
+
+// --- Coders ---
+
+const { BN } = anchor;
+
+const accountsCoder = new BorshAccountsCoder(PUMP_IDL);
+const instructionCoder = new BorshInstructionCoder(PUMP_IDL);
+
+const ACCOUNT_SIZES = new Map(
+  PUMP_IDL.accounts.map(def => [def.name, accountsCoder.size(def)]),
+);
+
+function toBigInt(value: { toString(): string } | null | undefined): bigint {
+  return value ? BigInt(value.toString()) : 0n;
+}
+
+function nonDefault(key: PublicKey | null | undefined): PublicKey | null {
+  return key && !key.equals(PublicKey.default) ? key : null;
+}
+
+// Comprueba el discriminator y rellena hasta el tamaño del IDL
+function decodeAccount<T>(name: string, data: Buffer): T | null {
+  const size = ACCOUNT_SIZES.get(name) ?? 0;
+  if (!data || data.length < 8) return null;
+
+  const padded =
+    data.length >= size ? data : Buffer.concat([data, Buffer.alloc(size - data.length)]);
+
+  try {
+    return accountsCoder.decode<T>(name, padded);
+  } catch {
+    return null;
+  }
+}
+
+// --- Decoders ---
+
+export function decodeBondingCurveAccount(
+  data: Buffer,
+): PumpBondingCurveAccount | null {
+  const raw = decodeAccount<any>('BondingCurve', data);
+  if (!raw) return null;
+
+  return {
+    virtualTokenReserves: toBigInt(raw.virtualTokenReserves),
+    virtualSolReserves: toBigInt(raw.virtualSolReserves),
+    realTokenReserves: toBigInt(raw.realTokenReserves),
+    realSolReserves: toBigInt(raw.realSolReserves),
+    tokenTotalSupply: toBigInt(raw.tokenTotalSupply),
+    complete: Boolean(raw.complete),
+    creator: nonDefault(raw.creator),
+  };
+}
+
+export function decodeGlobalAccount(data: Buffer): PumpGlobalState | null {
+  const raw = decodeAccount<any>('Global', data);
+  if (!raw) return null;
+
+  return {
+    initialized: Boolean(raw.initialized),
+    authority: raw.authority,
+    feeRecipient: raw.feeRecipient,
+    feeRecipients: ((raw.feeRecipients ?? []) as PublicKey[])
+      .map(nonDefault)
+      .filter((key): key is PublicKey => key !== null),
+    initialVirtualTokenReserves: toBigInt(raw.initialVirtualTokenReserves),
+    initialVirtualSolReserves: toBigInt(raw.initialVirtualSolReserves),
+    initialRealTokenReserves: toBigInt(raw.initialRealTokenReserves),
+    tokenTotalSupply: toBigInt(raw.tokenTotalSupply),
+    feeBasisPoints: toBigInt(raw.feeBasisPoints),
+    creatorFeeBasisPoints: toBigInt(raw.creatorFeeBasisPoints),
+  };
+}
+
+// --- Encoders de instrucciones ---
+
+export function encodeBuyData(
+  amount: bigint | number,
+  maxSolCost: bigint | number,
+): Buffer {
+  return instructionCoder.encode('buy', {
+    amount: new BN(BigInt(amount).toString()),
+    maxSolCost: new BN(BigInt(maxSolCost).toString()),
+  });
+}
+
+export function encodeSellData(
+  amount: bigint | number,
+  minSolOutput: bigint | number,
+): Buffer {
+  return instructionCoder.encode('sell', {
+    amount: new BN(BigInt(amount).toString()),
+    minSolOutput: new BN(BigInt(minSolOutput).toString()),
+  });
+}
+
+// --- Cuentas de instrucciones ---
+
+/**
+ * AccountMeta[] de buy / sell en el orden y con los flags del IDL: el
+ * executor solo resuelve cada cuenta por nombre.
+ */
+export function tradeAccountMetas(
+  instruction: PumpTradeInstruction,
+  accounts: PumpTradeAccounts,
+): AccountMeta[] {
+  const def = PUMP_IDL.instructions.find(ix => ix.name === instruction);
+  if (!def) throw new Error(`Pump IDL: unknown instruction ${instruction}`);
+
+  return def.accounts.map(item => {
+    if ('accounts' in item) {
+      throw new Error(`Pump IDL: nested accounts not supported (${item.name})`);
+    }
+    const pubkey = accounts[item.name as keyof PumpTradeAccounts];
+    if (!pubkey) {
+      throw new Error(`Pump IDL: missing account ${item.name} for ${instruction}`);
+    }
+    return { pubkey, isSigner: item.isSigner, isWritable: item.isMut };
+  });
+}
+
+// --- PDAs fijas del programa ---
+
+export function pumpGlobalPDA(programId: PublicKey): PublicKey {
+  const [pda] = PublicKey.findProgramAddressSync([Buffer.from('global')], programId);
+  return pda;
+}
+
+export function pumpEventAuthorityPDA(programId: PublicKey): PublicKey {
+  const [pda] = PublicKey.findProgramAddressSync(
+    [Buffer.from('__event_authority')],
+    programId,
+  );
+  return pda;
+}
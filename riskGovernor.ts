@@ -0,0 +1,394 @@
+// riskGovernor.ts - Límites de riesgo a nivel portfolio (TypeScript)
+//
+// Se consulta ANTES de cada compra (copy, sniper, manual):
+//   1. Kill switch persistente en Redis (manual: Telegram / API)
+//   2. Circuit breaker por pérdidas consecutivas (con cooldown)
+//   3. Pérdida realizada diaria máxima
+//   4. SOL total en riesgo (posiciones abiertas)
+//   5. Exposición máxima por wallet líder y por creador del token
+//
+// Todos los límites en 0 = desactivados.
+
+import { Redis as RedisClass } from 'ioredis';
+import type { Redis as RedisClient } from 'ioredis';
+import type { Position } from './riskManager.js';
+import {
+  RISK_DAILY_LOSS_LIMIT_SOL,
+  RISK_MAX_TOTAL_SOL,
+  RISK_MAX_SOL_PER_WALLET,
+  RISK_MAX_SOL_PER_CREATOR,
+  RISK_MAX_CONSECUTIVE_LOSSES,
+  RISK_BREAKER_COOLDOWN_MINUTES,
+  TELEGRAM_OWNER_CHAT_ID,
+} from './environment.js';
+import { redisNamespace } from './profiles.js';
+
+// --- Tipos públicos ---
+
+export interface BuyRiskRequest {
+  mint: string;
+  solAmount: number;
+  strategy: string;
+  walletSource?: string;
+  creator?: string;
+}
+
+export interface RiskCheckResult {
+  allowed: boolean;
+  reason?: string;
+}
+
+export interface KillSwitchState {
+  active: boolean;
+  reason?: string;
+  setBy?: string;
+  setAt?: number;
+}
+
+export interface RiskStatus {
+  killSwitch: KillSwitchState;
+  breaker: { active: boolean; reason?: string; ttlSeconds?: number };
+  consecutiveLosses: number;
+  dailyRealizedPnl: number;
+  openExposureSol: number;
+  limits: {
+    dailyLossLimitSol: number;
+    maxTotalSol: number;
+    maxSolPerWallet: number;
+    maxSolPerCreator: number;
+    maxConsecutiveLosses: number;
+    breakerCooldownMinutes: number;
+  };
+}
+
+// --- Keys Redis ---
+
+const KILL_SWITCH_KEY = 'risk:kill_switch';
+const BREAKER_KEY = 'risk:breaker';
+const CONSECUTIVE_LOSSES_KEY = 'risk:consecutive_losses';
+
+function todayKey(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Actualiza la racha de pérdidas. Lo llama PositionManager.closePosition.
+ */
+export async function recordTradeOutcome(
+  redis: RedisClient,
+  pnlSol: number,
+): Promise<void> {
+  if (pnlSol < 0) {
+    await redis.incr(CONSECUTIVE_LOSSES_KEY);
+  } else {
+    await redis.set(CONSECUTIVE_LOSSES_KEY, '0');
+  }
+}
+
+// --- Clase principal ---
+
+export class RiskGovernor {
+  private readonly redis: RedisClient;
+
+  constructor(redis?: RedisClient) {
+    this.redis =
+      redis ??
+      new RedisClass(process.env.REDIS_URL as string, {
+        maxRetriesPerRequest: null,
+      });
+  }
+
+  // 🛑 KILL SWITCH
+
+  async getKillSwitch(): Promise<KillSwitchState> {
+    const raw = (await this.redis.hgetall(KILL_SWITCH_KEY)) as Record<
+      string,
+      string
+    >;
+    if (!raw || raw.active !== 'true') {
+      return { active: false };
+    }
+    return {
+      active: true,
+      reason: raw.reason,
+      setBy: raw.setBy,
+      setAt: raw.setAt ? Number(raw.setAt) : undefined,
+    };
+  }
+
+  async setKillSwitch(
+    active: boolean,
+    reason: string,
+    setBy: string,
+  ): Promise<KillSwitchState> {
+    if (!active) {
+      await this.redis.del(KILL_SWITCH_KEY);
+      await this.alert(`🟢 KILL SWITCH RELEASED\nBy: ${setBy}`);
+      return { active: false };
+    }
+
+    const state: KillSwitchState = {
+      active: true,
+      reason,
+      setBy,
+      setAt: Date.now(),
+    };
+
+    await this.redis.hset(KILL_SWITCH_KEY, {
+      active: 'true',
+      reason,
+      setBy,
+      setAt: String(state.setAt),
+    });
+    await this.alert(`🛑 KILL SWITCH ENGAGED\nReason: ${reason}\nBy: ${setBy}`);
+
+    return state;
+  }
+
+  // ⚡ CIRCUIT BREAKER (pérdidas consecutivas)
+
+  private async getConsecutiveLosses(): Promise<number> {
+    const raw = await this.redis.get(CONSECUTIVE_LOSSES_KEY);
+    return raw ? parseInt(raw, 10) || 0 : 0;
+  }
+
+  private async checkBreaker(): Promise<RiskCheckResult> {
+    const active = await this.redis.get(BREAKER_KEY);
+    if (active) {
+      return { allowed: false, reason: `circuit_breaker (${active})` };
+    }
+
+    if (RISK_MAX_CONSECUTIVE_LOSSES <= 0) {
+      return { allowed: true };
+    }
+
+    const losses = await this.getConsecutiveLosses();
+    if (losses < RISK_MAX_CONSECUTIVE_LOSSES) {
+      return { allowed: true };
+    }
+
+    const reason = `${losses} consecutive losses`;
+    await this.redis.setex(
+      BREAKER_KEY,
+      Math.max(RISK_BREAKER_COOLDOWN_MINUTES, 1) * 60,
+      reason,
+    );
+    // La racha se reinicia: al terminar el cooldown volvemos a contar
+    await this.redis.set(CONSECUTIVE_LOSSES_KEY, '0');
+
+    await this.alert(
+      `⚡ CIRCUIT BREAKER TRIPPED\n${reason}\n` +
+        `Buying paused for ${RISK_BREAKER_COOLDOWN_MINUTES} min`,
+    );
+
+    return { allowed: false, reason: `circuit_breaker (${reason})` };
+  }
+
+  // 📉 PÉRDIDA DIARIA
+
+  async getDailyRealizedPnl(): Promise<number> {
+    const entries = await this.redis.lrange(`trades:${todayKey()}`, 0, -1);
+    let total = 0;
+    for (const entry of entries) {
+      try {
+        const record = JSON.parse(entry) as { pnlSOL?: string };
+        const pnl = parseFloat(record.pnlSOL ?? '0');
+        if (Number.isFinite(pnl)) total += pnl;
+      } catch {
+        // ignore malformed entries
+      }
+    }
+    return total;
+  }
+
+  // 💼 EXPOSICIÓN
+
+  private async getOpenPositions(): Promise<Position[]> {
+    const mints = await this.redis.smembers('open_positions');
+    const positions: Position[] = [];
+    for (const mint of mints) {
+      const data = await this.redis.hgetall(`position:${mint}`);
+      if (data && Object.keys(data).length > 0) {
+        positions.push({ ...(data as unknown as Position), mint });
+      }
+    }
+    return positions;
+  }
+
+  private sumSol(positions: Position[]): number {
+    return positions.reduce(
+      (acc, p) => acc + (parseFloat(p.solAmount ?? '0') || 0),
+      0,
+    );
+  }
+
+  // ✅ CHECK PRINCIPAL
+
+  async checkBuy(request: BuyRiskRequest): Promise<RiskCheckResult> {
+    const result = await this.evaluate(request);
+
+    if (!result.allowed) {
+      console.log(
+        `   🛡️ RISK BLOCK (${request.strategy} ${request.mint.slice(
+          0,
+          8,
+        )}...): ${result.reason}`,
+      );
+    }
+
+    return result;
+  }
+
+  private async evaluate(request: BuyRiskRequest): Promise<RiskCheckResult> {
+    const killSwitch = await this.getKillSwitch();
+    if (killSwitch.active) {
+      return {
+        allowed: false,
+        reason: `kill_switch (${killSwitch.reason ?? 'manual'})`,
+      };
+    }
+
+    const breaker = await this.checkBreaker();
+    if (!breaker.allowed) return breaker;
+
+    if (RISK_DAILY_LOSS_LIMIT_SOL > 0) {
+      const dailyPnl = await this.getDailyRealizedPnl();
+      if (dailyPnl <= -RISK_DAILY_LOSS_LIMIT_SOL) {
+        await this.alertOncePerDay(
+          'daily_loss',
+          `📉 DAILY LOSS LIMIT HIT\nRealized: ${dailyPnl.toFixed(4)} SOL\n` +
+            `Limit: -${RISK_DAILY_LOSS_LIMIT_SOL} SOL\nBuying paused until tomorrow (UTC)`,
+        );
+        return {
+          allowed: false,
+          reason: `daily_loss_limit (${dailyPnl.toFixed(4)} SOL)`,
+        };
+      }
+    }
+
+    const needsPositions =
+      RISK_MAX_TOTAL_SOL > 0 ||
+      RISK_MAX_SOL_PER_WALLET > 0 ||
+      RISK_MAX_SOL_PER_CREATOR > 0;
+    if (!needsPositions) {
+      return { allowed: true };
+    }
+
+    const positions = await this.getOpenPositions();
+
+    if (RISK_MAX_TOTAL_SOL > 0) {
+      const atRisk = this.sumSol(positions) + request.solAmount;
+      if (atRisk > RISK_MAX_TOTAL_SOL) {
+        return {
+          allowed: false,
+          reason: `max_total_exposure (${atRisk.toFixed(
+            4,
+          )}/${RISK_MAX_TOTAL_SOL} SOL)`,
+        };
+      }
+    }
+
+    if (RISK_MAX_SOL_PER_WALLET > 0 && request.walletSource) {
+      const walletExposure =
+        this.sumSol(
+          positions.filter(p => p.walletSource === request.walletSource),
+        ) + request.solAmount;
+      if (walletExposure > RISK_MAX_SOL_PER_WALLET) {
+        return {
+          allowed: false,
+          reason: `max_wallet_exposure (${walletExposure.toFixed(
+            4,
+          )}/${RISK_MAX_SOL_PER_WALLET} SOL)`,
+        };
+      }
+    }
+
+    if (RISK_MAX_SOL_PER_CREATOR > 0 && request.creator) {
+      const creatorExposure =
+        this.sumSol(positions.filter(p => p.creator === request.creator)) +
+        request.solAmount;
+      if (creatorExposure > RISK_MAX_SOL_PER_CREATOR) {
+        return {
+          allowed: false,
+          reason: `max_creator_exposure (${creatorExposure.toFixed(
+            4,
+          )}/${RISK_MAX_SOL_PER_CREATOR} SOL)`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  // 📊 STATUS (para /status en Telegram y API)
+
+  async getStatus(): Promise<RiskStatus> {
+    const [killSwitch, breakerReason, breakerTtl, losses, dailyPnl, positions] =
+      await Promise.all([
+        this.getKillSwitch(),
+        this.redis.get(BREAKER_KEY),
+        this.redis.ttl(BREAKER_KEY),
+        this.getConsecutiveLosses(),
+        this.getDailyRealizedPnl(),
+        this.getOpenPositions(),
+      ]);
+
+    return {
+      killSwitch,
+      breaker: breakerReason
+        ? { active: true, reason: breakerReason, ttlSeconds: breakerTtl }
+        : { active: false },
+      consecutiveLosses: losses,
+      dailyRealizedPnl: dailyPnl,
+      openExposureSol: this.sumSol(positions),
+      limits: {
+        dailyLossLimitSol: RISK_DAILY_LOSS_LIMIT_SOL,
+        maxTotalSol: RISK_MAX_TOTAL_SOL,
+        maxSolPerWallet: RISK_MAX_SOL_PER_WALLET,
+        maxSolPerCreator: RISK_MAX_SOL_PER_CREATOR,
+        maxConsecutiveLosses: RISK_MAX_CONSECUTIVE_LOSSES,
+        breakerCooldownMinutes: RISK_BREAKER_COOLDOWN_MINUTES,
+      },
+    };
+  }
+
+  // --- Alertas ---
+
+  private async alertOncePerDay(type: string, message: string): Promise<void> {
+    const key = `risk:alerted:${type}:${todayKey()}`;
+    const first = await this.redis.set(key, '1', 'EX', 24 * 3600, 'NX');
+    if (first) {
+      await this.alert(message);
+    }
+  }
+
+  private async alert(message: string): Promise<void> {
+    console.log(`\n${message}\n`);
+    if (!TELEGRAM_OWNER_CHAT_ID) return;
+
+    try {
+      // import dinámico: telegram.ts también usa el governor
+      const { sendTelegramAlert } = await import('./telegram.js');
+      await sendTelegramAlert(TELEGRAM_OWNER_CHAT_ID, message, false);
+    } catch (error: any) {
+      console.log(
+        '⚠️ Risk alert failed:',
+        error?.message ?? String(error),
+      );
+    }
+  }
+}
+
+// --- SINGLETON (uno por namespace Redis / perfil) ---
+
+const governors = new Map<string, RiskGovernor>();
+
+export function getRiskGovernor(redis?: RedisClient): RiskGovernor {
+  const namespace = redisNamespace(redis);
+  let governor = governors.get(namespace);
+  if (!governor) {
+    governor = new RiskGovernor(redis);
+    governors.set(namespace, governor);
+  }
+  return governor;
+}
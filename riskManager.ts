@@ -3,7 +3,19 @@
 import { Redis as RedisClass } from 'ioredis';
 import type { Redis as RedisClient } from 'ioredis';
 import { safeParseNumber, safeDivide } from './safeNumberUtils.js';
-import { isDryRunEnabled } from './environment.js';
+import {
+  isDryRunEnabled,
+  PAPER_SIM_ENABLED,
+  PAPER_WALLET_ENABLED,
+} from './environment.js';
+import { recordTradeOutcome } from './riskGovernor.js';
+import { getPaperWallet } from './paperWallet.js';
+import { recordWalletOutcome, type ClosedCopyTrade } from './walletScoring.js';
+import {
+  resolveTokenMetadata,
+  cachedTokenMetadata,
+  metadataPositionFields,
+} from './tokenMetadata.js';
 
 const DRY_RUN_MODE = isDryRunEnabled();
 
@@ -44,6 +56,8 @@ export interface Position {
   walletName?: string;
   upvotes?: string;
   buyers?: string;
+  consensus?: string;
+  consensusScore?: string;
   watchers?: string;
   sourceWallet?: string;
   originalSignature?: string;
@@ -58,6 +72,18 @@ export interface Position {
   dex?: string;
   strategyTag?: string;
   symbol?: string;
+  creator?: string;
+  sizingMode?: string;
+
+  // Metadata del token (tokenMetadata.ts)
+  tokenName?: string;
+  tokenImage?: string;
+  tokenTwitter?: string;
+  tokenTelegram?: string;
+  tokenWebsite?: string;
+
+  // Propinas Jito acumuladas (compra + ventas parciales), ver jitoBundles.ts
+  jitoTipSOL?: string;
 
   status: 'open' | 'closed';
 
@@ -75,6 +101,7 @@ export interface Position {
   pnlPercent?: string;
   closeSignature?: string;
   closeReason?: string;
+  exitRequestedBy?: string;
 }
 
 export interface ClosedPosition {
@@ -101,12 +128,21 @@ type RegisterOpenPositionInput = {
 
 export class PositionManager {
   private readonly redis: RedisClient;
+  private readonly dryRun: boolean;
   private static readonly ESTIMATED_NETWORK_FEE_SOL = 5_000 / 1_000_000_000; // 5000 lamports ≈ 0.000005 SOL
 
   constructor(
     redisOrConfig?: RedisClient | Record<string, unknown>,
     redisInstance?: RedisClient,
   ) {
+    // { dryRun } en config: modo del perfil (profiles.ts) en vez del global
+    const configDryRun =
+      !isRedisInstance(redisOrConfig) &&
+      typeof redisOrConfig?.dryRun === 'boolean'
+        ? redisOrConfig.dryRun
+        : undefined;
+    this.dryRun = configDryRun ?? DRY_RUN_MODE;
+
     if (redisInstance) {
       this.redis = redisInstance;
     } else if (isRedisInstance(redisOrConfig)) {
@@ -163,12 +199,18 @@ export class PositionManager {
       executedDex: data.executedDex ? String(data.executedDex) : undefined,
       status: 'open',
       // defaults para analíticas
-      mode: DRY_RUN_MODE ? 'DRY' : 'LIVE',
+      mode: this.dryRun ? 'DRY' : 'LIVE',
       entrySource: data.strategy || 'UNKNOWN',
       dex: undefined,
       strategyTag: data.strategy,
-      symbol: data.mint,
+      symbol:
+        typeof data.symbol === 'string' && data.symbol.trim()
+          ? data.symbol.trim()
+          : data.mint,
     };
+    if (typeof data.tokenName === 'string' && data.tokenName.trim()) {
+      position.tokenName = data.tokenName.trim();
+    }
 
     const signature =
       data.buySignature ?? (typeof data.originalSignature === 'string'
@@ -180,6 +222,26 @@ export class PositionManager {
     if (typeof data.originalDex === 'string') {
       position.originalDex = data.originalDex;
     }
+    if (typeof data.creator === 'string' && data.creator) {
+      position.creator = data.creator;
+    }
+    if (typeof data.sizingMode === 'string' && data.sizingMode) {
+      position.sizingMode = data.sizingMode;
+    }
+    // Wallets que dieron la señal (CSV): walletScoring atribuye el resultado
+    if (Array.isArray(data.buyers) && data.buyers.length > 0) {
+      position.buyers = data.buyers.map(String).join(',');
+    }
+    // Desglose del consenso ponderado (JSON, ver upvoteConsensus.ts)
+    if (typeof data.consensus === 'string' && data.consensus) {
+      position.consensus = data.consensus;
+    }
+    if (typeof data.consensusScore === 'number' && Number.isFinite(data.consensusScore)) {
+      position.consensusScore = data.consensusScore.toString();
+    }
+    if (typeof data.jitoTipSol === 'number' && data.jitoTipSol > 0) {
+      position.jitoTipSOL = data.jitoTipSol.toString();
+    }
 
     await this.redis.sadd('open_positions', data.mint);
     await this.redis.hset(
@@ -191,6 +253,67 @@ export class PositionManager {
         return acc;
       }, {}),
     );
+
+    // 🏷️ Nombre / símbolo / links en segundo plano (no retrasa la compra)
+    void this.enrichPositionMetadata(data.mint);
+  }
+
+  private async enrichPositionMetadata(mint: string): Promise<void> {
+    try {
+      const meta = await resolveTokenMetadata(mint);
+      if (!meta) return;
+
+      const fields = metadataPositionFields(meta);
+      if (Object.keys(fields).length === 0) return;
+
+      // Si ya se cerró y se limpió, no la resucitamos
+      if (!(await this.redis.exists(`position:${mint}`))) return;
+      await this.redis.hset(`position:${mint}`, fields);
+    } catch (error: any) {
+      console.log(
+        '⚠️ Token metadata enrichment failed:',
+        error?.message ?? String(error),
+      );
+    }
+  }
+
+  // Metadata de un cierre sin símbolo: position:<mint> + su fila en trades:<día>
+  private async enrichClosedTrade(
+    mint: string,
+    dayKey: string,
+    index: number,
+    row: string,
+  ): Promise<void> {
+    try {
+      const meta = await resolveTokenMetadata(mint);
+      if (!meta) return;
+
+      const fields = metadataPositionFields(meta);
+      if (Object.keys(fields).length === 0) return;
+
+      if (await this.redis.exists(`position:${mint}`)) {
+        await this.redis.hset(`position:${mint}`, fields);
+      }
+
+      // trades:<día> es append-only: la fila sigue en su índice salvo que la borren
+      if ((await this.redis.lindex(dayKey, index)) !== row) return;
+      await this.redis.lset(
+        dayKey,
+        index,
+        JSON.stringify({ ...JSON.parse(row), ...fields }),
+      );
+    } catch (error: any) {
+      console.log(
+        '⚠️ Closed trade metadata enrichment failed:',
+        error?.message ?? String(error),
+      );
+    }
+  }
+
+  // Propina de una venta parcial enviada por bundle: se descuenta al cerrar
+  async addJitoTip(mint: string, tipSol: number): Promise<void> {
+    if (!Number.isFinite(tipSol) || tipSol <= 0) return;
+    await this.redis.hincrbyfloat(`position:${mint}`, 'jitoTipSOL', tipSol);
   }
 
   // Mantener API usada por copyMonitor.ts
@@ -295,6 +418,7 @@ export class PositionManager {
     solReceived?: number,
     reason?: string,
     closeSignature?: string,
+    exitTipSol?: number,
   ): Promise<ClosedPosition> {
     const key = `position:${mint}`;
     const raw = await this.redis.hgetall(key);
@@ -347,9 +471,16 @@ export class PositionManager {
         ? solReceived
         : fallbackSolValue;
 
-    const estimatedFees = DRY_RUN_MODE
-      ? 0
-      : PositionManager.ESTIMATED_NETWORK_FEE_SOL;
+    // Propinas Jito: la de la compra / parciales (en la posición) + esta venta
+    const jitoTipSol =
+      safeParseNumber(raw.jitoTipSOL, 0, 'position.jitoTipSOL') +
+      (typeof exitTipSol === 'number' && exitTipSol > 0 ? exitTipSol : 0);
+
+    // En paper con simulador realista también cobramos la fee base de red
+    const estimatedFees =
+      (this.dryRun && !PAPER_SIM_ENABLED
+        ? 0
+        : PositionManager.ESTIMATED_NETWORK_FEE_SOL) + jitoTipSol;
 
     const realizedSol = Math.max(safeSolReceived - estimatedFees, 0);
     const pnlSOL = realizedSol - costBasis;
@@ -368,12 +499,24 @@ export class PositionManager {
       maxPrice: raw.maxPrice ?? raw.highPrice ?? undefined,
       minPnlPercent: raw.minPnlPercent,
       maxPnlPercent: raw.maxPnlPercent,
+      jitoTipSOL: jitoTipSol > 0 ? jitoTipSol.toString() : undefined,
     };
 
     if (Number.isFinite(avgEntryPrice) && avgEntryPrice > 0) {
       updated.entryPrice = avgEntryPrice.toString();
     }
 
+    // Posiciones sin metadata (símbolo = mint): aquí solo cache, sin RPC;
+    // si no está, se completa en segundo plano tras escribir el trade
+    let missingMetadata = !raw.symbol || raw.symbol === mint;
+    if (missingMetadata) {
+      const meta = await cachedTokenMetadata(mint);
+      if (meta) {
+        Object.assign(updated, metadataPositionFields(meta));
+        missingMetadata = !updated.symbol;
+      }
+    }
+
     if (closeSignature) {
       updated.closeSignature = closeSignature;
     }
@@ -408,10 +551,10 @@ export class PositionManager {
       costBasis: costBasis.toString(),
       estimatedFees: estimatedFees.toString(),
       avgEntryPrice: avgEntryPrice.toString(),
-      simulated: DRY_RUN_MODE ? 'true' : 'false',
+      simulated: this.dryRun ? 'true' : 'false',
 
       // Campos para analytics.Trade
-      symbol: (raw as any).symbol ?? mint,
+      symbol: updated.symbol ?? (raw as any).symbol ?? mint,
       entryTime: raw.entryTime ?? closeTime,
       exitTime: closeTime,
       entryPrice: avgEntryPriceStr,
@@ -422,7 +565,7 @@ export class PositionManager {
       reason: reason ?? raw.closeReason ?? '',
 
       // Metadata para modo / fuente / dex / estrategia
-      mode: (raw as any).mode ?? (DRY_RUN_MODE ? 'DRY' : 'LIVE'),
+      mode: (raw as any).mode ?? (this.dryRun ? 'DRY' : 'LIVE'),
       entrySource:
         (raw as any).entrySource ??
         raw.strategy ??
@@ -439,7 +582,41 @@ export class PositionManager {
         '',
     };
 
-    await this.redis.rpush(dayKey, JSON.stringify(tradeRecord));
+    const tradeRow = JSON.stringify(tradeRecord);
+    const dayLength = await this.redis.rpush(dayKey, tradeRow);
+    if (missingMetadata) {
+      void this.enrichClosedTrade(mint, dayKey, dayLength - 1, tradeRow);
+    }
+    await recordTradeOutcome(this.redis, pnlSOL);
+
+    // 🏅 Score de las wallets de origen (copied_from:<address>)
+    try {
+      await recordWalletOutcome(
+        this.redis,
+        tradeRecord as unknown as ClosedCopyTrade,
+      );
+    } catch (error: any) {
+      console.log(
+        '⚠️ Wallet scoring failed:',
+        error?.message ?? String(error),
+      );
+    }
+
+    // 📄 Paper wallet: la venta simulada devuelve el SOL al saldo virtual
+    if (this.dryRun && PAPER_WALLET_ENABLED) {
+      try {
+        await getPaperWallet(this.redis).creditSell(
+          mint,
+          realizedSol,
+          normalizedTokensSold,
+        );
+      } catch (error: any) {
+        console.log(
+          '⚠️ Paper wallet credit failed:',
+          error?.message ?? String(error),
+        );
+      }
+    }
 
     return {
       pnlSOL: pnlSOL.toString(),
@@ -0,0 +1,408 @@
+// rugGuard.ts - Vigilancia de creador y bonding curve de posiciones abiertas
+//
+// Por cada posición abierta en Pump.fun se suscribe a:
+//   - logs de la wallet del creador → si vende el token: dev_sold
+//   - cuenta de la bonding curve    → si el SOL real cae de golpe (dump de un
+//     holder grande) o se vacía respecto al máximo (retirada de liquidez):
+//     rug_detected
+//
+// No vende directamente: igual que GraduationHandler, pide la salida por
+// force_exit:<mint> y copyMonitor la ejecuta en su siguiente ciclo con el
+// executeSell normal.
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import type { AccountInfo, Logs } from '@solana/web3.js';
+import type { Redis as RedisClient } from 'ioredis';
+import {
+  RUG_GUARD_SYNC_INTERVAL_SECONDS,
+  RUG_EXIT_ON_DEV_SELL,
+  RUG_LIQUIDITY_DROP_PERCENT,
+  RUG_HOLDER_DUMP_PERCENT,
+  RUG_MIN_REAL_SOL,
+  TELEGRAM_OWNER_CHAT_ID,
+} from './environment.js';
+import { getRateLimiter } from './rpcRateLimiter.js';
+import { requestForceExit } from './forceExit.js';
+import { getTokenSafetyService } from './tokenSafety.js';
+import { PUMP_PROGRAM_ID } from './pumpFunExecutor.js';
+import { decodeBondingCurveAccount } from './pumpIdl.js';
+
+// --- Tipos ---
+
+export type RugSignalReason = 'dev_sold' | 'rug_detected';
+
+export interface RugSignal {
+  mint: string;
+  reason: RugSignalReason;
+  detail: string;
+  detectedAt: number;
+  signature?: string;
+}
+
+interface CurveState {
+  realSolReserves: number; // SOL
+  complete: boolean;
+  creator: string | null;
+}
+
+interface WatchedPosition {
+  mint: string;
+  creator: string | null;
+  bondingCurve: PublicKey;
+  peakRealSol: number;
+  lastRealSol: number;
+  curveSubscriptionId: number | null;
+  creatorSubscriptionId: number | null;
+  triggered: boolean;
+}
+
+const FORCE_EXIT_TTL_SECONDS = 120;
+
+// --- Decodificación de la bonding curve (IDL, ver pumpIdl.ts) ---
+
+function decodeCurve(data: Buffer): CurveState | null {
+  const account = decodeBondingCurveAccount(data);
+  if (!account) return null;
+
+  return {
+    realSolReserves: Number(account.realSolReserves) / 1e9,
+    complete: account.complete,
+    creator: account.creator?.toBase58() ?? null,
+  };
+}
+
+function bondingCurvePDA(mint: PublicKey): PublicKey {
+  const [pda] = PublicKey.findProgramAddressSync(
+    [Buffer.from('bonding-curve'), mint.toBuffer()],
+    PUMP_PROGRAM_ID,
+  );
+  return pda;
+}
+
+// --- Clase principal ---
+
+export class RugGuard {
+  private readonly connection: Connection;
+  private readonly redis: RedisClient;
+  private readonly tag: string;
+  private readonly watched = new Map<string, WatchedPosition>();
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private isSyncing = false;
+
+  constructor(redis: RedisClient, tag = '', connectionOverride?: Connection) {
+    if (!process.env.RPC_URL && !connectionOverride) {
+      throw new Error('Missing RPC_URL for RugGuard');
+    }
+
+    this.redis = redis;
+    this.tag = tag;
+    this.connection =
+      connectionOverride ??
+      new Connection(process.env.RPC_URL as string, 'confirmed');
+
+    console.log(`🛡️ ${tag}Rug Guard initialized`);
+    console.log(`   Dev sell exit: ${RUG_EXIT_ON_DEV_SELL ? 'YES' : 'NO'}`);
+    console.log(
+      `   Liquidity drop: -${RUG_LIQUIDITY_DROP_PERCENT}% from peak | ` +
+        `Holder dump: -${RUG_HOLDER_DUMP_PERCENT}% in one update`,
+    );
+  }
+
+  start(): void {
+    if (this.syncTimer) return;
+    void this.sync();
+    this.syncTimer = setInterval(
+      () => void this.sync(),
+      Math.max(RUG_GUARD_SYNC_INTERVAL_SECONDS, 1) * 1000,
+    );
+  }
+
+  async stop(): Promise<void> {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    for (const mint of Array.from(this.watched.keys())) {
+      await this.unwatch(mint);
+    }
+  }
+
+  getWatchedMints(): string[] {
+    return Array.from(this.watched.keys());
+  }
+
+  // Suscripciones = open_positions (alta de nuevas, baja de cerradas)
+  async sync(): Promise<void> {
+    if (this.isSyncing) return;
+    this.isSyncing = true;
+
+    try {
+      const mints = new Set(await this.redis.smembers('open_positions'));
+
+      for (const mint of Array.from(this.watched.keys())) {
+        if (!mints.has(mint)) await this.unwatch(mint);
+      }
+
+      for (const mint of mints) {
+        if (this.watched.has(mint)) continue;
+        const creator = await this.redis.hget(`position:${mint}`, 'creator');
+        await this.watch(mint, creator || null);
+      }
+    } catch (error: any) {
+      console.log(
+        `⚠️ ${this.tag}Rug guard sync failed:`,
+        error?.message ?? String(error),
+      );
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  // --- Suscripciones ---
+
+  private async watch(mint: string, knownCreator: string | null): Promise<void> {
+    let mintPk: PublicKey;
+    try {
+      mintPk = new PublicKey(mint);
+    } catch {
+      return;
+    }
+
+    const bondingCurve = bondingCurvePDA(mintPk);
+    const account = await getRateLimiter().request(
+      () => this.connection.getAccountInfo(bondingCurve),
+      'high',
+      `pump:bc:${mint}`,
+    );
+
+    const curve = account ? decodeCurve(account.data) : null;
+
+    const entry: WatchedPosition = {
+      mint,
+      creator: knownCreator ?? curve?.creator ?? null,
+      bondingCurve,
+      peakRealSol: curve?.realSolReserves ?? 0,
+      lastRealSol: curve?.realSolReserves ?? 0,
+      curveSubscriptionId: null,
+      creatorSubscriptionId: null,
+      triggered: false,
+    };
+    // Se registra aunque no haya curva: así no se reintenta en cada sync
+    this.watched.set(mint, entry);
+
+    // Sin curva o ya graduado: lo gestiona GraduationHandler
+    if (!curve || curve.complete) return;
+
+    entry.curveSubscriptionId = this.connection.onAccountChange(
+      bondingCurve,
+      info => void this.handleCurveUpdate(entry, info),
+      'confirmed',
+    );
+
+    if (entry.creator && RUG_EXIT_ON_DEV_SELL) {
+      try {
+        entry.creatorSubscriptionId = this.connection.onLogs(
+          new PublicKey(entry.creator),
+          logs => void this.handleCreatorLogs(entry, logs),
+          'confirmed',
+        );
+      } catch (error: any) {
+        console.log(
+          `⚠️ ${this.tag}Rug guard: creator subscription failed for ${mint.slice(0, 8)}:`,
+          error?.message ?? String(error),
+        );
+      }
+    }
+
+    console.log(
+      `🛡️ ${this.tag}Watching ${mint.slice(0, 8)}... ` +
+        `(creator ${entry.creator ? entry.creator.slice(0, 8) : 'unknown'}, ` +
+        `${entry.lastRealSol.toFixed(2)} SOL in curve)`,
+    );
+  }
+
+  private async unwatch(mint: string): Promise<void> {
+    const entry = this.watched.get(mint);
+    if (!entry) return;
+    this.watched.delete(mint);
+
+    try {
+      if (entry.curveSubscriptionId !== null) {
+        await this.connection.removeAccountChangeListener(
+          entry.curveSubscriptionId,
+        );
+      }
+      if (entry.creatorSubscriptionId !== null) {
+        await this.connection.removeOnLogsListener(entry.creatorSubscriptionId);
+      }
+    } catch {
+      // ignore
+    }
+  }
+
+  // --- Detección ---
+
+  private async handleCurveUpdate(
+    entry: WatchedPosition,
+    info: AccountInfo<Buffer>,
+  ): Promise<void> {
+    if (entry.triggered) return;
+
+    // Cuenta cerrada / vaciada
+    if (info.lamports === 0 || info.data.length === 0) {
+      await this.trigger(entry, 'rug_detected', 'Bonding curve account closed');
+      return;
+    }
+
+    const curve = decodeCurve(info.data);
+    if (!curve || curve.complete) return;
+
+    const previous = entry.lastRealSol;
+    const current = curve.realSolReserves;
+    entry.lastRealSol = current;
+    entry.peakRealSol = Math.max(entry.peakRealSol, current);
+
+    if (entry.peakRealSol < RUG_MIN_REAL_SOL) return;
+
+    const dropFromPeak = ((entry.peakRealSol - current) / entry.peakRealSol) * 100;
+    const singleDrop = previous > 0 ? ((previous - current) / previous) * 100 : 0;
+
+    if (RUG_HOLDER_DUMP_PERCENT > 0 && singleDrop >= RUG_HOLDER_DUMP_PERCENT) {
+      await this.trigger(
+        entry,
+        'rug_detected',
+        `Large holder dump: curve SOL ${previous.toFixed(2)} → ${current.toFixed(2)} (-${singleDrop.toFixed(1)}%)`,
+      );
+      return;
+    }
+
+    if (RUG_LIQUIDITY_DROP_PERCENT > 0 && dropFromPeak >= RUG_LIQUIDITY_DROP_PERCENT) {
+      await this.trigger(
+        entry,
+        'rug_detected',
+        `Liquidity removed: curve SOL ${entry.peakRealSol.toFixed(2)} → ${current.toFixed(2)} (-${dropFromPeak.toFixed(1)}% from peak)`,
+      );
+    }
+  }
+
+  private async handleCreatorLogs(
+    entry: WatchedPosition,
+    logs: Logs,
+  ): Promise<void> {
+    if (entry.triggered || logs.err || !entry.creator) return;
+
+    const programId = PUMP_PROGRAM_ID.toBase58();
+    if (!logs.logs.some(line => line.includes(programId))) return;
+
+    try {
+      const tx: any = await getRateLimiter().request(
+        () =>
+          this.connection.getTransaction(logs.signature, {
+            commitment: 'confirmed',
+            maxSupportedTransactionVersion: 0,
+          }),
+        'high',
+      );
+      if (!tx || !tx.meta) return;
+
+      const sumFor = (balances: any[] | undefined): number =>
+        (balances ?? [])
+          .filter(b => b?.mint === entry.mint && b.owner === entry.creator)
+          .reduce((acc, b) => acc + Number(b.uiTokenAmount?.uiAmount ?? 0), 0);
+
+      const tokenDelta =
+        sumFor(tx.meta.postTokenBalances) - sumFor(tx.meta.preTokenBalances);
+      if (tokenDelta >= 0) return;
+
+      await this.trigger(
+        entry,
+        'dev_sold',
+        `Creator ${entry.creator.slice(0, 8)}... sold ${Math.abs(tokenDelta).toLocaleString()} tokens`,
+        logs.signature,
+      );
+    } catch (error: any) {
+      console.log(
+        `⚠️ ${this.tag}Rug guard: failed to inspect creator tx:`,
+        error?.message ?? String(error),
+      );
+    }
+  }
+
+  private async trigger(
+    entry: WatchedPosition,
+    reason: RugSignalReason,
+    detail: string,
+    signature?: string,
+  ): Promise<void> {
+    if (entry.triggered) return;
+    entry.triggered = true;
+
+    const signal: RugSignal = {
+      mint: entry.mint,
+      reason,
+      detail,
+      detectedAt: Date.now(),
+      ...(signature ? { signature } : {}),
+    };
+
+    console.log(
+      `\n🚨 ${this.tag}RUG GUARD: ${reason.toUpperCase()} for ${entry.mint.slice(0, 8)}...`,
+    );
+    console.log(`   ${detail}`);
+
+    try {
+      const stillOpen = await this.redis.sismember('open_positions', entry.mint);
+      if (!stillOpen) return;
+
+      await this.redis.hset(`position:${entry.mint}`, {
+        rugSignal: reason,
+        rugDetail: detail,
+        rugDetectedAt: String(signal.detectedAt),
+      });
+      await requestForceExit(
+        this.redis,
+        entry.mint,
+        reason,
+        'rugGuard',
+        FORCE_EXIT_TTL_SECONDS,
+      );
+
+      // Historial del creador para tokenSafety (namespace global)
+      if (reason === 'rug_detected' && entry.creator) {
+        await getTokenSafetyService().recordCreatorRug(entry.creator, entry.mint);
+      }
+    } catch (error: any) {
+      console.log(
+        `❌ ${this.tag}Rug guard could not request exit:`,
+        error?.message ?? String(error),
+      );
+      // Permitimos reintentar con la siguiente señal
+      entry.triggered = false;
+      return;
+    }
+
+    await this.sendAlert(signal);
+  }
+
+  private async sendAlert(signal: RugSignal): Promise<void> {
+    if (!TELEGRAM_OWNER_CHAT_ID) return;
+
+    try {
+      // import dinámico: telegram.ts importa copyMonitor y el resto de módulos
+      const { sendTelegramAlert } = await import('./telegram.js');
+      await sendTelegramAlert(
+        TELEGRAM_OWNER_CHAT_ID,
+        `${this.tag}🚨 ${signal.reason === 'dev_sold' ? 'DEV SOLD' : 'RUG DETECTED'}\n` +
+          `Mint: ${signal.mint.slice(0, 12)}...\n` +
+          `${signal.detail}\n` +
+          'Exit requested (force_exit)',
+        false,
+      );
+    } catch (error: any) {
+      console.log(
+        '⚠️ Rug guard alert failed:',
+        error?.message ?? String(error),
+      );
+    }
+  }
+}
@@ -9,7 +9,38 @@ import {
   COPY_STOP_LOSS_ENABLED,
   COPY_STOP_LOSS_PERCENT,
   ENABLE_AUTO_TRADING,
+  CONSENSUS_ENABLED,
 } from './environment.js';
+import { SNIPER_EXIT_CONFIG } from './sniperStrategy.js';
+import { getRiskGovernor } from './riskGovernor.js';
+import { getPaperWallet, listPaperAccounts } from './paperWallet.js';
+import { getWalletScore, getWalletScores } from './walletScoring.js';
+import { getWalletHistory } from './walletBackfill.js';
+import { getTokenSafetyService } from './tokenSafety.js';
+import { getTokenMetadataService, tokenLinks } from './tokenMetadata.js';
+import { getPriorityFeeOracle } from './priorityFees.js';
+import {
+  DEFAULT_WALLET_MIN_SOL,
+  DEFAULT_WALLET_MAX_SOL,
+  SIZING_MODES,
+  type SizingMode,
+} from './copySizing.js';
+import {
+  WalletDiscovery,
+  winningMintsFromTrades,
+  saveDiscoveryReport,
+  getLastDiscoveryReport,
+  addCandidatesToRedis,
+  discoveredWalletName,
+  type DiscoveryReport,
+} from './walletDiscovery.js';
+import {
+  getProfile,
+  getProfiles,
+  getProfileRedis,
+  toPublicProfile,
+  type TradingProfile,
+} from './profiles.js';
 
 // 🧹 CRITICAL: Clean environment variables FIRST
 console.log('🚀 Starting Copy Trading Bot Server...\n');
@@ -40,6 +71,35 @@ try {
   );
 }
 
+// 👥 Perfil de la request: ?profile=ID (o body.profile). Sin perfil = default.
+// Devuelve null si ya se respondió con error.
+function resolveProfile(req: Request, res: Response): TradingProfile | null {
+  const requested = req.query.profile ?? req.body?.profile;
+  const profile = getProfile(requested ? String(requested) : undefined);
+  if (!profile) {
+    res.status(400).json({ error: `Unknown profile: ${String(requested)}` });
+    return null;
+  }
+  return profile;
+}
+
+function resolveProfileRedis(
+  req: Request,
+  res: Response,
+): { profile: TradingProfile; redis: RedisClient } | null {
+  if (!redis) {
+    res.json({ error: 'Redis not available' });
+    return null;
+  }
+  const profile = resolveProfile(req, res);
+  if (!profile) return null;
+  // El perfil sin prefijo comparte la conexión del server
+  return {
+    profile,
+    redis: profile.redisPrefix ? getProfileRedis(profile) : redis,
+  };
+}
+
 // Health check
 app.get('/health', (req: Request, res: Response) => {
   res.json({
@@ -55,17 +115,22 @@ app.get('/', (req: Request, res: Response) => {
   });
 });
 
+// 👥 Trading profiles (sin claves privadas)
+app.get('/profiles', (req: Request, res: Response) => {
+  res.json({ profiles: getProfiles().map(toPublicProfile) });
+});
+
 // 📊 Status endpoint
 app.get('/status', async (req: Request, res: Response) => {
   try {
-    if (!redis) {
-      return res.json({ error: 'Redis not available' });
-    }
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { profile, redis } = scope;
 
     const openPositions = await redis.scard('open_positions');
     const trackedWallets = await redis.scard('tracked_wallets');
     const pendingSignals = await redis.llen('copy_signals');
-    const dryRun = isDryRunEnabled();
+    const dryRun = profile.dryRun;
 
     // Get tracked wallets details
     const walletAddresses = await redis.smembers('tracked_wallets');
@@ -92,6 +157,7 @@ app.get('/status', async (req: Request, res: Response) => {
     const positionMints = await redis.smembers('open_positions');
     const positions: Array<{
       mint: string;
+      strategy: string;
       wallet: string;
       entryPrice: string;
       holdTime: string;
@@ -102,13 +168,14 @@ app.get('/status', async (req: Request, res: Response) => {
       const position = (await redis.hgetall(
         `position:${mint}`,
       )) as Record<string, string>;
-      if (position && position.strategy === 'copy') {
+      if (position && position.entryPrice) {
         const entryPrice = parseFloat(position.entryPrice);
         const entryTime = parseInt(position.entryTime, 10);
         const holdTimeSeconds = ((Date.now() - entryTime) / 1000).toFixed(0);
 
         positions.push({
           mint: mint.slice(0, 16) + '...',
+          strategy: position.strategy || 'unknown',
           wallet: position.walletName || 'Unknown',
           entryPrice: entryPrice.toFixed(10),
           holdTime: `${holdTimeSeconds}s`,
@@ -117,8 +184,12 @@ app.get('/status', async (req: Request, res: Response) => {
       }
     }
 
+    const risk = await getRiskGovernor(redis).getStatus();
+
     res.json({
       mode: dryRun ? '📄 PAPER TRADING' : '💰 LIVE TRADING',
+      profile: toPublicProfile(profile),
+      risk,
       trackedWallets: {
         count: trackedWallets,
         list: wallets,
@@ -132,12 +203,19 @@ app.get('/status', async (req: Request, res: Response) => {
         pending: pendingSignals,
       },
       config: {
-        minWalletsToBuy: COPY_MIN_WALLETS_TO_BUY.toString(),
-        minWalletsToSell: COPY_MIN_WALLETS_TO_SELL.toString(),
-        positionSize: `${POSITION_SIZE_SOL} SOL`,
+        minWalletsToBuy: profile.minWalletsToBuy.toString(),
+        minWalletsToSell: profile.minWalletsToSell.toString(),
+        positionSize: `${profile.positionSizeSol} SOL`,
+        consensus: CONSENSUS_ENABLED
+          ? {
+              minScore: profile.minConsensusScore,
+              windowSeconds: profile.consensusWindowSeconds,
+            }
+          : 'Disabled',
         stopLoss: COPY_STOP_LOSS_ENABLED
           ? `-${COPY_STOP_LOSS_PERCENT}%`
           : 'Disabled',
+        sniperExits: SNIPER_EXIT_CONFIG,
       },
       timestamp: new Date().toISOString(),
     });
@@ -149,9 +227,9 @@ app.get('/status', async (req: Request, res: Response) => {
 // 👁️ List tracked wallets
 app.get('/wallets', async (req: Request, res: Response) => {
   try {
-    if (!redis) {
-      return res.json({ error: 'Redis not available' });
-    }
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
 
     const walletAddresses = await redis.smembers('tracked_wallets');
     const wallets: Array<{
@@ -159,10 +237,12 @@ app.get('/wallets', async (req: Request, res: Response) => {
       name?: string;
       copyPercentage?: string;
       enabled: boolean;
+      disabledReason?: string;
       stats: {
         tradesDetected: number;
         tradesCopied: number;
       };
+      score: Awaited<ReturnType<typeof getWalletScore>>;
     }> = [];
 
     for (const address of walletAddresses) {
@@ -182,10 +262,12 @@ app.get('/wallets', async (req: Request, res: Response) => {
           name: walletData.name,
           copyPercentage: walletData.copyPercentage,
           enabled: walletData.enabled === 'true',
+          disabledReason: walletData.disabledReason || undefined,
           stats: {
             tradesDetected: trades.length,
             tradesCopied: copiedTrades.length,
           },
+          score: await getWalletScore(redis, address),
         });
       }
     }
@@ -199,21 +281,333 @@ app.get('/wallets', async (req: Request, res: Response) => {
   }
 });
 
+// 🏅 Wallet scores (win rate, expectancy, drawdown, peso de upvote)
+app.get('/wallets/scores', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    const scores = await getWalletScores(redis);
+    res.json({ count: scores.length, scores });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// ✅/⛔ Enable / disable wallet (reactivar reinicia el score)
+app.post('/wallets/enable', async (req: Request, res: Response) => {
+  try {
+    const profile = resolveProfile(req, res);
+    if (!profile) return;
+
+    const { address, enabled } = req.body as {
+      address?: string;
+      enabled?: boolean;
+    };
+
+    if (!address) {
+      return res.status(400).json({ error: 'Address is required' });
+    }
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled (boolean) is required' });
+    }
+
+    const { getWalletTracker } = await import('./walletTracker.js');
+    const tracker = getWalletTracker(profile.id);
+
+    if (!tracker) {
+      return res
+        .status(500)
+        .json({ error: 'Wallet tracker not initialized' });
+    }
+
+    const result = await tracker.setWalletEnabled(address, enabled);
+
+    if (result) {
+      res.json({ success: true, address, enabled });
+    } else {
+      res.status(404).json({ error: 'Wallet not tracked' });
+    }
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// ⚖️ Consensus weight / tier de una wallet (lo lee upvoteConsensus.ts)
+app.post('/wallets/weight', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    const { address, tier, weight } = req.body as {
+      address?: string;
+      tier?: string;
+      weight?: number | null;
+    };
+
+    if (!address) {
+      return res.status(400).json({ error: 'Address is required' });
+    }
+    if (
+      weight !== undefined &&
+      weight !== null &&
+      (typeof weight !== 'number' || !(weight >= 0))
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'weight must be a non-negative number or null' });
+    }
+
+    const isTracked = await redis.sismember('tracked_wallets', address);
+    if (!isTracked) {
+      return res.status(404).json({ error: 'Wallet not tracked' });
+    }
+
+    const update: Record<string, string> = {};
+    if (tier !== undefined) update.tier = (tier ?? '').trim().toLowerCase();
+    // weight null = volver al peso del tier
+    if (weight !== undefined) update.weight = weight === null ? '' : String(weight);
+
+    if (Object.keys(update).length === 0) {
+      return res.status(400).json({ error: 'tier or weight is required' });
+    }
+
+    await redis.hset(`wallet:${address}`, update);
+    res.json({ success: true, address, ...update });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// 🔎 Wallet discovery (early buyers de tokens ganadores). Tarda minutos:
+// se lanza en background y el resultado queda en GET /wallets/discover
+const discoveryRunning = new Set<string>();
+
+app.post('/wallets/discover', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { profile, redis } = scope;
+
+    const {
+      mints = [],
+      fromTradesDays,
+      minTokens,
+      earlyBuyers,
+      maxCandidates,
+      checkFunders,
+      add = false,
+    } = req.body as {
+      mints?: string[];
+      fromTradesDays?: number;
+      minTokens?: number;
+      earlyBuyers?: number;
+      maxCandidates?: number;
+      checkFunders?: boolean;
+      add?: boolean;
+    };
+
+    if (!Array.isArray(mints)) {
+      return res.status(400).json({ error: 'mints must be an array' });
+    }
+    if (mints.length === 0 && fromTradesDays === undefined) {
+      return res
+        .status(400)
+        .json({ error: 'mints or fromTradesDays is required' });
+    }
+    if (!process.env.RPC_URL) {
+      return res.status(500).json({ error: 'RPC_URL not set' });
+    }
+    if (discoveryRunning.has(profile.id)) {
+      return res.status(409).json({ error: 'Discovery already running' });
+    }
+
+    const allMints = [...mints];
+    if (fromTradesDays !== undefined) {
+      allMints.push(...(await winningMintsFromTrades(redis, fromTradesDays)));
+    }
+
+    const discovery = new WalletDiscovery({
+      options: { minTokens, earlyBuyers, maxCandidates, checkFunders },
+    });
+
+    discoveryRunning.add(profile.id);
+    void (async () => {
+      try {
+        const report: DiscoveryReport = await discovery.discover(allMints);
+        await saveDiscoveryReport(redis, report);
+
+        if (add) {
+          const { getWalletTracker } = await import('./walletTracker.js');
+          const tracker = getWalletTracker(profile.id);
+          if (!tracker) {
+            // Sin tracker en este proceso: el worker las recoge en su sync
+            await addCandidatesToRedis(redis, report.candidates);
+          } else {
+            for (const candidate of report.candidates) {
+              const tracked = await redis.sismember(
+                'tracked_wallets',
+                candidate.address,
+              );
+              if (tracked) continue;
+              // Desactivadas hasta que alguien las revise y active
+              await tracker.addWallet(candidate.address, {
+                name: discoveredWalletName(candidate.address),
+                enabled: false,
+              });
+            }
+          }
+        }
+
+        console.log(
+          `🔎 Discovery finished (${profile.id}): ${report.candidates.length} candidates`,
+        );
+      } catch (error: any) {
+        console.log(
+          '⚠️ Wallet discovery failed:',
+          error?.message ?? String(error),
+        );
+      } finally {
+        discoveryRunning.delete(profile.id);
+      }
+    })();
+
+    res.status(202).json({
+      success: true,
+      profile: profile.id,
+      mints: allMints.length,
+      add,
+      message: 'Discovery started, poll GET /wallets/discover',
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+app.get('/wallets/discover', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { profile, redis } = scope;
+
+    const report = await getLastDiscoveryReport(redis);
+    res.json({
+      profile: profile.id,
+      running: discoveryRunning.has(profile.id),
+      report,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// 📜 Backfill del historial on-chain de una wallet (seguida o no)
+app.post('/wallets/backfill', async (req: Request, res: Response) => {
+  try {
+    const profile = resolveProfile(req, res);
+    if (!profile) return;
+
+    const { address, maxSignatures, maxAgeDays } = req.body as {
+      address?: string;
+      maxSignatures?: number;
+      maxAgeDays?: number;
+    };
+
+    if (!address) {
+      return res.status(400).json({ error: 'Address is required' });
+    }
+
+    const { getWalletTracker } = await import('./walletTracker.js');
+    const tracker = getWalletTracker(profile.id);
+
+    if (!tracker) {
+      return res
+        .status(500)
+        .json({ error: 'Wallet tracker not initialized' });
+    }
+    if (tracker.isBackfillRunning(address)) {
+      return res.status(409).json({ error: 'Backfill already running' });
+    }
+
+    // Puede tardar minutos (rate limiter 'low'): resultado en /wallets/history
+    void tracker.backfillWallet(address, { maxSignatures, maxAgeDays });
+
+    res.status(202).json({
+      success: true,
+      address,
+      message: 'Backfill started, poll GET /wallets/history',
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// 📈 Round-trips del líder (live + backfill)
+app.get('/wallets/history', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    const address = String(req.query.address ?? '').trim();
+    if (!address) {
+      return res.status(400).json({ error: 'address is required' });
+    }
+
+    const limit = Number(req.query.limit ?? 50);
+    const history = await getWalletHistory(
+      redis,
+      address,
+      Number.isFinite(limit) ? limit : 50,
+    );
+    res.json(history);
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
 // ➕ Add wallet to track
 app.post('/wallets/add', async (req: Request, res: Response) => {
   try {
-    const { address, name, copyPercentage = 100 } = req.body as {
+    const profile = resolveProfile(req, res);
+    if (!profile) return;
+
+    const {
+      address,
+      name,
+      copyPercentage = 100,
+      minAmount = DEFAULT_WALLET_MIN_SOL,
+      maxAmount = DEFAULT_WALLET_MAX_SOL,
+      sizingMode,
+      tier,
+      weight,
+      enabled = true,
+    } = req.body as {
       address?: string;
       name?: string;
       copyPercentage?: number;
+      minAmount?: number;
+      maxAmount?: number;
+      sizingMode?: string;
+      tier?: string;
+      weight?: number;
+      enabled?: boolean;
     };
 
     if (!address) {
       return res.status(400).json({ error: 'Address is required' });
     }
 
+    if (sizingMode && !SIZING_MODES.includes(sizingMode as SizingMode)) {
+      return res.status(400).json({
+        error: `Invalid sizingMode (use ${SIZING_MODES.join(', ')})`,
+      });
+    }
+
     const { getWalletTracker } = await import('./walletTracker.js');
-    const tracker = getWalletTracker();
+    const tracker = getWalletTracker(profile.id);
 
     if (!tracker) {
       return res
@@ -224,8 +618,13 @@ app.post('/wallets/add', async (req: Request, res: Response) => {
     const result = await tracker.addWallet(address, {
       name: name || `Wallet-${address.slice(0, 8)}`,
       copyPercentage,
-      minAmount: 0.05,
-      maxAmount: POSITION_SIZE_SOL,
+      minAmount,
+      maxAmount,
+      sizingMode,
+      tier,
+      weight,
+      // enabled=false: se sigue sin copiar (p. ej. evaluar con el backfill)
+      enabled: enabled !== false,
     });
 
     if (result) {
@@ -236,6 +635,12 @@ app.post('/wallets/add', async (req: Request, res: Response) => {
           address,
           name: name || `Wallet-${address.slice(0, 8)}`,
           copyPercentage,
+          minAmount,
+          maxAmount,
+          sizingMode: sizingMode ?? 'default',
+          tier: tier ?? null,
+          weight: weight ?? null,
+          enabled: enabled !== false,
         },
       });
     } else {
@@ -249,6 +654,9 @@ app.post('/wallets/add', async (req: Request, res: Response) => {
 // ➖ Remove wallet
 app.post('/wallets/remove', async (req: Request, res: Response) => {
   try {
+    const profile = resolveProfile(req, res);
+    if (!profile) return;
+
     const { address } = req.body as { address?: string };
 
     if (!address) {
@@ -256,7 +664,7 @@ app.post('/wallets/remove', async (req: Request, res: Response) => {
     }
 
     const { getWalletTracker } = await import('./walletTracker.js');
-    const tracker = getWalletTracker();
+    const tracker = getWalletTracker(profile.id);
 
     if (!tracker) {
       return res
@@ -282,12 +690,12 @@ app.post('/wallets/remove', async (req: Request, res: Response) => {
 // 📊 Today's stats
 app.get('/stats', async (req: Request, res: Response) => {
   try {
-    if (!redis) {
-      return res.json({ error: 'Redis not available' });
-    }
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { profile, redis } = scope;
 
     const { RiskManager } = await import('./riskManager.js');
-    const riskManager = new RiskManager(redis);
+    const riskManager = new RiskManager({ dryRun: profile.dryRun }, redis);
     const stats = await riskManager.getDailyStats();
 
     if (!stats) {
@@ -300,12 +708,232 @@ app.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+// 🚨 Force exit (mismo canal force_exit que Telegram y GraduationHandler)
+app.post('/positions/force-exit', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    const { mint, reason = 'api_force_exit', requestedBy } = req.body as {
+      mint?: string;
+      reason?: string;
+      requestedBy?: string;
+    };
+
+    if (!mint) {
+      return res.status(400).json({ error: 'Mint is required' });
+    }
+
+    const isOpen = await redis.sismember('open_positions', mint);
+    if (!isOpen) {
+      return res.status(404).json({ error: 'No open position for mint' });
+    }
+
+    const { requestForceExit } = await import('./forceExit.js');
+    const request = await requestForceExit(
+      redis,
+      mint,
+      reason,
+      requestedBy ? `api:${requestedBy}` : `api:${req.ip ?? 'unknown'}`,
+    );
+
+    res.json({
+      success: true,
+      message: 'Force exit queued',
+      request,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// 📜 Force exit history
+app.get('/positions/force-exit/history', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    const { getForceExitHistory } = await import('./forceExit.js');
+    const history = await getForceExitHistory(redis);
+
+    res.json({ history });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// 🛡️ Risk governor status
+app.get('/risk', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    res.json(await getRiskGovernor(redis).getStatus());
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// 🛑 Kill switch on/off
+app.post('/risk/kill-switch', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    const { active, reason = 'manual', requestedBy } = req.body as {
+      active?: boolean;
+      reason?: string;
+      requestedBy?: string;
+    };
+
+    if (typeof active !== 'boolean') {
+      return res.status(400).json({ error: 'active (boolean) is required' });
+    }
+
+    const state = await getRiskGovernor(redis).setKillSwitch(
+      active,
+      reason,
+      requestedBy ? `api:${requestedBy}` : `api:${req.ip ?? 'unknown'}`,
+    );
+
+    res.json({ success: true, killSwitch: state });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// 🧪 Token safety (screening pre-trade)
+app.get('/tokens/safety', async (req: Request, res: Response) => {
+  try {
+    const mint = String(req.query.mint ?? '').trim();
+    if (!mint) {
+      return res.status(400).json({ error: 'mint is required' });
+    }
+
+    const creator = String(req.query.creator ?? '').trim() || undefined;
+    res.json(await getTokenSafetyService().screen({ mint, creator }));
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// 🏷️ Token metadata (nombre, símbolo, imagen, socials)
+app.get('/tokens/metadata', async (req: Request, res: Response) => {
+  try {
+    const mint = String(req.query.mint ?? '').trim();
+    if (!mint) {
+      return res.status(400).json({ error: 'mint is required' });
+    }
+
+    const metadata = await getTokenMetadataService().getMetadata(mint);
+    res.json({ ...metadata, links: tokenLinks(mint) });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// ⛽ Gasto de priority fees de hoy (tope diario)
+app.get('/fees', async (req: Request, res: Response) => {
+  try {
+    res.json(await getPriorityFeeOracle().getDailySpend());
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+// 📄 Paper wallets (DRY_RUN)
+app.get('/paper/accounts', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    res.json({ accounts: await listPaperAccounts(redis) });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+app.get('/paper/wallet', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    const account = req.query.account ? String(req.query.account) : undefined;
+    const { getPriceService } = await import('./priceService.js');
+    const priceService = getPriceService();
+
+    const summary = await getPaperWallet(redis, account).getSummary(
+      async mint => (await priceService.getPrice(mint, true)).price,
+    );
+
+    res.json(summary);
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+app.get('/paper/equity', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    const account = req.query.account ? String(req.query.account) : undefined;
+    const limit = Number(req.query.limit ?? 200);
+    const wallet = getPaperWallet(redis, account);
+
+    res.json({
+      account: wallet.account,
+      history: await wallet.getEquityHistory(
+        Number.isFinite(limit) && limit > 0 ? limit : 200,
+      ),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
+app.post('/paper/reset', async (req: Request, res: Response) => {
+  try {
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
+
+    const { account, startingSol } = req.body as {
+      account?: string;
+      startingSol?: number;
+    };
+
+    if (
+      startingSol !== undefined &&
+      (typeof startingSol !== 'number' || !(startingSol > 0))
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'startingSol must be a positive number' });
+    }
+
+    const wallet = getPaperWallet(redis, account);
+    const balance = await wallet.reset(startingSol);
+
+    res.json({ success: true, account: wallet.account, solBalance: balance });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message ?? String(error) });
+  }
+});
+
 // 🧹 Cleanup endpoint
 app.post('/cleanup', async (req: Request, res: Response) => {
   try {
-    if (!redis) {
-      return res.json({ error: 'Redis not available' });
-    }
+    const scope = resolveProfileRedis(req, res);
+    if (!scope) return;
+    const { redis } = scope;
 
     let cleaned = 0;
 
@@ -357,6 +985,14 @@ app.get('/debug/env', (req: Request, res: Response) => {
     positionSize: POSITION_SIZE_SOL.toString(),
     dryRun: isDryRunEnabled() ? 'true' : 'false',
     autoTrading: ENABLE_AUTO_TRADING ? 'true' : 'false',
+    profiles: getProfiles().map(profile => ({
+      id: profile.id,
+      privateKeyLength: profile.privateKey.length,
+      positionSize: profile.positionSizeSol.toString(),
+      dryRun: profile.dryRun ? 'true' : 'false',
+      autoTrading: profile.autoTrading ? 'true' : 'false',
+      redisPrefix: profile.redisPrefix,
+    })),
   });
 });
 
@@ -376,17 +1012,19 @@ async function initializeModules(): Promise<void> {
   try {
     console.log('🔧 Initializing modules...\n');
 
-    // 1. Iniciar Wallet Tracker
+    // 1. Iniciar Wallet Tracker (uno por perfil)
     if (process.env.RPC_URL && process.env.PUMP_PROGRAM_ID) {
-      try {
-        const { initWalletTracker } = await import('./walletTracker.js');
-        await initWalletTracker();
-        console.log('✅ Wallet Tracker started\n');
-      } catch (error: any) {
-        console.log(
-          '⚠️ Wallet Tracker failed:',
-          error?.message ?? String(error),
-        );
+      const { initWalletTracker } = await import('./walletTracker.js');
+      for (const profile of getProfiles()) {
+        try {
+          await initWalletTracker(profile);
+          console.log(`✅ Wallet Tracker started (${profile.id})\n`);
+        } catch (error: any) {
+          console.log(
+            `⚠️ Wallet Tracker failed (${profile.id}):`,
+            error?.message ?? String(error),
+          );
+        }
       }
     } else {
       console.log(
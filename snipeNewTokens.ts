@@ -13,6 +13,9 @@ import {
   TOKEN_AGE_LIMIT_SECONDS,
   MIN_BUY_VOLUME_SOL,
   MAX_TOKENS_PER_HOUR,
+  PAPER_SIM_ENABLED,
+  PAPER_WALLET_ENABLED,
+  TOKEN_SAFETY_ENABLED,
 } from './environment.js';
 
 import { getPriceService } from './priceService.js';
@@ -20,6 +23,13 @@ import type { PriceData } from './priceService.js';
 import { MultiDexExecutor } from './multiDexExecutor.js';
 import { PositionManager } from './riskManager.js';
 import { sendTelegramAlert } from './telegram.js';
+import { devSoldKey, type DevSellInfo } from './sniperStrategy.js';
+import { getRiskGovernor } from './riskGovernor.js';
+import { getPaperSimulator } from './paperSimulator.js';
+import { getPaperWallet } from './paperWallet.js';
+import { getTokenSafetyService, screenToken } from './tokenSafety.js';
+import { tokenLinks } from './tokenMetadata.js';
+import { submissionFor } from './jitoBundles.js';
 
 // --- Tipos básicos ---
 
@@ -53,6 +63,10 @@ let ws: WebSocket | null = null;
 let lastHourTimestamp = 0;
 let tokensThisHour = 0;
 
+// mint -> creator de los tokens que tenemos abiertos (para detectar dev sells)
+const watchedCreators = new Map<string, string>();
+const DEV_SOLD_TTL_SECONDS = 24 * 3600;
+
 const priceService = getPriceService();
 
 // --- Normalizador de eventos (PumpPortal → NewTokenEvent interno) ---
@@ -201,6 +215,34 @@ function registerSnipedToken(): void {
   tokensThisHour++;
 }
 
+// Mismo formato que las señales rechazadas de copyMonitor (signal_rejections)
+async function recordSniperRejection(
+  evt: NewTokenEvent,
+  reason: string,
+): Promise<void> {
+  if (!redis) return;
+  try {
+    await redis.lpush(
+      'signal_rejections',
+      JSON.stringify({
+        mint: evt.mint,
+        wallet: evt.traderPublicKey ?? '',
+        walletName: 'SNIPER',
+        txType: 'buy',
+        signature: evt.signature ?? '',
+        reason,
+        rejectedAt: Date.now(),
+      }),
+    );
+    await redis.ltrim('signal_rejections', 0, 499);
+  } catch (error: any) {
+    console.log(
+      '⚠️ Could not store sniper rejection:',
+      error?.message ?? String(error),
+    );
+  }
+}
+
 // --- Core: manejar un nuevo token ---
 
 async function handleNewToken(evt: NewTokenEvent): Promise<void> {
@@ -213,6 +255,13 @@ async function handleNewToken(evt: NewTokenEvent): Promise<void> {
     return;
   }
 
+  // Historial de lanzamientos del creador (lo usa tokenSafety)
+  if (evt.traderPublicKey && TOKEN_SAFETY_ENABLED) {
+    getTokenSafetyService()
+      .recordCreatorLaunch(evt.traderPublicKey, mint)
+      .catch(() => undefined);
+  }
+
   if (isPossibleHoneyPot(evt)) {
     console.log(
       `⚠️ SNIPER IGNORE (honeypot heuristics): ${evt.name ?? ''} | ${mint}`,
@@ -264,6 +313,33 @@ async function handleNewToken(evt: NewTokenEvent): Promise<void> {
     return;
   }
 
+  // 🧪 Screening on-chain (authorities, Token-2022, holders, creador, curva)
+  try {
+    const safety = await screenToken({ mint, creator: evt.traderPublicKey });
+    if (safety && !safety.safe) {
+      const reason = `safety: ${safety.reason ?? 'unsafe'} (score ${safety.score})`;
+      console.log(`🧪 SNIPER IGNORE (${reason}): ${mint}`);
+      await recordSniperRejection(evt, reason);
+      return;
+    }
+  } catch (error: any) {
+    const reason = `safety: check_error: ${error?.message ?? String(error)}`;
+    console.log(`🧪 SNIPER IGNORE (${reason}): ${mint}`);
+    await recordSniperRejection(evt, reason);
+    return;
+  }
+
+  const risk = await getRiskGovernor(redis).checkBuy({
+    mint,
+    solAmount: positionSizeSol,
+    strategy: 'sniper',
+    creator: evt.traderPublicKey,
+  });
+  if (!risk.allowed) {
+    console.log(`🛡️ SNIPER IGNORE (risk: ${risk.reason}): ${mint}`);
+    return;
+  }
+
   registerSnipedToken();
 
   // --- DRY RUN: solo simulación, sin on-chain ---
@@ -274,21 +350,61 @@ async function handleNewToken(evt: NewTokenEvent): Promise<void> {
       true,
     );
 
-    const entryPrice = entryPriceData.price ?? 0;
-    const fakeTokensAmount =
-      entryPrice > 0 ? positionSizeSol / entryPrice : 0;
+    let entryPrice = entryPriceData.price ?? 0;
+    let fakeTokensAmount = entryPrice > 0 ? positionSizeSol / entryPrice : 0;
+    let costSol = positionSizeSol;
+
+    // 🎲 Fill realista: fees, impacto en la curva, latencia y fallos de tx
+    if (PAPER_SIM_ENABLED) {
+      const simulator = getPaperSimulator();
+      const fill = simulator.simulateBuy(entryPriceData, positionSizeSol);
+
+      if (fill) {
+        console.log(`   📄 ${simulator.describe(fill)}`);
+
+        if (!fill.success) {
+          console.log(
+            `🧪 SNIPER DRY-RUN BUY FAILED: ${mint} - ${fill.error ?? 'unknown'}`,
+          );
+          if (PAPER_WALLET_ENABLED && fill.fees.total > 0) {
+            await getPaperWallet(redis).chargeFees(fill.fees.total);
+          }
+          return;
+        }
+
+        entryPrice = fill.effectivePrice;
+        fakeTokensAmount = fill.tokensAmount;
+        costSol = fill.solAmount;
+      }
+    }
+
+    // 📄 Paper wallet: sin saldo virtual suficiente no hay compra
+    if (PAPER_WALLET_ENABLED) {
+      const debit = await getPaperWallet(redis).debitBuy(
+        mint,
+        costSol,
+        fakeTokensAmount,
+      );
+      if (!debit.success) {
+        console.log(`🧪 SNIPER DRY-RUN BUY REJECTED: ${mint} - ${debit.error}`);
+        return;
+      }
+    }
 
     await positionManager.registerOpenPosition({
       mint,
       strategy: 'sniper',
       entryPrice,
-      solAmount: positionSizeSol,
+      solAmount: costSol,
       tokensAmount: fakeTokensAmount,
       executedDex: 'Pump.fun',
       originalSignature: evt.signature ?? '',
       walletName: 'SNIPER',
       symbol: evt.symbol ?? '',
+      tokenName: evt.name ?? '',
+      creator: evt.traderPublicKey ?? '',
     });
+    watchCreator(mint, evt.traderPublicKey);
 
     console.log(
       `🧪 SNIPER DRY-RUN BUY: ${positionSizeSol} SOL on ${mint} @ ${entryPrice.toFixed(
@@ -301,6 +417,7 @@ async function handleNewToken(evt: NewTokenEvent): Promise<void> {
       `🧪 SNIPER DRY-RUN BUY\n\n` +
         `Token: ${evt.name ?? ''} (${evt.symbol ?? ''})\n` +
         `Mint: ${mint}\n` +
+        `${tokenLinks(mint).pumpFun}\n` +
         `Age: ${ageSeconds.toFixed(1)}s\n` +
         `InitVol: ${volumeSol.toFixed(4)} SOL\n` +
         `Amount: ${positionSizeSol} SOL\n` +
@@ -319,16 +436,31 @@ async function handleNewToken(evt: NewTokenEvent): Promise<void> {
       false,
     );
 
+    // Sniper: entrar en los primeros bloques → percentil alto (+ bundle Jito)
     const buyResult = await executor.buyToken(
       mint,
       positionSizeSol,
       'Pump.fun',
+      undefined,
+      'high',
+      submissionFor('sniper'),
     );
 
     if (!buyResult.success) {
       console.log(
         `❌ SNIPER BUY FAILED for ${mint}: ${buyResult.error ?? 'unknown'}`,
       );
+      // 'pending': timeout sin que caducara el blockhash, puede entrar aún
+      if (buyResult.landingStatus === 'pending') {
+        await sendTelegramAlert(
+          process.env.TELEGRAM_OWNER_CHAT_ID,
+          `⏳ SNIPER BUY PENDING (not confirmed, may still land)\n\n` +
+            `Mint: ${mint}\n` +
+            `Signature: ${buyResult.signature ?? 'unknown'}\n` +
+            `Check the wallet: the position is not tracked`,
+          false,
+        );
+      }
       return;
     }
 
@@ -347,7 +479,11 @@ async function handleNewToken(evt: NewTokenEvent): Promise<void> {
       originalSignature: buyResult.signature ?? evt.signature ?? '',
       walletName: 'SNIPER',
       symbol: evt.symbol ?? '',
+      tokenName: evt.name ?? '',
+      creator: evt.traderPublicKey ?? '',
+      jitoTipSol: buyResult.tipLamports ? buyResult.tipLamports / 1e9 : undefined,
     });
+    watchCreator(mint, evt.traderPublicKey);
 
     console.log(
       `💸 SNIPER BUY EXECUTED: ${positionSizeSol} SOL on ${mint} @ ${entryPrice.toFixed(
@@ -360,6 +496,7 @@ async function handleNewToken(evt: NewTokenEvent): Promise<void> {
       `💸 SNIPER LIVE BUY\n\n` +
         `Token: ${evt.name ?? ''} (${evt.symbol ?? ''})\n` +
         `Mint: ${mint}\n` +
+        `${tokenLinks(mint).pumpFun}\n` +
         `Age: ${ageSeconds.toFixed(1)}s\n` +
         `InitVol: ${volumeSol.toFixed(4)} SOL\n` +
         `Amount: ${positionSizeSol} SOL\n` +
@@ -374,6 +511,79 @@ async function handleNewToken(evt: NewTokenEvent): Promise<void> {
   }
 }
 
+// --- Dev sold: seguimos los trades de los tokens que tenemos abiertos ---
+//
+// En eventos 'create' de PumpPortal, traderPublicKey es el creador.
+// Si el creador vende, dejamos dev_sold:<mint> y el monitor de posiciones
+// (copyMonitor + SniperExitStrategy) se encarga de la salida.
+
+function sendWs(payload: Record<string, unknown>): void {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(payload));
+  }
+}
+
+function watchCreator(mint: string, creator?: string): void {
+  if (!creator) return;
+  watchedCreators.set(mint, creator);
+  sendWs({ method: 'subscribeTokenTrade', keys: [mint] });
+}
+
+function unwatchCreator(mint: string): void {
+  watchedCreators.delete(mint);
+  sendWs({ method: 'unsubscribeTokenTrade', keys: [mint] });
+}
+
+async function handleTokenTrade(evt: NewTokenEvent): Promise<void> {
+  const creator = watchedCreators.get(evt.mint);
+  if (!creator || !redis) return;
+
+  const stillOpen = await redis.sismember('open_positions', evt.mint);
+  if (!stillOpen) {
+    unwatchCreator(evt.mint);
+    return;
+  }
+
+  if (evt.txType !== 'sell' || evt.traderPublicKey !== creator) return;
+
+  const info: DevSellInfo = {
+    creator,
+    signature: evt.signature,
+    solAmount: Number(evt.solAmount) || undefined,
+    detectedAt: Date.now(),
+  };
+
+  await redis.setex(
+    devSoldKey(evt.mint),
+    DEV_SOLD_TTL_SECONDS,
+    JSON.stringify(info),
+  );
+
+  console.log(
+    `👤 SNIPER DEV SOLD: creator ${creator.slice(0, 8)}... sold ${evt.mint}`,
+  );
+}
+
+// Tras reconectar, recuperamos los creadores de las posiciones sniper abiertas
+async function resubscribeOpenSniperPositions(): Promise<void> {
+  if (!redis) return;
+
+  try {
+    const positionManager = new PositionManager(redis);
+    const positions = await positionManager.getOpenPositions();
+    for (const position of positions) {
+      if (position.strategy === 'sniper' && position.creator) {
+        watchCreator(position.mint, position.creator);
+      }
+    }
+  } catch (error: any) {
+    console.log(
+      '⚠️ SNIPER: could not restore dev-sell watchers:',
+      error?.message ?? String(error),
+    );
+  }
+}
+
 // --- WebSocket PumpPortal ---
 
 const PUMPPORTAL_WS_URL =
@@ -392,6 +602,8 @@ function createSniperWebSocket(): WebSocket {
     };
 
     socket.send(JSON.stringify(msg));
+
+    void resubscribeOpenSniperPositions();
   });
 
   socket.on('message', async (data: WebSocket.Data) => {
@@ -406,6 +618,12 @@ function createSniperWebSocket(): WebSocket {
         return;
       }
 
+      // Los trades de tokens suscritos llegan por el mismo socket
+      if (evt.txType === 'buy' || evt.txType === 'sell') {
+        await handleTokenTrade(evt);
+        return;
+      }
+
       await handleNewToken(evt);
     } catch (error: any) {
       console.error(
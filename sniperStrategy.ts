@@ -0,0 +1,205 @@
+// sniperStrategy.ts - Reglas de salida para posiciones del SNIPER (TypeScript)
+//
+// Configuración separada de los COPY_*: un token recién lanzado se comporta
+// muy distinto a un copy trade, así que TP/SL/trailing/max-hold son propios.
+
+import type { Redis as RedisClient } from 'ioredis';
+import {
+  SNIPER_TAKE_PROFIT_ENABLED,
+  SNIPER_TAKE_PROFIT_PERCENT,
+  SNIPER_STOP_LOSS_ENABLED,
+  SNIPER_STOP_LOSS_PERCENT,
+  SNIPER_TRAILING_STOP_ENABLED,
+  SNIPER_TRAILING_STOP_PERCENT,
+  SNIPER_MAX_HOLD_ENABLED,
+  SNIPER_MAX_HOLD_SECONDS,
+  SNIPER_EXIT_ON_DEV_SELL,
+} from './environment.js';
+
+// --- Tipos auxiliares ---
+
+interface SniperPosition {
+  mint: string;
+  symbol?: string;
+  entryPrice: string;
+  maxPrice?: string;
+  entryTime: string;
+  creator?: string;
+}
+
+export interface SniperExitDecision {
+  shouldExit: boolean;
+  reason?: string;
+  description?: string;
+  priority?: number;
+}
+
+export interface DevSellInfo {
+  creator: string;
+  signature?: string;
+  solAmount?: number;
+  detectedAt: number;
+}
+
+// Flag escrito por snipeNewTokens cuando el creador vende
+export function devSoldKey(mint: string): string {
+  return `dev_sold:${mint}`;
+}
+
+// --- Clase principal ---
+
+export class SniperExitStrategy {
+  private readonly redis: RedisClient;
+
+  constructor(redis: RedisClient) {
+    this.redis = redis;
+
+    console.log('🎯 Sniper exit strategy initialized');
+    console.log(
+      `   Take Profit: ${
+        SNIPER_TAKE_PROFIT_ENABLED
+          ? `+${SNIPER_TAKE_PROFIT_PERCENT}%`
+          : 'Disabled'
+      }`,
+    );
+    console.log(
+      `   Stop Loss: ${
+        SNIPER_STOP_LOSS_ENABLED ? `-${SNIPER_STOP_LOSS_PERCENT}%` : 'Disabled'
+      }`,
+    );
+    console.log(
+      `   Trailing Stop: ${
+        SNIPER_TRAILING_STOP_ENABLED
+          ? `-${SNIPER_TRAILING_STOP_PERCENT}% from max`
+          : 'Disabled'
+      }`,
+    );
+    console.log(
+      `   Max Hold: ${
+        SNIPER_MAX_HOLD_ENABLED ? `${SNIPER_MAX_HOLD_SECONDS}s` : 'Disabled'
+      }`,
+    );
+    console.log(
+      `   Dev sold exit: ${SNIPER_EXIT_ON_DEV_SELL ? 'YES' : 'NO'}`,
+    );
+  }
+
+  async getDevSell(mint: string): Promise<DevSellInfo | null> {
+    try {
+      const raw = await this.redis.get(devSoldKey(mint));
+      if (!raw) return null;
+      return JSON.parse(raw) as DevSellInfo;
+    } catch {
+      return null;
+    }
+  }
+
+  // 🚪 Decidir si salir (orden: dev sold → SL → TP → trailing → max hold)
+  async shouldExit(
+    position: SniperPosition,
+    currentPrice: number,
+    pnlPercent: number,
+  ): Promise<SniperExitDecision> {
+    const entryPrice = parseFloat(position.entryPrice);
+    const maxPrice = Math.max(
+      parseFloat(position.maxPrice || position.entryPrice) || 0,
+      currentPrice,
+    );
+    const entryTime = parseInt(position.entryTime, 10);
+    const holdTime = (Date.now() - entryTime) / 1000;
+
+    // PRIORIDAD 1: 👤 DEV SOLD
+    if (SNIPER_EXIT_ON_DEV_SELL) {
+      const devSell = await this.getDevSell(position.mint);
+      if (devSell) {
+        return {
+          shouldExit: true,
+          reason: 'dev_sold',
+          description: `Creator ${devSell.creator.slice(0, 8)}... sold${
+            devSell.solAmount ? ` (${devSell.solAmount.toFixed(3)} SOL)` : ''
+          }`,
+          priority: 1,
+        };
+      }
+    }
+
+    // PRIORIDAD 2: 🛑 STOP LOSS
+    if (SNIPER_STOP_LOSS_ENABLED && pnlPercent <= -SNIPER_STOP_LOSS_PERCENT) {
+      return {
+        shouldExit: true,
+        reason: 'stop_loss',
+        description: `Stop loss: ${pnlPercent.toFixed(
+          2,
+        )}% (limit: -${SNIPER_STOP_LOSS_PERCENT}%)`,
+        priority: 2,
+      };
+    }
+
+    // PRIORIDAD 3: 💰 TAKE PROFIT
+    if (
+      SNIPER_TAKE_PROFIT_ENABLED &&
+      pnlPercent >= SNIPER_TAKE_PROFIT_PERCENT
+    ) {
+      return {
+        shouldExit: true,
+        reason: 'take_profit',
+        description: `Take profit: +${pnlPercent.toFixed(
+          2,
+        )}% (target: +${SNIPER_TAKE_PROFIT_PERCENT}%)`,
+        priority: 3,
+      };
+    }
+
+    // PRIORIDAD 4: 📉 TRAILING STOP (solo si ya estuvimos en verde)
+    if (
+      SNIPER_TRAILING_STOP_ENABLED &&
+      entryPrice > 0 &&
+      maxPrice > entryPrice &&
+      currentPrice > 0
+    ) {
+      const trailingPrice = maxPrice * (1 - SNIPER_TRAILING_STOP_PERCENT / 100);
+      if (currentPrice <= trailingPrice) {
+        const dropFromMax = ((maxPrice - currentPrice) / maxPrice) * 100;
+        return {
+          shouldExit: true,
+          reason: 'trailing_stop',
+          description: `Drop from max: -${dropFromMax.toFixed(
+            2,
+          )}% (limit: -${SNIPER_TRAILING_STOP_PERCENT}%)`,
+          priority: 4,
+        };
+      }
+    }
+
+    // PRIORIDAD 5: ⏱️ MAX HOLD TIME
+    if (SNIPER_MAX_HOLD_ENABLED && holdTime >= SNIPER_MAX_HOLD_SECONDS) {
+      return {
+        shouldExit: true,
+        reason: 'max_hold_time',
+        description: `Max hold time: ${holdTime.toFixed(
+          0,
+        )}s (PnL: ${pnlPercent.toFixed(2)}%)`,
+        priority: 5,
+      };
+    }
+
+    return { shouldExit: false };
+  }
+}
+
+// Config exportable
+export const SNIPER_EXIT_CONFIG = {
+  takeProfitEnabled: SNIPER_TAKE_PROFIT_ENABLED ? 'true' : 'false',
+  takeProfitPercent: SNIPER_TAKE_PROFIT_PERCENT.toString(),
+
+  stopLossEnabled: SNIPER_STOP_LOSS_ENABLED ? 'true' : 'false',
+  stopLossPercent: SNIPER_STOP_LOSS_PERCENT.toString(),
+
+  trailingStopEnabled: SNIPER_TRAILING_STOP_ENABLED ? 'true' : 'false',
+  trailingStopPercent: SNIPER_TRAILING_STOP_PERCENT.toString(),
+
+  maxHoldEnabled: SNIPER_MAX_HOLD_ENABLED ? 'true' : 'false',
+  maxHoldSeconds: SNIPER_MAX_HOLD_SECONDS.toString(),
+
+  exitOnDevSell: SNIPER_EXIT_ON_DEV_SELL ? 'true' : 'false',
+} as const;
@@ -0,0 +1,413 @@
+// swapParsers.ts - Parsers de swaps por cambios de balance (Raydium / Orca / Jupiter)
+//
+// Funciones puras sobre la respuesta de getTransaction (sin RPC ni Redis):
+// WalletTracker las usa en vivo y en backfill, y los tests las ejercitan
+// con fixtures de transacciones (tests/fixtures).
+//
+// Solo miramos el efecto neto en la wallet: SOL nativo + WSOL (wrap/unwrap
+// dentro de la tx cuenta como SOL) frente a un único token. Los saltos
+// intermedios de rutas multi-hop se netean a ~0 y se descartan.
+
+import bs58 from 'bs58';
+
+// --- Tipos públicos ---
+
+export interface SwapDetails {
+  signature: string;
+  wallet: string;
+  mint: string;
+  action: 'BUY' | 'SELL';
+  tokenAmount: number;
+  solAmount: number;
+  timestamp: number;
+  slot: number;
+  dex: string;
+  quoteMint?: string; // lado "quote" del swap (WSOL / USDC)
+  quoteAmount?: number; // cantidad del quote en sus propias unidades
+  walletSolBefore?: number; // balance SOL del líder antes del trade
+}
+
+// Cambios netos de balance de la wallet dentro de una tx (swaps AMM)
+export interface WalletBalanceChanges {
+  solBefore: number; // SOL nativo antes de la tx
+  solDelta: number; // SOL nativo + WSOL, sin contar la fee de la tx
+  tokenDeltas: Map<string, number>; // mint -> delta (ui amount), sin WSOL
+}
+
+// 💧 Mints "quote" (el lado SOL de un swap)
+export const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+// 🐋 Orca Whirlpool: discriminators Anchor (sha256("global:<ix>")[0..8])
+export const ORCA_WHIRLPOOL_PROGRAM = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+export const WHIRLPOOL_SWAP_DISCRIMINATORS = new Set([
+  'f8c69e91e17587c8', // swap
+  '2b04ed0b1ac91e62', // swapV2
+  'c360ed6c44a2dbe6', // twoHopSwap
+  'ba8fd11dfe02c275', // twoHopSwapV2
+]);
+
+// Umbrales para ignorar polvo / operaciones internas
+export const MIN_SWAP_SOL = 0.001;
+export const MIN_TOKEN_DELTA = 0.00001;
+
+// --- Helpers ---
+
+// Helper para parsear token amounts de forma segura
+export function safeParseTokenAmount(balance: any): number {
+  try {
+    if (!balance) return 0;
+    return (
+      balance.uiTokenAmount?.uiAmount ||
+      parseFloat(balance.uiTokenAmount?.uiAmountString || '0') ||
+      0
+    );
+  } catch {
+    return 0;
+  }
+}
+
+// Claves estáticas + las cargadas de address lookup tables (v0)
+export function getAccountKeyStrings(tx: any): string[] {
+  const message = tx?.transaction?.message ?? {};
+  const staticKeys: any[] =
+    message.staticAccountKeys || message.accountKeys || [];
+  const loaded = tx?.meta?.loadedAddresses ?? {};
+
+  return [
+    ...staticKeys,
+    ...(loaded.writable ?? []),
+    ...(loaded.readonly ?? []),
+  ].map((k: any) => {
+    try {
+      return typeof k === 'string' ? k : (k.pubkey ?? k).toString();
+    } catch {
+      return '';
+    }
+  });
+}
+
+export function getWalletBalanceChanges(
+  tx: any,
+  walletAddress: string,
+): WalletBalanceChanges | null {
+  const accountKeys = getAccountKeyStrings(tx);
+  const walletIndex = accountKeys.findIndex(k => k === walletAddress);
+
+  if (walletIndex === -1) {
+    console.log(`   ⚠️ Wallet not found in transaction`);
+    return null;
+  }
+
+  // SOL nativo (la fee la paga el fee payer, index 0)
+  const preLamports = Number(tx.meta.preBalances?.[walletIndex] ?? 0);
+  const postLamports = Number(tx.meta.postBalances?.[walletIndex] ?? 0);
+  const feeLamports = walletIndex === 0 ? Number(tx.meta.fee ?? 0) : 0;
+  let solDelta = (postLamports - preLamports + feeLamports) / 1e9;
+
+  // Token balances de la wallet, agrupados por cuenta (accountIndex)
+  const perAccount = new Map<number, { mint: string; pre: number; post: number }>();
+
+  for (const bal of tx.meta.preTokenBalances || []) {
+    if (!bal?.mint || bal.owner !== walletAddress) continue;
+    const entry = perAccount.get(bal.accountIndex) ?? {
+      mint: bal.mint,
+      pre: 0,
+      post: 0,
+    };
+    entry.pre = safeParseTokenAmount(bal);
+    perAccount.set(bal.accountIndex, entry);
+  }
+
+  for (const bal of tx.meta.postTokenBalances || []) {
+    if (!bal?.mint || bal.owner !== walletAddress) continue;
+    const entry = perAccount.get(bal.accountIndex) ?? {
+      mint: bal.mint,
+      pre: 0,
+      post: 0,
+    };
+    entry.post = safeParseTokenAmount(bal);
+    perAccount.set(bal.accountIndex, entry);
+  }
+
+  const tokenDeltas = new Map<string, number>();
+  for (const { mint, pre, post } of perAccount.values()) {
+    const delta = post - pre;
+    if (mint === WSOL_MINT) {
+      // WSOL cuenta como SOL (wrap/unwrap dentro de la misma tx)
+      solDelta += delta;
+      continue;
+    }
+    tokenDeltas.set(mint, (tokenDeltas.get(mint) ?? 0) + delta);
+  }
+
+  // Quitamos mints que se netean a ~0 (saltos intermedios multi-hop)
+  for (const [mint, delta] of tokenDeltas) {
+    if (Math.abs(delta) < MIN_TOKEN_DELTA) {
+      tokenDeltas.delete(mint);
+    }
+  }
+
+  return { solBefore: preLamports / 1e9, solDelta, tokenDeltas };
+}
+
+// --- Parsers ---
+
+// Swap token <-> SOL a partir de cambios de balance
+export function parseSolSwapFromBalances(
+  tx: any,
+  walletAddress: string,
+  signature: string,
+  dex: string,
+): SwapDetails | null {
+  if (!tx?.meta?.preBalances || !tx?.meta?.postBalances) {
+    console.log(`   ⚠️ Invalid transaction structure`);
+    return null;
+  }
+
+  if (tx.meta.err) {
+    console.log(`   ⚠️ Transaction failed`);
+    return null;
+  }
+
+  const changes = getWalletBalanceChanges(tx, walletAddress);
+  if (!changes) return null;
+
+  const { solDelta, tokenDeltas } = changes;
+
+  if (tokenDeltas.size === 0) {
+    console.log(`   ⚠️ No token balance change for wallet`);
+    return null;
+  }
+
+  if (tokenDeltas.size > 1) {
+    console.log(
+      `   ⚠️ ${dex}: ${tokenDeltas.size} tokens changed (token-to-token swap), skipping`,
+    );
+    return null;
+  }
+
+  const [[mint, tokenDelta]] = [...tokenDeltas.entries()];
+  const solAmount = Math.abs(solDelta);
+
+  if (solAmount < MIN_SWAP_SOL) {
+    console.log(
+      `   ⚠️ No significant SOL change (${solAmount.toFixed(6)} SOL)`,
+    );
+    return null;
+  }
+
+  // Token sube y SOL baja = BUY; token baja y SOL sube = SELL
+  const isBuy = tokenDelta > 0;
+  if ((isBuy && solDelta > 0) || (!isBuy && solDelta < 0)) {
+    console.log(`   ⚠️ ${dex}: inconsistent SOL/token direction`);
+    return null;
+  }
+
+  const tokenAmount = Math.abs(tokenDelta);
+  const timestamp: number = tx.blockTime ? tx.blockTime * 1000 : Date.now();
+
+  console.log(`   📊 ${isBuy ? '🟢 BUY' : '🔴 SELL'} PARSED (${dex}):`);
+  console.log(`      Mint: ${mint.slice(0, 8)}...${mint.slice(-8)}`);
+  console.log(`      Tokens: ${tokenAmount.toFixed(2)}`);
+  console.log(`      SOL: ${solAmount.toFixed(4)}`);
+
+  return {
+    signature,
+    wallet: walletAddress,
+    mint,
+    action: isBuy ? 'BUY' : 'SELL',
+    tokenAmount,
+    solAmount,
+    timestamp,
+    slot: tx.slot,
+    dex,
+    quoteMint: WSOL_MINT,
+    quoteAmount: solAmount,
+    walletSolBefore: changes.solBefore,
+  };
+}
+
+// 🌊 Raydium AMM v4 / CLMM
+export function parseRaydiumSwap(
+  tx: any,
+  walletAddress: string,
+  signature: string,
+): SwapDetails | null {
+  try {
+    return parseSolSwapFromBalances(tx, walletAddress, signature, 'Raydium');
+  } catch (error: any) {
+    console.log(
+      `   ❌ Raydium parser error: ${error?.message ?? String(error)}`,
+    );
+    return null;
+  }
+}
+
+// ¿La tx incluye un swap de Whirlpool (top-level o inner instruction)?
+export function hasWhirlpoolSwap(tx: any): boolean {
+  const accountKeys = getAccountKeyStrings(tx);
+  const message = tx?.transaction?.message ?? {};
+
+  const topLevel: any[] =
+    message.compiledInstructions || message.instructions || [];
+  const inner: any[] = (tx?.meta?.innerInstructions || []).flatMap(
+    (ix: any) => ix?.instructions || [],
+  );
+
+  return [...topLevel, ...inner].some((ix: any) => {
+    if (accountKeys[ix?.programIdIndex] !== ORCA_WHIRLPOOL_PROGRAM) return false;
+
+    try {
+      const data: Uint8Array =
+        typeof ix.data === 'string' ? bs58.decode(ix.data) : ix.data;
+      if (!data || data.length < 8) return false;
+      const discriminator = Buffer.from(data.subarray(0, 8)).toString('hex');
+      return WHIRLPOOL_SWAP_DISCRIMINATORS.has(discriminator);
+    } catch {
+      return false;
+    }
+  });
+}
+
+// 🐋 Orca Whirlpool swap / swapV2 / twoHop
+export function parseOrcaSwap(
+  tx: any,
+  walletAddress: string,
+  signature: string,
+): SwapDetails | null {
+  try {
+    if (!hasWhirlpoolSwap(tx)) {
+      console.log(`   ℹ️ Orca: no Whirlpool swap instruction (LP/other op)`);
+      return null;
+    }
+
+    return parseSolSwapFromBalances(tx, walletAddress, signature, 'Orca');
+  } catch (error: any) {
+    console.log(`   ❌ Orca parser error: ${error?.message ?? String(error)}`);
+    return null;
+  }
+}
+
+// 🪐 Jupiter v6 (aggregator)
+//
+// Jupiter puede encadenar varios AMMs; solo nos importa el efecto neto en
+// la wallet: qué mint salió (input) y cuál entró (output). BUY/SELL se
+// clasifica respecto a SOL/WSOL o USDC. Token→token se ignora (avisa por
+// onTokenToToken para las métricas del tracker).
+//
+// usdcPriceSol: SOL por 1 USDC; lo resuelve el caller (solo hace falta si
+// la tx mueve USDC). Sin precio, un swap con quote USDC se descarta.
+export function parseJupiterSwap(
+  tx: any,
+  walletAddress: string,
+  signature: string,
+  usdcPriceSol: number | null,
+  onTokenToToken?: (inputMint: string | null, outputMint: string | null) => void,
+): SwapDetails | null {
+  try {
+    if (!tx?.meta?.preBalances || !tx?.meta?.postBalances) {
+      console.log(`   ⚠️ Invalid transaction structure`);
+      return null;
+    }
+
+    if (tx.meta.err) {
+      console.log(`   ⚠️ Transaction failed`);
+      return null;
+    }
+
+    const changes = getWalletBalanceChanges(tx, walletAddress);
+    if (!changes) return null;
+
+    const { solDelta, tokenDeltas } = changes;
+    const usdcDelta = tokenDeltas.get(USDC_MINT) ?? 0;
+    tokenDeltas.delete(USDC_MINT);
+
+    if (tokenDeltas.size === 0) {
+      console.log(`   ℹ️ Jupiter: SOL/USDC swap only, ignoring`);
+      return null;
+    }
+
+    if (tokenDeltas.size > 1) {
+      const legs = [...tokenDeltas.entries()];
+      const input = legs.find(([, d]) => d < 0)?.[0] ?? null;
+      const output = legs.find(([, d]) => d > 0)?.[0] ?? null;
+      onTokenToToken?.(input, output);
+      console.log(
+        `   🔀 Jupiter: token-to-token swap ignored (${
+          input?.slice(0, 8) ?? '?'
+        }... → ${output?.slice(0, 8) ?? '?'}...)`,
+      );
+      return null;
+    }
+
+    const [[mint, tokenDelta]] = [...tokenDeltas.entries()];
+    const isBuy = tokenDelta > 0;
+    const tokenAmount = Math.abs(tokenDelta);
+
+    // Quote: USDC si se movió en sentido contrario al token;
+    // si no, SOL/WSOL (el SOL puede variar un poco por rent de ATAs)
+    const usdcIsQuote =
+      Math.abs(usdcDelta) >= MIN_TOKEN_DELTA &&
+      (isBuy ? usdcDelta < 0 : usdcDelta > 0);
+
+    let quoteMint = WSOL_MINT;
+    let quoteAmount = Math.abs(solDelta);
+    let solAmount = quoteAmount;
+
+    if (usdcIsQuote) {
+      quoteMint = USDC_MINT;
+      quoteAmount = Math.abs(usdcDelta);
+
+      if (usdcPriceSol === null || !Number.isFinite(usdcPriceSol)) {
+        console.log(`   ⚠️ Jupiter: could not price USDC in SOL`);
+        return null;
+      }
+      solAmount = quoteAmount * usdcPriceSol;
+    } else if (isBuy ? solDelta > 0 : solDelta < 0) {
+      console.log(`   ⚠️ Jupiter: inconsistent SOL/token direction`);
+      return null;
+    }
+
+    if (solAmount < MIN_SWAP_SOL) {
+      console.log(
+        `   ⚠️ No significant SOL change (${solAmount.toFixed(6)} SOL)`,
+      );
+      return null;
+    }
+
+    const timestamp: number = tx.blockTime ? tx.blockTime * 1000 : Date.now();
+    const quoteLabel = quoteMint === USDC_MINT ? 'USDC' : 'SOL';
+
+    console.log(`   📊 ${isBuy ? '🟢 BUY' : '🔴 SELL'} PARSED (Jupiter):`);
+    console.log(`      Mint: ${mint.slice(0, 8)}...${mint.slice(-8)}`);
+    console.log(`      Tokens: ${tokenAmount.toFixed(2)}`);
+    console.log(
+      `      ${isBuy ? 'Input' : 'Output'}: ${quoteAmount.toFixed(
+        4,
+      )} ${quoteLabel}${
+        quoteMint === USDC_MINT ? ` (~${solAmount.toFixed(4)} SOL)` : ''
+      }`,
+    );
+
+    return {
+      signature,
+      wallet: walletAddress,
+      mint,
+      action: isBuy ? 'BUY' : 'SELL',
+      tokenAmount,
+      solAmount,
+      timestamp,
+      slot: tx.slot,
+      dex: 'Jupiter',
+      quoteMint,
+      quoteAmount,
+      walletSolBefore: changes.solBefore,
+    };
+  } catch (error: any) {
+    console.log(
+      `   ❌ Jupiter parser error: ${error?.message ?? String(error)}`,
+    );
+    return null;
+  }
+}
@@ -6,7 +6,25 @@ import type { Redis as RedisClient } from 'ioredis';
 import type { Options as RequestOptions } from 'request';
 import { getPriceService } from './priceService.js';
 import type { PriceData } from './priceService.js';
-import { isDryRunEnabled, POSITION_SIZE_SOL, MAX_POSITIONS } from './environment.js';
+import { MAX_POSITIONS } from './environment.js';
+import { requestForceExit } from './forceExit.js';
+import { getRiskGovernor } from './riskGovernor.js';
+import { getPaperWallet } from './paperWallet.js';
+import { tokenDisplayName } from './tokenMetadata.js';
+import {
+  DEFAULT_WALLET_MIN_SOL,
+  DEFAULT_WALLET_MAX_SOL,
+  SIZING_MODES,
+  type SizingMode,
+} from './copySizing.js';
+import {
+  getDefaultProfile,
+  getProfile,
+  getProfiles,
+  getProfileRedis,
+  isMultiProfile,
+  type TradingProfile,
+} from './profiles.js';
 
 const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 const OWNER_CHAT_ID = process.env.TELEGRAM_OWNER_CHAT_ID;
@@ -16,6 +34,20 @@ let redis: RedisClient | null = null;
 
 const priceService = getPriceService();
 
+// 👥 Perfil activo por chat (/profile ID). Sin elegir = perfil default.
+const chatProfiles = new Map<string, string>();
+
+function activeProfile(chatId: number | string): TradingProfile {
+  return getProfile(chatProfiles.get(String(chatId))) ?? getDefaultProfile();
+}
+
+function redisFor(chatId: number | string): RedisClient | null {
+  if (!redis) return null;
+  const profile = activeProfile(chatId);
+  // El perfil sin prefijo comparte la conexión del bot
+  return profile.redisPrefix ? getProfileRedis(profile) : redis;
+}
+
 // --- Helpers de tipos mínimos para evitar "any" descontrolado ---
 
 interface RawPosition {
@@ -27,7 +59,10 @@ interface RawPosition {
   entryTime: string;
   walletName?: string;
   upvotes?: string;
+  consensusScore?: string;
   executedDex?: string;
+  symbol?: string;
+  tokenName?: string;
 }
 
 interface WalletInfo {
@@ -42,6 +77,14 @@ interface WalletStats {
   totalCopied: number;
   winRate?: string;
   totalPnL?: string;
+  score?: {
+    trades: number;
+    winRate: number;
+    expectancySol: number;
+    maxDrawdownSol: number;
+    weight: number;
+    qualified: boolean;
+  } | null;
 }
 
 // --- Helper: enviar mensaje seguro (sanear markdown) ---
@@ -116,11 +159,18 @@ export async function initTelegram(): Promise<void> {
           "/stats - Today's performance\n\n" +
           '👁️ Wallets:\n' +
           '/wallets - List tracked wallets\n' +
-          '/add_wallet ADDRESS NAME - Add wallet\n' +
+          '/add_wallet ADDRESS NAME [TIER] [mode=M] [min=SOL] [max=SOL] [pct=%] - Add wallet\n' +
           '/remove_wallet ADDRESS - Remove wallet\n\n' +
           '💰 Trading:\n' +
           '/sell MINT - Manual sell\n' +
-          '/sell_all - Close all positions',
+          '/sell_all - Close all positions\n\n' +
+          '🛡️ Risk:\n' +
+          '/kill REASON - Stop all new buys\n' +
+          '/resume - Release kill switch\n\n' +
+          '📄 Paper:\n' +
+          '/paper [ACCOUNT] - Paper wallet + equity curve\n\n' +
+          '👥 Profiles:\n' +
+          '/profile [ID] - List profiles / switch active profile',
       );
     });
 
@@ -131,6 +181,7 @@ export async function initTelegram(): Promise<void> {
         return;
       }
 
+      const redis = redisFor(chatId);
       if (!redis) {
         await safeSend(chatId, '❌ Redis not initialized');
         return;
@@ -141,9 +192,11 @@ export async function initTelegram(): Promise<void> {
         const trackedWallets = await redis.scard('tracked_wallets');
         const pendingSignals = await redis.llen('copy_signals');
 
-        const mode = isDryRunEnabled() ? '📝 PAPER' : '💰 LIVE';
+        const profile = activeProfile(chatId);
+        const mode = profile.dryRun ? '📝 PAPER' : '💰 LIVE';
 
         let totalPnL = 0;
+        const strategyCounts: Record<string, number> = {};
         const positionMints = await redis.smembers('open_positions');
 
         for (const mint of positionMints) {
@@ -151,7 +204,10 @@ export async function initTelegram(): Promise<void> {
             `position:${mint}`,
           )) as unknown as RawPosition;
 
-          if (position && position.strategy === 'copy') {
+          if (position && position.entryPrice) {
+            const strategy = position.strategy || 'unknown';
+            strategyCounts[strategy] = (strategyCounts[strategy] ?? 0) + 1;
+
             const entryPrice = parseFloat(position.entryPrice);
             const solAmount = parseFloat(position.solAmount || '0');
             const priceData: PriceData = await priceService.getPrice(
@@ -167,15 +223,31 @@ export async function initTelegram(): Promise<void> {
           }
         }
 
+        const risk = await getRiskGovernor(redis).getStatus();
+        const riskLine = risk.killSwitch.active
+          ? `🛑 KILL SWITCH: ${risk.killSwitch.reason ?? 'manual'}`
+          : risk.breaker.active
+            ? `⚡ BREAKER: ${risk.breaker.reason} (${risk.breaker.ttlSeconds}s left)`
+            : '✅ Trading allowed';
+
         await safeSend(
           chatId,
           '📊 Status\n\n' +
+            (isMultiProfile() ? `Profile: ${profile.label}\n` : '') +
             `Mode: ${mode}\n` +
             `Tracked Wallets: ${trackedWallets}\n` +
             `Open Positions: ${openPositions}/${MAX_POSITIONS}\n` +
+            `  Copy: ${strategyCounts.copy ?? 0} | Sniper: ${
+              strategyCounts.sniper ?? 0
+            }\n` +
             `Pending Signals: ${pendingSignals}\n` +
             '\n' +
-            `💰 Total P&L: ${totalPnL.toFixed(4)} SOL`,
+            `💰 Total P&L: ${totalPnL.toFixed(4)} SOL\n` +
+            '\n' +
+            `🛡️ Risk: ${riskLine}\n` +
+            `Realized today: ${risk.dailyRealizedPnl.toFixed(4)} SOL\n` +
+            `Exposure: ${risk.openExposureSol.toFixed(4)} SOL\n` +
+            `Loss streak: ${risk.consecutiveLosses}`,
         );
       } catch (error: any) {
         await safeSend(chatId, `❌ Error: ${error?.message ?? String(error)}`);
@@ -190,6 +262,7 @@ export async function initTelegram(): Promise<void> {
         return;
       }
 
+      const redis = redisFor(chatId);
       if (!redis) {
         await safeSend(chatId, '❌ Redis not initialized');
         return;
@@ -201,15 +274,13 @@ export async function initTelegram(): Promise<void> {
         const positions: RawPosition[] =
           (await positionManager.getOpenPositions()) || [];
 
-        const copyPositions = positions.filter(p => p.strategy === 'copy');
-
-        if (copyPositions.length === 0) {
+        if (positions.length === 0) {
           return safeSend(chatId, '🔭 No open positions');
         }
 
         let message = '📈 Open Positions:\n\n';
 
-        for (const pos of copyPositions) {
+        for (const pos of positions) {
           const entryPrice = parseFloat(pos.entryPrice);
 
           // usamos PriceService.getPrice (delega a Pump.fun + Jupiter)
@@ -244,18 +315,30 @@ export async function initTelegram(): Promise<void> {
           ).toFixed(0);
           const upvotes = pos.upvotes || '1';
 
-          const posNum = copyPositions.indexOf(pos) + 1;
+          const posNum = positions.indexOf(pos) + 1;
           const graduatedTag = isGraduated ? ' 🎓' : '';
+          const isSniper = pos.strategy === 'sniper';
 
           message += `${emoji} Position ${posNum}${graduatedTag}\n`;
+          message += `Strategy: ${(pos.strategy || 'unknown').toUpperCase()}\n`;
           message += `Wallet: ${pos.walletName || 'Unknown'}\n`;
+          message += `Token: ${tokenDisplayName(pos.mint, {
+            symbol: pos.symbol !== pos.mint ? pos.symbol ?? '' : '',
+            name: pos.tokenName ?? '',
+          })}\n`;
           message += `Mint: ${pos.mint.slice(0, 12)}...\n`;
           message += `Entry: ${entryPrice.toFixed(8)}\n`;
           message += `Current: ${currentPrice.toFixed(8)}\n`;
           message += `PnL: ${pnlPercent.toFixed(2)}% | ${pnlSOL.toFixed(
             4,
           )} SOL\n`;
-          message += `Hold: ${holdTime}s | Votes: ${upvotes}\n`;
+          message += isSniper
+            ? `Hold: ${holdTime}s\n`
+            : `Hold: ${holdTime}s | Votes: ${upvotes}${
+                pos.consensusScore
+                  ? ` (score ${parseFloat(pos.consensusScore).toFixed(2)})`
+                  : ''
+              }\n`;
 
           if (isGraduated) {
             message += 'Status: GRADUATED to DEX\n';
@@ -271,7 +354,9 @@ export async function initTelegram(): Promise<void> {
     });
 
     // /sell MINT
-    bot.onText(/\/sell(?:\s+(.+))?/, async (msg, match) => {
+    // Las ventas manuales van por el canal force_exit: copyMonitor ejecuta
+    // exactamente el mismo executeSell que usan las salidas automáticas.
+    bot.onText(/\/sell(?:\s+(.+))?$/, async (msg, match) => {
       const chatId = msg.chat.id;
 
       if (OWNER_CHAT_ID && chatId.toString() !== OWNER_CHAT_ID) {
@@ -290,14 +375,13 @@ export async function initTelegram(): Promise<void> {
         );
       }
 
+      const redis = redisFor(chatId);
       if (!redis) {
         await safeSend(chatId, '❌ Redis not initialized');
         return;
       }
 
       try {
-        await safeSend(chatId, '⏳ Processing manual sell...');
-
         const positionMints = await redis.smembers('open_positions');
         let targetMint: string | null = null;
 
@@ -316,88 +400,26 @@ export async function initTelegram(): Promise<void> {
           `position:${targetMint}`,
         )) as unknown as RawPosition;
 
-        if (!position || position.strategy !== 'copy') {
+        if (!position || !position.mint) {
           return safeSend(chatId, '❌ Invalid position');
         }
 
-        const priceData = await priceService.getPrice(targetMint, true);
-
-        if (!priceData || priceData.price === null) {
-          return safeSend(
-            chatId,
-            '❌ Could not get current price\n' +
-              'Token may be graduated - try again in a moment',
-          );
-        }
-
-        const currentPrice = priceData.price;
-        const entryPrice = parseFloat(position.entryPrice);
-        const pnlPercent =
-          ((currentPrice - entryPrice) / entryPrice) * 100;
-        const isGraduated =
-          priceData.graduated ||
-          priceData.source.toUpperCase().includes('JUPITER');
-
-        // Seleccionar DEX correcto
-        const { MultiDexExecutor } = await import('./multiDexExecutor.js');
-        const { PositionManager } = await import('./riskManager.js');
-
-        const dryRun = isDryRunEnabled();
-        const tradeExecutor = new MultiDexExecutor(
-          process.env.PRIVATE_KEY as string,
-          process.env.RPC_URL as string,
-          dryRun,
-        );
-
-        const dex = isGraduated ? 'Jupiter' : position.executedDex || 'auto';
-
-        console.log(`\n💰 Manual sell: ${targetMint.slice(0, 8)}`);
-        console.log(`   Graduated: ${isGraduated}`);
-        console.log(`   DEX: ${dex}`);
-
-        const tokensAmount = parseInt(position.tokensAmount, 10);
-        const sellResult = await tradeExecutor.sellToken(
+        await requestForceExit(
+          redis,
           targetMint,
-          tokensAmount,
-          dex as any,
+          'manual_sell',
+          `telegram:${chatId}`,
         );
 
-        if (sellResult.success) {
-          const positionManager = new PositionManager(redis);
-          const realizedSol =
-            sellResult.solReceived ?? currentPrice * tokensAmount;
-          const closedPosition = await positionManager.closePosition(
-            targetMint,
-            currentPrice,
-            tokensAmount,
-            realizedSol,
-            'manual_sell',
-            sellResult.signature,
-          );
-
-          const mode = dryRun ? '📝 PAPER' : '💰 LIVE';
-          const graduatedTag = isGraduated ? ' 🎓' : '';
-          const pnlSol = parseFloat(closedPosition.pnlSOL);
+        console.log(`\n💰 Manual sell requested: ${targetMint.slice(0, 8)}`);
 
-          await safeSend(
-            chatId,
-            `✅ ${mode} MANUAL SELL${graduatedTag}\n\n` +
-              `Mint: ${targetMint.slice(0, 12)}...\n` +
-              `${isGraduated ? `DEX: ${dex}\n` : ''}` +
-              `Entry: ${entryPrice.toFixed(8)}\n` +
-              `Exit: ${currentPrice.toFixed(8)}\n` +
-              '\n' +
-              `💰 PnL: ${pnlPercent.toFixed(2)}%\n` +
-              `Amount: ${pnlSol.toFixed(4)} SOL\n` +
-              '\n' +
-              `Signature: ${sellResult.signature?.slice(0, 12)}...`,
-          );
-        } else {
-          await safeSend(
-            chatId,
-            `❌ Sell failed: ${sellResult.error ?? 'Unknown error'}`,
-          );
-        }
+        await safeSend(
+          chatId,
+          '⏳ Manual sell queued\n\n' +
+            `Mint: ${targetMint.slice(0, 12)}...\n` +
+            `Strategy: ${position.strategy ?? 'unknown'}\n\n` +
+            'The position monitor will sell on its next cycle and send the exit alert.',
+        );
       } catch (error: any) {
         await safeSend(chatId, `❌ Error: ${error?.message ?? String(error)}`);
       }
@@ -411,79 +433,34 @@ export async function initTelegram(): Promise<void> {
         return;
       }
 
+      const redis = redisFor(chatId);
       if (!redis) {
         await safeSend(chatId, '❌ Redis not initialized');
         return;
       }
 
       try {
-        await safeSend(chatId, '⏳ Closing all positions...');
-
         const { PositionManager } = await import('./riskManager.js');
         const positionManager = new PositionManager(redis);
         const positions: RawPosition[] =
           (await positionManager.getOpenPositions()) || [];
 
-        const copyPositions = positions.filter(p => p.strategy === 'copy');
-
-        if (copyPositions.length === 0) {
+        if (positions.length === 0) {
           return safeSend(chatId, '🔭 No positions to close');
         }
 
-        let closed = 0;
+        let queued = 0;
         let failed = 0;
 
-        for (const position of copyPositions) {
+        for (const position of positions) {
           try {
-            const priceData = await priceService.getPrice(
-              position.mint,
-              true,
-            );
-
-            if (!priceData || priceData.price === null) {
-              failed++;
-              continue;
-            }
-
-            const isGraduated =
-              priceData.graduated ||
-              priceData.source.toUpperCase().includes('JUPITER');
-            const dex = isGraduated
-              ? 'Jupiter'
-              : position.executedDex || 'auto';
-
-            const { MultiDexExecutor } = await import(
-              './multiDexExecutor.js'
-            );
-            const dryRun = isDryRunEnabled();
-            const tradeExecutor = new MultiDexExecutor(
-              process.env.PRIVATE_KEY as string,
-              process.env.RPC_URL as string,
-              dryRun,
-            );
-
-            const tokensAmount = parseInt(position.tokensAmount, 10);
-            const sellResult = await tradeExecutor.sellToken(
+            await requestForceExit(
+              redis,
               position.mint,
-              tokensAmount,
-              dex as any,
+              'manual_sell_all',
+              `telegram:${chatId}`,
             );
-
-            if (sellResult.success) {
-              const realizedSol =
-                sellResult.solReceived ?? priceData.price * tokensAmount;
-              await positionManager.closePosition(
-                position.mint,
-                priceData.price,
-                tokensAmount,
-                realizedSol,
-                'manual_sell_all',
-                sellResult.signature,
-              );
-              closed++;
-            } else {
-              failed++;
-            }
+            queued++;
           } catch {
             failed++;
           }
@@ -491,10 +468,69 @@ export async function initTelegram(): Promise<void> {
 
         await safeSend(
           chatId,
-          '✅ Closed All Positions\n\n' +
-            `Closed: ${closed}\n` +
-            `Failed: ${failed}`,
+          '⏳ Closing All Positions\n\n' +
+            `Queued: ${queued}\n` +
+            `Failed: ${failed}\n\n` +
+            'Exit alerts will follow as each position is sold.',
+        );
+      } catch (error: any) {
+        await safeSend(chatId, `❌ Error: ${error?.message ?? String(error)}`);
+      }
+    });
+
+    // /kill REASON - kill switch persistente (bloquea compras nuevas)
+    bot.onText(/\/kill(?:\s+(.+))?$/, async (msg, match) => {
+      const chatId = msg.chat.id;
+
+      if (OWNER_CHAT_ID && chatId.toString() !== OWNER_CHAT_ID) {
+        return;
+      }
+
+      const redis = redisFor(chatId);
+      if (!redis) {
+        await safeSend(chatId, '❌ Redis not initialized');
+        return;
+      }
+
+      try {
+        const reason = match?.[1]?.trim() || 'manual';
+        await getRiskGovernor(redis).setKillSwitch(
+          true,
+          reason,
+          `telegram:${chatId}`,
+        );
+        await safeSend(
+          chatId,
+          '🛑 Kill switch ON\n\n' +
+            'No new buys (copy or sniper) until /resume.\n' +
+            'Open positions keep being managed.',
+        );
+      } catch (error: any) {
+        await safeSend(chatId, `❌ Error: ${error?.message ?? String(error)}`);
+      }
+    });
+
+    // /resume - libera el kill switch
+    bot.onText(/\/resume/, async msg => {
+      const chatId = msg.chat.id;
+
+      if (OWNER_CHAT_ID && chatId.toString() !== OWNER_CHAT_ID) {
+        return;
+      }
+
+      const redis = redisFor(chatId);
+      if (!redis) {
+        await safeSend(chatId, '❌ Redis not initialized');
+        return;
+      }
+
+      try {
+        await getRiskGovernor(redis).setKillSwitch(
+          false,
+          '',
+          `telegram:${chatId}`,
         );
+        await safeSend(chatId, '🟢 Kill switch OFF - trading resumed');
       } catch (error: any) {
         await safeSend(chatId, `❌ Error: ${error?.message ?? String(error)}`);
       }
@@ -510,7 +546,8 @@ export async function initTelegram(): Promise<void> {
 
       try {
         const { getWalletTracker } = await import('./walletTracker.js');
-        const tracker: any = getWalletTracker();
+        const profile = activeProfile(chatId);
+        const tracker: any = getWalletTracker(profile.id);
 
         if (!tracker) {
           return safeSend(chatId, '⚠️ Wallet tracker not initialized');
@@ -537,13 +574,20 @@ export async function initTelegram(): Promise<void> {
           message += `Copy: ${wallet.copyPercentage ?? 100}% | ${
             wallet.enabled ? 'Active' : 'Paused'
           }\n`;
-          message += `Amount: ${POSITION_SIZE_SOL} SOL\n`;
+          message += `Amount: ${profile.positionSizeSol} SOL\n`;
           message += `Trades: ${stats.totalDetected} detected, ${stats.totalCopied} copied\n`;
           if (stats.totalCopied > 0) {
             message += `Win Rate: ${stats.winRate ?? 'N/A'} | P&L: ${
               stats.totalPnL ?? '0'
             }\n`;
           }
+          if (stats.score && stats.score.trades > 0) {
+            message +=
+              `Score: x${stats.score.weight.toFixed(2)}` +
+              `${stats.score.qualified ? '' : ' (warming up)'} | ` +
+              `Exp: ${stats.score.expectancySol.toFixed(4)} SOL | ` +
+              `DD: ${stats.score.maxDrawdownSol.toFixed(4)} SOL\n`;
+          }
           message += `/remove_wallet ${wallet.address.slice(0, 12)}\n\n`;
         }
 
@@ -553,7 +597,7 @@ export async function initTelegram(): Promise<void> {
       }
     });
 
-    // /add_wallet ADDRESS NAME
+    // /add_wallet ADDRESS NAME [TIER] [mode=percent_of_leader] [min=0.01] [max=0.5] [pct=50]
     bot.onText(/\/add_wallet (.+)/, async (msg, match) => {
       const chatId = msg.chat.id;
 
@@ -562,13 +606,51 @@ export async function initTelegram(): Promise<void> {
       }
 
       try {
-        const parts = (match?.[1] ?? '').trim().split(/\s+/);
+        const tokens = (match?.[1] ?? '').trim().split(/\s+/);
+        const parts = tokens.filter(t => !t.includes('='));
+        const options = new Map(
+          tokens
+            .filter(t => t.includes('='))
+            .map(t => {
+              const [key, ...rest] = t.split('=');
+              return [key.toLowerCase(), rest.join('=')] as [string, string];
+            }),
+        );
+
         const address = parts[0];
         const name = parts[1] || `Wallet-${address.slice(0, 8)}`;
-        const copyPercentage = 100;
+        const tier = parts[2]?.toLowerCase();
+
+        const sizingMode = options.get('mode')?.toLowerCase() as
+          | SizingMode
+          | undefined;
+        if (sizingMode && !SIZING_MODES.includes(sizingMode)) {
+          return safeSend(
+            chatId,
+            `❌ Invalid mode: ${sizingMode}\nUse: ${SIZING_MODES.join(', ')}`,
+          );
+        }
+
+        const numberOption = (key: string, fallback: number): number | null => {
+          const raw = options.get(key);
+          if (raw === undefined) return fallback;
+          const value = Number(raw);
+          return Number.isFinite(value) && value >= 0 ? value : null;
+        };
+        const minAmount = numberOption('min', DEFAULT_WALLET_MIN_SOL);
+        const maxAmount = numberOption('max', DEFAULT_WALLET_MAX_SOL);
+        const copyPercentage = numberOption('pct', 100);
+
+        if (minAmount === null || maxAmount === null || copyPercentage === null) {
+          return safeSend(chatId, '❌ min, max and pct must be numbers >= 0');
+        }
+        if (maxAmount > 0 && minAmount > maxAmount) {
+          return safeSend(chatId, '❌ min cannot be greater than max');
+        }
 
         const { getWalletTracker } = await import('./walletTracker.js');
-        const tracker: any = getWalletTracker();
+        const profile = activeProfile(chatId);
+        const tracker: any = getWalletTracker(profile.id);
 
         if (!tracker) {
           return safeSend(chatId, '⚠️ Wallet tracker not initialized');
@@ -577,8 +659,10 @@ export async function initTelegram(): Promise<void> {
         const result: boolean = await tracker.addWallet(address, {
           name,
           copyPercentage,
-          minAmount: POSITION_SIZE_SOL,
-          maxAmount: POSITION_SIZE_SOL,
+          minAmount,
+          maxAmount,
+          sizingMode,
+          tier,
         });
 
         if (result) {
@@ -587,8 +671,9 @@ export async function initTelegram(): Promise<void> {
             '✅ Wallet Added\n\n' +
               `Name: ${name}\n` +
               `Address: ${address.slice(0, 12)}...\n` +
-              `Copy: ${copyPercentage}%\n` +
-              `Amount: ${POSITION_SIZE_SOL} SOL\n\n` +
+              `Sizing: ${sizingMode ?? 'default'} (copy ${copyPercentage}%)\n` +
+              (tier ? `Tier: ${tier.toUpperCase()}\n` : '') +
+              `Range: ${minAmount} - ${maxAmount > 0 ? maxAmount : '∞'} SOL\n\n` +
               'Now tracking trades',
           );
         } else {
@@ -611,7 +696,8 @@ export async function initTelegram(): Promise<void> {
         const addressArg = (match?.[1] ?? '').trim();
 
         const { getWalletTracker } = await import('./walletTracker.js');
-        const tracker: any = getWalletTracker();
+        const profile = activeProfile(chatId);
+        const tracker: any = getWalletTracker(profile.id);
 
         if (!tracker) {
           return safeSend(chatId, '⚠️ Wallet tracker not initialized');
@@ -662,6 +748,7 @@ export async function initTelegram(): Promise<void> {
         return;
       }
 
+      const redis = redisFor(chatId);
       if (!redis) {
         await safeSend(chatId, '❌ Redis not initialized');
         return;
@@ -692,6 +779,91 @@ export async function initTelegram(): Promise<void> {
       }
     });
 
+    // /paper [ACCOUNT] - saldo virtual, holdings y curva de equity
+    bot.onText(/\/paper(?:\s+(\S+))?$/, async (msg, match) => {
+      const chatId = msg.chat.id;
+
+      if (OWNER_CHAT_ID && chatId.toString() !== OWNER_CHAT_ID) {
+        return;
+      }
+
+      const redis = redisFor(chatId);
+      if (!redis) {
+        await safeSend(chatId, '❌ Redis not initialized');
+        return;
+      }
+
+      try {
+        const wallet = getPaperWallet(redis, match?.[1]);
+        const summary = await wallet.getSummary(
+          async mint => (await priceService.getPrice(mint, true)).price,
+        );
+        const history = await wallet.getEquityHistory(10);
+
+        let message =
+          `📄 Paper wallet: ${summary.account}\n\n` +
+          `SOL: ${summary.solBalance.toFixed(4)}\n` +
+          `Holdings: ${summary.holdingsValueSol.toFixed(4)} SOL ` +
+          `(${summary.holdings.length} tokens, cost ${summary.investedSol.toFixed(4)})\n` +
+          `Equity: ${summary.equitySol.toFixed(4)} SOL\n` +
+          `P&L: ${summary.pnlSol >= 0 ? '+' : ''}${summary.pnlSol.toFixed(4)} SOL ` +
+          `(${summary.pnlPercent.toFixed(2)}%) from ${summary.startingSol} SOL\n`;
+
+        if (history.length > 0) {
+          message += '\n📈 Equity (last events):\n';
+          for (const point of history) {
+            const time = new Date(point.ts).toISOString().slice(5, 16);
+            message +=
+              `${time} ${point.event.padEnd(5)} ` +
+              `${point.equitySol.toFixed(4)} SOL\n`;
+          }
+        }
+
+        await safeSend(chatId, message);
+      } catch (error: any) {
+        await safeSend(chatId, `❌ Error: ${error?.message ?? String(error)}`);
+      }
+    });
+
+    // /profile [ID] - lista perfiles o cambia el perfil activo de este chat
+    bot.onText(/\/profile(?:\s+(\S+))?$/, async (msg, match) => {
+      const chatId = msg.chat.id;
+
+      if (OWNER_CHAT_ID && chatId.toString() !== OWNER_CHAT_ID) {
+        return;
+      }
+
+      const requested = match?.[1]?.trim();
+
+      if (requested) {
+        const profile = getProfile(requested);
+        if (!profile) {
+          return safeSend(chatId, `❌ Unknown profile: ${requested}`);
+        }
+        chatProfiles.set(String(chatId), profile.id);
+        return safeSend(
+          chatId,
+          `✅ Active profile: ${profile.label}\n\n` +
+            'Commands now read and act on this profile.',
+        );
+      }
+
+      const current = activeProfile(chatId);
+      let message = '👥 Profiles:\n\n';
+      for (const profile of getProfiles()) {
+        message +=
+          `${profile.id === current.id ? '▶️' : '▫️'} ${profile.label} (${profile.id})\n` +
+          `Mode: ${profile.dryRun ? '📝 PAPER' : '💰 LIVE'} | ` +
+          `Trading: ${profile.autoTrading ? 'ON' : 'OFF'}\n` +
+          `Size: ${profile.positionSizeSol} SOL | ` +
+          `Wallets buy/sell: ${profile.minWalletsToBuy}/${profile.minWalletsToSell}\n` +
+          `TP/SL: ${profile.takeProfitPercent}% / -${profile.stopLossPercent}%\n\n`;
+      }
+      message += 'Switch with /profile ID';
+
+      await safeSend(chatId, message);
+    });
+
     bot.on('polling_error', error => {
       console.log('Telegram polling error:', (error as any)?.message ?? error);
     });
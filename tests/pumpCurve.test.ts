@@ -0,0 +1,214 @@
+// Tests de la matemática de la bonding curve (pumpCurve.ts): importes
+// conocidos de una curva nueva + propiedades sobre curvas aleatorias
+// (PRNG con semilla fija: los fallos se reproducen).
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_PUMP_FEES,
+  INITIAL_BONDING_CURVE,
+  computeFee,
+  maxBuyBeforeCompletion,
+  quoteBuy,
+  quoteBuyExactTokens,
+  quoteSell,
+  totalFeeBps,
+  type BondingCurveState,
+  type PumpFeeConfig,
+} from '../pumpCurve.js';
+
+const NO_FEES: PumpFeeConfig = { feeBasisPoints: 0n, creatorFeeBasisPoints: 0n };
+const LAMPORTS_PER_SOL = 1_000_000_000n;
+
+// vSol · vTok se mantiene (salvo redondeo) durante toda la curva
+const K =
+  INITIAL_BONDING_CURVE.virtualSolReserves * INITIAL_BONDING_CURVE.virtualTokenReserves;
+const TOKEN_OFFSET =
+  INITIAL_BONDING_CURVE.virtualTokenReserves - INITIAL_BONDING_CURVE.realTokenReserves;
+
+// mulberry32
+function prng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBig(rand: () => number, min: bigint, max: bigint): bigint {
+  const span = max - min;
+  return min + (BigInt(Math.floor(rand() * 2 ** 52)) * span) / 2n ** 52n;
+}
+
+// Curva en un punto cualquiera entre recién creada y casi completa
+function randomCurve(rand: () => number): BondingCurveState {
+  const realTokenReserves = randomBig(rand, 1_000_000n, INITIAL_BONDING_CURVE.realTokenReserves);
+  const virtualTokenReserves = realTokenReserves + TOKEN_OFFSET;
+  const virtualSolReserves = K / virtualTokenReserves;
+  return {
+    ...INITIAL_BONDING_CURVE,
+    virtualTokenReserves,
+    virtualSolReserves,
+    realTokenReserves,
+    realSolReserves: virtualSolReserves - INITIAL_BONDING_CURVE.virtualSolReserves,
+  };
+}
+
+// Estado tras ejecutar una compra (lo que haría el programa)
+function afterBuy(state: BondingCurveState, tokens: bigint, solCost: bigint): BondingCurveState {
+  return {
+    ...state,
+    virtualTokenReserves: state.virtualTokenReserves - tokens,
+    virtualSolReserves: state.virtualSolReserves + solCost,
+    realTokenReserves: state.realTokenReserves - tokens,
+    realSolReserves: state.realSolReserves + solCost,
+  };
+}
+
+const RUNS = 300;
+
+describe('pump fees', () => {
+  it('defaults to 0.95% protocol + 0.05% creator', () => {
+    assert.equal(DEFAULT_PUMP_FEES.feeBasisPoints, 95n);
+    assert.equal(DEFAULT_PUMP_FEES.creatorFeeBasisPoints, 5n);
+    assert.equal(totalFeeBps(), 100n);
+  });
+
+  it('rounds fees up like the program', () => {
+    assert.equal(computeFee(10_000n, 100n), 100n);
+    assert.equal(computeFee(10_001n, 100n), 101n);
+    assert.equal(computeFee(1n, 1n), 1n);
+    assert.equal(computeFee(0n, 100n), 0n);
+    assert.equal(computeFee(1_000n, 0n), 0n);
+
+    const rand = prng(1);
+    for (let i = 0; i < RUNS; i++) {
+      const amount = randomBig(rand, 1n, 100n * LAMPORTS_PER_SOL);
+      const bps = randomBig(rand, 1n, 500n);
+      const fee = computeFee(amount, bps);
+      // fee = ceil(amount · bps / 10000)
+      assert.ok(fee * 10_000n >= amount * bps, `${amount} @ ${bps}`);
+      assert.ok((fee - 1n) * 10_000n < amount * bps, `${amount} @ ${bps}`);
+    }
+  });
+});
+
+describe('known amounts on a fresh curve', () => {
+  it('1 SOL without fees buys 34,612,903,225,806 raw tokens', () => {
+    const quote = quoteBuy(INITIAL_BONDING_CURVE, LAMPORTS_PER_SOL, 0n, NO_FEES);
+    assert.equal(quote.tokensOut, 34_612_903_225_806n);
+  });
+
+  it('1 SOL with default fees splits into curve cost and ceil-rounded fees', () => {
+    const quote = quoteBuy(INITIAL_BONDING_CURVE, LAMPORTS_PER_SOL);
+    assert.equal(quote.tokensOut, 34_281_150_129_545n);
+    assert.equal(quote.solCost, 990_099_009n);
+    assert.equal(quote.protocolFee, 9_405_941n);
+    assert.equal(quote.creatorFee, 495_050n);
+    assert.equal(quote.totalCost, LAMPORTS_PER_SOL);
+  });
+
+  it('completing the curve costs ~85 SOL before fees', () => {
+    const max = maxBuyBeforeCompletion(INITIAL_BONDING_CURVE);
+    assert.equal(max.tokens, INITIAL_BONDING_CURVE.realTokenReserves);
+    assert.equal(max.solCost, 85_005_359_057n);
+    assert.equal(max.totalCost, 85_855_412_649n);
+  });
+
+  it('applies slippage to max_sol_cost and min_sol_output', () => {
+    const buy = quoteBuy(INITIAL_BONDING_CURVE, LAMPORTS_PER_SOL, 1_500n);
+    assert.equal(buy.maxSolCost, buy.totalCost + (buy.totalCost * 1_500n) / 10_000n);
+
+    const sell = quoteSell(afterBuy(INITIAL_BONDING_CURVE, buy.tokensOut, buy.solCost), buy.tokensOut, 1_500n);
+    assert.equal(sell.minSolOutput, sell.netSol - (sell.netSol * 1_500n) / 10_000n);
+  });
+});
+
+describe('quote properties', () => {
+  it('quoteBuy never spends more than the budget (±rounding)', () => {
+    const rand = prng(2);
+    for (let i = 0; i < RUNS; i++) {
+      const state = randomCurve(rand);
+      const solIn = randomBig(rand, 1_000n, 50n * LAMPORTS_PER_SOL);
+      const quote = quoteBuy(state, solIn);
+      if (quote.tokensOut === 0n) continue;
+      assert.ok(quote.totalCost <= solIn + 3n, `cost ${quote.totalCost} > budget ${solIn}`);
+      assert.ok(quote.tokensOut <= state.realTokenReserves);
+    }
+  });
+
+  it('more SOL never buys fewer tokens', () => {
+    const rand = prng(3);
+    for (let i = 0; i < RUNS; i++) {
+      const state = randomCurve(rand);
+      const a = randomBig(rand, 1_000n, 20n * LAMPORTS_PER_SOL);
+      const b = a + randomBig(rand, 1n, 20n * LAMPORTS_PER_SOL);
+      assert.ok(quoteBuy(state, a).tokensOut <= quoteBuy(state, b).tokensOut);
+    }
+  });
+
+  it('more tokens never sell for less SOL', () => {
+    const rand = prng(4);
+    for (let i = 0; i < RUNS; i++) {
+      const state = randomCurve(rand);
+      const a = randomBig(rand, 1_000n, 100_000_000_000_000n);
+      const b = a + randomBig(rand, 1n, 100_000_000_000_000n);
+      assert.ok(quoteSell(state, a).netSol <= quoteSell(state, b).netSol);
+    }
+  });
+
+  it('buying then selling the same tokens never returns more SOL', () => {
+    const rand = prng(5);
+    for (let i = 0; i < RUNS; i++) {
+      const state = randomCurve(rand);
+      const buy = quoteBuy(state, randomBig(rand, 10_000n, 20n * LAMPORTS_PER_SOL));
+      if (buy.tokensOut === 0n) continue;
+
+      const sell = quoteSell(afterBuy(state, buy.tokensOut, buy.solCost), buy.tokensOut);
+      assert.ok(sell.grossSol <= buy.solCost, `gross ${sell.grossSol} > cost ${buy.solCost}`);
+      assert.ok(sell.netSol < buy.totalCost);
+    }
+  });
+});
+
+describe('maxBuyBeforeCompletion', () => {
+  it('is exactly the remaining real reserves', () => {
+    const rand = prng(6);
+    for (let i = 0; i < RUNS; i++) {
+      const state = randomCurve(rand);
+      const max = maxBuyBeforeCompletion(state);
+      const exact = quoteBuyExactTokens(state, state.realTokenReserves);
+
+      assert.equal(max.tokens, state.realTokenReserves);
+      assert.equal(max.totalCost, exact.totalCost);
+      assert.equal(exact.completesCurve, true);
+
+      // Una unidad menos no completa; pedir de más se capa a las reservas
+      assert.equal(quoteBuyExactTokens(state, state.realTokenReserves - 1n).completesCurve, false);
+      const over = quoteBuyExactTokens(state, state.realTokenReserves + 1_000n);
+      assert.equal(over.tokensOut, state.realTokenReserves);
+      assert.equal(over.totalCost, max.totalCost);
+    }
+  });
+
+  it('caps a budget bigger than the curve at the real reserves', () => {
+    const rand = prng(7);
+    for (let i = 0; i < RUNS; i++) {
+      const state = randomCurve(rand);
+      const max = maxBuyBeforeCompletion(state);
+      const quote = quoteBuy(state, max.totalCost * 2n + LAMPORTS_PER_SOL);
+      assert.equal(quote.tokensOut, state.realTokenReserves);
+      assert.equal(quote.completesCurve, true);
+    }
+  });
+
+  it('returns nothing on a completed curve', () => {
+    const done = { ...INITIAL_BONDING_CURVE, complete: true };
+    assert.deepEqual(maxBuyBeforeCompletion(done), { tokens: 0n, solCost: 0n, totalCost: 0n });
+    assert.equal(quoteBuy(done, LAMPORTS_PER_SOL).tokensOut, 0n);
+    assert.equal(quoteSell(done, 1_000_000n).netSol, 0n);
+  });
+});
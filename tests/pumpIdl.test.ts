@@ -0,0 +1,125 @@
+// Tests del IDL de Pump.fun (pumpIdl.ts): orden / flags de las cuentas de
+// buy y sell, y datos de instrucción.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import {
+  encodeBuyData,
+  encodeSellData,
+  tradeAccountMetas,
+  type PumpTradeAccounts,
+} from '../pumpIdl.js';
+
+const NAMES: Array<keyof PumpTradeAccounts> = [
+  'global',
+  'feeRecipient',
+  'mint',
+  'bondingCurve',
+  'associatedBondingCurve',
+  'associatedUser',
+  'user',
+  'systemProgram',
+  'tokenProgram',
+  'associatedTokenProgram',
+  'rent',
+  'eventAuthority',
+  'program',
+  'coinCreatorVaultAuthority',
+  'coinCreatorVaultAta',
+];
+
+// Una clave distinta por nombre para poder leer el orden resultante
+const accounts = Object.fromEntries(
+  NAMES.map(name => [name, Keypair.generate().publicKey]),
+) as PumpTradeAccounts;
+const nameOf = new Map(NAMES.map(name => [accounts[name].toBase58(), name]));
+
+const order = (ix: 'buy' | 'sell') =>
+  tradeAccountMetas(ix, accounts).map(meta => nameOf.get(meta.pubkey.toBase58()));
+
+describe('tradeAccountMetas', () => {
+  it('builds the 14 buy accounts in program order', () => {
+    assert.deepEqual(order('buy'), [
+      'global',
+      'feeRecipient',
+      'mint',
+      'bondingCurve',
+      'associatedBondingCurve',
+      'associatedUser',
+      'user',
+      'systemProgram',
+      'tokenProgram',
+      'rent',
+      'eventAuthority',
+      'program',
+      'coinCreatorVaultAuthority',
+      'coinCreatorVaultAta',
+    ]);
+  });
+
+  it('builds the 14 sell accounts in program order', () => {
+    assert.deepEqual(order('sell'), [
+      'global',
+      'feeRecipient',
+      'mint',
+      'bondingCurve',
+      'associatedBondingCurve',
+      'associatedUser',
+      'user',
+      'systemProgram',
+      'associatedTokenProgram',
+      'tokenProgram',
+      'eventAuthority',
+      'program',
+      'coinCreatorVaultAuthority',
+      'coinCreatorVaultAta',
+    ]);
+  });
+
+  it('marks only the user as signer and the right accounts writable', () => {
+    for (const ix of ['buy', 'sell'] as const) {
+      const metas = tradeAccountMetas(ix, accounts);
+      const flagged = (pick: (m: (typeof metas)[number]) => boolean) =>
+        metas.filter(pick).map(m => nameOf.get(m.pubkey.toBase58()));
+
+      assert.deepEqual(flagged(m => m.isSigner), ['user'], ix);
+      assert.deepEqual(
+        flagged(m => m.isWritable),
+        [
+          'feeRecipient',
+          'bondingCurve',
+          'associatedBondingCurve',
+          'associatedUser',
+          'user',
+          'coinCreatorVaultAta',
+        ],
+        ix,
+      );
+    }
+  });
+
+  it('throws when an account is missing', () => {
+    const { rent: _rent, ...withoutRent } = accounts;
+    assert.throws(
+      () => tradeAccountMetas('buy', withoutRent as PumpTradeAccounts),
+      /missing account rent/,
+    );
+    // sell no usa rent
+    assert.equal(tradeAccountMetas('sell', withoutRent as PumpTradeAccounts).length, 14);
+  });
+});
+
+describe('instruction data', () => {
+  it('prefixes the Anchor discriminators and encodes u64 args', () => {
+    const buy = encodeBuyData(1_000n, 2_000n);
+    assert.equal(buy.subarray(0, 8).toString('hex'), '66063d1201daebea');
+    assert.equal(buy.readBigUInt64LE(8), 1_000n);
+    assert.equal(buy.readBigUInt64LE(16), 2_000n);
+
+    const sell = encodeSellData(3_000n, 4_000n);
+    assert.equal(sell.subarray(0, 8).toString('hex'), '33e685a4017f83ad');
+    assert.equal(sell.readBigUInt64LE(8), 3_000n);
+    assert.equal(sell.readBigUInt64LE(16), 4_000n);
+  });
+});
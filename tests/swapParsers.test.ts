@@ -0,0 +1,316 @@
+// Tests de los parsers por cambio de balance (swapParsers.ts) sobre
+// fixtures con la forma de getTransaction (tests/fixtures/*.json).
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import {
+  USDC_MINT,
+  WSOL_MINT,
+  WHIRLPOOL_SWAP_DISCRIMINATORS,
+  getWalletBalanceChanges,
+  hasWhirlpoolSwap,
+  parseJupiterSwap,
+  parseOrcaSwap,
+  parseRaydiumSwap,
+  parseSolSwapFromBalances,
+} from '../swapParsers.js';
+
+interface Fixture {
+  wallet: string;
+  mint: string;
+  description: string;
+  slot: number;
+  blockTime: number;
+  transaction: { signatures: string[] };
+  [k: string]: any;
+}
+
+function loadFixture(name: string): Fixture {
+  const url = new URL(`./fixtures/${name}.json`, import.meta.url);
+  return JSON.parse(readFileSync(url, 'utf8')) as Fixture;
+}
+
+function parse(name: string, parser = parseRaydiumSwap) {
+  const fx = loadFixture(name);
+  return { fx, swap: parser(fx, fx.wallet, fx.transaction.signatures[0]) };
+}
+
+const approx = (actual: number, expected: number, eps = 1e-9) =>
+  assert.ok(
+    Math.abs(actual - expected) <= eps,
+    `expected ${expected}, got ${actual}`,
+  );
+
+describe('parseRaydiumSwap (AMM v4 / CLMM)', () => {
+  it('parses a v4 buy paid from a temporary WSOL account', () => {
+    const { fx, swap } = parse('raydium-v4-buy-wsol-wrap');
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'BUY');
+    assert.equal(swap.mint, fx.mint);
+    assert.equal(swap.dex, 'Raydium');
+    assert.equal(swap.quoteMint, WSOL_MINT);
+    // La fee de la tx (fee payer) no cuenta como SOL del swap
+    approx(swap.solAmount, 0.5);
+    approx(swap.tokenAmount, 1_234_567.891234, 1e-6);
+    approx(swap.walletSolBefore ?? 0, 2);
+    assert.equal(swap.signature, fx.transaction.signatures[0]);
+    assert.equal(swap.slot, fx.slot);
+    assert.equal(swap.timestamp, fx.blockTime * 1000);
+  });
+
+  it('counts WSOL received on a persistent ATA as SOL on a v4 sell', () => {
+    const { fx, swap } = parse('raydium-v4-sell-wsol-ata');
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'SELL');
+    assert.equal(swap.mint, fx.mint);
+    approx(swap.solAmount, 0.8123);
+    approx(swap.quoteAmount ?? 0, 0.8123);
+    approx(swap.tokenAmount, 800_000);
+  });
+
+  it('resolves v0 lookup-table accounts on a CLMM sell', () => {
+    const { fx, swap } = parse('raydium-clmm-sell-v0-alt');
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'SELL');
+    assert.equal(swap.mint, fx.mint);
+    approx(swap.solAmount, 2.75);
+    approx(swap.tokenAmount, 5_000_000);
+  });
+
+  it('nets out the intermediate leg of a multi-hop route', () => {
+    const { fx, swap } = parse('raydium-multihop-sol-usdc-token');
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'BUY');
+    assert.equal(swap.mint, fx.mint);
+    assert.notEqual(swap.mint, USDC_MINT);
+    approx(swap.solAmount, 1.2);
+    approx(swap.tokenAmount, 3_000_000);
+  });
+
+  it('does not add the fee back when the leader is not the fee payer', () => {
+    const { swap } = parse('raydium-v4-buy-relayed');
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'BUY');
+    approx(swap.solAmount, 0.25);
+    approx(swap.tokenAmount, 42_000);
+    approx(swap.walletSolBefore ?? 0, 0.4);
+  });
+
+  it('ignores token-to-token swaps', () => {
+    const { swap } = parse('raydium-token-to-token');
+    assert.equal(swap, null);
+  });
+
+  it('ignores failed transactions', () => {
+    const { swap } = parse('raydium-v4-failed-slippage');
+    assert.equal(swap, null);
+  });
+
+  it('returns null when the wallet is not in the transaction', () => {
+    const fx = loadFixture('raydium-v4-buy-wsol-wrap');
+    const swap = parseRaydiumSwap(
+      fx,
+      '11111111111111111111111111111112',
+      fx.transaction.signatures[0],
+    );
+    assert.equal(swap, null);
+  });
+});
+
+describe('parseSolSwapFromBalances', () => {
+  it('labels the swap with the given dex', () => {
+    const fx = loadFixture('raydium-v4-sell-wsol-ata');
+    const swap = parseSolSwapFromBalances(fx, fx.wallet, 'sig', 'Orca');
+    assert.equal(swap?.dex, 'Orca');
+    assert.equal(swap?.signature, 'sig');
+  });
+
+  it('rejects dust SOL movements', () => {
+    const fx = loadFixture('raydium-v4-buy-relayed');
+    fx.meta.postBalances[1] = fx.meta.preBalances[1] - 500_000; // 0.0005 SOL
+    assert.equal(parseSolSwapFromBalances(fx, fx.wallet, 'sig', 'Raydium'), null);
+  });
+
+  it('rejects token and SOL moving in the same direction', () => {
+    const fx = loadFixture('raydium-v4-buy-relayed');
+    fx.meta.postBalances[1] = fx.meta.preBalances[1] + 250_000_000;
+    assert.equal(parseSolSwapFromBalances(fx, fx.wallet, 'sig', 'Raydium'), null);
+  });
+
+  it('rejects responses without balance metadata', () => {
+    assert.equal(parseSolSwapFromBalances({ meta: {} }, 'w', 'sig', 'Raydium'), null);
+  });
+});
+
+describe('getWalletBalanceChanges', () => {
+  it('folds WSOL into solDelta and keeps only the traded mint', () => {
+    const fx = loadFixture('raydium-v4-sell-wsol-ata');
+    const changes = getWalletBalanceChanges(fx, fx.wallet);
+
+    assert.ok(changes);
+    approx(changes.solDelta, 0.8123);
+    assert.deepEqual([...changes.tokenDeltas.keys()], [fx.mint]);
+    approx(changes.tokenDeltas.get(fx.mint) ?? 0, -800_000);
+  });
+});
+
+describe('Orca Whirlpool', () => {
+  it('discriminators are the Anchor sighashes of the swap instructions', () => {
+    const sighash = (ix: string) =>
+      createHash('sha256').update(`global:${ix}`).digest().subarray(0, 8).toString('hex');
+
+    assert.deepEqual(
+      [...WHIRLPOOL_SWAP_DISCRIMINATORS].sort(),
+      ['swap', 'swap_v2', 'two_hop_swap', 'two_hop_swap_v2'].map(sighash).sort(),
+    );
+  });
+
+  it('detects top-level swap, swapV2, twoHopSwap and CPI swaps', () => {
+    for (const name of [
+      'orca-swap-buy-wsol-wrap',
+      'orca-swapv2-sell-token2022-v0',
+      'orca-twohop-buy-sol-usdc-token',
+      'orca-inner-via-jupiter-sell',
+    ]) {
+      assert.equal(hasWhirlpoolSwap(loadFixture(name)), true, name);
+    }
+  });
+
+  it('does not treat liquidity instructions or other programs as swaps', () => {
+    assert.equal(hasWhirlpoolSwap(loadFixture('orca-increase-liquidity')), false);
+    assert.equal(hasWhirlpoolSwap(loadFixture('raydium-v4-buy-wsol-wrap')), false);
+  });
+
+  it('parses a swap buy paid with wrapped SOL', () => {
+    const { fx, swap } = parse('orca-swap-buy-wsol-wrap', parseOrcaSwap);
+
+    assert.ok(swap);
+    assert.equal(swap.dex, 'Orca');
+    assert.equal(swap.action, 'BUY');
+    assert.equal(swap.mint, fx.mint);
+    approx(swap.solAmount, 0.75);
+    approx(swap.tokenAmount, 98_765.4321, 1e-6);
+  });
+
+  it('parses a swapV2 sell of a Token-2022 mint in a v0 transaction', () => {
+    const { fx, swap } = parse('orca-swapv2-sell-token2022-v0', parseOrcaSwap);
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'SELL');
+    assert.equal(swap.mint, fx.mint);
+    approx(swap.solAmount, 1.5);
+    approx(swap.tokenAmount, 250_000);
+  });
+
+  it('parses a twoHopSwap through USDC as a SOL buy', () => {
+    const { fx, swap } = parse('orca-twohop-buy-sol-usdc-token', parseOrcaSwap);
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'BUY');
+    assert.equal(swap.mint, fx.mint);
+    approx(swap.solAmount, 2);
+    approx(swap.tokenAmount, 7_500_000);
+  });
+
+  it('parses a Whirlpool swap reached through a Jupiter CPI', () => {
+    const { fx, swap } = parse('orca-inner-via-jupiter-sell', parseOrcaSwap);
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'SELL');
+    assert.equal(swap.mint, fx.mint);
+    approx(swap.solAmount, 0.042);
+    approx(swap.tokenAmount, 10_000);
+  });
+
+  it('ignores liquidity changes', () => {
+    const { swap } = parse('orca-increase-liquidity', parseOrcaSwap);
+    assert.equal(swap, null);
+  });
+});
+
+describe('parseJupiterSwap', () => {
+  // SOL por 1 USDC (lo resuelve el caller con el price service)
+  const USDC_PRICE_SOL = 0.0058;
+
+  const jupiter = (name: string, usdcPriceSol: number | null = USDC_PRICE_SOL) => {
+    const fx = loadFixture(name);
+    const tokenToToken: Array<[string | null, string | null]> = [];
+    const swap = parseJupiterSwap(
+      fx,
+      fx.wallet,
+      fx.transaction.signatures[0],
+      usdcPriceSol,
+      (input, output) => tokenToToken.push([input, output]),
+    );
+    return { fx, swap, tokenToToken };
+  };
+
+  it('parses a SOL buy (ATA rent counts as spent SOL)', () => {
+    const { fx, swap } = jupiter('jupiter-buy-sol');
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'BUY');
+    assert.equal(swap.mint, fx.mint);
+    assert.equal(swap.dex, 'Jupiter');
+    assert.equal(swap.quoteMint, WSOL_MINT);
+    approx(swap.solAmount, 1.50203928);
+    approx(swap.quoteAmount ?? 0, 1.50203928);
+    approx(swap.tokenAmount, 2_400_000);
+    approx(swap.walletSolBefore ?? 0, 4);
+    assert.equal(swap.signature, fx.transaction.signatures[0]);
+    assert.equal(swap.slot, fx.slot);
+    assert.equal(swap.timestamp, fx.blockTime * 1000);
+  });
+
+  it('parses a SOL sell received as WSOL', () => {
+    const { fx, swap } = jupiter('jupiter-sell-sol');
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'SELL');
+    assert.equal(swap.mint, fx.mint);
+    assert.equal(swap.quoteMint, WSOL_MINT);
+    approx(swap.solAmount, 0.62);
+    approx(swap.tokenAmount, 800_000);
+  });
+
+  it('prices a USDC-quoted buy in SOL with the given USDC price', () => {
+    const { fx, swap } = jupiter('jupiter-buy-usdc');
+
+    assert.ok(swap);
+    assert.equal(swap.action, 'BUY');
+    assert.equal(swap.mint, fx.mint);
+    assert.equal(swap.quoteMint, USDC_MINT);
+    approx(swap.quoteAmount ?? 0, 250);
+    approx(swap.solAmount, 250 * USDC_PRICE_SOL);
+    approx(swap.tokenAmount, 1_000_000);
+  });
+
+  it('drops a USDC-quoted swap when USDC has no price', () => {
+    const { swap } = jupiter('jupiter-buy-usdc', null);
+    assert.equal(swap, null);
+  });
+
+  it('ignores token-to-token swaps and reports both legs', () => {
+    const { fx, swap, tokenToToken } = jupiter('jupiter-token-to-token');
+
+    assert.equal(swap, null);
+    assert.equal(tokenToToken.length, 1);
+    const [input, output] = tokenToToken[0];
+    assert.equal(input, fx.mint);
+    assert.ok(output);
+    assert.notEqual(output, fx.mint);
+  });
+
+  it('ignores swaps that only move SOL and USDC', () => {
+    const { swap, tokenToToken } = jupiter('jupiter-sol-to-usdc');
+    assert.equal(swap, null);
+    assert.equal(tokenToToken.length, 0);
+  });
+});
@@ -0,0 +1,102 @@
+// Tests de la concentración de holders (tokenHolders.ts): vaults de pools,
+// ATA de la bonding curve y tokens graduados.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import {
+  KNOWN_AMM_AUTHORITIES,
+  evaluateHolders,
+  isPoolOwner,
+  type HolderAccount,
+} from '../tokenHolders.js';
+
+const SUPPLY = 1_000_000_000_000_000; // 1B tokens, 6 decimales
+const LIMITS = { maxTopHolderPercent: 20, maxTop10Percent: 50 };
+
+const wallet = () => Keypair.generate().publicKey.toBase58();
+const pda = (seed: string) =>
+  PublicKey.findProgramAddressSync(
+    [Buffer.from(seed)],
+    new PublicKey('pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA'),
+  )[0].toBase58();
+
+const account = (owner: string | null, percent: number): HolderAccount => ({
+  address: wallet(),
+  owner,
+  amount: (SUPPLY * percent) / 100,
+});
+
+// Token graduado: ~20.7% en el vault del pool + holders repartidos
+function graduated(vaultOwner: string | null): HolderAccount[] {
+  return [
+    account(vaultOwner, 20.7),
+    ...Array.from({ length: 9 }, () => account(wallet(), 3)),
+  ];
+}
+
+describe('isPoolOwner', () => {
+  it('treats PDAs and known AMM authorities as pools', () => {
+    assert.equal(isPoolOwner(pda('pool')), true);
+    for (const authority of KNOWN_AMM_AUTHORITIES) {
+      assert.equal(isPoolOwner(authority), true, authority);
+    }
+  });
+
+  it('treats regular wallets and garbage as holders', () => {
+    assert.equal(isPoolOwner(wallet()), false);
+    assert.equal(isPoolOwner('not-a-key'), false);
+  });
+});
+
+describe('evaluateHolders', () => {
+  it('ignores a pool vault owned by a PDA', () => {
+    const result = evaluateHolders(SUPPLY, graduated(pda('pool')), LIMITS);
+
+    assert.equal(result.passed, true);
+    assert.equal(result.details?.topHolderPercent, 3);
+    assert.equal(result.details?.excludedAccounts, 1);
+  });
+
+  it('ignores the bonding curve ATA by address', () => {
+    const curveAta = account(null, 80);
+    const result = evaluateHolders(
+      SUPPLY,
+      [curveAta, account(wallet(), 5), account(wallet(), 4)],
+      { ...LIMITS, excludeAddresses: [curveAta.address] },
+    );
+
+    assert.equal(result.passed, true);
+    assert.equal(result.details?.topHolderPercent, 5);
+  });
+
+  it('still fails a wallet above the top holder limit', () => {
+    const result = evaluateHolders(SUPPLY, graduated(wallet()), LIMITS);
+
+    assert.equal(result.passed, false);
+    assert.match(result.reason ?? '', /top holder owns 20\.7%/);
+  });
+
+  it('skips the top holder rule on a completed curve', () => {
+    // Owner desconocido: sin la regla de top holder, solo el top 10
+    const result = evaluateHolders(SUPPLY, graduated(null), {
+      ...LIMITS,
+      curveComplete: true,
+    });
+    assert.equal(result.passed, true);
+
+    const concentrated = evaluateHolders(
+      SUPPLY,
+      [account(wallet(), 30), account(wallet(), 25)],
+      { ...LIMITS, curveComplete: true },
+    );
+    assert.equal(concentrated.passed, false);
+    assert.match(concentrated.reason ?? '', /top 10 holders/);
+  });
+
+  it('passes with a neutral score when the supply is unknown', () => {
+    const result = evaluateHolders(0, graduated(wallet()), LIMITS);
+    assert.equal(result.passed, true);
+    assert.equal(result.score, 50);
+  });
+});
@@ -0,0 +1,93 @@
+// tokenHolders.ts - Concentración de holders para tokenSafety (función pura)
+//
+// getTokenLargestAccounts devuelve token accounts, no wallets. Antes de medir
+// el top 1 / top 10 quitamos las cuentas que son liquidez y no un holder:
+//   - la ATA de la bonding curve de Pump.fun (casi todo el supply antes de
+//     graduar), por dirección
+//   - vaults de pools AMM: owner fuera de la curva ed25519 (PDA de un
+//     programa: PumpSwap, Meteora, la propia bonding curve...) o una
+//     authority AMM conocida
+// Con la bonding curve completa el top holder suele ser el vault del pool
+// (~20% del supply): si no se pudo identificar, solo manda el top 10.
+
+import { PublicKey } from '@solana/web3.js';
+import type { TokenSafetyCheck } from './tokenSafety.js';
+
+// Authorities que custodian los vaults de sus pools
+export const KNOWN_AMM_AUTHORITIES = new Set([
+  '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1', // Raydium AMM v4
+  'GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvXFbL', // Raydium CPMM
+]);
+
+export interface HolderAccount {
+  address: string; // token account
+  owner: string | null; // null = no se pudo leer (cuenta como holder)
+  amount: number; // raw (sin decimales), igual que supply
+}
+
+export interface HolderCheckOptions {
+  maxTopHolderPercent: number;
+  maxTop10Percent: number;
+  excludeAddresses?: string[]; // token accounts a ignorar (ATA de la curve)
+  curveComplete?: boolean; // graduado: sin regla de top holder
+}
+
+// ¿El owner de la token account es un pool / vault y no una wallet?
+export function isPoolOwner(owner: string): boolean {
+  if (KNOWN_AMM_AUTHORITIES.has(owner)) return true;
+  try {
+    return !PublicKey.isOnCurve(new PublicKey(owner).toBytes());
+  } catch {
+    return false;
+  }
+}
+
+export function evaluateHolders(
+  supply: number,
+  accounts: HolderAccount[],
+  options: HolderCheckOptions,
+): TokenSafetyCheck {
+  if (!(supply > 0)) {
+    return { check: 'holders', passed: true, score: 50, reason: 'unknown supply' };
+  }
+
+  const excluded = new Set(options.excludeAddresses ?? []);
+  const holders = accounts.filter(
+    acc => !excluded.has(acc.address) && !(acc.owner && isPoolOwner(acc.owner)),
+  );
+
+  const amounts = holders.map(acc => acc.amount).sort((a, b) => b - a);
+
+  const topPercent = ((amounts[0] ?? 0) / supply) * 100;
+  const top10Percent =
+    (amounts.slice(0, 10).reduce((acc, v) => acc + v, 0) / supply) * 100;
+  const details = {
+    topHolderPercent: Number(topPercent.toFixed(2)),
+    top10Percent: Number(top10Percent.toFixed(2)),
+    excludedAccounts: accounts.length - holders.length,
+  };
+
+  if (!options.curveComplete && topPercent > options.maxTopHolderPercent) {
+    return {
+      check: 'holders',
+      passed: false,
+      score: 0,
+      reason: `top holder owns ${topPercent.toFixed(1)}% (max ${options.maxTopHolderPercent}%)`,
+      details,
+    };
+  }
+  if (top10Percent > options.maxTop10Percent) {
+    return {
+      check: 'holders',
+      passed: false,
+      score: 0,
+      reason: `top 10 holders own ${top10Percent.toFixed(1)}% (max ${options.maxTop10Percent}%)`,
+      details,
+    };
+  }
+
+  const score = Math.round(
+    100 * (1 - top10Percent / Math.max(options.maxTop10Percent, 1) / 2),
+  );
+  return { check: 'holders', passed: true, score, details };
+}
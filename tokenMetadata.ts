@@ -0,0 +1,425 @@
+// tokenMetadata.ts - Metadata legible de tokens (nombre, símbolo, imagen, links)
+//
+// Resolución:
+//   1. Token-2022 con extensión tokenMetadata (mints nuevos de Pump.fun)
+//   2. Cuenta Metaplex (PDA ["metadata", program, mint]) → name / symbol / uri
+//   3. JSON off-chain del uri → image, description, twitter, telegram, website
+//
+// Se cachea en memoria y en Redis (token_metadata:<mint>, namespace global)
+// igual que token_decimals:<mint> en PriceService; de paso rellena ese cache
+// de decimales, que sale de la misma llamada al mint.
+//
+// Lo usan riskManager (posiciones / trades), analytics (CSV) y las alertas
+// de copyMonitor para no mostrar solo el prefijo del mint.
+
+import { Connection, PublicKey, ParsedAccountData } from '@solana/web3.js';
+import { Redis as RedisClass } from 'ioredis';
+import type { Redis as RedisClient } from 'ioredis';
+import fetch from 'node-fetch';
+import {
+  TOKEN_METADATA_ENABLED,
+  TOKEN_METADATA_CACHE_HOURS,
+  TOKEN_METADATA_URI_TIMEOUT_MS,
+} from './environment.js';
+import { getRateLimiter } from './rpcRateLimiter.js';
+
+// --- Tipos públicos ---
+
+export interface TokenMetadata {
+  mint: string;
+  name: string;
+  symbol: string;
+  uri?: string;
+  image?: string;
+  description?: string;
+  twitter?: string;
+  telegram?: string;
+  website?: string;
+  decimals?: number;
+  source: 'token2022' | 'metaplex' | 'none';
+  fetchedAt: number;
+}
+
+export interface TokenLinks {
+  pumpFun: string;
+  dexScreener: string;
+  solscan: string;
+}
+
+// --- Constantes ---
+
+const METADATA_PROGRAM_ID = new PublicKey(
+  'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bgeuWXxq',
+);
+
+const MEMORY_TTL_MS = 60 * 60 * 1000; // 1h en memoria
+const MEMORY_MAX_ENTRIES = 2000;
+// Sin metadata (mint recién creado, RPC caído...): reintentar pronto
+const MISSING_REDIS_TTL_SECONDS = 10 * 60;
+// Mismo TTL que TOKEN_DECIMALS_REDIS_TTL_SECONDS en priceService.ts
+const TOKEN_DECIMALS_REDIS_TTL_SECONDS = 24 * 60 * 60;
+
+// --- Keys Redis (namespace global) ---
+
+function metadataKey(mint: string): string {
+  return `token_metadata:${mint}`;
+}
+
+function decimalsKey(mint: string): string {
+  return `token_decimals:${mint}`;
+}
+
+// --- Helpers puros ---
+
+export function tokenLinks(mint: string): TokenLinks {
+  return {
+    pumpFun: `https://pump.fun/coin/${mint}`,
+    dexScreener: `https://dexscreener.com/solana/${mint}`,
+    solscan: `https://solscan.io/token/${mint}`,
+  };
+}
+
+// "SYMBOL (Name)" o, sin metadata, el mint recortado
+export function tokenDisplayName(
+  mint: string,
+  meta?: Pick<TokenMetadata, 'name' | 'symbol'> | null,
+): string {
+  const symbol = meta?.symbol?.trim();
+  const name = meta?.name?.trim();
+  if (symbol && name && name !== symbol) return `${symbol} (${name})`;
+  if (symbol || name) return (symbol || name) as string;
+  return `${mint.slice(0, 8)}...`;
+}
+
+// Bloque para alertas de Telegram (sin markdown: safeSend lo limpia)
+export function formatTokenAlert(
+  mint: string,
+  meta?: TokenMetadata | null,
+): string {
+  const lines = [`Token: ${tokenDisplayName(mint, meta)}`, `Mint: ${mint}`];
+  if (meta?.twitter) lines.push(`X: ${meta.twitter}`);
+  if (meta?.website) lines.push(`Web: ${meta.website}`);
+  lines.push(tokenLinks(mint).pumpFun);
+  return lines.join('\n');
+}
+
+// Campos que se guardan en position:<mint> (y acaban en trades:<día>)
+export function metadataPositionFields(
+  meta: TokenMetadata,
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (meta.symbol) fields.symbol = meta.symbol;
+  if (meta.name) fields.tokenName = meta.name;
+  if (meta.image) fields.tokenImage = meta.image;
+  if (meta.twitter) fields.tokenTwitter = meta.twitter;
+  if (meta.telegram) fields.tokenTelegram = meta.telegram;
+  if (meta.website) fields.tokenWebsite = meta.website;
+  return fields;
+}
+
+// Strings Borsh de Metaplex: u32 len + bytes, rellenos con \0
+function readBorshString(
+  data: Buffer,
+  offset: number,
+): { value: string; next: number } {
+  const len = data.readUInt32LE(offset);
+  const start = offset + 4;
+  const end = Math.min(start + len, data.length);
+  const value = data.subarray(start, end).toString('utf8').replace(/\0/g, '').trim();
+  return { value, next: start + len };
+}
+
+export function decodeMetaplexMetadata(
+  data: Buffer,
+): { name: string; symbol: string; uri: string } | null {
+  // key (1) + update_authority (32) + mint (32)
+  const offset = 1 + 32 + 32;
+  if (data.length < offset + 12) return null;
+  try {
+    const name = readBorshString(data, offset);
+    const symbol = readBorshString(data, name.next);
+    const uri = readBorshString(data, symbol.next);
+    return { name: name.value, symbol: symbol.value, uri: uri.value };
+  } catch {
+    return null;
+  }
+}
+
+function normalizeUri(uri: string): string {
+  if (uri.startsWith('ipfs://')) {
+    return `https://ipfs.io/ipfs/${uri.slice('ipfs://'.length).replace(/^ipfs\//, '')}`;
+  }
+  if (uri.startsWith('ar://')) {
+    return `https://arweave.net/${uri.slice('ar://'.length)}`;
+  }
+  return uri;
+}
+
+function cleanString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed.slice(0, 300) : undefined;
+}
+
+// --- Clase principal ---
+
+export class TokenMetadataService {
+  private readonly connection: Connection;
+  private readonly redis: RedisClient;
+  private readonly limiter = getRateLimiter();
+  private readonly memory = new Map<
+    string,
+    { value: TokenMetadata; expiresAt: number }
+  >();
+  private readonly inflight = new Map<string, Promise<TokenMetadata>>();
+
+  constructor(redis?: RedisClient, connection?: Connection) {
+    this.redis =
+      redis ??
+      new RedisClass(process.env.REDIS_URL as string, {
+        maxRetriesPerRequest: null,
+      });
+    this.connection =
+      connection ?? new Connection(process.env.RPC_URL as string, 'confirmed');
+
+    console.log('🏷️ Token Metadata Service initialized');
+  }
+
+  /**
+   * Metadata del mint (memoria → Redis → on-chain + uri). No lanza: si no se
+   * puede resolver devuelve source 'none' con name/symbol vacíos.
+   */
+  async getMetadata(mint: string): Promise<TokenMetadata> {
+    const cached = await this.getCached(mint);
+    if (cached) return cached;
+
+    // Varias alertas / cierres del mismo mint a la vez → una sola resolución
+    let pending = this.inflight.get(mint);
+    if (!pending) {
+      pending = this.resolve(mint).finally(() => this.inflight.delete(mint));
+      this.inflight.set(mint, pending);
+    }
+    return pending;
+  }
+
+  // Solo caches (sin RPC)
+  async getCached(mint: string): Promise<TokenMetadata | null> {
+    const now = Date.now();
+    const mem = this.memory.get(mint);
+    if (mem && mem.expiresAt > now) return mem.value;
+
+    try {
+      const raw = await this.redis.get(metadataKey(mint));
+      if (!raw) return null;
+      const value = JSON.parse(raw) as TokenMetadata;
+      this.remember(value);
+      return value;
+    } catch {
+      return null;
+    }
+  }
+
+  // Para CSV / listados: secuencial para no saturar el RPC
+  async getMany(mints: string[]): Promise<Map<string, TokenMetadata>> {
+    const result = new Map<string, TokenMetadata>();
+    for (const mint of new Set(mints)) {
+      if (!mint) continue;
+      result.set(mint, await this.getMetadata(mint));
+    }
+    return result;
+  }
+
+  private async resolve(mint: string): Promise<TokenMetadata> {
+    const meta: TokenMetadata = {
+      mint,
+      name: '',
+      symbol: '',
+      source: 'none',
+      fetchedAt: Date.now(),
+    };
+
+    let mintPk: PublicKey;
+    try {
+      mintPk = new PublicKey(mint);
+    } catch {
+      return meta;
+    }
+
+    try {
+      await this.readMintAccount(mintPk, meta);
+      if (meta.source === 'none') {
+        await this.readMetaplexAccount(mintPk, meta);
+      }
+      if (meta.uri) {
+        await this.readOffchainJson(meta);
+      }
+    } catch (error: any) {
+      console.log(
+        `⚠️ Token metadata failed for ${mint.slice(0, 8)}:`,
+        error?.message ?? String(error),
+      );
+    }
+
+    await this.store(meta);
+    return meta;
+  }
+
+  // Mint parseado: decimales + extensión tokenMetadata de Token-2022
+  private async readMintAccount(
+    mintPk: PublicKey,
+    meta: TokenMetadata,
+  ): Promise<void> {
+    const info = await this.limiter.request(
+      () => this.connection.getParsedAccountInfo(mintPk),
+      'low',
+      `meta-mint:${meta.mint}`,
+    );
+
+    const parsed = (info.value?.data as ParsedAccountData | undefined)?.parsed
+      ?.info;
+    if (!parsed) return;
+
+    if (typeof parsed.decimals === 'number') {
+      meta.decimals = parsed.decimals;
+      try {
+        await this.redis.set(
+          decimalsKey(meta.mint),
+          String(parsed.decimals),
+          'EX',
+          TOKEN_DECIMALS_REDIS_TTL_SECONDS,
+        );
+      } catch {
+        // ignore
+      }
+    }
+
+    const extensions: Array<{ extension: string; state?: any }> =
+      Array.isArray(parsed.extensions) ? parsed.extensions : [];
+    const tokenMetadata = extensions.find(e => e.extension === 'tokenMetadata');
+    if (tokenMetadata?.state) {
+      meta.name = cleanString(tokenMetadata.state.name) ?? '';
+      meta.symbol = cleanString(tokenMetadata.state.symbol) ?? '';
+      meta.uri = cleanString(tokenMetadata.state.uri);
+      meta.source = 'token2022';
+    }
+  }
+
+  private async readMetaplexAccount(
+    mintPk: PublicKey,
+    meta: TokenMetadata,
+  ): Promise<void> {
+    const [pda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('metadata'), METADATA_PROGRAM_ID.toBuffer(), mintPk.toBuffer()],
+      METADATA_PROGRAM_ID,
+    );
+
+    const account = await this.limiter.request(
+      () => this.connection.getAccountInfo(pda),
+      'low',
+      `meta-pda:${meta.mint}`,
+    );
+    if (!account?.data) return;
+
+    const decoded = decodeMetaplexMetadata(account.data);
+    if (!decoded) return;
+
+    meta.name = decoded.name;
+    meta.symbol = decoded.symbol;
+    meta.uri = decoded.uri || undefined;
+    meta.source = 'metaplex';
+  }
+
+  // JSON off-chain (formato Pump.fun: twitter / telegram / website en raíz)
+  private async readOffchainJson(meta: TokenMetadata): Promise<void> {
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(),
+      Math.max(TOKEN_METADATA_URI_TIMEOUT_MS, 500),
+    );
+
+    try {
+      const resp = await fetch(normalizeUri(meta.uri as string), {
+        signal: controller.signal,
+      });
+      if (!resp.ok) return;
+
+      const json = (await resp.json()) as Record<string, any>;
+      const extensions = (json.extensions ?? {}) as Record<string, unknown>;
+
+      meta.name = meta.name || cleanString(json.name) || '';
+      meta.symbol = meta.symbol || cleanString(json.symbol) || '';
+      meta.image = cleanString(json.image);
+      meta.description = cleanString(json.description);
+      meta.twitter = cleanString(json.twitter) ?? cleanString(extensions.twitter);
+      meta.telegram =
+        cleanString(json.telegram) ?? cleanString(extensions.telegram);
+      meta.website = cleanString(json.website) ?? cleanString(extensions.website);
+    } catch {
+      // uri caído / timeout: nos quedamos con lo on-chain
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async store(meta: TokenMetadata): Promise<void> {
+    this.remember(meta);
+    const ttl =
+      meta.source === 'none'
+        ? MISSING_REDIS_TTL_SECONDS
+        : Math.max(Math.round(TOKEN_METADATA_CACHE_HOURS * 3600), 60);
+    try {
+      await this.redis.setex(metadataKey(meta.mint), ttl, JSON.stringify(meta));
+    } catch {
+      // ignore
+    }
+  }
+
+  private remember(meta: TokenMetadata): void {
+    if (this.memory.size >= MEMORY_MAX_ENTRIES) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest !== undefined) this.memory.delete(oldest);
+    }
+    const ttl =
+      meta.source === 'none' ? MISSING_REDIS_TTL_SECONDS * 1000 : MEMORY_TTL_MS;
+    this.memory.set(meta.mint, { value: meta, expiresAt: Date.now() + ttl });
+  }
+}
+
+// --- SINGLETON ---
+
+let singleton: TokenMetadataService | null = null;
+
+export function getTokenMetadataService(): TokenMetadataService {
+  if (!singleton) {
+    singleton = new TokenMetadataService();
+  }
+  return singleton;
+}
+
+// Con TOKEN_METADATA_ENABLED=false o sin metadata → null (el caller usa el mint)
+export async function resolveTokenMetadata(
+  mint: string,
+): Promise<TokenMetadata | null> {
+  if (!TOKEN_METADATA_ENABLED || !mint) return null;
+  try {
+    const meta = await getTokenMetadataService().getMetadata(mint);
+    return meta.source === 'none' && !meta.name && !meta.symbol ? null : meta;
+  } catch {
+    return null;
+  }
+}
+
+// Igual que resolveTokenMetadata pero solo caches: nunca espera al RPC
+export async function cachedTokenMetadata(
+  mint: string,
+): Promise<TokenMetadata | null> {
+  if (!TOKEN_METADATA_ENABLED || !mint) return null;
+  try {
+    const meta = await getTokenMetadataService().getCached(mint);
+    return !meta || (meta.source === 'none' && !meta.name && !meta.symbol)
+      ? null
+      : meta;
+  } catch {
+    return null;
+  }
+}
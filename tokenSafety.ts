@@ -0,0 +1,589 @@
+// tokenSafety.ts - Screening de tokens antes de comprar (sniper + copy)
+//
+// Cada check devuelve un veredicto estructurado (passed + score 0-100 +
+// motivo). El token se rechaza si algún check falla o si la media de scores
+// queda por debajo de TOKEN_SAFETY_MIN_SCORE.
+//
+//   mint_authority    → se pueden acuñar más tokens
+//   freeze_authority  → nos pueden congelar la cuenta
+//   token2022         → extensiones peligrosas (transfer fee, hook, permanent
+//                       delegate, non-transferable)
+//   holders           → concentración del top 1 / top 10 (sin bonding curve ni
+//                       vaults de pools; ver tokenHolders.ts)
+//   creator_history   → lanzamientos recientes y rugs del creador (Redis)
+//   curve_progress    → bonding curve casi completa = entrada tardía
+//
+// El historial de creadores vive en el namespace global (sin prefijo de
+// perfil): lo alimenta el sniper (creates de PumpPortal) y rugGuard (rugs).
+
+import { Connection, PublicKey, type AccountInfo } from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { Redis as RedisClass } from 'ioredis';
+import type { Redis as RedisClient } from 'ioredis';
+import {
+  TOKEN_SAFETY_ENABLED,
+  TOKEN_SAFETY_MIN_SCORE,
+  TOKEN_SAFETY_MAX_TOP_HOLDER_PERCENT,
+  TOKEN_SAFETY_MAX_TOP10_PERCENT,
+  TOKEN_SAFETY_MAX_CREATOR_LAUNCHES_24H,
+  TOKEN_SAFETY_MAX_CURVE_PROGRESS_PERCENT,
+  TOKEN_SAFETY_CACHE_SECONDS,
+} from './environment.js';
+import { getRateLimiter } from './rpcRateLimiter.js';
+import { PUMP_PROGRAM_ID } from './pumpFunExecutor.js';
+import { decodeBondingCurve, curveProgressPercent } from './pumpCurve.js';
+import { decodeBondingCurveAccount } from './pumpIdl.js';
+import { evaluateHolders, type HolderAccount } from './tokenHolders.js';
+
+// --- Tipos públicos ---
+
+export type TokenSafetyCheckName =
+  | 'mint_authority'
+  | 'freeze_authority'
+  | 'token2022'
+  | 'holders'
+  | 'creator_history'
+  | 'curve_progress';
+
+export interface TokenSafetyCheck {
+  check: TokenSafetyCheckName;
+  passed: boolean;
+  score: number; // 0-100
+  reason?: string;
+  details?: Record<string, unknown>;
+  unavailable?: boolean; // sin datos (RPC / cuenta aún no visible): no se cachea
+}
+
+export interface TokenSafetyVerdict {
+  mint: string;
+  safe: boolean;
+  score: number;
+  minScore: number;
+  failed: TokenSafetyCheckName[];
+  reason?: string; // primer motivo de rechazo (para signal_rejections)
+  checks: TokenSafetyCheck[];
+  creator?: string | null;
+  checkedAt: number;
+  cached?: boolean;
+}
+
+export interface TokenSafetyInput {
+  mint: string;
+  creator?: string | null;
+}
+
+// --- Constantes ---
+
+const CREATOR_HISTORY_TTL_SECONDS = 7 * 24 * 3600;
+const DAY_MS = 24 * 3600 * 1000;
+
+// Mints recién creados pueden no verse aún en 'confirmed': reintentos en 'processed'
+const MINT_LOOKUP_RETRIES = 2;
+const MINT_LOOKUP_RETRY_MS = 500;
+
+// Extensiones Token-2022 que por sí solas bloquean la compra
+const BLOCKING_EXTENSIONS = new Set([
+  'permanentDelegate',
+  'nonTransferable',
+  'defaultAccountState',
+]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// --- Keys Redis (namespace global) ---
+
+function launchesKey(creator: string): string {
+  return `creator_launches:${creator}`;
+}
+
+function rugsKey(creator: string): string {
+  return `creator_rugs:${creator}`;
+}
+
+function verdictKey(mint: string): string {
+  return `token_safety:${mint}`;
+}
+
+// --- Clase principal ---
+
+export class TokenSafetyService {
+  private readonly connection: Connection;
+  private readonly redis: RedisClient;
+  private readonly limiter = getRateLimiter();
+
+  constructor(redis?: RedisClient, connection?: Connection) {
+    this.redis =
+      redis ??
+      new RedisClass(process.env.REDIS_URL as string, {
+        maxRetriesPerRequest: null,
+      });
+    this.connection =
+      connection ?? new Connection(process.env.RPC_URL as string, 'confirmed');
+
+    console.log('🧪 Token Safety Service initialized');
+    console.log(
+      `   Min score: ${TOKEN_SAFETY_MIN_SCORE} | Top holder ≤ ${TOKEN_SAFETY_MAX_TOP_HOLDER_PERCENT}% | ` +
+        `Top 10 ≤ ${TOKEN_SAFETY_MAX_TOP10_PERCENT}% | Curve ≤ ${TOKEN_SAFETY_MAX_CURVE_PROGRESS_PERCENT}%`,
+    );
+  }
+
+  /**
+   * Ejecuta todos los checks (en paralelo) y cachea el veredicto, salvo
+   * si algún check no tuvo datos (mint aún no visible, RPC caído).
+   */
+  async screen(input: TokenSafetyInput): Promise<TokenSafetyVerdict> {
+    const { mint } = input;
+
+    const cached = await this.getCachedVerdict(mint);
+    if (cached) return { ...cached, cached: true };
+
+    let mintPk: PublicKey;
+    try {
+      mintPk = new PublicKey(mint);
+    } catch {
+      return this.buildVerdict(mint, null, [
+        {
+          check: 'mint_authority',
+          passed: false,
+          score: 0,
+          reason: 'invalid mint address',
+        },
+      ]);
+    }
+
+    const bondingCurve = this.getBondingCurvePDA(mintPk);
+    const { mintAccount, curveAccount } = await this.fetchMintAndCurve(
+      mintPk,
+      bondingCurve,
+    );
+
+    const parsed: any = (mintAccount?.value?.data as any)?.parsed;
+    const info: any = parsed?.type === 'mint' ? parsed.info : null;
+    const tokenProgram = mintAccount?.value?.owner ?? null;
+
+    // Creator: el de la señal, o el de la bonding curve (IDL)
+    let creator = input.creator ?? null;
+    if (!creator && curveAccount) {
+      creator =
+        decodeBondingCurveAccount(curveAccount.data)?.creator?.toBase58() ?? null;
+    }
+
+    const checks: TokenSafetyCheck[] = [];
+
+    if (!info) {
+      checks.push({
+        check: 'mint_authority',
+        passed: false,
+        score: 0,
+        reason: 'mint account not found',
+        unavailable: true,
+      });
+      return this.finish(mint, creator, checks);
+    }
+
+    checks.push(this.checkMintAuthority(info));
+    checks.push(this.checkFreezeAuthority(info));
+    checks.push(this.checkToken2022(info, tokenProgram));
+
+    const curveComplete = curveAccount
+      ? decodeBondingCurve(curveAccount.data)?.complete === true
+      : false;
+    const [holders, creatorHistory] = await Promise.all([
+      this.checkHolders(mintPk, info, bondingCurve, tokenProgram, curveComplete),
+      this.checkCreatorHistory(mint, creator),
+    ]);
+    checks.push(holders, creatorHistory);
+    checks.push(this.checkCurveProgress(curveAccount?.data ?? null));
+
+    return this.finish(mint, creator, checks);
+  }
+
+  // --- Historial de creadores ---
+
+  async recordCreatorLaunch(creator: string, mint: string): Promise<void> {
+    if (!creator || !mint) return;
+    const key = launchesKey(creator);
+    await this.redis.zadd(key, Date.now(), mint);
+    await this.redis.expire(key, CREATOR_HISTORY_TTL_SECONDS);
+  }
+
+  async recordCreatorRug(creator: string, mint: string): Promise<void> {
+    if (!creator || !mint) return;
+    const key = rugsKey(creator);
+    await this.redis.sadd(key, mint);
+    await this.redis.expire(key, CREATOR_HISTORY_TTL_SECONDS);
+  }
+
+  async getCreatorHistory(
+    creator: string,
+  ): Promise<{ launches24h: number; launches7d: number; rugs: string[] }> {
+    const key = launchesKey(creator);
+    const now = Date.now();
+    const [launches24h, launches7d, rugs] = await Promise.all([
+      this.redis.zcount(key, now - DAY_MS, '+inf'),
+      this.redis.zcard(key),
+      this.redis.smembers(rugsKey(creator)),
+    ]);
+    return { launches24h, launches7d, rugs };
+  }
+
+  // --- Checks ---
+
+  private checkMintAuthority(info: any): TokenSafetyCheck {
+    const authority = info.mintAuthority ?? null;
+    return authority
+      ? {
+          check: 'mint_authority',
+          passed: false,
+          score: 0,
+          reason: `mint authority still set (${String(authority).slice(0, 8)}...)`,
+          details: { mintAuthority: authority },
+        }
+      : { check: 'mint_authority', passed: true, score: 100 };
+  }
+
+  private checkFreezeAuthority(info: any): TokenSafetyCheck {
+    const authority = info.freezeAuthority ?? null;
+    return authority
+      ? {
+          check: 'freeze_authority',
+          passed: false,
+          score: 0,
+          reason: `freeze authority set (${String(authority).slice(0, 8)}...)`,
+          details: { freezeAuthority: authority },
+        }
+      : { check: 'freeze_authority', passed: true, score: 100 };
+  }
+
+  private checkToken2022(info: any, tokenProgram: PublicKey | null): TokenSafetyCheck {
+    if (!tokenProgram || !tokenProgram.equals(TOKEN_2022_PROGRAM_ID)) {
+      return { check: 'token2022', passed: true, score: 100 };
+    }
+
+    const extensions: Array<{ extension: string; state?: any }> =
+      Array.isArray(info.extensions) ? info.extensions : [];
+    const names = extensions.map(e => e.extension);
+    const problems: string[] = [];
+
+    for (const ext of extensions) {
+      if (ext.extension === 'transferFeeConfig') {
+        const bps = Number(
+          ext.state?.newerTransferFee?.transferFeeBasisPoints ??
+            ext.state?.olderTransferFee?.transferFeeBasisPoints ??
+            0,
+        );
+        if (bps > 0) problems.push(`transfer fee ${bps / 100}%`);
+      } else if (ext.extension === 'transferHook') {
+        if (ext.state?.programId) problems.push('transfer hook');
+      } else if (BLOCKING_EXTENSIONS.has(ext.extension)) {
+        problems.push(ext.extension);
+      }
+    }
+
+    if (problems.length > 0) {
+      return {
+        check: 'token2022',
+        passed: false,
+        score: 0,
+        reason: `Token-2022 extensions: ${problems.join(', ')}`,
+        details: { extensions: names },
+      };
+    }
+
+    // Token-2022 "limpio" (metadata pointer, etc.): pasa con algo menos de score
+    return {
+      check: 'token2022',
+      passed: true,
+      score: 80,
+      details: { extensions: names },
+    };
+  }
+
+  private async checkHolders(
+    mintPk: PublicKey,
+    info: any,
+    bondingCurve: PublicKey,
+    tokenProgram: PublicKey | null,
+    curveComplete: boolean,
+  ): Promise<TokenSafetyCheck> {
+    try {
+      const largest = await this.limiter.request(
+        () => this.connection.getTokenLargestAccounts(mintPk),
+        'high',
+      );
+
+      // La ATA de la bonding curve tiene casi todo el supply antes de graduar
+      const curveAta = getAssociatedTokenAddressSync(
+        mintPk,
+        bondingCurve,
+        true,
+        tokenProgram ?? undefined,
+      ).toBase58();
+
+      const owners = await this.fetchTokenAccountOwners(
+        largest.value.map(acc => acc.address),
+      );
+      const accounts: HolderAccount[] = largest.value.map((acc, i) => ({
+        address: acc.address.toBase58(),
+        owner: owners?.[i] ?? null,
+        amount: Number(acc.amount),
+      }));
+
+      const result = evaluateHolders(Number(info.supply ?? 0), accounts, {
+        maxTopHolderPercent: TOKEN_SAFETY_MAX_TOP_HOLDER_PERCENT,
+        maxTop10Percent: TOKEN_SAFETY_MAX_TOP10_PERCENT,
+        excludeAddresses: [curveAta],
+        curveComplete,
+      });
+      // Sin owners no distinguimos vaults de holders: no se cachea
+      return owners ? result : { ...result, unavailable: true };
+    } catch (error: any) {
+      // Sin datos no bloqueamos, pero baja el score
+      return {
+        check: 'holders',
+        passed: true,
+        score: 50,
+        reason: `holders unavailable: ${error?.message ?? String(error)}`,
+        unavailable: true,
+      };
+    }
+  }
+
+  private async checkCreatorHistory(
+    mint: string,
+    creator: string | null,
+  ): Promise<TokenSafetyCheck> {
+    if (!creator) {
+      return { check: 'creator_history', passed: true, score: 60, reason: 'unknown creator' };
+    }
+
+    try {
+      const history = await this.getCreatorHistory(creator);
+      // El lanzamiento actual puede estar ya registrado por el sniper
+      const launchedThis = await this.redis.zscore(launchesKey(creator), mint);
+      const previous24h = history.launches24h - (launchedThis !== null ? 1 : 0);
+      const details = {
+        creator,
+        launches24h: previous24h,
+        launches7d: history.launches7d,
+        rugs: history.rugs.length,
+      };
+
+      if (history.rugs.length > 0) {
+        return {
+          check: 'creator_history',
+          passed: false,
+          score: 0,
+          reason: `creator rugged ${history.rugs.length} token(s) before`,
+          details,
+        };
+      }
+      if (previous24h >= TOKEN_SAFETY_MAX_CREATOR_LAUNCHES_24H) {
+        return {
+          check: 'creator_history',
+          passed: false,
+          score: 0,
+          reason: `serial launcher: ${previous24h} launches in 24h`,
+          details,
+        };
+      }
+
+      return {
+        check: 'creator_history',
+        passed: true,
+        score: Math.max(100 - previous24h * 20, 40),
+        details,
+      };
+    } catch (error: any) {
+      return {
+        check: 'creator_history',
+        passed: true,
+        score: 60,
+        reason: `history unavailable: ${error?.message ?? String(error)}`,
+        unavailable: true,
+      };
+    }
+  }
+
+  private checkCurveProgress(data: Buffer | null): TokenSafetyCheck {
+    // Sin bonding curve: token migrado o fuera de Pump.fun
+    const curve = data ? decodeBondingCurve(data) : null;
+    if (!curve) {
+      return { check: 'curve_progress', passed: true, score: 70, reason: 'no bonding curve' };
+    }
+
+    if (curve.complete) {
+      return {
+        check: 'curve_progress',
+        passed: true,
+        score: 70,
+        reason: 'bonding curve complete (graduated)',
+        details: { progressPercent: 100 },
+      };
+    }
+
+    const progress = curveProgressPercent(curve);
+    const details = { progressPercent: Number(progress.toFixed(2)) };
+
+    if (progress > TOKEN_SAFETY_MAX_CURVE_PROGRESS_PERCENT) {
+      return {
+        check: 'curve_progress',
+        passed: false,
+        score: 0,
+        reason: `bonding curve ${progress.toFixed(1)}% complete (max ${TOKEN_SAFETY_MAX_CURVE_PROGRESS_PERCENT}%)`,
+        details,
+      };
+    }
+
+    return {
+      check: 'curve_progress',
+      passed: true,
+      score: Math.round(100 - progress / 2),
+      details,
+    };
+  }
+
+  // --- Internos ---
+
+  private async fetchMintAndCurve(
+    mintPk: PublicKey,
+    bondingCurve: PublicKey,
+  ): Promise<{ mintAccount: any; curveAccount: AccountInfo<Buffer> | null }> {
+    const mint = mintPk.toBase58();
+
+    for (let attempt = 0; ; attempt++) {
+      const commitment = attempt === 0 ? 'confirmed' : 'processed';
+      const [mintAccount, curveAccount] = await Promise.all([
+        this.limiter.request(
+          () => this.connection.getParsedAccountInfo(mintPk, commitment),
+          'high',
+          // Los reintentos van sin cache: el null anterior no sirve
+          attempt === 0 ? `safety:mint:${mint}` : null,
+        ),
+        this.limiter.request(
+          () => this.connection.getAccountInfo(bondingCurve, commitment),
+          'high',
+        ),
+      ]);
+
+      if (mintAccount?.value || attempt >= MINT_LOOKUP_RETRIES) {
+        return { mintAccount, curveAccount };
+      }
+      await sleep(MINT_LOOKUP_RETRY_MS);
+    }
+  }
+
+  // Owner de cada token account (wallet, PDA de pool...); null si falla el RPC
+  private async fetchTokenAccountOwners(
+    addresses: PublicKey[],
+  ): Promise<Array<string | null> | null> {
+    if (addresses.length === 0) return [];
+    try {
+      const res = await this.limiter.request(
+        () => this.connection.getMultipleParsedAccounts(addresses),
+        'high',
+      );
+      return addresses.map(
+        (_, i) => (res?.value?.[i]?.data as any)?.parsed?.info?.owner ?? null,
+      );
+    } catch (error: any) {
+      console.log(
+        `   ⚠️ Token safety: holder owners unavailable: ${error?.message ?? String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  private getBondingCurvePDA(mint: PublicKey): PublicKey {
+    const [pda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bonding-curve'), mint.toBuffer()],
+      PUMP_PROGRAM_ID,
+    );
+    return pda;
+  }
+
+  private buildVerdict(
+    mint: string,
+    creator: string | null,
+    checks: TokenSafetyCheck[],
+  ): TokenSafetyVerdict {
+    const failedChecks = checks.filter(c => !c.passed);
+    const score =
+      checks.length > 0
+        ? Math.round(checks.reduce((acc, c) => acc + c.score, 0) / checks.length)
+        : 0;
+    const safe = failedChecks.length === 0 && score >= TOKEN_SAFETY_MIN_SCORE;
+
+    return {
+      mint,
+      safe,
+      score,
+      minScore: TOKEN_SAFETY_MIN_SCORE,
+      failed: failedChecks.map(c => c.check),
+      reason: failedChecks.length > 0
+        ? `${failedChecks[0].check}: ${failedChecks[0].reason ?? 'failed'}`
+        : safe
+          ? undefined
+          : `low_score: ${score} < ${TOKEN_SAFETY_MIN_SCORE}`,
+      checks,
+      creator,
+      checkedAt: Date.now(),
+    };
+  }
+
+  private async finish(
+    mint: string,
+    creator: string | null,
+    checks: TokenSafetyCheck[],
+  ): Promise<TokenSafetyVerdict> {
+    const verdict = this.buildVerdict(mint, creator, checks);
+    // Un veredicto por falta de datos se repite en la próxima señal
+    if (checks.some(c => c.unavailable)) return verdict;
+    try {
+      if (TOKEN_SAFETY_CACHE_SECONDS > 0) {
+        await this.redis.setex(
+          verdictKey(mint),
+          TOKEN_SAFETY_CACHE_SECONDS,
+          JSON.stringify(verdict),
+        );
+      }
+    } catch {
+      // ignore
+    }
+    return verdict;
+  }
+
+  private async getCachedVerdict(mint: string): Promise<TokenSafetyVerdict | null> {
+    if (TOKEN_SAFETY_CACHE_SECONDS <= 0) return null;
+    try {
+      const raw = await this.redis.get(verdictKey(mint));
+      return raw ? (JSON.parse(raw) as TokenSafetyVerdict) : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// --- SINGLETON ---
+
+let singleton: TokenSafetyService | null = null;
+
+export function getTokenSafetyService(): TokenSafetyService {
+  if (!singleton) {
+    singleton = new TokenSafetyService();
+  }
+  return singleton;
+}
+
+// Con TOKEN_SAFETY_ENABLED=false todo pasa (sin llamadas RPC)
+export async function screenToken(
+  input: TokenSafetyInput,
+): Promise<TokenSafetyVerdict | null> {
+  if (!TOKEN_SAFETY_ENABLED) return null;
+  return getTokenSafetyService().screen(input);
+}
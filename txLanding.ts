@@ -0,0 +1,478 @@
+// txLanding.ts - Envío y confirmación de transacciones (común a todos los executors)
+//
+// landTransaction() firma la tx con un blockhash, la envía y la reenvía cada
+// TX_REBROADCAST_INTERVAL_MS hasta que:
+//   - aterriza OK            → status 'confirmed' (slot, fee, latencia)
+//   - aterriza con error     → status 'failed' (error on-chain parseado + logs)
+//   - el preflight la rechaza → status 'rejected' (nunca se emitió)
+//   - expira el blockhash    → se vuelve a firmar con uno nuevo (hasta
+//                              TX_LANDING_MAX_ATTEMPTS) y si no, 'expired'
+//   - se agota timeoutMs     → deja de reenviar y espera a que el último
+//                              blockhash pase lastValidBlockHeight: 'expired'
+//                              si no entró, 'pending' si no se pudo saber
+//
+// Al comprobar estado se consultan TODAS las firmas enviadas: una tx con un
+// blockhash anterior puede aterrizar tarde y no queremos comprar dos veces.
+
+import {
+  Connection,
+  Keypair,
+  Transaction,
+  VersionedTransaction,
+  type BlockhashWithExpiryBlockHeight,
+  type Commitment,
+  type SignatureStatus,
+  type TransactionError,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import {
+  TX_LANDING_MAX_ATTEMPTS,
+  TX_REBROADCAST_INTERVAL_MS,
+  TX_CONFIRM_POLL_MS,
+  TX_LANDING_TIMEOUT_SECONDS,
+} from './environment.js';
+import { getRateLimiter } from './rpcRateLimiter.js';
+
+// --- Tipos públicos ---
+
+export type LandingStatus =
+  | 'confirmed'
+  | 'failed' // aterrizó pero el programa devolvió error (fee cobrada)
+  | 'rejected' // el preflight la rechazó, no se llegó a emitir
+  | 'expired' // ningún blockhash aterrizó a tiempo (dropped)
+  | 'pending' // timeout con el blockhash aún válido: puede aterrizar todavía
+  | 'error';
+
+export interface LandingResult {
+  success: boolean;
+  status: LandingStatus;
+  signature?: string; // la que aterrizó o la última enviada
+  signatures: string[]; // una por blockhash
+  slot?: number;
+  feeLamports?: number;
+  latencyMs: number;
+  attempts: number; // blockhashes usados
+  broadcasts: number;
+  error?: string;
+  logs?: string[];
+  // Envío por bundle (jitoBundles.ts)
+  submittedVia?: 'rpc' | 'jito';
+  bundleId?: string;
+  tipLamports?: number; // solo si el bundle aterrizó (propina pagada)
+}
+
+export interface LandingOptions {
+  label?: string; // para logs ("pump buy 7xKX...")
+  commitment?: Commitment;
+  // Blockhash con el que ya viene construida la tx (p. ej. Jupiter)
+  blockhash?: BlockhashWithExpiryBlockHeight;
+  skipPreflight?: boolean;
+  maxAttempts?: number;
+  timeoutMs?: number;
+}
+
+type AnyTransaction = Transaction | VersionedTransaction;
+
+// --- Errores de programa conocidos (custom error code → nombre) ---
+
+const PROGRAM_LABELS: Record<string, string> = {
+  '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P': 'Pump.fun',
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: 'Jupiter',
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: 'Token',
+  '11111111111111111111111111111111': 'System',
+};
+
+const PROGRAM_ERRORS: Record<string, Record<number, string>> = {
+  'Pump.fun': {
+    6002: 'TooMuchSolRequired (slippage)',
+    6003: 'TooLittleSolReceived (slippage)',
+    6004: 'MintDoesNotMatchBondingCurve',
+    6005: 'BondingCurveComplete (graduated)',
+    6006: 'BondingCurveNotComplete',
+  },
+  Jupiter: {
+    6001: 'SlippageToleranceExceeded',
+    6008: 'NotEnoughAccountKeys',
+    6017: 'ExactOutAmountNotMatched',
+  },
+  Token: {
+    1: 'InsufficientFunds',
+    3: 'MintMismatch',
+  },
+  System: {
+    1: 'ResultWithNegativeLamports (insufficient SOL)',
+  },
+};
+
+// Un blockhash vale ~150 bloques (60-90s): tope de espera tras el timeout
+const BLOCKHASH_EXPIRY_WAIT_MS = 90_000;
+
+// --- Helpers ---
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Exportados para jitoBundles.ts (misma firma / mismo blockhash)
+export function firstSignature(tx: AnyTransaction): string | null {
+  const raw =
+    tx instanceof VersionedTransaction ? tx.signatures[0] : tx.signature;
+  if (!raw || raw.every(b => b === 0)) return null;
+  return bs58.encode(raw);
+}
+
+function programIdAt(tx: AnyTransaction, index: number): string | null {
+  try {
+    if (tx instanceof VersionedTransaction) {
+      const ix = tx.message.compiledInstructions[index];
+      return ix ? tx.message.staticAccountKeys[ix.programIdIndex].toBase58() : null;
+    }
+    return tx.instructions[index]?.programId.toBase58() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function signWithBlockhash(
+  tx: AnyTransaction,
+  signers: Keypair[],
+  blockhash: BlockhashWithExpiryBlockHeight,
+): void {
+  if (tx instanceof VersionedTransaction) {
+    tx.message.recentBlockhash = blockhash.blockhash;
+    tx.sign(signers);
+    return;
+  }
+  tx.recentBlockhash = blockhash.blockhash;
+  tx.lastValidBlockHeight = blockhash.lastValidBlockHeight;
+  tx.feePayer = tx.feePayer ?? signers[0]?.publicKey;
+  tx.sign(...signers);
+}
+
+function meetsCommitment(
+  status: SignatureStatus,
+  commitment: Commitment,
+): boolean {
+  const level = status.confirmationStatus;
+  if (commitment === 'finalized') return level === 'finalized';
+  if (commitment === 'confirmed') {
+    return level === 'confirmed' || level === 'finalized';
+  }
+  return true;
+}
+
+/**
+ * Traduce el error on-chain / de preflight a algo legible:
+ *   "instruction 3 (Pump.fun): TooMuchSolRequired (slippage) [6002 / 0x1772]"
+ * Si los logs traen el mensaje de Anchor, se añade.
+ */
+export function describeTransactionError(
+  err: TransactionError | string | null | undefined,
+  logs?: string[] | null,
+  tx?: AnyTransaction,
+): string {
+  const anchorMessage = (logs ?? [])
+    .map(line => line.match(/Error Message: (.+?)\.?$/)?.[1])
+    .find(Boolean);
+
+  let description = 'unknown error';
+
+  if (typeof err === 'string') {
+    description = err;
+  } else if (err && typeof err === 'object') {
+    const instructionError = (err as any).InstructionError;
+    if (Array.isArray(instructionError)) {
+      const [index, detail] = instructionError as [number, any];
+      const programId = tx ? programIdAt(tx, index) : null;
+      const program = programId ? PROGRAM_LABELS[programId] ?? programId.slice(0, 8) : null;
+      const where = `instruction ${index}${program ? ` (${program})` : ''}`;
+
+      if (detail && typeof detail === 'object' && 'Custom' in detail) {
+        const code = Number(detail.Custom);
+        const name = program ? PROGRAM_ERRORS[program]?.[code] : undefined;
+        description = `${where}: ${name ?? 'custom error'} [${code} / 0x${code.toString(16)}]`;
+      } else {
+        description = `${where}: ${
+          typeof detail === 'string' ? detail : JSON.stringify(detail)
+        }`;
+      }
+    } else {
+      description = Object.keys(err).join(', ') || JSON.stringify(err);
+    }
+  }
+
+  return anchorMessage && !description.includes(anchorMessage)
+    ? `${description} - ${anchorMessage}`
+    : description;
+}
+
+// Errores de preflight: se reintenta con blockhash nuevo en vez de rendirse
+function isBlockhashError(message: string): boolean {
+  return /blockhash not found|block height exceeded|blockhash.*expired/i.test(
+    message,
+  );
+}
+
+// --- API pública ---
+
+/**
+ * Firma, envía y sigue la tx hasta confirmación o expiración. Nunca lanza:
+ * el resultado trae status + error parseado.
+ */
+export async function landTransaction(
+  connection: Connection,
+  tx: AnyTransaction,
+  signers: Keypair[],
+  options: LandingOptions = {},
+): Promise<LandingResult> {
+  const limiter = getRateLimiter();
+  const commitment = options.commitment ?? 'confirmed';
+  const maxAttempts = Math.max(options.maxAttempts ?? TX_LANDING_MAX_ATTEMPTS, 1);
+  const timeoutMs = options.timeoutMs ?? TX_LANDING_TIMEOUT_SECONDS * 1000;
+  const rebroadcastMs = Math.max(TX_REBROADCAST_INTERVAL_MS, 250);
+  const pollMs = Math.max(TX_CONFIRM_POLL_MS, 100);
+  const label = options.label ?? 'tx';
+
+  const startedAt = Date.now();
+  const signatures: string[] = [];
+  let broadcasts = 0;
+  let attempts = 0;
+
+  const result = (
+    status: LandingStatus,
+    extra: Partial<LandingResult> = {},
+  ): LandingResult => ({
+    success: status === 'confirmed',
+    status,
+    signature: extra.signature ?? signatures[signatures.length - 1],
+    signatures: [...signatures],
+    latencyMs: Date.now() - startedAt,
+    attempts,
+    broadcasts,
+    ...extra,
+  });
+
+  // ¿Alguna de las firmas enviadas ya aterrizó?
+  const checkLanded = async (): Promise<LandingResult | null> => {
+    if (signatures.length === 0) return null;
+
+    const { value } = await limiter.request(
+      () => connection.getSignatureStatuses([...signatures]),
+      'high',
+    );
+
+    for (let i = 0; i < value.length; i++) {
+      const status = value[i];
+      if (!status || !meetsCommitment(status, commitment)) continue;
+      return finalize(signatures[i], status);
+    }
+    return null;
+  };
+
+  // Fee / logs reales (la tx ya está en un bloque)
+  const finalize = async (
+    signature: string,
+    status: SignatureStatus,
+  ): Promise<LandingResult> => {
+    let feeLamports: number | undefined;
+    let logs: string[] | undefined;
+    try {
+      const landed = await limiter.request(
+        () =>
+          connection.getTransaction(signature, {
+            commitment: commitment === 'processed' ? 'confirmed' : (commitment as any),
+            maxSupportedTransactionVersion: 0,
+          }),
+        'low',
+      );
+      feeLamports = landed?.meta?.fee ?? undefined;
+      logs = landed?.meta?.logMessages ?? undefined;
+    } catch {
+      // sin meta: nos quedamos con el estado
+    }
+
+    if (status.err) {
+      return result('failed', {
+        signature,
+        slot: status.slot,
+        feeLamports,
+        logs,
+        error: describeTransactionError(status.err, logs, tx),
+      });
+    }
+    return result('confirmed', { signature, slot: status.slot, feeLamports, logs });
+  };
+
+  // Timeout global: sin más reenvíos, pero la última firma puede entrar
+  // hasta que su blockhash caduque. Solo entonces es 'expired' de verdad.
+  const settleAfterTimeout = async (
+    blockhash: BlockhashWithExpiryBlockHeight,
+  ): Promise<LandingResult> => {
+    console.log(
+      `   ⏳ ${label}: timeout after ${timeoutMs}ms, waiting for blockhash expiry`,
+    );
+    const deadline = Date.now() + BLOCKHASH_EXPIRY_WAIT_MS;
+
+    while (Date.now() < deadline) {
+      // Altura antes del estado: si ya pasó lastValidBlockHeight y no
+      // aterrizó, no puede aterrizar después
+      const height = await limiter.request(
+        () => connection.getBlockHeight(commitment),
+        'high',
+      );
+      const landed = await checkLanded();
+      if (landed) return landed;
+      if (height > blockhash.lastValidBlockHeight) {
+        return result('expired', {
+          error: `not confirmed after ${timeoutMs}ms, blockhash expired`,
+        });
+      }
+      await sleep(Math.max(pollMs, 1_000));
+    }
+
+    return result('pending', {
+      error: `not confirmed after ${timeoutMs}ms, blockhash still valid (may still land)`,
+    });
+  };
+
+  try {
+    while (attempts < maxAttempts) {
+      attempts++;
+
+      const blockhash =
+        attempts === 1 && options.blockhash
+          ? options.blockhash
+          : await limiter.request(
+              () => connection.getLatestBlockhash(commitment),
+              'high',
+            );
+
+      signWithBlockhash(tx, signers, blockhash);
+      const raw = tx.serialize();
+      const signature = firstSignature(tx);
+      if (!signature) {
+        return result('error', { error: 'transaction is not signed' });
+      }
+      signatures.push(signature);
+
+      // Primer envío: con preflight (salvo que se pida lo contrario)
+      try {
+        await connection.sendRawTransaction(raw, {
+          skipPreflight: attempts > 1 ? true : options.skipPreflight ?? false,
+          preflightCommitment: commitment,
+          maxRetries: 0,
+        });
+        broadcasts++;
+      } catch (error: any) {
+        const message = error?.message ?? String(error);
+        if (isBlockhashError(message)) {
+          signatures.pop();
+          continue;
+        }
+        const logs: string[] | undefined = error?.logs ?? undefined;
+        const custom = message.match(/custom program error: (0x[0-9a-f]+)/i)?.[1];
+        const index = message.match(/Error processing Instruction (\d+)/i)?.[1];
+        const err =
+          custom && index !== undefined
+            ? { InstructionError: [Number(index), { Custom: parseInt(custom, 16) }] }
+            : message;
+        signatures.pop();
+        return result('rejected', {
+          signature,
+          logs,
+          error: describeTransactionError(err as any, logs, tx),
+        });
+      }
+
+      console.log(
+        `   📡 ${label}: sent ${signature.slice(0, 12)}... (attempt ${attempts}/${maxAttempts})`,
+      );
+
+      let lastBroadcast = Date.now();
+      let expired = false;
+
+      while (!expired) {
+        await sleep(pollMs);
+
+        const landed = await checkLanded();
+        if (landed) return landed;
+
+        if (Date.now() - startedAt > timeoutMs) {
+          // await: un fallo de RPC esperando la expiración cae en el catch
+          return await settleAfterTimeout(blockhash);
+        }
+
+        if (Date.now() - lastBroadcast >= rebroadcastMs) {
+          const height = await limiter.request(
+            () => connection.getBlockHeight(commitment),
+            'high',
+          );
+          if (height > blockhash.lastValidBlockHeight) {
+            expired = true;
+            break;
+          }
+
+          lastBroadcast = Date.now();
+          connection
+            .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+            .then(() => {
+              broadcasts++;
+            })
+            .catch(() => undefined);
+        }
+      }
+
+      // Última comprobación antes de re-firmar: puede haber entrado justo ahora
+      const lateLanding = await checkLanded();
+      if (lateLanding) return lateLanding;
+
+      console.log(
+        `   ⌛ ${label}: blockhash expired for ${signature.slice(0, 12)}..., re-signing`,
+      );
+    }
+
+    return result('expired', {
+      error: `dropped: no landing after ${attempts} blockhash(es)`,
+    });
+  } catch (error: any) {
+    return result('error', { error: error?.message ?? String(error) });
+  }
+}
+
+// Línea de log estándar para los executors
+export function formatLanding(result: LandingResult): string {
+  const parts = [
+    result.status.toUpperCase(),
+    `${result.latencyMs}ms`,
+    `attempts ${result.attempts}`,
+    `broadcasts ${result.broadcasts}`,
+  ];
+  if (result.slot !== undefined) parts.push(`slot ${result.slot}`);
+  if (result.feeLamports !== undefined) {
+    parts.push(`fee ${(result.feeLamports / 1e9).toFixed(6)} SOL`);
+  }
+  if (result.submittedVia === 'jito') {
+    parts.push(`jito tip ${((result.tipLamports ?? 0) / 1e9).toFixed(6)} SOL`);
+  }
+  return parts.join(' | ');
+}
+
+
+// Campos de landing que los executors copian en BuyResult / SellResult
+export function landingFields(result: LandingResult): {
+  slot?: number;
+  feeLamports?: number;
+  latencyMs: number;
+  landingStatus: LandingStatus;
+  submittedVia?: 'rpc' | 'jito';
+  tipLamports?: number;
+} {
+  return {
+    slot: result.slot,
+    feeLamports: result.feeLamports,
+    latencyMs: result.latencyMs,
+    landingStatus: result.status,
+    submittedVia: result.submittedVia,
+    tipLamports: result.tipLamports,
+  };
+}
@@ -0,0 +1,228 @@
+// upvoteConsensus.ts - Consenso ponderado de wallets compradoras (TypeScript)
+//
+// En vez de contar buyers distintos en upvotes:<mint>:buyers, cada compra
+// aporta:
+//
+//   peso wallet × factor tamaño × decay por antigüedad
+//
+//   - peso wallet: `weight` explícito en wallet:<address>, o el de su `tier`
+//     (CONSENSUS_TIER_WEIGHTS), o 1. Con WALLET_WEIGHTED_UPVOTES_ENABLED se
+//     multiplica además por el peso del score (walletScoring.ts).
+//   - factor tamaño: SOL de la compra / CONSENSUS_SIZE_REFERENCE_SOL,
+//     acotado a [CONSENSUS_SIZE_FACTOR_MIN, CONSENSUS_SIZE_FACTOR_MAX].
+//   - decay: 0.5 ^ (edad / CONSENSUS_HALF_LIFE_SECONDS).
+//
+// Las compras fuera de la ventana no cuentan. El desglose se guarda en la
+// posición (campo `consensus`) para analizarlo después.
+
+import type { Redis as RedisClient } from 'ioredis';
+import {
+  CONSENSUS_WINDOW_SECONDS,
+  CONSENSUS_MIN_SCORE,
+  CONSENSUS_HALF_LIFE_SECONDS,
+  CONSENSUS_SIZE_REFERENCE_SOL,
+  CONSENSUS_SIZE_FACTOR_MIN,
+  CONSENSUS_SIZE_FACTOR_MAX,
+  CONSENSUS_TIER_WEIGHTS,
+  WALLET_WEIGHTED_UPVOTES_ENABLED,
+} from './environment.js';
+
+// --- Tipos públicos ---
+
+export interface ConsensusContribution {
+  wallet: string;
+  walletName?: string;
+  tier?: string;
+  walletWeight: number;
+  solAmount: number;
+  sizeFactor: number;
+  ageSeconds: number;
+  decay: number;
+  contribution: number;
+}
+
+export interface ConsensusResult {
+  mint: string;
+  score: number;
+  threshold: number;
+  passed: boolean;
+  buyers: number;
+  windowSeconds: number;
+  contributions: ConsensusContribution[];
+  evaluatedAt: number;
+}
+
+export interface ConsensusConfig {
+  windowSeconds: number;
+  threshold: number;
+  halfLifeSeconds: number;
+  sizeReferenceSol: number;
+  sizeFactorMin: number;
+  sizeFactorMax: number;
+  tierWeights: Record<string, number>;
+  useScoreWeights: boolean;
+}
+
+export const DEFAULT_CONSENSUS_CONFIG: ConsensusConfig = {
+  windowSeconds: CONSENSUS_WINDOW_SECONDS,
+  threshold: CONSENSUS_MIN_SCORE,
+  halfLifeSeconds: CONSENSUS_HALF_LIFE_SECONDS,
+  sizeReferenceSol: CONSENSUS_SIZE_REFERENCE_SOL,
+  sizeFactorMin: CONSENSUS_SIZE_FACTOR_MIN,
+  sizeFactorMax: CONSENSUS_SIZE_FACTOR_MAX,
+  tierWeights: CONSENSUS_TIER_WEIGHTS,
+  useScoreWeights: WALLET_WEIGHTED_UPVOTES_ENABLED,
+};
+
+interface ConsensusEngineDependencies {
+  redis: RedisClient;
+  clock?: () => number;
+  config?: Partial<ConsensusConfig>;
+}
+
+// --- Clase principal ---
+
+export class ConsensusEngine {
+  private readonly redis: RedisClient;
+  private readonly now: () => number;
+  readonly config: ConsensusConfig;
+
+  constructor(deps: ConsensusEngineDependencies) {
+    this.redis = deps.redis;
+    this.now = deps.clock ?? Date.now;
+    // Igual que HybridExitEngine: un override undefined mantiene el default
+    const overrides = Object.fromEntries(
+      Object.entries(deps.config ?? {}).filter(([, v]) => v !== undefined),
+    ) as Partial<ConsensusConfig>;
+    this.config = { ...DEFAULT_CONSENSUS_CONFIG, ...overrides };
+  }
+
+  /**
+   * Score ponderado de las compras de `mint` dentro de la ventana.
+   * Si upvotes:<mint>:buyers ya expiró se usan los buyers de la señal.
+   */
+  async evaluate(mint: string, fallbackBuyers: string[] = []): Promise<ConsensusResult> {
+    const cfg = this.config;
+    const now = this.now();
+
+    const stored = await this.redis.smembers(`upvotes:${mint}:buyers`);
+    const buyers = Array.from(
+      new Set((stored.length > 0 ? stored : fallbackBuyers).map(String)),
+    );
+
+    const contributions: ConsensusContribution[] = [];
+
+    for (const wallet of buyers) {
+      const [buy, walletData, scoreWeight] = await Promise.all([
+        this.redis.hgetall(`upvotes:${mint}:buy:${wallet}`) as Promise<
+          Record<string, string>
+        >,
+        this.redis.hgetall(`wallet:${wallet}`) as Promise<Record<string, string>>,
+        cfg.useScoreWeights
+          ? this.redis.hget(`wallet_score:${wallet}`, 'weight')
+          : Promise.resolve(null),
+      ]);
+
+      // Sin detalle de la compra: cuenta como recién hecha y tamaño neutro
+      const timestamp = Number(buy?.timestamp) || now;
+      const ageSeconds = Math.max((now - timestamp) / 1000, 0);
+      if (cfg.windowSeconds > 0 && ageSeconds > cfg.windowSeconds) {
+        continue;
+      }
+
+      const solAmount = Number(buy?.solAmount) || 0;
+      const tier = walletData?.tier ? walletData.tier.toLowerCase() : undefined;
+      const walletWeight =
+        this.baseWeight(walletData?.weight, tier) *
+        (scoreWeight !== null && Number.isFinite(Number(scoreWeight))
+          ? Number(scoreWeight)
+          : 1);
+
+      const sizeFactor = this.sizeFactor(solAmount);
+      const decay = this.decay(ageSeconds);
+
+      contributions.push({
+        wallet,
+        walletName: walletData?.name ?? buy?.walletName,
+        tier,
+        walletWeight,
+        solAmount,
+        sizeFactor,
+        ageSeconds: Math.round(ageSeconds),
+        decay,
+        contribution: walletWeight * sizeFactor * decay,
+      });
+    }
+
+    contributions.sort((a, b) => b.contribution - a.contribution);
+    const score = contributions.reduce((acc, c) => acc + c.contribution, 0);
+
+    return {
+      mint,
+      score,
+      threshold: cfg.threshold,
+      passed: score >= cfg.threshold,
+      buyers: contributions.length,
+      windowSeconds: cfg.windowSeconds,
+      contributions,
+      evaluatedAt: now,
+    };
+  }
+
+  /**
+   * Confianza 0-100 a partir de score / umbral (umbral justo = 70,
+   * como 2 wallets en calculateConfidence).
+   */
+  confidence(result: ConsensusResult): number {
+    if (result.threshold <= 0) return 95;
+    const ratio = result.score / result.threshold;
+    return Math.round(Math.min(Math.max(70 * ratio, 10), 95));
+  }
+
+  // --- Internos ---
+
+  private baseWeight(explicit: string | undefined, tier: string | undefined): number {
+    const parsed = Number(explicit);
+    if (explicit !== undefined && explicit !== '' && Number.isFinite(parsed)) {
+      return Math.max(parsed, 0);
+    }
+    if (tier && this.config.tierWeights[tier] !== undefined) {
+      return this.config.tierWeights[tier];
+    }
+    return 1;
+  }
+
+  private sizeFactor(solAmount: number): number {
+    const { sizeReferenceSol, sizeFactorMin, sizeFactorMax } = this.config;
+    if (sizeReferenceSol <= 0 || solAmount <= 0) return 1;
+    return Math.min(
+      Math.max(solAmount / sizeReferenceSol, sizeFactorMin),
+      sizeFactorMax,
+    );
+  }
+
+  private decay(ageSeconds: number): number {
+    const { halfLifeSeconds } = this.config;
+    if (halfLifeSeconds <= 0) return 1;
+    return Math.pow(0.5, ageSeconds / halfLifeSeconds);
+  }
+}
+
+// Desglose compacto para guardar en la posición (JSON en position:<mint>)
+export function serializeConsensus(result: ConsensusResult): string {
+  return JSON.stringify({
+    score: Number(result.score.toFixed(4)),
+    threshold: result.threshold,
+    windowSeconds: result.windowSeconds,
+    contributions: result.contributions.map(c => ({
+      wallet: c.wallet,
+      tier: c.tier,
+      walletWeight: Number(c.walletWeight.toFixed(4)),
+      solAmount: c.solAmount,
+      sizeFactor: Number(c.sizeFactor.toFixed(4)),
+      ageSeconds: c.ageSeconds,
+      decay: Number(c.decay.toFixed(4)),
+      contribution: Number(c.contribution.toFixed(4)),
+    })),
+  });
+}
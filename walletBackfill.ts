@@ -0,0 +1,382 @@
+// walletBackfill.ts - Historial de swaps de wallets seguidas (TypeScript)
+//
+// wallet_trades:<address> guarda cada swap del líder (BUY / SELL) que pasa
+// por el parser del WalletTracker: los live (logs WS) y los del backfill
+// (WalletTracker.backfillWallet sobre getSignaturesForAddress).
+//
+// A partir de esa lista se reconstruyen round-trips por mint (coste medio:
+// cada venta libera la parte proporcional del SOL invertido) para tener
+// win rate / PnL del líder antes de copiarle nada.
+//
+// wallet_backfill:<address> (hash) guarda el estado del último backfill.
+
+import type { Redis as RedisClient } from 'ioredis';
+import { WALLET_TRADES_HISTORY_MAX } from './environment.js';
+
+// --- Tipos públicos ---
+
+export interface WalletSwapRecord {
+  signature: string;
+  mint: string;
+  action: 'BUY' | 'SELL';
+  tokenAmount: number;
+  solAmount: number;
+  timestamp: number;
+  slot: number;
+  dex: string;
+  source?: 'live' | 'backfill';
+}
+
+export interface WalletRoundTrip {
+  mint: string;
+  dex: string;
+  openedAt: number;
+  closedAt: number;
+  buys: number;
+  sells: number;
+  solSpent: number;
+  solReceived: number;
+  pnlSol: number;
+  pnlPercent: number;
+}
+
+export interface WalletOpenHolding {
+  mint: string;
+  tokens: number;
+  costSol: number;
+  openedAt: number;
+}
+
+export interface WalletHistorySummary {
+  swaps: number;
+  roundTrips: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  pnlSol: number;
+  avgPnlSol: number;
+  avgHoldSeconds: number;
+  openPositions: number;
+  unmatchedSells: number; // ventas de compras anteriores al historial
+  oldestTimestamp: number | null;
+}
+
+export interface WalletBackfillStatus {
+  status: 'running' | 'done' | 'failed';
+  startedAt: number;
+  finishedAt?: number;
+  scannedSignatures?: number;
+  parsedSwaps?: number;
+  newSwaps?: number;
+  error?: string;
+}
+
+export interface WalletHistory {
+  address: string;
+  summary: WalletHistorySummary;
+  roundTrips: WalletRoundTrip[];
+  openHoldings: WalletOpenHolding[];
+  backfill: WalletBackfillStatus | null;
+}
+
+// Por debajo de esto la posición se considera cerrada (polvo / redondeo)
+const DUST_TOKEN_RATIO = 0.001;
+
+// --- Keys Redis ---
+
+function tradesKey(address: string): string {
+  return `wallet_trades:${address}`;
+}
+
+function backfillKey(address: string): string {
+  return `wallet_backfill:${address}`;
+}
+
+// --- Reconstrucción (pura) ---
+
+export function reconstructRoundTrips(swaps: WalletSwapRecord[]): {
+  roundTrips: WalletRoundTrip[];
+  openHoldings: WalletOpenHolding[];
+  unmatchedSells: number;
+} {
+  const ordered = [...swaps].sort(
+    (a, b) => a.timestamp - b.timestamp || a.slot - b.slot,
+  );
+
+  const open = new Map<
+    string,
+    WalletOpenHolding & {
+      dex: string;
+      boughtTokens: number;
+      buys: number;
+      sells: number;
+      solSpent: number;
+      solReceived: number;
+    }
+  >();
+  const roundTrips: WalletRoundTrip[] = [];
+  let unmatchedSells = 0;
+
+  for (const swap of ordered) {
+    if (!swap.mint || !(swap.tokenAmount > 0)) continue;
+
+    let holding = open.get(swap.mint);
+
+    if (swap.action === 'BUY') {
+      if (!holding) {
+        holding = {
+          mint: swap.mint,
+          dex: swap.dex,
+          tokens: 0,
+          costSol: 0,
+          openedAt: swap.timestamp,
+          boughtTokens: 0,
+          buys: 0,
+          sells: 0,
+          solSpent: 0,
+          solReceived: 0,
+        };
+        open.set(swap.mint, holding);
+      }
+      holding.tokens += swap.tokenAmount;
+      holding.boughtTokens += swap.tokenAmount;
+      holding.costSol += swap.solAmount;
+      holding.solSpent += swap.solAmount;
+      holding.buys++;
+      continue;
+    }
+
+    // SELL sin compra conocida: la entrada es anterior al historial
+    if (!holding || holding.tokens <= 0) {
+      unmatchedSells++;
+      continue;
+    }
+
+    const sold = Math.min(swap.tokenAmount, holding.tokens);
+    holding.costSol -= holding.costSol * (sold / holding.tokens);
+    holding.tokens -= sold;
+    holding.solReceived += swap.solAmount;
+    holding.sells++;
+
+    if (holding.tokens <= holding.boughtTokens * DUST_TOKEN_RATIO) {
+      const pnlSol = holding.solReceived - holding.solSpent;
+      roundTrips.push({
+        mint: holding.mint,
+        dex: holding.dex,
+        openedAt: holding.openedAt,
+        closedAt: swap.timestamp,
+        buys: holding.buys,
+        sells: holding.sells,
+        solSpent: holding.solSpent,
+        solReceived: holding.solReceived,
+        pnlSol,
+        pnlPercent:
+          holding.solSpent > 0 ? (pnlSol / holding.solSpent) * 100 : 0,
+      });
+      open.delete(holding.mint);
+    }
+  }
+
+  const openHoldings = Array.from(open.values()).map(h => ({
+    mint: h.mint,
+    tokens: h.tokens,
+    costSol: h.costSol,
+    openedAt: h.openedAt,
+  }));
+
+  roundTrips.sort((a, b) => b.closedAt - a.closedAt);
+  return { roundTrips, openHoldings, unmatchedSells };
+}
+
+export function summarizeWalletHistory(
+  swaps: WalletSwapRecord[],
+): WalletHistorySummary & {
+  roundTripList: WalletRoundTrip[];
+  openHoldings: WalletOpenHolding[];
+} {
+  const { roundTrips, openHoldings, unmatchedSells } =
+    reconstructRoundTrips(swaps);
+
+  const wins = roundTrips.filter(t => t.pnlSol > 0).length;
+  const losses = roundTrips.filter(t => t.pnlSol < 0).length;
+  const pnlSol = roundTrips.reduce((acc, t) => acc + t.pnlSol, 0);
+  const holdSeconds = roundTrips.reduce(
+    (acc, t) => acc + Math.max(t.closedAt - t.openedAt, 0) / 1000,
+    0,
+  );
+  const oldest = swaps.reduce<number | null>(
+    (min, s) => (min === null || s.timestamp < min ? s.timestamp : min),
+    null,
+  );
+
+  return {
+    swaps: swaps.length,
+    roundTrips: roundTrips.length,
+    wins,
+    losses,
+    winRate: roundTrips.length > 0 ? (wins / roundTrips.length) * 100 : 0,
+    pnlSol,
+    avgPnlSol: roundTrips.length > 0 ? pnlSol / roundTrips.length : 0,
+    avgHoldSeconds:
+      roundTrips.length > 0 ? Math.round(holdSeconds / roundTrips.length) : 0,
+    openPositions: openHoldings.length,
+    unmatchedSells,
+    oldestTimestamp: oldest,
+    roundTripList: roundTrips,
+    openHoldings,
+  };
+}
+
+// --- Redis ---
+
+export async function loadWalletSwaps(
+  redis: RedisClient,
+  address: string,
+): Promise<WalletSwapRecord[]> {
+  const rows = await redis.lrange(tradesKey(address), 0, -1);
+  return rows
+    .map(row => {
+      try {
+        return JSON.parse(row) as WalletSwapRecord;
+      } catch {
+        return null;
+      }
+    })
+    .filter((s): s is WalletSwapRecord => s !== null && !!s.signature);
+}
+
+// Swap live (más reciente primero)
+export async function recordWalletSwap(
+  redis: RedisClient,
+  address: string,
+  swap: WalletSwapRecord,
+): Promise<void> {
+  const key = tradesKey(address);
+  await redis.lpush(key, JSON.stringify({ ...swap, source: swap.source ?? 'live' }));
+  await redis.ltrim(key, 0, Math.max(WALLET_TRADES_HISTORY_MAX, 1) - 1);
+}
+
+// KEYS: wallet_trades | ARGV: max, swap1, swap2, ...
+// Merge + reescritura en un solo paso: un lpush live concurrente no se pierde.
+// Las filas existentes se conservan tal cual (sin re-serializar con cjson).
+const MERGE_SCRIPT = `
+local seen = {}
+local items = {}
+local function push(row, swap)
+  seen[swap.signature] = true
+  table.insert(items, {
+    row = row,
+    ts = tonumber(swap.timestamp) or 0,
+    slot = tonumber(swap.slot) or 0,
+  })
+end
+for _, row in ipairs(redis.call('LRANGE', KEYS[1], 0, -1)) do
+  local ok, swap = pcall(cjson.decode, row)
+  if ok and type(swap) == 'table' and swap.signature and not seen[swap.signature] then
+    push(row, swap)
+  end
+end
+local added = 0
+for i = 2, #ARGV do
+  local swap = cjson.decode(ARGV[i])
+  if not seen[swap.signature] then
+    push(ARGV[i], swap)
+    added = added + 1
+  end
+end
+if added == 0 then
+  return 0
+end
+table.sort(items, function(a, b)
+  if a.ts ~= b.ts then
+    return a.ts > b.ts
+  end
+  return a.slot > b.slot
+end)
+redis.call('DEL', KEYS[1])
+for i = 1, math.min(#items, tonumber(ARGV[1])) do
+  redis.call('RPUSH', KEYS[1], items[i].row)
+end
+return added
+`;
+
+/**
+ * Mezcla swaps del backfill con los ya guardados (dedupe por firma) y
+ * reescribe la lista ordenada por timestamp desc, de forma atómica (Lua).
+ * Devuelve cuántos son nuevos.
+ */
+export async function mergeWalletSwaps(
+  redis: RedisClient,
+  address: string,
+  swaps: WalletSwapRecord[],
+): Promise<number> {
+  if (swaps.length === 0) return 0;
+
+  const added = await redis.eval(
+    MERGE_SCRIPT,
+    1,
+    tradesKey(address),
+    String(Math.max(WALLET_TRADES_HISTORY_MAX, 1)),
+    ...swaps.map(swap =>
+      JSON.stringify({ ...swap, source: swap.source ?? 'backfill' }),
+    ),
+  );
+
+  return Number(added);
+}
+
+export async function setBackfillStatus(
+  redis: RedisClient,
+  address: string,
+  status: WalletBackfillStatus,
+): Promise<void> {
+  const fields = Object.entries(status).reduce<Record<string, string>>(
+    (acc, [k, v]) => {
+      if (v !== undefined && v !== null) acc[k] = String(v);
+      return acc;
+    },
+    {},
+  );
+  await redis.del(backfillKey(address));
+  await redis.hset(backfillKey(address), fields);
+}
+
+export async function getBackfillStatus(
+  redis: RedisClient,
+  address: string,
+): Promise<WalletBackfillStatus | null> {
+  const raw = (await redis.hgetall(backfillKey(address))) as Record<
+    string,
+    string
+  >;
+  if (!raw || Object.keys(raw).length === 0) return null;
+
+  const num = (v?: string) => (v !== undefined && v !== '' ? Number(v) : undefined);
+  return {
+    status: (raw.status as WalletBackfillStatus['status']) ?? 'done',
+    startedAt: Number(raw.startedAt ?? 0),
+    finishedAt: num(raw.finishedAt),
+    scannedSignatures: num(raw.scannedSignatures),
+    parsedSwaps: num(raw.parsedSwaps),
+    newSwaps: num(raw.newSwaps),
+    error: raw.error || undefined,
+  };
+}
+
+export async function getWalletHistory(
+  redis: RedisClient,
+  address: string,
+  roundTripLimit = 50,
+): Promise<WalletHistory> {
+  const swaps = await loadWalletSwaps(redis, address);
+  const { roundTripList, openHoldings, ...summary } =
+    summarizeWalletHistory(swaps);
+
+  return {
+    address,
+    summary,
+    roundTrips: roundTripList.slice(0, Math.max(roundTripLimit, 0)),
+    openHoldings,
+    backfill: await getBackfillStatus(redis, address),
+  };
+}
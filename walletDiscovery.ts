@@ -0,0 +1,758 @@
+// walletDiscovery.ts - Descubrimiento de wallets rentables on-chain (TypeScript)
+//
+// A partir de tokens que salieron bien (lista de mints o nuestros trades
+// ganadores) reconstruye quién compró primero en Pump.fun y propone
+// candidatos para tracked_wallets:
+//
+//   1. getSignaturesForAddress(mint) hasta llegar a la creación del token
+//   2. las DISCOVERY_SCAN_TXS txs más antiguas → buys / sells por fee payer
+//   3. por wallet: puesto de entrada, PnL en el escaneo (realizado + tokens
+//      restantes al último precio visto) y en cuántos tokens entró temprano
+//   4. filtros: creador, insiders (compra en el slot de creación), bots
+//      (demasiadas txs en un token o buy+sell en el mismo slot), wallets
+//      fondeadas por un creador y clusters con el mismo funder
+//
+// Todas las llamadas RPC pasan por el RPCRateLimiter con prioridad 'low'
+// para no competir con el copy / sniper.
+//
+// Uso: npm run discover -- <mint1,mint2,...> [--from-trades DAYS] [--min-tokens 2]
+//        [--early 30] [--max 20] [--no-funders] [--add] [--profile ID] [--out report.json]
+
+import 'dotenv/config';
+import { writeFile } from 'fs/promises';
+import { pathToFileURL } from 'url';
+import { Connection, PublicKey } from '@solana/web3.js';
+import type { Redis as RedisClient } from 'ioredis';
+import { getRateLimiter } from './rpcRateLimiter.js';
+import { getProfile, getProfileRedis } from './profiles.js';
+import {
+  DISCOVERY_EARLY_BUYERS,
+  DISCOVERY_SCAN_TXS,
+  DISCOVERY_MAX_SIGNATURE_PAGES,
+  DISCOVERY_MIN_TOKENS,
+  DISCOVERY_BOT_MAX_TXS_PER_TOKEN,
+  DISCOVERY_MAX_CANDIDATES,
+} from './environment.js';
+import { DEFAULT_WALLET_MIN_SOL, DEFAULT_WALLET_MAX_SOL } from './copySizing.js';
+
+// --- Tipos públicos ---
+
+export interface DiscoveryOptions {
+  earlyBuyers: number;
+  scanTxs: number;
+  maxSignaturePages: number;
+  minTokens: number;
+  botMaxTxsPerToken: number;
+  maxCandidates: number;
+  checkFunders: boolean;
+}
+
+export const DEFAULT_DISCOVERY_OPTIONS: DiscoveryOptions = {
+  earlyBuyers: DISCOVERY_EARLY_BUYERS,
+  scanTxs: DISCOVERY_SCAN_TXS,
+  maxSignaturePages: DISCOVERY_MAX_SIGNATURE_PAGES,
+  minTokens: DISCOVERY_MIN_TOKENS,
+  botMaxTxsPerToken: DISCOVERY_BOT_MAX_TXS_PER_TOKEN,
+  maxCandidates: DISCOVERY_MAX_CANDIDATES,
+  checkFunders: true,
+};
+
+export interface EarlyBuyer {
+  wallet: string;
+  rank: number; // 1 = primer comprador después del creador
+  slot: number;
+  solSpent: number;
+  solReceived: number;
+  tokensBought: number;
+  tokensSold: number;
+  txCount: number;
+  sameSlotAsCreate: boolean;
+  sameSlotRoundTrip: boolean;
+}
+
+export interface MintEarlyBuyers {
+  mint: string;
+  creator: string | null;
+  createSlot: number;
+  lastPrice: number; // SOL por token en la última tx escaneada
+  scannedTxs: number;
+  buyers: EarlyBuyer[];
+}
+
+export type DiscoveryFlag =
+  | 'creator'
+  | 'insider'
+  | 'bot'
+  | 'creator_funded'
+  | 'cluster';
+
+export interface DiscoveryCandidate {
+  address: string;
+  tokens: number;
+  mints: string[];
+  avgRank: number;
+  earliness: number; // 0-1 (1 = siempre el primero)
+  realizedSol: number;
+  unrealizedSol: number;
+  pnlSol: number;
+  score: number;
+  funder?: string | null;
+  flags: DiscoveryFlag[];
+}
+
+export interface DiscoveryReport {
+  generatedAt: number;
+  mints: string[];
+  scannedMints: number;
+  skippedMints: Array<{ mint: string; reason: string }>;
+  candidates: DiscoveryCandidate[];
+  rejected: DiscoveryCandidate[];
+}
+
+interface WalletDiscoveryDependencies {
+  connection?: Connection;
+  options?: Partial<DiscoveryOptions>;
+}
+
+interface WalletAggregate {
+  address: string;
+  mints: string[];
+  ranks: number[];
+  earliness: number[];
+  realizedSol: number;
+  unrealizedSol: number;
+  flags: Set<DiscoveryFlag>;
+}
+
+// Rejections que sacan a la wallet de la lista de candidatos
+const BLOCKING_FLAGS: DiscoveryFlag[] = [
+  'creator',
+  'insider',
+  'bot',
+  'creator_funded',
+  'cluster',
+];
+
+const SIGNATURE_PAGE_SIZE = 1000;
+const MIN_TRADE_SOL = 0.001;
+const MIN_TOKEN_DELTA = 0.00001;
+
+// Redis: último reporte (por perfil gracias al keyPrefix)
+const DISCOVERY_REPORT_KEY = 'discovery:last_report';
+
+// --- Clase principal ---
+
+export class WalletDiscovery {
+  private readonly connection: Connection;
+  readonly options: DiscoveryOptions;
+
+  constructor(deps: WalletDiscoveryDependencies = {}) {
+    const rpcUrl = process.env.RPC_URL;
+    if (!deps.connection && !rpcUrl) {
+      throw new Error('RPC_URL not set');
+    }
+    this.connection = deps.connection ?? new Connection(rpcUrl as string, 'confirmed');
+    const overrides = Object.fromEntries(
+      Object.entries(deps.options ?? {}).filter(([, v]) => v !== undefined),
+    ) as Partial<DiscoveryOptions>;
+    this.options = { ...DEFAULT_DISCOVERY_OPTIONS, ...overrides };
+  }
+
+  /**
+   * Compradores tempranos de un token de Pump.fun.
+   * Devuelve null si no se llega a la creación en maxSignaturePages.
+   */
+  async collectEarlyBuyers(mint: string): Promise<MintEarlyBuyers | null> {
+    const signatures = await this.oldestSignatures(mint);
+    if (!signatures) return null;
+
+    const creationOrder = signatures.slice(0, Math.max(this.options.scanTxs, 1));
+
+    let creator: string | null = null;
+    let createSlot = 0;
+    let lastPrice = 0;
+    let scannedTxs = 0;
+    const buyers = new Map<string, EarlyBuyer>();
+    const slotsByWallet = new Map<string, Map<number, { buy: boolean; sell: boolean }>>();
+
+    for (const sig of creationOrder) {
+      const tx: any = await this.rpc(() =>
+        this.connection.getParsedTransaction(sig.signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0,
+        }),
+      );
+      if (!tx || !tx.meta) continue;
+      scannedTxs++;
+
+      const feePayer = this.feePayer(tx);
+      if (!feePayer) continue;
+
+      // La primera tx del token es la creación (el creador suele comprar en ella)
+      if (creator === null) {
+        creator = feePayer;
+        createSlot = Number(tx.slot ?? sig.slot ?? 0);
+      }
+
+      if (tx.meta.err) continue;
+
+      const trade = this.tradeDeltas(tx, feePayer, mint);
+      if (!trade) continue;
+
+      const { solDelta, tokenDelta } = trade;
+      lastPrice = Math.abs(solDelta) / Math.abs(tokenDelta);
+
+      if (feePayer === creator) continue;
+
+      const slot = Number(tx.slot ?? sig.slot ?? 0);
+      const isBuy = tokenDelta > 0;
+
+      let buyer = buyers.get(feePayer);
+      if (!buyer) {
+        // Solo entran los N primeros compradores; ventas de los demás se ignoran
+        if (!isBuy || buyers.size >= this.options.earlyBuyers) continue;
+        buyer = {
+          wallet: feePayer,
+          rank: buyers.size + 1,
+          slot,
+          solSpent: 0,
+          solReceived: 0,
+          tokensBought: 0,
+          tokensSold: 0,
+          txCount: 0,
+          sameSlotAsCreate: slot === createSlot,
+          sameSlotRoundTrip: false,
+        };
+        buyers.set(feePayer, buyer);
+      }
+
+      buyer.txCount++;
+      if (isBuy) {
+        buyer.solSpent += Math.abs(solDelta);
+        buyer.tokensBought += tokenDelta;
+      } else {
+        buyer.solReceived += Math.abs(solDelta);
+        buyer.tokensSold += Math.abs(tokenDelta);
+      }
+
+      let slots = slotsByWallet.get(feePayer);
+      if (!slots) {
+        slots = new Map();
+        slotsByWallet.set(feePayer, slots);
+      }
+      const seen = slots.get(slot) ?? { buy: false, sell: false };
+      if (isBuy) seen.buy = true;
+      else seen.sell = true;
+      slots.set(slot, seen);
+      if (seen.buy && seen.sell) buyer.sameSlotRoundTrip = true;
+    }
+
+    return {
+      mint,
+      creator,
+      createSlot,
+      lastPrice,
+      scannedTxs,
+      buyers: Array.from(buyers.values()),
+    };
+  }
+
+  /**
+   * Ranking de wallets que entraron temprano en varios de los mints.
+   */
+  async discover(mints: string[]): Promise<DiscoveryReport> {
+    const uniqueMints = Array.from(new Set(mints.map(m => m.trim()).filter(Boolean)));
+    const skippedMints: DiscoveryReport['skippedMints'] = [];
+    const aggregates = new Map<string, WalletAggregate>();
+    const creators = new Set<string>();
+    let scannedMints = 0;
+
+    for (const mint of uniqueMints) {
+      try {
+        new PublicKey(mint);
+      } catch {
+        skippedMints.push({ mint, reason: 'invalid_mint' });
+        continue;
+      }
+
+      console.log(`🔎 Scanning early buyers of ${mint.slice(0, 8)}...`);
+
+      let snapshot: MintEarlyBuyers | null = null;
+      try {
+        snapshot = await this.collectEarlyBuyers(mint);
+      } catch (error: any) {
+        console.log(
+          `   ⚠️ Scan failed for ${mint.slice(0, 8)}:`,
+          error?.message ?? String(error),
+        );
+        skippedMints.push({ mint, reason: 'rpc_error' });
+        continue;
+      }
+
+      if (!snapshot) {
+        skippedMints.push({ mint, reason: 'history_too_long' });
+        continue;
+      }
+      if (snapshot.buyers.length === 0) {
+        skippedMints.push({ mint, reason: 'no_buyers' });
+        continue;
+      }
+
+      scannedMints++;
+      if (snapshot.creator) creators.add(snapshot.creator);
+      console.log(
+        `   ✅ ${snapshot.buyers.length} early buyers in ${snapshot.scannedTxs} txs` +
+          (snapshot.creator ? ` (creator ${snapshot.creator.slice(0, 8)})` : ''),
+      );
+
+      const total = snapshot.buyers.length;
+      for (const buyer of snapshot.buyers) {
+        let agg = aggregates.get(buyer.wallet);
+        if (!agg) {
+          agg = {
+            address: buyer.wallet,
+            mints: [],
+            ranks: [],
+            earliness: [],
+            realizedSol: 0,
+            unrealizedSol: 0,
+            flags: new Set(),
+          };
+          aggregates.set(buyer.wallet, agg);
+        }
+
+        agg.mints.push(mint);
+        agg.ranks.push(buyer.rank);
+        agg.earliness.push(total > 1 ? 1 - (buyer.rank - 1) / (total - 1) : 1);
+        agg.realizedSol += buyer.solReceived - buyer.solSpent;
+        agg.unrealizedSol +=
+          Math.max(buyer.tokensBought - buyer.tokensSold, 0) * snapshot.lastPrice;
+
+        if (buyer.sameSlotAsCreate) agg.flags.add('insider');
+        if (
+          buyer.sameSlotRoundTrip ||
+          buyer.txCount > this.options.botMaxTxsPerToken
+        ) {
+          agg.flags.add('bot');
+        }
+      }
+    }
+
+    for (const creator of creators) {
+      aggregates.get(creator)?.flags.add('creator');
+    }
+
+    const ranked = Array.from(aggregates.values())
+      .filter(agg => agg.mints.length >= this.options.minTokens)
+      .map(agg => this.toCandidate(agg))
+      .sort((a, b) => b.score - a.score);
+
+    let candidates = ranked.filter(c => !this.isBlocked(c));
+    const rejected = ranked.filter(c => this.isBlocked(c));
+
+    if (this.options.checkFunders && candidates.length > 0) {
+      // Solo los mejores: cada funder cuesta 1-2 llamadas RPC por wallet
+      const shortlist = candidates.slice(0, this.options.maxCandidates * 2);
+      await this.flagFunders(shortlist, creators);
+      rejected.push(...shortlist.filter(c => this.isBlocked(c)));
+      candidates = candidates.filter(c => !this.isBlocked(c));
+    }
+
+    return {
+      generatedAt: Date.now(),
+      mints: uniqueMints,
+      scannedMints,
+      skippedMints,
+      candidates: candidates.slice(0, this.options.maxCandidates),
+      rejected,
+    };
+  }
+
+  // --- Internos ---
+
+  private rpc<T>(operation: () => Promise<T>): Promise<T> {
+    return getRateLimiter().request(operation, 'low');
+  }
+
+  // Firmas del token de la más antigua a la más nueva (null = historial demasiado largo)
+  private async oldestSignatures(
+    mint: string,
+  ): Promise<Array<{ signature: string; slot: number }> | null> {
+    const address = new PublicKey(mint);
+    let before: string | undefined;
+    let oldestPage: Array<{ signature: string; slot: number }> = [];
+    let previousPage: Array<{ signature: string; slot: number }> = [];
+    let reachedOrigin = false;
+
+    for (let page = 0; page < this.options.maxSignaturePages; page++) {
+      const batch = await this.rpc(() =>
+        this.connection.getSignaturesForAddress(address, {
+          before,
+          limit: SIGNATURE_PAGE_SIZE,
+        }),
+      );
+
+      if (batch.length === 0) {
+        reachedOrigin = true;
+        break;
+      }
+
+      previousPage = oldestPage;
+      oldestPage = batch.map(s => ({ signature: s.signature, slot: s.slot }));
+      before = batch[batch.length - 1].signature;
+
+      if (batch.length < SIGNATURE_PAGE_SIZE) {
+        reachedOrigin = true;
+        break;
+      }
+    }
+
+    if (!reachedOrigin) return null;
+
+    // La última página puede quedarse corta para scanTxs: se completa con la anterior
+    return [...oldestPage.reverse(), ...previousPage.reverse()];
+  }
+
+  private feePayer(tx: any): string | null {
+    const key = tx?.transaction?.message?.accountKeys?.[0];
+    if (!key) return null;
+    return typeof key === 'string' ? key : (key.pubkey?.toBase58?.() ?? String(key.pubkey ?? key));
+  }
+
+  // Mismo criterio que WalletTracker.getWalletBalanceChanges, para un solo mint
+  private tradeDeltas(
+    tx: any,
+    wallet: string,
+    mint: string,
+  ): { solDelta: number; tokenDelta: number } | null {
+    const pre = Number(tx.meta.preBalances?.[0] ?? 0);
+    const post = Number(tx.meta.postBalances?.[0] ?? 0);
+    const fee = Number(tx.meta.fee ?? 0);
+    const solDelta = (post - pre + fee) / 1e9;
+
+    const sumFor = (balances: any[] | undefined): number =>
+      (balances ?? [])
+        .filter(b => b?.mint === mint && b.owner === wallet)
+        .reduce((acc, b) => acc + Number(b.uiTokenAmount?.uiAmount ?? 0), 0);
+
+    const tokenDelta = sumFor(tx.meta.postTokenBalances) - sumFor(tx.meta.preTokenBalances);
+
+    if (Math.abs(tokenDelta) < MIN_TOKEN_DELTA || Math.abs(solDelta) < MIN_TRADE_SOL) {
+      return null;
+    }
+    // Buy = entra token y sale SOL; sell = al revés
+    if (Math.sign(tokenDelta) === Math.sign(solDelta)) return null;
+
+    return { solDelta, tokenDelta };
+  }
+
+  private toCandidate(agg: WalletAggregate): DiscoveryCandidate {
+    const avg = (values: number[]) =>
+      values.length > 0 ? values.reduce((a, v) => a + v, 0) / values.length : 0;
+
+    const earliness = avg(agg.earliness);
+    const pnlSol = agg.realizedSol + agg.unrealizedSol;
+
+    return {
+      address: agg.address,
+      tokens: agg.mints.length,
+      mints: agg.mints,
+      avgRank: Number(avg(agg.ranks).toFixed(2)),
+      earliness: Number(earliness.toFixed(4)),
+      realizedSol: Number(agg.realizedSol.toFixed(6)),
+      unrealizedSol: Number(agg.unrealizedSol.toFixed(6)),
+      pnlSol: Number(pnlSol.toFixed(6)),
+      // Repetir temprano pesa más que un solo pelotazo
+      score: Number((agg.mints.length * (1 + earliness) + Math.max(pnlSol, 0)).toFixed(4)),
+      flags: Array.from(agg.flags),
+    };
+  }
+
+  private isBlocked(candidate: DiscoveryCandidate): boolean {
+    return candidate.flags.some(flag => BLOCKING_FLAGS.includes(flag));
+  }
+
+  // Funder = quien mandó SOL en la tx más antigua de la wallet
+  // (null si el historial no cabe en maxSignaturePages: no vimos la primera tx)
+  private async findFunder(wallet: string): Promise<string | null> {
+    const address = new PublicKey(wallet);
+    let before: string | undefined;
+    let oldest: string | null = null;
+    let reachedOrigin = false;
+
+    for (let page = 0; page < this.options.maxSignaturePages; page++) {
+      const batch = await this.rpc(() =>
+        this.connection.getSignaturesForAddress(address, {
+          before,
+          limit: SIGNATURE_PAGE_SIZE,
+        }),
+      );
+      if (batch.length === 0) {
+        reachedOrigin = true;
+        break;
+      }
+      oldest = batch[batch.length - 1].signature;
+      before = oldest;
+      if (batch.length < SIGNATURE_PAGE_SIZE) {
+        reachedOrigin = true;
+        break;
+      }
+    }
+
+    if (!reachedOrigin || !oldest) return null;
+
+    const tx: any = await this.rpc(() =>
+      this.connection.getParsedTransaction(oldest as string, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      }),
+    );
+    if (!tx || !tx.meta) return null;
+
+    const keys: any[] = tx.transaction?.message?.accountKeys ?? [];
+    let funder: string | null = null;
+    let biggestOutflow = 0;
+
+    keys.forEach((key, idx) => {
+      const address = typeof key === 'string' ? key : key.pubkey?.toBase58?.() ?? String(key.pubkey);
+      if (address === wallet) return;
+      const delta =
+        Number(tx.meta.postBalances?.[idx] ?? 0) - Number(tx.meta.preBalances?.[idx] ?? 0);
+      if (delta < biggestOutflow) {
+        biggestOutflow = delta;
+        funder = address;
+      }
+    });
+
+    return funder;
+  }
+
+  private async flagFunders(
+    candidates: DiscoveryCandidate[],
+    creators: Set<string>,
+  ): Promise<void> {
+    const byFunder = new Map<string, DiscoveryCandidate[]>();
+
+    for (const candidate of candidates) {
+      try {
+        candidate.funder = await this.findFunder(candidate.address);
+      } catch (error: any) {
+        console.log(
+          `   ⚠️ Funder lookup failed for ${candidate.address.slice(0, 8)}:`,
+          error?.message ?? String(error),
+        );
+        candidate.funder = null;
+      }
+
+      if (!candidate.funder) continue;
+      if (creators.has(candidate.funder)) {
+        candidate.flags.push('creator_funded');
+      }
+      const group = byFunder.get(candidate.funder) ?? [];
+      group.push(candidate);
+      byFunder.set(candidate.funder, group);
+    }
+
+    // Mismo funder = probablemente la misma persona: se queda la de mejor score
+    for (const group of byFunder.values()) {
+      if (group.length < 2) continue;
+      group
+        .sort((a, b) => b.score - a.score)
+        .slice(1)
+        .forEach(c => c.flags.push('cluster'));
+    }
+  }
+}
+
+// --- Helpers Redis ---
+
+/**
+ * Mints de nuestros trades ganadores (trades:<YYYY-MM-DD>) de los
+ * últimos `days` días.
+ */
+export async function winningMintsFromTrades(
+  redis: RedisClient,
+  days: number,
+): Promise<string[]> {
+  const mints = new Set<string>();
+  const now = Date.now();
+
+  for (let i = 0; i < Math.max(Math.trunc(days), 1); i++) {
+    const dateKey = new Date(now - i * 86_400_000).toISOString().slice(0, 10);
+    const entries = await redis.lrange(`trades:${dateKey}`, 0, -1);
+
+    for (const entry of entries) {
+      try {
+        const trade = JSON.parse(entry) as { mint?: string; pnlSOL?: string };
+        if (trade.mint && Number(trade.pnlSOL) > 0) {
+          mints.add(trade.mint);
+        }
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  return Array.from(mints);
+}
+
+export async function saveDiscoveryReport(
+  redis: RedisClient,
+  report: DiscoveryReport,
+): Promise<void> {
+  await redis.set(DISCOVERY_REPORT_KEY, JSON.stringify(report));
+}
+
+export async function getLastDiscoveryReport(
+  redis: RedisClient,
+): Promise<DiscoveryReport | null> {
+  const raw = await redis.get(DISCOVERY_REPORT_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as DiscoveryReport;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Escribe los candidatos en wallet:<address> + tracked_wallets sin pasar
+ * por un WalletTracker (CLI). El worker los recoge en su sync periódico.
+ * Quedan con enabled=false hasta que alguien las active a mano.
+ */
+export async function addCandidatesToRedis(
+  redis: RedisClient,
+  candidates: DiscoveryCandidate[],
+): Promise<string[]> {
+  const added: string[] = [];
+
+  for (const candidate of candidates) {
+    const exists = await redis.sismember('tracked_wallets', candidate.address);
+    if (exists) continue;
+
+    await redis.hset(`wallet:${candidate.address}`, {
+      name: discoveredWalletName(candidate.address),
+      copyPercentage: '100',
+      minAmount: String(DEFAULT_WALLET_MIN_SOL),
+      maxAmount: String(DEFAULT_WALLET_MAX_SOL),
+      sizingMode: '',
+      tier: '',
+      weight: '',
+      // Se añaden desactivadas: una persona revisa y las activa
+      enabled: 'false',
+      source: 'discovery',
+      added_at: Date.now().toString(),
+    });
+    await redis.sadd('tracked_wallets', candidate.address);
+    added.push(candidate.address);
+  }
+
+  return added;
+}
+
+export function discoveredWalletName(address: string): string {
+  return `Discovered-${address.slice(0, 8)}`;
+}
+
+// --- CLI ---
+
+function readFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function numberFlag(args: string[], name: string): number | undefined {
+  const raw = readFlag(args, name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function formatCandidate(c: DiscoveryCandidate): string {
+  return (
+    `${c.address} | score ${c.score.toFixed(2)} | ${c.tokens} tokens | ` +
+    `avg rank ${c.avgRank} | PnL ${c.pnlSol >= 0 ? '+' : ''}${c.pnlSol.toFixed(4)} SOL` +
+    (c.flags.length > 0 ? ` | ${c.flags.join(',')}` : '')
+  );
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const positional = args[0] && !args[0].startsWith('--') ? args[0] : '';
+  const fromTradesDays = numberFlag(args, '--from-trades');
+
+  if (!positional && fromTradesDays === undefined) {
+    console.log(
+      'Usage: npm run discover -- <mint1,mint2,...> [--from-trades DAYS] [--min-tokens 2] [--early 30] [--max 20] [--no-funders] [--add] [--profile ID] [--out report.json]',
+    );
+    process.exit(1);
+  }
+
+  const profile = getProfile(readFlag(args, '--profile'));
+  if (!profile) {
+    console.log(`❌ Unknown profile: ${readFlag(args, '--profile')}`);
+    process.exit(1);
+  }
+
+  const needsRedis = fromTradesDays !== undefined || args.includes('--add');
+  const redis: RedisClient | null =
+    needsRedis || process.env.REDIS_URL ? getProfileRedis(profile) : null;
+
+  const mints = positional ? positional.split(',') : [];
+  if (fromTradesDays !== undefined && redis) {
+    const winners = await winningMintsFromTrades(redis, fromTradesDays);
+    console.log(`📂 ${winners.length} winning mints in the last ${fromTradesDays} days`);
+    mints.push(...winners);
+  }
+
+  const discovery = new WalletDiscovery({
+    options: {
+      minTokens: numberFlag(args, '--min-tokens'),
+      earlyBuyers: numberFlag(args, '--early'),
+      maxCandidates: numberFlag(args, '--max'),
+      checkFunders: !args.includes('--no-funders'),
+    },
+  });
+
+  const report = await discovery.discover(mints);
+
+  console.log('\n🔎 ========== WALLET DISCOVERY ==========\n');
+  console.log(
+    `Mints: ${report.mints.length} | Scanned: ${report.scannedMints} | ` +
+      `Candidates: ${report.candidates.length} | Rejected: ${report.rejected.length}\n`,
+  );
+
+  report.candidates.forEach((c, idx) => {
+    console.log(`${String(idx + 1).padStart(2)}. ${formatCandidate(c)}`);
+  });
+
+  for (const skipped of report.skippedMints) {
+    console.log(`⚠️ Skipped ${skipped.mint.slice(0, 8)}: ${skipped.reason}`);
+  }
+
+  if (redis) {
+    await saveDiscoveryReport(redis, report);
+
+    if (args.includes('--add')) {
+      const added = await addCandidatesToRedis(redis, report.candidates);
+      console.log(
+        `\n➕ Added ${added.length} wallets to tracked_wallets (${profile.id}), disabled until reviewed`,
+      );
+    }
+  }
+
+  const out = readFlag(args, '--out');
+  if (out) {
+    await writeFile(out, JSON.stringify(report, null, 2));
+    console.log(`💾 Report written to ${out}`);
+  }
+
+  if (redis) await redis.quit();
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error: any) => {
+    console.error('❌ Wallet discovery failed:', error?.message ?? String(error));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,379 @@
+// walletScoring.ts - Calidad de cada wallet copiada (TypeScript)
+//
+// PositionManager.closePosition atribuye cada posición copy cerrada a las
+// wallets que la originaron (`buyers`, o `walletSource` si no hay) y la
+// guarda en copied_from:<address>. Sobre los últimos WALLET_SCORE_WINDOW
+// trades calculamos win rate, expectancy, hold medio y drawdown, que se
+// usan para:
+//   - degradar: desactivar wallets malas (enabled=false en wallet:<address>)
+//   - promocionar: peso > 1 en los upvotes de CopyStrategy.shouldCopy
+//
+// Todas las wallets de `buyers` reciben el resultado completo del trade:
+// todas dieron la señal.
+
+import type { Redis as RedisClient } from 'ioredis';
+import {
+  WALLET_SCORE_WINDOW,
+  WALLET_SCORE_HISTORY_MAX,
+  WALLET_SCORE_MIN_TRADES,
+  WALLET_AUTO_DISABLE_ENABLED,
+  WALLET_MIN_WIN_RATE,
+  WALLET_MIN_EXPECTANCY_SOL,
+  WALLET_MAX_DRAWDOWN_SOL,
+  WALLET_WEIGHT_MIN,
+  WALLET_WEIGHT_MAX,
+  TELEGRAM_OWNER_CHAT_ID,
+} from './environment.js';
+
+// --- Tipos públicos ---
+
+export interface WalletTradeOutcome {
+  mint: string;
+  pnlSOL: string;
+  pnlPercent: string;
+  solAmount: string;
+  holdSeconds: number;
+  dex?: string;
+  reason?: string;
+  upvotes?: string;
+  closedAt: number;
+}
+
+export interface WalletScore {
+  address: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number; // %
+  expectancySol: number; // PnL medio por trade
+  avgPnlPercent: number;
+  totalPnlSol: number;
+  avgHoldSeconds: number;
+  maxDrawdownSol: number;
+  weight: number;
+  qualified: boolean; // >= WALLET_SCORE_MIN_TRADES
+  updatedAt: number;
+}
+
+export interface ClosedCopyTrade {
+  mint: string;
+  strategy?: string;
+  buyers?: string;
+  walletSource?: string;
+  pnlSOL: string;
+  pnlPercent: string;
+  solAmount?: string;
+  entryTime?: string;
+  closedAt: string;
+  dex?: string;
+  reason?: string;
+  upvotes?: string;
+}
+
+// --- Keys Redis ---
+
+function copiedFromKey(address: string): string {
+  return `copied_from:${address}`;
+}
+
+function scoreKey(address: string): string {
+  return `wallet_score:${address}`;
+}
+
+function walletKey(address: string): string {
+  return `wallet:${address}`;
+}
+
+// --- Cálculo (puro) ---
+
+/**
+ * Score de una lista de trades (más reciente primero, como copied_from).
+ * El peso vale 1 hasta tener WALLET_SCORE_MIN_TRADES; después escala con
+ * el win rate (50% => 1) y se reduce a la mitad con expectancy negativa.
+ */
+export function scoreTrades(
+  address: string,
+  outcomes: WalletTradeOutcome[],
+  now: number = Date.now(),
+): WalletScore {
+  const trades = outcomes.length;
+  let wins = 0;
+  let losses = 0;
+  let totalPnlSol = 0;
+  let totalPnlPercent = 0;
+  let totalHold = 0;
+
+  // Drawdown en orden cronológico (la lista viene al revés)
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdownSol = 0;
+
+  for (let i = outcomes.length - 1; i >= 0; i--) {
+    const outcome = outcomes[i];
+    const pnl = Number(outcome.pnlSOL) || 0;
+
+    if (pnl > 0) wins++;
+    else if (pnl < 0) losses++;
+
+    totalPnlSol += pnl;
+    totalPnlPercent += Number(outcome.pnlPercent) || 0;
+    totalHold += Math.max(Number(outcome.holdSeconds) || 0, 0);
+
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdownSol = Math.max(maxDrawdownSol, peak - equity);
+  }
+
+  const winRate = trades > 0 ? (wins / trades) * 100 : 0;
+  const expectancySol = trades > 0 ? totalPnlSol / trades : 0;
+  const qualified = trades >= WALLET_SCORE_MIN_TRADES;
+
+  let weight = 1;
+  if (qualified) {
+    weight = winRate / 50;
+    if (expectancySol < 0) weight *= 0.5;
+    weight = Math.min(Math.max(weight, WALLET_WEIGHT_MIN), WALLET_WEIGHT_MAX);
+  }
+
+  return {
+    address,
+    trades,
+    wins,
+    losses,
+    winRate,
+    expectancySol,
+    avgPnlPercent: trades > 0 ? totalPnlPercent / trades : 0,
+    totalPnlSol,
+    avgHoldSeconds: trades > 0 ? totalHold / trades : 0,
+    maxDrawdownSol,
+    weight,
+    qualified,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Motivo para desactivar la wallet, o null si cumple los umbrales
+ * (o aún no tiene trades suficientes).
+ */
+export function demotionReason(score: WalletScore): string | null {
+  if (!score.qualified) return null;
+
+  if (score.winRate < WALLET_MIN_WIN_RATE) {
+    return `win rate ${score.winRate.toFixed(1)}% < ${WALLET_MIN_WIN_RATE}%`;
+  }
+  if (score.expectancySol < WALLET_MIN_EXPECTANCY_SOL) {
+    return `expectancy ${score.expectancySol.toFixed(4)} SOL < ${WALLET_MIN_EXPECTANCY_SOL} SOL`;
+  }
+  if (WALLET_MAX_DRAWDOWN_SOL > 0 && score.maxDrawdownSol > WALLET_MAX_DRAWDOWN_SOL) {
+    return `drawdown ${score.maxDrawdownSol.toFixed(4)} SOL > ${WALLET_MAX_DRAWDOWN_SOL} SOL`;
+  }
+
+  return null;
+}
+
+// --- Lectura / escritura ---
+
+function parseOutcomes(rows: string[]): WalletTradeOutcome[] {
+  return rows
+    .map(row => {
+      try {
+        return JSON.parse(row) as WalletTradeOutcome;
+      } catch {
+        return null;
+      }
+    })
+    .filter((o): o is WalletTradeOutcome => o !== null);
+}
+
+/**
+ * Recalcula y guarda el score. Solo cuentan trades posteriores a
+ * scoreResetAt (se fija al reactivar la wallet a mano: periodo de prueba).
+ */
+export async function refreshWalletScore(
+  redis: RedisClient,
+  address: string,
+): Promise<WalletScore> {
+  const [rows, resetAt] = await Promise.all([
+    redis.lrange(copiedFromKey(address), 0, Math.max(WALLET_SCORE_WINDOW, 1) - 1),
+    redis.hget(walletKey(address), 'scoreResetAt'),
+  ]);
+
+  const since = Number(resetAt ?? 0) || 0;
+  const outcomes = parseOutcomes(rows).filter(o => Number(o.closedAt) > since);
+  const score = scoreTrades(address, outcomes);
+
+  await redis.hset(scoreKey(address), {
+    trades: String(score.trades),
+    wins: String(score.wins),
+    losses: String(score.losses),
+    winRate: String(score.winRate),
+    expectancySol: String(score.expectancySol),
+    avgPnlPercent: String(score.avgPnlPercent),
+    totalPnlSol: String(score.totalPnlSol),
+    avgHoldSeconds: String(score.avgHoldSeconds),
+    maxDrawdownSol: String(score.maxDrawdownSol),
+    weight: String(score.weight),
+    qualified: score.qualified ? 'true' : 'false',
+    updatedAt: String(score.updatedAt),
+  });
+
+  return score;
+}
+
+export async function getWalletScore(
+  redis: RedisClient,
+  address: string,
+): Promise<WalletScore | null> {
+  const raw = (await redis.hgetall(scoreKey(address))) as Record<string, string>;
+  if (!raw || Object.keys(raw).length === 0) return null;
+
+  return {
+    address,
+    trades: Number(raw.trades ?? 0),
+    wins: Number(raw.wins ?? 0),
+    losses: Number(raw.losses ?? 0),
+    winRate: Number(raw.winRate ?? 0),
+    expectancySol: Number(raw.expectancySol ?? 0),
+    avgPnlPercent: Number(raw.avgPnlPercent ?? 0),
+    totalPnlSol: Number(raw.totalPnlSol ?? 0),
+    avgHoldSeconds: Number(raw.avgHoldSeconds ?? 0),
+    maxDrawdownSol: Number(raw.maxDrawdownSol ?? 0),
+    weight: Number(raw.weight ?? 1),
+    qualified: raw.qualified === 'true',
+    updatedAt: Number(raw.updatedAt ?? 0),
+  };
+}
+
+export async function getWalletScores(
+  redis: RedisClient,
+): Promise<WalletScore[]> {
+  const addresses = await redis.smembers('tracked_wallets');
+  const scores: WalletScore[] = [];
+
+  for (const address of addresses) {
+    const score = await getWalletScore(redis, address);
+    if (score) scores.push(score);
+  }
+
+  return scores.sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Suma de pesos de los buyers (peso 1 si la wallet no tiene score).
+ */
+export async function getWeightedUpvotes(
+  redis: RedisClient,
+  buyers: string[],
+): Promise<number> {
+  let total = 0;
+
+  for (const buyer of buyers) {
+    const weight = await redis.hget(scoreKey(buyer), 'weight');
+    const parsed = Number(weight);
+    total += weight !== null && Number.isFinite(parsed) ? parsed : 1;
+  }
+
+  return total;
+}
+
+// Buyers guardados en la posición (CSV); fallback a walletSource
+function sourceWallets(trade: ClosedCopyTrade): string[] {
+  const buyers = (trade.buyers ?? '')
+    .split(',')
+    .map(b => b.trim())
+    .filter(b => b.length > 0);
+
+  if (buyers.length > 0) return Array.from(new Set(buyers));
+  return trade.walletSource ? [trade.walletSource] : [];
+}
+
+/**
+ * Atribuye una posición cerrada a sus wallets de origen, recalcula sus
+ * scores y desactiva las que caen por debajo de los umbrales.
+ * Lo llama PositionManager.closePosition (solo estrategia copy).
+ */
+export async function recordWalletOutcome(
+  redis: RedisClient,
+  trade: ClosedCopyTrade,
+): Promise<WalletScore[]> {
+  if (trade.strategy && trade.strategy !== 'copy') return [];
+
+  const wallets = sourceWallets(trade);
+  if (wallets.length === 0) return [];
+
+  const closedAt = Number(trade.closedAt) || Date.now();
+  const entryTime = Number(trade.entryTime) || closedAt;
+
+  const outcome: WalletTradeOutcome = {
+    mint: trade.mint,
+    pnlSOL: trade.pnlSOL,
+    pnlPercent: trade.pnlPercent,
+    solAmount: trade.solAmount ?? '0',
+    holdSeconds: Math.max(Math.round((closedAt - entryTime) / 1000), 0),
+    dex: trade.dex,
+    reason: trade.reason,
+    upvotes: trade.upvotes,
+    closedAt,
+  };
+
+  const scores: WalletScore[] = [];
+
+  for (const address of wallets) {
+    const key = copiedFromKey(address);
+    await redis.lpush(key, JSON.stringify(outcome));
+    await redis.ltrim(key, 0, Math.max(WALLET_SCORE_HISTORY_MAX, 1) - 1);
+
+    const score = await refreshWalletScore(redis, address);
+    scores.push(score);
+
+    if (WALLET_AUTO_DISABLE_ENABLED) {
+      const reason = demotionReason(score);
+      if (reason) {
+        await demoteWallet(redis, address, reason);
+      }
+    }
+  }
+
+  return scores;
+}
+
+// --- Degradación automática ---
+
+async function demoteWallet(
+  redis: RedisClient,
+  address: string,
+  reason: string,
+): Promise<void> {
+  const wallet = (await redis.hgetall(walletKey(address))) as Record<string, string>;
+  if (!wallet || Object.keys(wallet).length === 0) return;
+  if (wallet.enabled !== 'true') return;
+
+  // WalletTracker sincroniza enabled desde Redis y cancela la suscripción
+  await redis.hset(walletKey(address), {
+    enabled: 'false',
+    autoDisabled: 'true',
+    disabledReason: reason,
+    disabledAt: String(Date.now()),
+  });
+
+  const message =
+    '📉 WALLET AUTO-DISABLED\n\n' +
+    `Wallet: ${wallet.name ?? address.slice(0, 8)}\n` +
+    `Address: ${address.slice(0, 12)}...\n` +
+    `Reason: ${reason}`;
+
+  console.log(`\n${message}\n`);
+  if (!TELEGRAM_OWNER_CHAT_ID) return;
+
+  try {
+    // import dinámico: telegram.ts importa módulos que dependen de este
+    const { sendTelegramAlert } = await import('./telegram.js');
+    await sendTelegramAlert(TELEGRAM_OWNER_CHAT_ID, message, false);
+  } catch (error: any) {
+    console.log(
+      '⚠️ Wallet demotion alert failed:',
+      error?.message ?? String(error),
+    );
+  }
+}
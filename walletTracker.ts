@@ -6,13 +6,49 @@ import {
   Logs,
   Context,
 } from '@solana/web3.js';
-import { Redis as RedisClass } from 'ioredis';
 import type { Redis as RedisClient } from 'ioredis';
 import {
   RPC_WEBSOCKET_URL,
-  POSITION_SIZE_SOL,
   TELEGRAM_OWNER_CHAT_ID,
+  WALLET_BACKFILL_ON_ADD,
+  WALLET_BACKFILL_MAX_SIGNATURES,
+  WALLET_BACKFILL_MAX_AGE_DAYS,
 } from './environment.js';
+import { getPriceService } from './priceService.js';
+import {
+  calculateCopySize,
+  normalizeSizingMode,
+  DEFAULT_WALLET_MIN_SOL,
+  DEFAULT_WALLET_MAX_SOL,
+  type SizingMode,
+} from './copySizing.js';
+import {
+  getDefaultProfile,
+  getProfile,
+  getProfileRedis,
+  profileTag,
+  type TradingProfile,
+} from './profiles.js';
+import { getWalletScore, type WalletScore } from './walletScoring.js';
+import { getRateLimiter } from './rpcRateLimiter.js';
+import {
+  recordWalletSwap,
+  mergeWalletSwaps,
+  loadWalletSwaps,
+  summarizeWalletHistory,
+  setBackfillStatus,
+  type WalletSwapRecord,
+  type WalletHistorySummary,
+  type WalletBackfillStatus,
+} from './walletBackfill.js';
+import {
+  USDC_MINT,
+  safeParseTokenAmount,
+  getWalletBalanceChanges,
+  parseRaydiumSwap,
+  parseOrcaSwap,
+  parseJupiterSwap,
+} from './swapParsers.js';
 
 // --- Config desde ENV (con defaults seguros) ---
 
@@ -36,6 +72,11 @@ const LOG_METRICS_INTERVAL_MS = Number(
   process.env.LOG_METRICS_INTERVAL ?? '300000',
 );
 
+// Cada cuánto releemos enabled de wallet:<address> (auto-disable de walletScoring)
+const WALLET_STATE_SYNC_INTERVAL_MS = Number(
+  process.env.WALLET_STATE_SYNC_INTERVAL ?? '60000',
+);
+
 // --- Tipos internos ---
 
 type DexType = 'PUMP' | 'RAYDIUM_V4' | 'RAYDIUM_CLMM' | 'JUPITER' | 'ORCA';
@@ -53,6 +94,9 @@ interface TrackedWalletConfig {
   minAmount?: string | number;
   maxAmount?: string | number;
   enabled?: boolean;
+  sizingMode?: string;
+  tier?: string; // peso de consenso por tier (CONSENSUS_TIER_WEIGHTS)
+  weight?: string | number; // peso explícito (pisa el tier)
 }
 
 interface TrackedWalletInternal {
@@ -62,6 +106,7 @@ interface TrackedWalletInternal {
   minAmount: number;
   maxAmount: number;
   enabled: boolean;
+  sizingMode: SizingMode;
   stats: TrackedWalletStats;
 }
 
@@ -75,6 +120,9 @@ interface TxDetails {
   timestamp: number;
   slot: number;
   dex: 'Pump.fun' | 'Raydium' | 'Jupiter' | 'Orca' | string;
+  quoteMint?: string; // lado "quote" del swap (WSOL / USDC)
+  quoteAmount?: number; // cantidad del quote en sus propias unidades
+  walletSolBefore?: number; // balance SOL del líder antes del trade
 }
 
 interface WalletStatsDexEntry {
@@ -91,14 +139,22 @@ interface WalletStats {
   winRate: string;
   totalPnL: string;
   dexStats: Record<string, WalletStatsDexEntry>;
+  score: WalletScore | null;
+  history: WalletHistorySummary; // round-trips del líder (live + backfill)
 }
 
-interface CopySignalPayload {
+interface BackfillOptions {
+  maxSignatures?: number;
+  maxAgeDays?: number;
+}
+
+export interface CopySignalPayload {
   walletAddress: string;
   walletName: string;
   mint: string;
   originalAmount: number;
   copyAmount: number;
+  sizingMode: SizingMode;
   signature: string;
   timestamp: number;
   upvotes: number;
@@ -107,7 +163,7 @@ interface CopySignalPayload {
   dex: string;
 }
 
-interface SellSignalPayload {
+export interface SellSignalPayload {
   mint: string;
   walletAddress: string;
   sellCount: number;
@@ -123,12 +179,6 @@ interface TradeRecord {
   [k: string]: unknown;
 }
 
-// --- Redis compartido ---
-
-const redis: RedisClient = new RedisClass(process.env.REDIS_URL as string, {
-  maxRetriesPerRequest: null,
-});
-
 // 🎯 PROGRAM IDs
 const DEX_PROGRAMS = {
   PUMP: new PublicKey(
@@ -154,6 +204,9 @@ const DEBUG_MODE = process.env.WALLET_TRACKER_DEBUG === 'true';
 
 export class WalletTracker {
   private readonly connection: Connection;
+  // Cada perfil tiene su tracker: wallets, upvotes y colas en su namespace
+  private readonly redis: RedisClient;
+  readonly profile: TradingProfile;
   private readonly trackedWallets: Map<string, TrackedWalletInternal>;
   private readonly subscriptions: Map<string, number>;
 
@@ -175,6 +228,9 @@ export class WalletTracker {
   private lastSubscriptionTime = 0;
   private readonly MIN_SUBSCRIPTION_INTERVAL = MIN_SUBSCRIPTION_INTERVAL_MS;
 
+  // 📜 Backfills en curso (uno por wallet)
+  private readonly backfillsRunning = new Set<string>();
+
   // 🆕 MÉTRICAS
   private metrics = {
     totalTransactions: 0,
@@ -184,9 +240,13 @@ export class WalletTracker {
     lastTransactionTime: 0,
     reconnections: 0,
     subscriptionFailures: 0,
+    tokenToTokenSwaps: 0,
   };
 
-  constructor(rpcUrl: string) {
+  constructor(rpcUrl: string, profile: TradingProfile = getDefaultProfile()) {
+    this.profile = profile;
+    this.redis = getProfileRedis(profile);
+
     const wsEndpoint =
       RPC_WEBSOCKET_URL ||
       rpcUrl.replace('https://', 'wss://').replace('http://', 'ws://');
@@ -210,7 +270,9 @@ export class WalletTracker {
         ? MAX_RECONNECT_ATTEMPTS_ENV
         : 5;
 
-    console.log('👁️ Wallet Tracker v5.4 initialized (BULLETPROOF + HEALTHCHECK)');
+    console.log(
+      `👁️ ${profileTag(profile)}Wallet Tracker v5.4 initialized (BULLETPROOF + HEALTHCHECK)`,
+    );
     console.log('   Supported DEXs: Pump.fun, Raydium, Jupiter, Orca');
     if (RPC_WEBSOCKET_URL) {
       console.log(
@@ -227,6 +289,14 @@ export class WalletTracker {
     setInterval(() => {
       this.logMetrics();
     }, LOG_METRICS_INTERVAL_MS);
+
+    // 🏅 enabled puede cambiar fuera del tracker (walletScoring / API)
+    const syncInterval: any = setInterval(() => {
+      void this.syncWalletStates();
+    }, WALLET_STATE_SYNC_INTERVAL_MS);
+    if (syncInterval && typeof syncInterval.unref === 'function') {
+      syncInterval.unref();
+    }
   }
 
   // 🆕 HEALTH CHECK AUTOMÁTICO
@@ -527,7 +597,10 @@ export class WalletTracker {
     );
     console.log(`   Connection Errors: ${this.connectionErrors}`);
     console.log(
-      `   Subscription Failures: ${this.metrics.subscriptionFailures}\n`,
+      `   Subscription Failures: ${this.metrics.subscriptionFailures}`,
+    );
+    console.log(
+      `   Token-to-token swaps ignored: ${this.metrics.tokenToTokenSwaps}\n`,
     );
 
     // Alertas
@@ -559,12 +632,13 @@ export class WalletTracker {
           String(config.copyPercentage ?? '100'),
         ),
         minAmount: parseFloat(
-          String(config.minAmount ?? POSITION_SIZE_SOL),
+          String(config.minAmount ?? DEFAULT_WALLET_MIN_SOL),
         ),
         maxAmount: parseFloat(
-          String(config.maxAmount ?? POSITION_SIZE_SOL),
+          String(config.maxAmount ?? DEFAULT_WALLET_MAX_SOL),
         ),
         enabled: config.enabled !== false,
+        sizingMode: normalizeSizingMode(config.sizingMode),
         stats: {
           totalTrades: 0,
           copiedTrades: 0,
@@ -575,16 +649,19 @@ export class WalletTracker {
 
       this.trackedWallets.set(walletAddress, tracked);
 
-      await redis.hset(`wallet:${walletAddress}`, {
+      await this.redis.hset(`wallet:${walletAddress}`, {
         name: tracked.name,
         copyPercentage: String(config.copyPercentage ?? '100'),
-        minAmount: String(config.minAmount ?? POSITION_SIZE_SOL),
-        maxAmount: String(config.maxAmount ?? POSITION_SIZE_SOL),
-        enabled: 'true',
+        minAmount: String(config.minAmount ?? DEFAULT_WALLET_MIN_SOL),
+        maxAmount: String(config.maxAmount ?? DEFAULT_WALLET_MAX_SOL),
+        sizingMode: config.sizingMode ?? '',
+        tier: (config.tier ?? '').trim().toLowerCase(),
+        weight: config.weight !== undefined ? String(config.weight) : '',
+        enabled: tracked.enabled ? 'true' : 'false',
         added_at: Date.now().toString(),
       });
 
-      await redis.sadd('tracked_wallets', walletAddress);
+      await this.redis.sadd('tracked_wallets', walletAddress);
       console.log(
         `✅ Tracking wallet: ${
           config.name || walletAddress.slice(0, 8)
@@ -592,7 +669,14 @@ export class WalletTracker {
       );
 
       // Usar cola en lugar de subscribeToWallet directo (rate limiting)
-      await this.addWalletToQueue(walletAddress);
+      if (tracked.enabled) {
+        await this.addWalletToQueue(walletAddress);
+      }
+
+      // 📜 Historial on-chain en background (stats útiles desde el día 1)
+      if (WALLET_BACKFILL_ON_ADD) {
+        void this.backfillWallet(walletAddress);
+      }
       return true;
     } catch (error: any) {
       console.error(
@@ -721,6 +805,7 @@ export class WalletTracker {
       }
 
       console.log(`   ✅ Parsed successfully`);
+      await this.recordLeaderSwap(walletAddress, txDetails, 'live');
       await this.processWithUpvotes(walletAddress, txDetails);
 
       success = true;
@@ -771,6 +856,26 @@ export class WalletTracker {
 
       console.log(`   ✅ Transaction fetched`);
 
+      return await this.parseFetchedTransaction(
+        tx,
+        signature,
+        walletAddress,
+        dexType,
+      );
+    } catch (error: any) {
+      console.error(`   ❌ Parse error: ${error?.message ?? String(error)}`);
+      return null;
+    }
+  }
+
+  // Parser por DEX sobre una tx ya descargada (live y backfill)
+  private async parseFetchedTransaction(
+    tx: any,
+    signature: string,
+    walletAddress: string,
+    dexType: DexType,
+  ): Promise<TxDetails | null> {
+    try {
       // 🔍 Debug completo si está activado
       if (DEBUG_MODE) {
         await this.debugTransaction(tx, walletAddress);
@@ -927,8 +1032,8 @@ export class WalletTracker {
               p?.owner === walletAddress,
           );
 
-          const preAmt = this.safeParseTokenAmount(preBal);
-          const postAmt = this.safeParseTokenAmount(postBal);
+          const preAmt = safeParseTokenAmount(preBal);
+          const postAmt = safeParseTokenAmount(postBal);
           const delta = postAmt - preAmt;
 
           if (Math.abs(delta) > 0.00001) {
@@ -950,8 +1055,8 @@ export class WalletTracker {
           const preBal = preTokenBalances.find(
             (p: any) => p?.mint === postBal.mint,
           );
-          const preAmt = this.safeParseTokenAmount(preBal);
-          const postAmt = this.safeParseTokenAmount(postBal);
+          const preAmt = safeParseTokenAmount(preBal);
+          const postAmt = safeParseTokenAmount(postBal);
           const delta = postAmt - preAmt;
 
           if (Math.abs(delta) > 1) {
@@ -977,8 +1082,8 @@ export class WalletTracker {
                 p?.owner === walletAddress,
             );
 
-            const preAmt = this.safeParseTokenAmount(preBal);
-            const postAmt = this.safeParseTokenAmount(postBal);
+            const preAmt = safeParseTokenAmount(preBal);
+            const postAmt = safeParseTokenAmount(postBal);
             const delta = postAmt - preAmt;
 
             if (Math.abs(delta) > 0.00001) {
@@ -1091,6 +1196,7 @@ export class WalletTracker {
         timestamp,
         slot: tx.slot,
         dex: 'Pump.fun',
+        walletSolBefore: preSOL,
       };
 
       return details;
@@ -1105,22 +1211,6 @@ export class WalletTracker {
     }
   }
 
-  // Helper para parsear token amounts de forma segura
-  private safeParseTokenAmount(balance: any): number {
-    try {
-      if (!balance) return 0;
-      return (
-        balance.uiTokenAmount?.uiAmount ||
-        parseFloat(
-          balance.uiTokenAmount?.uiAmountString || '0',
-        ) ||
-        0
-      );
-    } catch {
-      return 0;
-    }
-  }
-
   // 🔍 Debug completo de transacción
   private async debugTransaction(
     tx: any,
@@ -1193,8 +1283,8 @@ export class WalletTracker {
         const preBal = preTokens.find(
           (p: any) => p?.mint === postBal?.mint,
         );
-        const preAmt = this.safeParseTokenAmount(preBal);
-        const postAmt = this.safeParseTokenAmount(postBal);
+        const preAmt = safeParseTokenAmount(preBal);
+        const postAmt = safeParseTokenAmount(postBal);
         const delta = postAmt - preAmt;
 
         if (Math.abs(delta) > 0) {
@@ -1219,33 +1309,53 @@ export class WalletTracker {
     }
   }
 
-  // Otros parsers (sin cambios significativos - placeholders)
+  // 🧮 Parsers de AMM (Raydium / Orca / Jupiter)
+  //
+  // En vez de decodificar cada instrucción del AMM, usamos los pre/post
+  // balances: lo que entra y sale de la wallet es lo mismo venga de la
+  // instrucción principal o de inner instructions (rutas multi-hop).
+  // Los helpers puros viven en swapParsers.ts.
 
+  // 🌊 Raydium AMM v4 / CLMM (swapParsers.ts)
   private async parseRaydiumTransaction(
-    _tx: any,
-    _walletAddress: string,
-    _signature: string,
+    tx: any,
+    walletAddress: string,
+    signature: string,
   ): Promise<TxDetails | null> {
-    // ... (código igual que antes / pendiente de implementar)
-    return null;
+    return parseRaydiumSwap(tx, walletAddress, signature);
   }
 
+  // 🪐 Jupiter v6 (swapParsers.ts). El precio de USDC en SOL solo se pide
+  // si la tx mueve USDC de la wallet (posible quote USDC).
   private async parseJupiterTransaction(
-    _tx: any,
-    _walletAddress: string,
-    _signature: string,
+    tx: any,
+    walletAddress: string,
+    signature: string,
   ): Promise<TxDetails | null> {
-    // ... (código igual que antes / pendiente de implementar)
-    return null;
+    let usdcPriceSol: number | null = null;
+    if (getWalletBalanceChanges(tx, walletAddress)?.tokenDeltas.has(USDC_MINT)) {
+      try {
+        const usdcPrice = await getPriceService().getPrice(USDC_MINT, true);
+        usdcPriceSol = usdcPrice?.price ?? null;
+      } catch (error: any) {
+        console.log(
+          `   ⚠️ Jupiter: USDC price error: ${error?.message ?? String(error)}`,
+        );
+      }
+    }
+
+    return parseJupiterSwap(tx, walletAddress, signature, usdcPriceSol, () => {
+      this.metrics.tokenToTokenSwaps++;
+    });
   }
 
+  // 🐋 Orca Whirlpool swap / swapV2 / twoHop (swapParsers.ts)
   private async parseOrcaTransaction(
-    _tx: any,
-    _walletAddress: string,
-    _signature: string,
+    tx: any,
+    walletAddress: string,
+    signature: string,
   ): Promise<TxDetails | null> {
-    // ... (código igual que antes / pendiente de implementar)
-    return null;
+    return parseOrcaSwap(tx, walletAddress, signature);
   }
 
   private async processWithUpvotes(
@@ -1261,12 +1371,17 @@ export class WalletTracker {
       console.log(`   🎯 Processing ${action} with upvotes (${dex})...`);
 
       const upvoteKey = `upvotes:${mint}`;
+      // Ventana de consenso del perfil (TTL de upvotes:<mint>:*)
+      const windowSeconds =
+        this.profile.consensusWindowSeconds > 0
+          ? this.profile.consensusWindowSeconds
+          : 600;
 
       if (action === 'BUY') {
-        await redis.sadd(`${upvoteKey}:buyers`, walletAddress);
-        await redis.expire(`${upvoteKey}:buyers`, 600);
+        await this.redis.sadd(`${upvoteKey}:buyers`, walletAddress);
+        await this.redis.expire(`${upvoteKey}:buyers`, windowSeconds);
 
-        await redis.hset(
+        await this.redis.hset(
           `${upvoteKey}:buy:${walletAddress}`,
           {
             walletName: wallet.name,
@@ -1276,12 +1391,12 @@ export class WalletTracker {
             dex: dex,
           },
         );
-        await redis.expire(
+        await this.redis.expire(
           `${upvoteKey}:buy:${walletAddress}`,
-          600,
+          windowSeconds,
         );
 
-        const buyers = await redis.smembers(
+        const buyers = await this.redis.smembers(
           `${upvoteKey}:buyers`,
         );
         const upvoteCount = buyers.length;
@@ -1302,10 +1417,10 @@ export class WalletTracker {
           upvoteCount,
         );
       } else if (action === 'SELL') {
-        await redis.sadd(`${upvoteKey}:sellers`, walletAddress);
-        await redis.expire(`${upvoteKey}:sellers`, 600);
+        await this.redis.sadd(`${upvoteKey}:sellers`, walletAddress);
+        await this.redis.expire(`${upvoteKey}:sellers`, windowSeconds);
 
-        const sellers = await redis.smembers(
+        const sellers = await this.redis.smembers(
           `${upvoteKey}:sellers`,
         );
         const sellCount = sellers.length;
@@ -1333,7 +1448,7 @@ export class WalletTracker {
     }
   }
 
-  // 🎯 MODIFICADO: Usar cantidad fija de POSITION_SIZE_SOL
+  // 🎯 Tamaño según el modo de sizing de la wallet (ver copySizing.ts)
   private async createCopySignal(
     mint: string,
     txDetails: TxDetails,
@@ -1344,8 +1459,23 @@ export class WalletTracker {
       const wallet = this.trackedWallets.get(txDetails.wallet);
       if (!wallet) return;
 
-      // USAR CANTIDAD FIJA DE ENV (ignorar copyPercentage)
-      const copyAmount = POSITION_SIZE_SOL;
+      const sizing = calculateCopySize({
+        mode: wallet.sizingMode,
+        leaderSolAmount: txDetails.solAmount,
+        leaderBalanceSol: txDetails.walletSolBefore,
+        upvotes: upvoteCount,
+        copyPercentage: wallet.copyPercentage,
+        minAmount: wallet.minAmount,
+        maxAmount: wallet.maxAmount,
+        baseSizeSol: this.profile.positionSizeSol,
+      });
+      const copyAmount = sizing.amount;
+
+      console.log(
+        `   📐 Size: ${copyAmount.toFixed(4)} SOL (${sizing.mode}${
+          sizing.clampedBy ? `, clamped by ${sizing.clampedBy}` : ''
+        })`,
+      );
 
       const copySignal: CopySignalPayload = {
         walletAddress: txDetails.wallet,
@@ -1353,6 +1483,7 @@ export class WalletTracker {
         mint,
         originalAmount: txDetails.solAmount,
         copyAmount,
+        sizingMode: sizing.mode,
         signature: txDetails.signature,
         timestamp: txDetails.timestamp,
         upvotes: upvoteCount,
@@ -1364,13 +1495,12 @@ export class WalletTracker {
       console.log(
         `   📤 Pushing copy signal to Redis queue...`,
       );
-      await redis.lpush(
+      await this.redis.lpush(
         'copy_signals',
         JSON.stringify(copySignal),
       );
-      await redis.expire('copy_signals', 60);
 
-      const queueLength = await redis.llen('copy_signals');
+      const queueLength = await this.redis.llen('copy_signals');
       console.log(
         `   ✅ Copy signal created (queue length: ${queueLength})`,
       );
@@ -1401,13 +1531,12 @@ export class WalletTracker {
       console.log(
         `   📤 Pushing sell signal to Redis queue...`,
       );
-      await redis.lpush(
+      await this.redis.lpush(
         'sell_signals',
         JSON.stringify(sellSignal),
       );
-      await redis.expire('sell_signals', 60);
 
-      const queueLength = await redis.llen('sell_signals');
+      const queueLength = await this.redis.llen('sell_signals');
       console.log(
         `   ✅ Sell signal created (queue length: ${queueLength})`,
       );
@@ -1449,7 +1578,7 @@ export class WalletTracker {
 
       await sendTelegramAlert(
         chatId,
-        `${dexEmoji} BUY SIGNAL (${txDetails.dex})\n\n` +
+        `${profileTag(this.profile)}${dexEmoji} BUY SIGNAL (${txDetails.dex})\n\n` +
           `Trader: ${wallet.name}\n` +
           `Token: ${txDetails.mint.slice(0, 16)}...\n` +
           `Amount: ${txDetails.solAmount.toFixed(4)} SOL\n` +
@@ -1491,7 +1620,7 @@ export class WalletTracker {
 
       await sendTelegramAlert(
         chatId,
-        `⚠️ SELL SIGNAL (${txDetails.dex})\n\n` +
+        `${profileTag(this.profile)}⚠️ SELL SIGNAL (${txDetails.dex})\n\n` +
           `Trader: ${wallet.name}\n` +
           `Token: ${txDetails.mint.slice(0, 16)}...\n` +
           `Amount: ${txDetails.solAmount.toFixed(4)} SOL\n` +
@@ -1524,8 +1653,8 @@ export class WalletTracker {
       }
 
       this.trackedWallets.delete(walletAddress);
-      await redis.del(`wallet:${walletAddress}`);
-      await redis.srem('tracked_wallets', walletAddress);
+      await this.redis.del(`wallet:${walletAddress}`);
+      await this.redis.srem('tracked_wallets', walletAddress);
 
       console.log(
         `✅ Stopped tracking: ${walletAddress.slice(0, 8)}...`,
@@ -1540,6 +1669,106 @@ export class WalletTracker {
     }
   }
 
+  // ✅/⛔ Activar o pausar una wallet sin borrarla.
+  // Al reactivar, el score empieza de cero (periodo de prueba).
+  async setWalletEnabled(
+    walletAddress: string,
+    enabled: boolean,
+  ): Promise<boolean> {
+    try {
+      const exists = await this.redis.sismember('tracked_wallets', walletAddress);
+      if (!exists) return false;
+
+      if (enabled) {
+        await this.redis.hset(`wallet:${walletAddress}`, {
+          enabled: 'true',
+          autoDisabled: 'false',
+          disabledReason: '',
+          scoreResetAt: Date.now().toString(),
+        });
+      } else {
+        await this.redis.hset(`wallet:${walletAddress}`, {
+          enabled: 'false',
+          disabledReason: 'manual',
+          disabledAt: Date.now().toString(),
+        });
+      }
+
+      await this.applyWalletEnabled(walletAddress, enabled);
+      return true;
+    } catch (error: any) {
+      console.error(
+        `❌ Error updating wallet ${walletAddress}:`,
+        error?.message ?? String(error),
+      );
+      return false;
+    }
+  }
+
+  private async applyWalletEnabled(
+    walletAddress: string,
+    enabled: boolean,
+  ): Promise<void> {
+    const wallet = this.trackedWallets.get(walletAddress);
+    if (!wallet || wallet.enabled === enabled) return;
+
+    wallet.enabled = enabled;
+
+    if (enabled) {
+      await this.addWalletToQueue(walletAddress);
+      console.log(`✅ Wallet re-enabled: ${wallet.name}`);
+      return;
+    }
+
+    const subscriptionId = this.subscriptions.get(walletAddress);
+    if (subscriptionId !== undefined) {
+      try {
+        await this.connection.removeOnLogsListener(subscriptionId);
+      } catch {
+        // ignore
+      }
+      this.subscriptions.delete(walletAddress);
+    }
+    console.log(`⛔ Wallet disabled: ${wallet.name}`);
+  }
+
+  private async syncWalletStates(): Promise<void> {
+    try {
+      for (const [address, wallet] of this.trackedWallets.entries()) {
+        const enabled = await this.redis.hget(`wallet:${address}`, 'enabled');
+        if (enabled === null) continue;
+
+        const shouldBeEnabled = enabled === 'true';
+        if (shouldBeEnabled !== wallet.enabled) {
+          await this.applyWalletEnabled(address, shouldBeEnabled);
+        }
+      }
+
+      // 🔎 Wallets añadidas desde otro proceso (walletDiscovery --add, API)
+      const addresses = await this.redis.smembers('tracked_wallets');
+      for (const address of addresses) {
+        if (this.trackedWallets.has(address)) continue;
+
+        const walletData = (await this.redis.hgetall(
+          `wallet:${address}`,
+        )) as Record<string, string>;
+        if (!walletData || Object.keys(walletData).length === 0) continue;
+
+        const tracked = this.walletFromRedis(address, walletData);
+        this.trackedWallets.set(address, tracked);
+        console.log(`➕ Picked up wallet from Redis: ${tracked.name}`);
+        if (tracked.enabled) {
+          await this.addWalletToQueue(address);
+        }
+      }
+    } catch (error: any) {
+      console.log(
+        '⚠️ Wallet state sync failed:',
+        error?.message ?? String(error),
+      );
+    }
+  }
+
   getTrackedWallets(): Array<{
     address: string;
     name: string;
@@ -1576,7 +1805,7 @@ export class WalletTracker {
 
   async loadWalletsFromRedis(): Promise<void> {
     try {
-      const walletAddresses = await redis.smembers(
+      const walletAddresses = await this.redis.smembers(
         'tracked_wallets',
       );
 
@@ -1586,34 +1815,12 @@ export class WalletTracker {
 
       // Cargar metadata primero (sin subscribir aún)
       for (const address of walletAddresses) {
-        const walletData = (await redis.hgetall(
+        const walletData = (await this.redis.hgetall(
           `wallet:${address}`,
         )) as Record<string, string>;
 
         if (walletData && Object.keys(walletData).length > 0) {
-          const pubkey = new PublicKey(address);
-
-          const tracked: TrackedWalletInternal = {
-            pubkey,
-            name: walletData.name,
-            copyPercentage: parseFloat(
-              walletData.copyPercentage ?? '100',
-            ),
-            minAmount: parseFloat(
-              walletData.minAmount ?? String(POSITION_SIZE_SOL),
-            ),
-            maxAmount: parseFloat(
-              walletData.maxAmount ?? String(POSITION_SIZE_SOL),
-            ),
-            enabled: walletData.enabled === 'true',
-            stats: {
-              totalTrades: 0,
-              copiedTrades: 0,
-              wins: 0,
-              losses: 0,
-            },
-          };
-
+          const tracked = this.walletFromRedis(address, walletData);
           this.trackedWallets.set(address, tracked);
         }
       }
@@ -1636,16 +1843,219 @@ export class WalletTracker {
     }
   }
 
+  // wallet:<address> → config interna (stats a cero)
+  private walletFromRedis(
+    address: string,
+    walletData: Record<string, string>,
+  ): TrackedWalletInternal {
+    return {
+      pubkey: new PublicKey(address),
+      name: walletData.name,
+      copyPercentage: parseFloat(walletData.copyPercentage ?? '100'),
+      minAmount: parseFloat(
+        walletData.minAmount ?? String(DEFAULT_WALLET_MIN_SOL),
+      ),
+      maxAmount: parseFloat(
+        walletData.maxAmount ?? String(DEFAULT_WALLET_MAX_SOL),
+      ),
+      enabled: walletData.enabled === 'true',
+      sizingMode: normalizeSizingMode(walletData.sizingMode),
+      stats: {
+        totalTrades: 0,
+        copiedTrades: 0,
+        wins: 0,
+        losses: 0,
+      },
+    };
+  }
+
+  // 📜 BACKFILL: historial on-chain de una wallet (seguida o no) a través
+  // del mismo parser que los logs live. Todas las llamadas van por el
+  // RPCRateLimiter con prioridad baja.
+  async backfillWallet(
+    walletAddress: string,
+    options: BackfillOptions = {},
+  ): Promise<WalletBackfillStatus | null> {
+    if (this.backfillsRunning.has(walletAddress)) {
+      console.log(`   ⏭️ Backfill already running for ${walletAddress.slice(0, 8)}`);
+      return null;
+    }
+
+    const maxSignatures = Math.max(
+      options.maxSignatures ?? WALLET_BACKFILL_MAX_SIGNATURES,
+      1,
+    );
+    const maxAgeDays = options.maxAgeDays ?? WALLET_BACKFILL_MAX_AGE_DAYS;
+    const cutoffSeconds =
+      maxAgeDays > 0 ? (Date.now() - maxAgeDays * 86_400_000) / 1000 : 0;
+
+    const status: WalletBackfillStatus = {
+      status: 'running',
+      startedAt: Date.now(),
+      scannedSignatures: 0,
+      parsedSwaps: 0,
+      newSwaps: 0,
+    };
+
+    this.backfillsRunning.add(walletAddress);
+    const limiter = getRateLimiter();
+
+    try {
+      const pubkey = new PublicKey(walletAddress);
+      await setBackfillStatus(this.redis, walletAddress, status);
+      console.log(
+        `📜 ${profileTag(this.profile)}Backfilling ${walletAddress.slice(0, 8)} (max ${maxSignatures} txs, ${maxAgeDays || '∞'} days)...`,
+      );
+
+      const known = new Set(
+        (await loadWalletSwaps(this.redis, walletAddress)).map(s => s.signature),
+      );
+      const swaps: WalletSwapRecord[] = [];
+      let before: string | undefined;
+      let done = false;
+
+      while (!done && status.scannedSignatures! < maxSignatures) {
+        const batch = await limiter.request(
+          () =>
+            this.connection.getSignaturesForAddress(pubkey, {
+              before,
+              limit: Math.min(1000, maxSignatures - status.scannedSignatures!),
+            }),
+          'low',
+        );
+        if (batch.length === 0) break;
+        before = batch[batch.length - 1].signature;
+
+        for (const sig of batch) {
+          if (cutoffSeconds > 0 && sig.blockTime && sig.blockTime < cutoffSeconds) {
+            done = true;
+            break;
+          }
+          status.scannedSignatures!++;
+          if (sig.err || known.has(sig.signature)) continue;
+
+          const tx: any = await limiter.request(
+            () =>
+              this.connection.getTransaction(sig.signature, {
+                commitment: 'confirmed',
+                maxSupportedTransactionVersion: 0,
+              }),
+            'low',
+          );
+          if (!tx || !tx.meta) continue;
+
+          const dexType = this.detectDEXType(tx.meta.logMessages ?? []);
+          if (!dexType) continue;
+
+          const txDetails = await this.parseFetchedTransaction(
+            tx,
+            sig.signature,
+            walletAddress,
+            dexType,
+          );
+          if (!txDetails) continue;
+
+          swaps.push(this.toSwapRecord(txDetails, 'backfill'));
+          status.parsedSwaps!++;
+        }
+      }
+
+      status.newSwaps = await mergeWalletSwaps(this.redis, walletAddress, swaps);
+      status.status = 'done';
+      status.finishedAt = Date.now();
+      await setBackfillStatus(this.redis, walletAddress, status);
+
+      const history = this.leaderHistory(
+        await this.redis.lrange(`wallet_trades:${walletAddress}`, 0, -1),
+      );
+      console.log(
+        `✅ ${profileTag(this.profile)}Backfill ${walletAddress.slice(0, 8)}: ${status.parsedSwaps} swaps ` +
+          `(${status.newSwaps} new) | ${history.roundTrips} round-trips, ` +
+          `${history.winRate.toFixed(1)}% win, PnL ${history.pnlSol.toFixed(4)} SOL`,
+      );
+      return status;
+    } catch (error: any) {
+      status.status = 'failed';
+      status.finishedAt = Date.now();
+      status.error = error?.message ?? String(error);
+      console.log(`⚠️ Backfill failed for ${walletAddress.slice(0, 8)}:`, status.error);
+      try {
+        await setBackfillStatus(this.redis, walletAddress, status);
+      } catch {
+        // ignore
+      }
+      return status;
+    } finally {
+      this.backfillsRunning.delete(walletAddress);
+    }
+  }
+
+  isBackfillRunning(walletAddress: string): boolean {
+    return this.backfillsRunning.has(walletAddress);
+  }
+
+  private toSwapRecord(
+    txDetails: TxDetails,
+    source: WalletSwapRecord['source'],
+  ): WalletSwapRecord {
+    return {
+      signature: txDetails.signature,
+      mint: txDetails.mint,
+      action: txDetails.action,
+      tokenAmount: txDetails.tokenAmount,
+      solAmount: txDetails.solAmount,
+      timestamp: txDetails.timestamp,
+      slot: txDetails.slot,
+      dex: txDetails.dex,
+      source,
+    };
+  }
+
+  private async recordLeaderSwap(
+    walletAddress: string,
+    txDetails: TxDetails,
+    source: WalletSwapRecord['source'],
+  ): Promise<void> {
+    try {
+      await recordWalletSwap(
+        this.redis,
+        walletAddress,
+        this.toSwapRecord(txDetails, source),
+      );
+    } catch (error: any) {
+      console.log(
+        '⚠️ Failed to record leader swap:',
+        error?.message ?? String(error),
+      );
+    }
+  }
+
+  // wallet_trades:<address> → resumen de round-trips
+  private leaderHistory(rows: string[]): WalletHistorySummary {
+    const swaps = rows
+      .map(row => {
+        try {
+          return JSON.parse(row) as WalletSwapRecord;
+        } catch {
+          return null;
+        }
+      })
+      .filter((s): s is WalletSwapRecord => s !== null && !!s.signature);
+    const { roundTripList: _trips, openHoldings: _open, ...summary } =
+      summarizeWalletHistory(swaps);
+    return summary;
+  }
+
   async getWalletStats(
     walletAddress: string,
   ): Promise<WalletStats | null> {
     try {
-      const trades = await redis.lrange(
+      const trades = await this.redis.lrange(
         `wallet_trades:${walletAddress}`,
         0,
         -1,
       );
-      const copiedTrades = await redis.lrange(
+      const copiedTrades = await this.redis.lrange(
         `copied_from:${walletAddress}`,
         0,
         -1,
@@ -1693,6 +2103,8 @@ export class WalletTracker {
           totalPnL >= 0 ? '+' : ''
         }${totalPnL.toFixed(4)} SOL`,
         dexStats,
+        score: await getWalletScore(this.redis, walletAddress),
+        history: this.leaderHistory(trades),
       };
     } catch (error: any) {
       console.error(
@@ -1732,22 +2144,31 @@ export class WalletTracker {
   }
 }
 
-// --- Singleton & helpers (igual que en JS) ---
+// --- Singleton & helpers (uno por perfil) ---
 
-let trackerInstance: WalletTracker | null = null;
+const trackerInstances = new Map<string, WalletTracker>();
 
-export async function initWalletTracker(): Promise<WalletTracker | null> {
+export async function initWalletTracker(
+  profile: TradingProfile = getDefaultProfile(),
+): Promise<WalletTracker | null> {
   if (!process.env.RPC_URL) {
     console.log('⚠️ RPC_URL not set, skipping wallet tracker');
     return null;
   }
 
-  trackerInstance = new WalletTracker(process.env.RPC_URL);
-  await trackerInstance.loadWalletsFromRedis();
+  const existing = trackerInstances.get(profile.id);
+  if (existing) return existing;
+
+  const tracker = new WalletTracker(process.env.RPC_URL, profile);
+  trackerInstances.set(profile.id, tracker);
+  await tracker.loadWalletsFromRedis();
 
-  return trackerInstance;
+  return tracker;
 }
 
-export function getWalletTracker(): WalletTracker | null {
-  return trackerInstance;
+// Sin id → perfil default
+export function getWalletTracker(profileId?: string | null): WalletTracker | null {
+  const profile = getProfile(profileId);
+  if (!profile) return null;
+  return trackerInstances.get(profile.id) ?? null;
 }
@@ -1,7 +1,11 @@
 // worker.ts - Copy Trading Worker with ENV CLEANER + Graduation Monitor + SNIPER MODE
 import 'dotenv/config';
 import { cleanAndValidateEnv } from './envCleaner.js';
-import { isDryRunEnabled, ENABLE_AUTO_TRADING } from './environment.js';
+import {
+  isDryRunEnabled,
+  ENABLE_AUTO_TRADING,
+  RUG_GUARD_ENABLED,
+} from './environment.js';
 
 console.log('🚀 Starting Copy Trading Worker...\n');
 
@@ -11,6 +15,12 @@ const envCleaner: unknown = cleanAndValidateEnv();
 import { Redis as RedisClass } from 'ioredis';
 import type { Redis as RedisClient } from 'ioredis';
 import { startSniperMode } from './snipeNewTokens.js';
+import {
+  getProfiles,
+  getProfileRedis,
+  isMultiProfile,
+  profileTag,
+} from './profiles.js';
 
 let redisClient: RedisClient | null = null;
 
@@ -73,18 +83,34 @@ async function startWorker(): Promise<void> {
       `   Program: ${process.env.PUMP_PROGRAM_ID?.slice(0, 10)}...\n`,
     );
 
+    const profiles = getProfiles();
+    if (isMultiProfile()) {
+      console.log(`👥 Profiles (${profiles.length}):`);
+      for (const profile of profiles) {
+        console.log(
+          `   ${profile.label}: ${profile.dryRun ? '📄 PAPER' : '💰 LIVE'}, ` +
+            `trading ${profile.autoTrading ? 'ON' : 'OFF'}, ` +
+            `${profile.positionSizeSol} SOL, ` +
+            `redis prefix "${profile.redisPrefix}"`,
+        );
+      }
+      console.log('');
+    }
+
     // --- Módulos principales ---
 
-    // 1. Inicializar Wallet Tracker
-    try {
-      const { initWalletTracker } = await import('./walletTracker.js');
-      await initWalletTracker();
-      console.log('✅ Wallet Tracker initialized');
-    } catch (e: any) {
-      console.log(
-        '⚠️ Wallet Tracker init failed:',
-        e?.message ?? String(e),
-      );
+    // 1. Inicializar Wallet Tracker (uno por perfil)
+    for (const profile of profiles) {
+      try {
+        const { initWalletTracker } = await import('./walletTracker.js');
+        await initWalletTracker(profile);
+        console.log(`✅ ${profileTag(profile)}Wallet Tracker initialized`);
+      } catch (e: any) {
+        console.log(
+          `⚠️ ${profileTag(profile)}Wallet Tracker init failed:`,
+          e?.message ?? String(e),
+        );
+      }
     }
 
     // 2. Inicializar Price Service (singleton)
@@ -99,32 +125,61 @@ async function startWorker(): Promise<void> {
       );
     }
 
-    // 3. GraduationHandler: monitor automático de graduación
-    try {
-      const { GraduationHandler } = await import('./graduationHandler.js');
-      const graduationHandler = new GraduationHandler();
-      // Se asume que monitorOpenPositions arranca su propio loop interno
-      void graduationHandler.monitorOpenPositions();
-      console.log('✅ Graduation Handler monitor started');
-    } catch (e: any) {
-      console.log(
-        '⚠️ Graduation Handler init failed:',
-        e?.message ?? String(e),
-      );
+    // 3. GraduationHandler: monitor automático de graduación (por perfil)
+    for (const profile of profiles) {
+      try {
+        const { GraduationHandler } = await import('./graduationHandler.js');
+        const graduationHandler = new GraduationHandler(
+          getProfileRedis(profile),
+        );
+        // Se asume que monitorOpenPositions arranca su propio loop interno
+        void graduationHandler.monitorOpenPositions();
+        console.log(`✅ ${profileTag(profile)}Graduation Handler monitor started`);
+      } catch (e: any) {
+        console.log(
+          `⚠️ ${profileTag(profile)}Graduation Handler init failed:`,
+          e?.message ?? String(e),
+        );
+      }
     }
 
-    // 4. Copy Monitor (ejecutor principal de copy trading)
-    try {
-      await import('./copyMonitor.js');
-      console.log('✅ Copy Monitor started');
-    } catch (e: any) {
-      console.log(
-        '❌ Copy Monitor failed to start:',
-        e?.message ?? String(e),
-      );
+    // 3b. RugGuard: creador + bonding curve de posiciones abiertas (por perfil)
+    if (RUG_GUARD_ENABLED) {
+      for (const profile of profiles) {
+        try {
+          const { RugGuard } = await import('./rugGuard.js');
+          const rugGuard = new RugGuard(
+            getProfileRedis(profile),
+            profileTag(profile),
+          );
+          rugGuard.start();
+          console.log(`✅ ${profileTag(profile)}Rug Guard started`);
+        } catch (e: any) {
+          console.log(
+            `⚠️ ${profileTag(profile)}Rug Guard init failed:`,
+            e?.message ?? String(e),
+          );
+        }
+      }
     }
 
-    // 5. SNIPER MODE (ALL NEW TOKENS - Pump.fun)
+    // 4. Copy Monitor (ejecutor principal de copy trading, uno por perfil)
+    for (const profile of profiles) {
+      try {
+        const { startCopyMonitor } = await import('./copyMonitor.js');
+        await startCopyMonitor(profile);
+        console.log(
+          `✅ ${profileTag(profile)}Copy Monitor started (positions + signal queues)`,
+        );
+      } catch (e: any) {
+        console.log(
+          `❌ ${profileTag(profile)}Copy Monitor failed to start:`,
+          e?.message ?? String(e),
+        );
+      }
+    }
+
+    // 5. SNIPER MODE (ALL NEW TOKENS - Pump.fun, solo perfil default)
     try {
       await startSniperMode();
       console.log('✅ Sniper Mode initialized');
@@ -171,6 +226,20 @@ async function startWorker(): Promise<void> {
         console.log(`   Open Positions: ${openPositions}`);
         console.log(`   Pending Signals: ${pendingSignals}`);
 
+        try {
+          const { getRiskGovernor } = await import('./riskGovernor.js');
+          const risk = await getRiskGovernor(redis).getStatus();
+          if (risk.killSwitch.active) {
+            console.log(
+              `   🛑 Kill switch ON (${risk.killSwitch.reason ?? 'manual'}) - no new buys`,
+            );
+          } else if (risk.breaker.active) {
+            console.log(`   ⚡ Circuit breaker: ${risk.breaker.reason}`);
+          }
+        } catch {
+          // el governor es opcional para el log
+        }
+
         // Obtener stats de hoy (usando TradingAnalytics si existe)
         try {
           const { TradingAnalytics } = await import('./analytics.js');